@@ -14,6 +14,15 @@ validateEncryptionKey();
 // Initialize database tables
 await initDb();
 
+// Answer Xibo API calls from the in-memory simulator, for demos without a CMS
+if (getEnv("XIBO_SIMULATOR")) {
+  const { createXiboSimulator, installXiboSimulator, SIMULATOR_API_URL } = await import(
+    "#test-utils/xibo-simulator.ts"
+  );
+  installXiboSimulator(createXiboSimulator());
+  console.log(`Xibo simulator on ${SIMULATOR_API_URL} (any client ID and secret)`);
+}
+
 const port = Number(getEnv("PORT") || "3000");
 console.log(`Starting server on http://localhost:${port}`);
 
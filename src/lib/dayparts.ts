@@ -0,0 +1,81 @@
+/**
+ * Menu screen dayparts — optional active days and hours.
+ *
+ * Days are ISO weekday numbers (1 = Monday .. 7 = Sunday) stored as a
+ * comma-separated string, matching Xibo's `recurrenceRepeatsOn`.
+ * Times are 24-hour "HH:MM". A range whose end is at or before its
+ * start runs past midnight (e.g. 22:00–02:00).
+ */
+
+import type { MenuScreenDaypart } from "#lib/types.ts";
+
+/** Weekday options in ISO order */
+export const WEEKDAYS: { value: string; label: string }[] = [
+  { value: "1", label: "Mon" },
+  { value: "2", label: "Tue" },
+  { value: "3", label: "Wed" },
+  { value: "4", label: "Thu" },
+  { value: "5", label: "Fri" },
+  { value: "6", label: "Sat" },
+  { value: "7", label: "Sun" },
+];
+
+/** Matches a 24-hour HH:MM time */
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Validate a 24-hour HH:MM time string */
+export const validateTime = (value: string): string | null =>
+  TIME_PATTERN.test(value) ? null : "Times must be in HH:MM format";
+
+/** Matches a comma-separated list of ISO weekday numbers, e.g. "6,7" */
+const DAYS_PATTERN = /^[1-7](,[1-7])*$/;
+
+/**
+ * Validate that a daypart's days are weekdays and its hour range is
+ * complete and non-empty.  Days on their own are fine (active all day
+ * on those days).
+ */
+export const validateDaypart = (daypart: MenuScreenDaypart): string | null => {
+  if (daypart.active_days !== null && !DAYS_PATTERN.test(daypart.active_days)) {
+    return "Active days must be weekdays";
+  }
+  if ((daypart.active_from === null) !== (daypart.active_to === null)) {
+    return "Set both a start and end time, or neither";
+  }
+  if (daypart.active_from !== null && daypart.active_from === daypart.active_to) {
+    return "Start and end times must differ";
+  }
+  return null;
+};
+
+/** True when the daypart places no restriction on days or hours */
+export const isAlwaysActive = (daypart: MenuScreenDaypart): boolean =>
+  daypart.active_days === null &&
+  daypart.active_from === null &&
+  daypart.active_to === null;
+
+/** Stable key identifying a daypart, for grouping menu screens */
+export const daypartKey = (daypart: MenuScreenDaypart): string =>
+  [daypart.active_days, daypart.active_from, daypart.active_to]
+    .map((part) => part ?? "")
+    .join("|");
+
+/** Human-readable day list, e.g. "Mon, Tue" */
+const formatDays = (days: string): string =>
+  WEEKDAYS
+    .filter((d) => days.split(",").includes(d.value))
+    .map((d) => d.label)
+    .join(", ");
+
+/**
+ * Human-readable daypart, e.g. "Mon, Tue 07:00–11:00", "Sat, Sun",
+ * "07:00–11:00" or "Always".
+ */
+export const formatDaypart = (daypart: MenuScreenDaypart): string => {
+  if (isAlwaysActive(daypart)) return "Always";
+  const hours = daypart.active_from === null
+    ? ""
+    : `${daypart.active_from}–${daypart.active_to}`;
+  const days = daypart.active_days === null ? "" : formatDays(daypart.active_days);
+  return [days, hours].filter((part) => part).join(" ");
+};
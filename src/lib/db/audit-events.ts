@@ -21,6 +21,7 @@ export type AuditAction =
   | "UPDATE"
   | "DELETE"
   | "PUBLISH"
+  | "ROLLBACK"
   | "IMPERSONATE"
   | "STOP_IMPERSONATE";
 
@@ -36,7 +37,9 @@ export type AuditResourceType =
   | "product"
   | "session"
   | "settings"
-  | "schedule";
+  | "schedule"
+  | "layout_template"
+  | "xibo_connection";
 
 /** Audit event row — same shape before and after decryption */
 export interface AuditEvent {
@@ -19,19 +19,25 @@ export interface DisplayBusiness {
   xibo_folder_id: number | null;
   folder_name: string | null;
   xibo_dataset_id: number | null;
+  xibo_connection_id: number | null;
   created_at: string;
 }
 
+/** Fields selected in all businesses queries */
+const BUSINESS_COLS = "id, name, xibo_folder_id, folder_name, xibo_dataset_id, xibo_connection_id, created_at";
+
 /**
- * Create a new business with encrypted fields
+ * Create a new business with encrypted fields, bound to a Xibo
+ * connection (null for the default connection)
  */
 export const createBusiness = async (
   name: string,
+  xiboConnectionId: number | null = null,
 ): Promise<Business> => {
   const { encName, encCreatedAt } = await prepareEncryptedFields(name);
   const id = await insertAndGetId(
-    "INSERT INTO businesses (name, created_at) VALUES (?, ?)",
-    [encName, encCreatedAt],
+    "INSERT INTO businesses (name, xibo_connection_id, created_at) VALUES (?, ?, ?)",
+    [encName, xiboConnectionId, encCreatedAt],
   );
 
   return {
@@ -40,6 +46,7 @@ export const createBusiness = async (
     xibo_folder_id: null,
     folder_name: null,
     xibo_dataset_id: null,
+    xibo_connection_id: xiboConnectionId,
     created_at: encCreatedAt,
   };
 };
@@ -49,7 +56,7 @@ export const createBusiness = async (
  */
 export const getBusinessById = (id: number): Promise<Business | null> =>
   queryOne<Business>(
-    "SELECT id, name, xibo_folder_id, folder_name, xibo_dataset_id, created_at FROM businesses WHERE id = ?",
+    `SELECT ${BUSINESS_COLS} FROM businesses WHERE id = ?`,
     [id],
   );
 
@@ -58,7 +65,7 @@ export const getBusinessById = (id: number): Promise<Business | null> =>
  */
 export const getAllBusinesses = (): Promise<Business[]> =>
   queryAll<Business>(
-    "SELECT id, name, xibo_folder_id, folder_name, xibo_dataset_id, created_at FROM businesses ORDER BY id ASC",
+    `SELECT ${BUSINESS_COLS} FROM businesses ORDER BY id ASC`,
   );
 
 /**
@@ -68,7 +75,7 @@ export const getBusinessesForUser = (
   userId: number,
 ): Promise<Business[]> =>
   queryAll<Business>(
-    `SELECT b.id, b.name, b.xibo_folder_id, b.folder_name, b.xibo_dataset_id, b.created_at
+    `SELECT b.id, b.name, b.xibo_folder_id, b.folder_name, b.xibo_dataset_id, b.xibo_connection_id, b.created_at
           FROM businesses b
           INNER JOIN business_users bu ON b.id = bu.business_id
           WHERE bu.user_id = ?
@@ -76,6 +83,19 @@ export const getBusinessesForUser = (
     [userId],
   );
 
+/**
+ * Count the businesses bound to a named Xibo connection
+ */
+export const countBusinessesForConnection = async (
+  xiboConnectionId: number,
+): Promise<number> => {
+  const result = await getDb().execute({
+    sql: "SELECT COUNT(*) AS count FROM businesses WHERE xibo_connection_id = ?",
+    args: [xiboConnectionId],
+  });
+  return Number(result.rows[0]!.count);
+};
+
 /**
  * Update a business name
  */
@@ -0,0 +1,97 @@
+/**
+ * Layout template storage
+ *
+ * Templates are declarative definitions (see #lib/templates/definition.ts)
+ * keyed by a short text ID that menu screens reference. The built-in
+ * templates are seeded by the migrations; owners add, edit and clone
+ * templates from the admin pages. Templates aren't business data, so
+ * they are stored in plain text.
+ */
+
+import type { InValue } from "@libsql/client";
+import { getDb, queryAll, queryOne } from "#lib/db/client.ts";
+import { nowIso } from "#lib/now.ts";
+import type { TemplateDefinition } from "#lib/templates/definition.ts";
+
+/** Layout template with its parsed definition */
+export type LayoutTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  maxProducts: number;
+  definition: TemplateDefinition;
+};
+
+/** Stored template row */
+type LayoutTemplateRow = {
+  id: string;
+  name: string;
+  description: string;
+  max_products: number;
+  definition: string; // JSON, validated before it is stored
+};
+
+/** Fields selected in all template queries */
+const TEMPLATE_COLS = "id, name, description, max_products, definition";
+
+/** Convert a stored row to a template */
+const toLayoutTemplate = (row: LayoutTemplateRow): LayoutTemplate => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  maxProducts: row.max_products,
+  definition: JSON.parse(row.definition),
+});
+
+/**
+ * Get all templates, in the order they were added
+ */
+export const getLayoutTemplates = async (): Promise<LayoutTemplate[]> =>
+  (await queryAll<LayoutTemplateRow>(
+    `SELECT ${TEMPLATE_COLS} FROM layout_templates ORDER BY rowid ASC`,
+  )).map(toLayoutTemplate);
+
+/**
+ * Get a template by ID
+ */
+export const getLayoutTemplate = async (id: string): Promise<LayoutTemplate | null> => {
+  const row = await queryOne<LayoutTemplateRow>(
+    `SELECT ${TEMPLATE_COLS} FROM layout_templates WHERE id = ?`,
+    [id],
+  );
+  return row && toLayoutTemplate(row);
+};
+
+/** Statement args for a template's stored columns, ending with its ID */
+const templateArgs = (template: LayoutTemplate): InValue[] => [
+  template.name,
+  template.description,
+  template.maxProducts,
+  JSON.stringify(template.definition),
+  nowIso(),
+  template.id,
+];
+
+/**
+ * Store a new template. Existing templates with the same ID are kept
+ * unchanged (used to seed the built-in templates).
+ */
+export const createLayoutTemplate = async (template: LayoutTemplate): Promise<void> => {
+  await getDb().execute({
+    sql: `INSERT OR IGNORE INTO layout_templates (name, description, max_products, definition, updated, id)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+    args: templateArgs(template),
+  });
+};
+
+/**
+ * Update a template's name, description, product limit and definition
+ */
+export const updateLayoutTemplate = async (template: LayoutTemplate): Promise<void> => {
+  await getDb().execute({
+    sql: `UPDATE layout_templates
+          SET name = ?, description = ?, max_products = ?, definition = ?, updated = ?
+          WHERE id = ?`,
+    args: templateArgs(template),
+  });
+};
@@ -3,8 +3,11 @@
  *
  * Menu screens represent user-configured display layouts for a screen.
  * Each menu screen maps to a Xibo layout and contains selected products.
+ * The columns and items hold the live (published) state; unpublished
+ * edits are kept as an encrypted draft until the user publishes them.
  */
 
+import { decrypt, encrypt } from "#lib/crypto.ts";
 import { executeByField, getDb, queryAll, queryOne } from "#lib/db/client.ts";
 import {
   decryptEntity,
@@ -12,7 +15,13 @@ import {
   prepareEncryptedFields,
   updateField,
 } from "#lib/db/entity-helpers.ts";
-import type { MenuScreen, MenuScreenItem } from "#lib/types.ts";
+import type {
+  MenuScreen,
+  MenuScreenContent,
+  MenuScreenDaypart,
+  MenuScreenItem,
+} from "#lib/types.ts";
+import type { XiboLayout } from "#xibo/types.ts";
 
 /**
  * Decrypted menu screen for display.
@@ -23,7 +32,14 @@ export type DisplayMenuScreen = MenuScreen;
 
 /** Fields selected in all menu_screens queries */
 const MENU_SCREEN_COLS =
-  "id, name, screen_id, template_id, display_time, sort_order, xibo_layout_id, xibo_campaign_id, created_at";
+  "id, name, screen_id, template_id, display_time, sort_order, xibo_layout_id, xibo_layout_campaign_id, xibo_campaign_id, active_days, active_from, active_to, draft, created_at";
+
+/** Daypart for a menu screen that is always active */
+export const ALWAYS_ACTIVE: MenuScreenDaypart = {
+  active_days: null,
+  active_from: null,
+  active_to: null,
+};
 
 /**
  * Create a new menu screen with encrypted fields
@@ -34,11 +50,13 @@ export const createMenuScreen = async (
   templateId: string,
   displayTime: number,
   sortOrder: number,
+  daypart: MenuScreenDaypart = ALWAYS_ACTIVE,
 ): Promise<MenuScreen> => {
   const { encName, encCreatedAt } = await prepareEncryptedFields(name);
+  const { active_days, active_from, active_to } = daypart;
   const id = await insertAndGetId(
-    "INSERT INTO menu_screens (name, screen_id, template_id, display_time, sort_order, created_at) VALUES (?, ?, ?, ?, ?, ?)",
-    [encName, screenId, templateId, displayTime, sortOrder, encCreatedAt],
+    "INSERT INTO menu_screens (name, screen_id, template_id, display_time, sort_order, active_days, active_from, active_to, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    [encName, screenId, templateId, displayTime, sortOrder, active_days, active_from, active_to, encCreatedAt],
   );
 
   return {
@@ -49,7 +67,12 @@ export const createMenuScreen = async (
     display_time: displayTime,
     sort_order: sortOrder,
     xibo_layout_id: null,
+    xibo_layout_campaign_id: null,
     xibo_campaign_id: null,
+    active_days,
+    active_from,
+    active_to,
+    draft: null,
     created_at: encCreatedAt,
   };
 };
@@ -74,6 +97,19 @@ export const getMenuScreensForScreen = (
     [screenId],
   );
 
+/**
+ * Get a business's menu screens whose live items include a product,
+ * across all of its screens, ordered by screen then sort_order
+ */
+export const getMenuScreensForProduct = (
+  businessId: number,
+  productRowId: number,
+): Promise<MenuScreen[]> =>
+  queryAll<MenuScreen>(
+    `SELECT ${MENU_SCREEN_COLS} FROM menu_screens WHERE screen_id IN (SELECT id FROM screens WHERE business_id = ?) AND id IN (SELECT menu_screen_id FROM menu_screen_items WHERE product_row_id = ?) ORDER BY screen_id ASC, sort_order ASC, id ASC`,
+    [businessId, productRowId],
+  );
+
 /**
  * Update a menu screen's editable fields
  */
@@ -83,21 +119,28 @@ export const updateMenuScreen = async (
   templateId: string,
   displayTime: number,
   sortOrder: number,
+  daypart: MenuScreenDaypart = ALWAYS_ACTIVE,
 ): Promise<void> => {
   const { encName } = await prepareEncryptedFields(name);
   await getDb().execute({
-    sql: "UPDATE menu_screens SET name = ?, template_id = ?, display_time = ?, sort_order = ? WHERE id = ?",
-    args: [encName, templateId, displayTime, sortOrder, id],
+    sql: "UPDATE menu_screens SET name = ?, template_id = ?, display_time = ?, sort_order = ?, active_days = ?, active_from = ?, active_to = ? WHERE id = ?",
+    args: [encName, templateId, displayTime, sortOrder, daypart.active_days, daypart.active_from, daypart.active_to, id],
   });
 };
 
 /**
- * Update the Xibo layout ID for a menu screen
+ * Record the Xibo layout built for a menu screen: its ID and its
+ * layout-specific campaign, which later edits keep
  */
-export const updateMenuScreenLayoutId = (
+export const updateMenuScreenLayout = async (
   id: number,
-  xiboLayoutId: number,
-): Promise<void> => updateField("menu_screens", id, "xibo_layout_id", xiboLayoutId);
+  layout: Pick<XiboLayout, "layoutId" | "campaignId">,
+): Promise<void> => {
+  await getDb().execute({
+    sql: "UPDATE menu_screens SET xibo_layout_id = ?, xibo_layout_campaign_id = ? WHERE id = ?",
+    args: [layout.layoutId, layout.campaignId, id],
+  });
+};
 
 /**
  * Update the Xibo campaign ID for a menu screen
@@ -147,9 +190,58 @@ export const setMenuScreenItems = async (
   }
 };
 
+// ─── Drafts ─────────────────────────────────────────────────────────
+
+/**
+ * Save unpublished changes to a menu screen, replacing any existing draft
+ */
+export const saveMenuScreenDraft = async (
+  id: number,
+  content: MenuScreenContent,
+): Promise<void> =>
+  updateField("menu_screens", id, "draft", await encrypt(JSON.stringify(content)));
+
+/**
+ * Get a menu screen's decrypted draft, or null if it has none
+ */
+export const getMenuScreenDraft = async (
+  ms: MenuScreen,
+): Promise<MenuScreenContent | null> =>
+  ms.draft === null ? null : JSON.parse(await decrypt(ms.draft));
+
+/**
+ * Discard a menu screen's draft
+ */
+export const clearMenuScreenDraft = (id: number): Promise<void> =>
+  updateField("menu_screens", id, "draft", null);
+
+/**
+ * Get a menu screen's live (published) content with its selected products
+ */
+export const getLiveMenuScreenContent = async (
+  ms: DisplayMenuScreen,
+): Promise<MenuScreenContent> => ({
+  name: ms.name,
+  template_id: ms.template_id,
+  display_time: ms.display_time,
+  sort_order: ms.sort_order,
+  active_days: ms.active_days,
+  active_from: ms.active_from,
+  active_to: ms.active_to,
+  product_row_ids: (await getMenuScreenItems(ms.id)).map((i) => i.product_row_id),
+});
+
 /**
  * Decrypt a menu screen for display
  */
 export const toDisplayMenuScreen = (
   ms: MenuScreen,
 ): Promise<DisplayMenuScreen> => decryptEntity(ms);
+
+/**
+ * Get a screen's menu screens, decrypted, ordered by sort_order
+ */
+export const getDisplayMenuScreensForScreen = async (
+  screenId: number,
+): Promise<DisplayMenuScreen[]> =>
+  Promise.all((await getMenuScreensForScreen(screenId)).map(toDisplayMenuScreen));
@@ -3,11 +3,13 @@
  */
 
 import { getDb } from "#lib/db/client.ts";
+import { createLayoutTemplate } from "#lib/db/layout-templates.ts";
+import { BUILTIN_TEMPLATES } from "#lib/templates/builtin.ts";
 
 /**
  * The latest database update identifier - update this when changing schema
  */
-export const LATEST_UPDATE = "remove unused key columns";
+export const LATEST_UPDATE = "add screen displays";
 
 /**
  * Run a migration that may fail if already applied (e.g., adding a column that exists)
@@ -35,6 +37,15 @@ const isDbUpToDate = async (): Promise<boolean> => {
   }
 };
 
+/**
+ * Seed the built-in layout templates, keeping any already present as they are
+ */
+export const seedLayoutTemplates = async (): Promise<void> => {
+  for (const template of BUILTIN_TEMPLATES) {
+    await createLayoutTemplate(template);
+  }
+};
+
 /**
  * Initialize database tables
  */
@@ -241,6 +252,104 @@ export const initDb = async (): Promise<void> => {
     `DELETE FROM settings WHERE key IN ('wrapped_private_key', 'public_key')`,
   );
 
+  // Add daypart columns to menu_screens (null = always active)
+  await runMigration(`ALTER TABLE menu_screens ADD COLUMN active_days TEXT`);
+  await runMigration(`ALTER TABLE menu_screens ADD COLUMN active_from TEXT`);
+  await runMigration(`ALTER TABLE menu_screens ADD COLUMN active_to TEXT`);
+
+  // Create publish_snapshots table (menu screen state after each successful publish)
+  await runMigration(`
+    CREATE TABLE IF NOT EXISTS publish_snapshots (
+      publish_attempt_id INTEGER PRIMARY KEY REFERENCES publish_attempts(id),
+      screen_id INTEGER NOT NULL,
+      layout_ids TEXT NOT NULL,
+      data TEXT NOT NULL
+    )
+  `);
+  await runMigration(
+    `CREATE INDEX IF NOT EXISTS idx_publish_snapshots_screen ON publish_snapshots(screen_id)`,
+  );
+
+  // Add draft column to menu_screens (unpublished edits; live state stays in the other columns)
+  await runMigration(`ALTER TABLE menu_screens ADD COLUMN draft TEXT`);
+
+  // Add resolution columns to screens (existing screens keep the 1080x1920 portrait canvas)
+  await runMigration(`ALTER TABLE screens ADD COLUMN width INTEGER NOT NULL DEFAULT 1080`);
+  await runMigration(`ALTER TABLE screens ADD COLUMN height INTEGER NOT NULL DEFAULT 1920`);
+
+  // Create layout_templates table (declarative template definitions, keyed by menu_screens.template_id)
+  await runMigration(`
+    CREATE TABLE IF NOT EXISTS layout_templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT NOT NULL,
+      max_products INTEGER NOT NULL,
+      definition TEXT NOT NULL,
+      updated TEXT NOT NULL
+    )
+  `);
+
+  // Seed the built-in templates
+  await seedLayoutTemplates();
+
+  // Create xibo_connections table (named CMS connections beside the default one in settings)
+  await runMigration(`
+    CREATE TABLE IF NOT EXISTS xibo_connections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      api_url TEXT NOT NULL,
+      client_id TEXT NOT NULL,
+      client_secret TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+
+  // Bind businesses to a named connection (existing businesses stay on the default)
+  await runMigration(
+    `ALTER TABLE businesses ADD COLUMN xibo_connection_id INTEGER REFERENCES xibo_connections(id)`,
+  );
+
+  // Tag cache entries by resource, and keep expired entries as stale copies
+  await runMigration(`ALTER TABLE cache ADD COLUMN tags TEXT NOT NULL DEFAULT ''`);
+  await runMigration(
+    `ALTER TABLE cache ADD COLUMN stale_until INTEGER NOT NULL DEFAULT 0`,
+  );
+
+  // Create xibo_state table (OAuth token and circuit breaker shared across isolates)
+  await runMigration(`
+    CREATE TABLE IF NOT EXISTS xibo_state (
+      key TEXT PRIMARY KEY,
+      token TEXT,
+      token_expires_at INTEGER NOT NULL DEFAULT 0,
+      breaker_state TEXT NOT NULL DEFAULT 'closed',
+      breaker_failures INTEGER NOT NULL DEFAULT 0,
+      breaker_last_failure_at INTEGER NOT NULL DEFAULT 0,
+      breaker_updated_at INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+
+  // Track layouts by their layout-specific campaign, which survives publishing
+  // an edit's draft (the layout ID doesn't); existing rows keep their layout IDs
+  await runMigration(`ALTER TABLE menu_screens ADD COLUMN xibo_layout_campaign_id INTEGER`);
+  await runMigration(
+    `ALTER TABLE publish_snapshots ADD COLUMN layout_campaign_ids TEXT NOT NULL DEFAULT ''`,
+  );
+
+  // Create screen_displays table (a screen mirrored across several displays through a display group)
+  await runMigration(`
+    CREATE TABLE IF NOT EXISTS screen_displays (
+      screen_id INTEGER NOT NULL REFERENCES screens(id),
+      xibo_display_id INTEGER NOT NULL,
+      PRIMARY KEY (screen_id, xibo_display_id)
+    )
+  `);
+  await runMigration(`ALTER TABLE screens ADD COLUMN xibo_display_group_id INTEGER`);
+  // Existing screens keep their one display, which stays the primary
+  await runMigration(`
+    INSERT OR IGNORE INTO screen_displays (screen_id, xibo_display_id)
+    SELECT id, xibo_display_id FROM screens WHERE xibo_display_id IS NOT NULL
+  `);
+
   // Update the version marker
   await getDb().execute({
     sql:
@@ -253,13 +362,18 @@ export const initDb = async (): Promise<void> => {
  * All database tables in order for safe dropping (respects foreign key constraints)
  */
 const ALL_TABLES = [
+  "layout_templates",
+  "publish_snapshots",
   "publish_attempts",
   "audit_events",
   "menu_screen_items",
   "menu_screens",
+  "screen_displays",
   "screens",
   "business_users",
   "businesses",
+  "xibo_state",
+  "xibo_connections",
   "cache",
   "activity_log",
   "sessions",
@@ -7,6 +7,7 @@
  */
 
 import { getDb, queryAll, queryOne } from "#lib/db/client.ts";
+import { createRequestTimer, errorMessage } from "#lib/logger.ts";
 import { nowIso } from "#lib/now.ts";
 
 /** Publish attempt status */
@@ -59,6 +60,29 @@ export const completePublishAttempt = async (
   });
 };
 
+/**
+ * Run a publish operation inside a publish attempt.
+ * The operation receives the attempt ID. Records success with its duration,
+ * or failure with the error message, then returns the result or rethrows.
+ */
+export const withPublishAttempt = async <T>(
+  userId: number,
+  businessId: number,
+  screenId: number,
+  publish: (attemptId: number) => Promise<T>,
+): Promise<T> => {
+  const id = await createPublishAttempt(userId, businessId, screenId);
+  const elapsed = createRequestTimer();
+  try {
+    const result = await publish(id);
+    await completePublishAttempt(id, "success", elapsed());
+    return result;
+  } catch (e) {
+    await completePublishAttempt(id, "failed", elapsed(), errorMessage(e));
+    throw e;
+  }
+};
+
 /**
  * Get publish attempts for a business, most recent first.
  */
@@ -0,0 +1,139 @@
+/**
+ * Publish snapshots
+ *
+ * After each successful publish, the screen's menu screens (with their
+ * items, templates, dayparts, and Xibo layout/campaign IDs) are stored
+ * against the publish attempt, so the screen can be rolled back to it.
+ *
+ * Only the most recent snapshots per screen are kept. Layouts referenced
+ * by a kept snapshot must stay in Xibo. They are referenced by their
+ * layout-specific campaigns, as publishing an edit changes a layout's ID;
+ * `layout_campaign_ids` is stored in plain text so that check doesn't
+ * need to decrypt every snapshot (`layout_ids` records the layout IDs
+ * as published). The menu screen data itself (names included) is
+ * encrypted at rest.
+ */
+
+import { decrypt, encrypt } from "#lib/crypto.ts";
+import { executeByField, getDb, queryAll, queryOne } from "#lib/db/client.ts";
+import type { MenuScreen, MenuScreenContent } from "#lib/types.ts";
+
+/** Number of snapshots kept per screen */
+export const SNAPSHOTS_KEPT = 10;
+
+/** A menu screen as it was when the publish succeeded */
+export type SnapshotMenuScreen =
+  & MenuScreenContent
+  & Pick<MenuScreen, "xibo_layout_id" | "xibo_layout_campaign_id" | "xibo_campaign_id">;
+
+/** Decrypted publish snapshot */
+export interface PublishSnapshot {
+  publish_attempt_id: number;
+  screen_id: number;
+  menuScreens: SnapshotMenuScreen[];
+}
+
+/** Stored snapshot row */
+type SnapshotRow = {
+  publish_attempt_id: number;
+  screen_id: number;
+  layout_ids: string;
+  data: string; // encrypted JSON of SnapshotMenuScreen[]
+};
+
+/** Join IDs into a comma-separated list, skipping nulls */
+const joinIds = (ids: (number | null)[]): string =>
+  ids.filter((id) => id !== null).join(",");
+
+/** Parse a comma-separated ID list */
+const parseIds = (ids: string): number[] =>
+  ids ? ids.split(",").map(Number) : [];
+
+/**
+ * Store the menu screens published by a successful publish attempt.
+ */
+export const createPublishSnapshot = async (
+  publishAttemptId: number,
+  screenId: number,
+  menuScreens: SnapshotMenuScreen[],
+): Promise<void> => {
+  await getDb().execute({
+    sql: "INSERT INTO publish_snapshots (publish_attempt_id, screen_id, layout_ids, layout_campaign_ids, data) VALUES (?, ?, ?, ?, ?)",
+    args: [
+      publishAttemptId,
+      screenId,
+      joinIds(menuScreens.map((ms) => ms.xibo_layout_id)),
+      joinIds(menuScreens.map((ms) => ms.xibo_layout_campaign_id)),
+      await encrypt(JSON.stringify(menuScreens)),
+    ],
+  });
+};
+
+/**
+ * Get the snapshot taken by a publish attempt, decrypted.  Snapshots
+ * taken before layout campaigns were recorded have none.
+ */
+export const getPublishSnapshot = async (
+  publishAttemptId: number,
+): Promise<PublishSnapshot | null> => {
+  const row = await queryOne<SnapshotRow>(
+    "SELECT publish_attempt_id, screen_id, layout_ids, data FROM publish_snapshots WHERE publish_attempt_id = ?",
+    [publishAttemptId],
+  );
+  if (!row) return null;
+  const menuScreens: SnapshotMenuScreen[] = JSON.parse(await decrypt(row.data));
+  return {
+    publish_attempt_id: row.publish_attempt_id,
+    screen_id: row.screen_id,
+    menuScreens: menuScreens.map((ms) => ({ ...ms, xibo_layout_campaign_id: ms.xibo_layout_campaign_id ?? null })),
+  };
+};
+
+/** Snapshot refs for a screen, newest first, without decrypting the data */
+const getSnapshotRefs = (
+  screenId: number,
+): Promise<{ publish_attempt_id: number; layout_campaign_ids: string }[]> =>
+  queryAll(
+    "SELECT publish_attempt_id, layout_campaign_ids FROM publish_snapshots WHERE screen_id = ? ORDER BY publish_attempt_id DESC",
+    [screenId],
+  );
+
+/**
+ * Get a screen's snapshotted publish attempt IDs, and the campaigns of
+ * every Xibo layout they reference. Those layouts must not be deleted
+ * while the snapshot exists.
+ */
+export const getSnapshotIds = async (
+  screenId: number,
+): Promise<{ attemptIds: Set<number>; layoutCampaignIds: Set<number> }> => {
+  const refs = await getSnapshotRefs(screenId);
+  return {
+    attemptIds: new Set(refs.map((r) => r.publish_attempt_id)),
+    layoutCampaignIds: new Set(refs.flatMap((r) => parseIds(r.layout_campaign_ids))),
+  };
+};
+
+/**
+ * Check whether any snapshot references the Xibo layout of a layout campaign.
+ * Campaign IDs are unique across Xibo, so this needn't know the screen.
+ */
+export const isLayoutInSnapshot = async (layoutCampaignId: number): Promise<boolean> =>
+  (await queryOne(
+    "SELECT publish_attempt_id FROM publish_snapshots WHERE ',' || layout_campaign_ids || ',' LIKE ?",
+    [`%,${layoutCampaignId},%`],
+  )) !== null;
+
+/**
+ * Delete all but the newest `keep` snapshots for a screen.
+ * Returns the layout campaign IDs the deleted snapshots referenced.
+ */
+export const pruneSnapshots = async (
+  screenId: number,
+  keep = SNAPSHOTS_KEPT,
+): Promise<number[]> => {
+  const rows = (await getSnapshotRefs(screenId)).slice(keep);
+  for (const row of rows) {
+    await executeByField("publish_snapshots", "publish_attempt_id", row.publish_attempt_id);
+  }
+  return rows.flatMap((r) => parseIds(r.layout_campaign_ids));
+};
@@ -2,7 +2,8 @@
  * Screens table operations
  */
 
-import { executeByField, getDb, queryAll, queryOne } from "#lib/db/client.ts";
+import type { InStatement, InValue } from "@libsql/client";
+import { executeByField, getDb, queryAll, queryOne, updateField } from "#lib/db/client.ts";
 import {
   decryptEntity,
   insertAndGetId,
@@ -17,25 +18,41 @@ import type { Screen } from "#lib/types.ts";
  */
 export type DisplayScreen = Screen;
 
+/** Layout canvas size of a screen */
+export type ScreenSize = Pick<Screen, "width" | "height">;
+
+/** Size of screens without a display resolution (1080x1920 portrait, the column default) */
+export const DEFAULT_SCREEN_SIZE: ScreenSize = { width: 1080, height: 1920 };
+
+/** Fields selected in all screens queries */
+const SCREEN_COLS =
+  "id, name, business_id, xibo_display_id, xibo_display_group_id, width, height, created_at";
+
 /**
- * Create a new screen with encrypted fields
+ * Create a new screen with encrypted fields, sized to its display's resolution.
+ * The display, when given, is the screen's first and primary display.
  */
 export const createScreen = async (
   name: string,
   businessId: number,
   xiboDisplayId: number | null,
+  { width, height }: ScreenSize = DEFAULT_SCREEN_SIZE,
 ): Promise<Screen> => {
   const { encName, encCreatedAt } = await prepareEncryptedFields(name);
   const id = await insertAndGetId(
-    "INSERT INTO screens (name, business_id, xibo_display_id, created_at) VALUES (?, ?, ?, ?)",
-    [encName, businessId, xiboDisplayId, encCreatedAt],
+    "INSERT INTO screens (name, business_id, xibo_display_id, width, height, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+    [encName, businessId, xiboDisplayId, width, height, encCreatedAt],
   );
+  if (xiboDisplayId !== null) await addScreenDisplay(id, xiboDisplayId);
 
   return {
     id,
     name: encName,
     business_id: businessId,
     xibo_display_id: xiboDisplayId,
+    xibo_display_group_id: null,
+    width,
+    height,
     created_at: encCreatedAt,
   };
 };
@@ -45,7 +62,7 @@ export const createScreen = async (
  */
 export const getScreenById = (id: number): Promise<Screen | null> =>
   queryOne<Screen>(
-    "SELECT id, name, business_id, xibo_display_id, created_at FROM screens WHERE id = ?",
+    `SELECT ${SCREEN_COLS} FROM screens WHERE id = ?`,
     [id],
   );
 
@@ -56,27 +73,107 @@ export const getScreensForBusiness = (
   businessId: number,
 ): Promise<Screen[]> =>
   queryAll<Screen>(
-    "SELECT id, name, business_id, xibo_display_id, created_at FROM screens WHERE business_id = ? ORDER BY id ASC",
+    `SELECT ${SCREEN_COLS} FROM screens WHERE business_id = ? ORDER BY id ASC`,
     [businessId],
   );
 
 /**
- * Delete a screen and cascade delete its menu_screens
+ * Update a screen's layout canvas size
+ */
+export const updateScreenSize = async (
+  id: number,
+  { width, height }: ScreenSize,
+): Promise<void> => {
+  await getDb().execute({
+    sql: "UPDATE screens SET width = ?, height = ? WHERE id = ?",
+    args: [width, height, id],
+  });
+};
+
+/** Run a query selecting xibo_display_id, returning the IDs */
+const queryDisplayIds = async (sql: string, args: InValue[]): Promise<number[]> =>
+  (await queryAll<{ xibo_display_id: number }>(sql, args)).map((r) => r.xibo_display_id);
+
+/** Run a screen_displays change and the primary display update it implies, atomically */
+const writeScreenDisplays = async (statements: InStatement[]): Promise<void> => {
+  await getDb().batch(statements, "write");
+};
+
+/**
+ * Get the IDs of every display a screen is shown on, primary included
+ */
+export const getScreenDisplayIds = (screenId: number): Promise<number[]> =>
+  queryDisplayIds(
+    "SELECT xibo_display_id FROM screen_displays WHERE screen_id = ? ORDER BY xibo_display_id",
+    [screenId],
+  );
+
+/**
+ * Show a screen on another display.  A screen without a display takes
+ * it as its primary.
+ */
+export const addScreenDisplay = (screenId: number, xiboDisplayId: number): Promise<void> =>
+  writeScreenDisplays([
+    {
+      sql: "INSERT OR IGNORE INTO screen_displays (screen_id, xibo_display_id) VALUES (?, ?)",
+      args: [screenId, xiboDisplayId],
+    },
+    {
+      sql: "UPDATE screens SET xibo_display_id = ? WHERE id = ? AND xibo_display_id IS NULL",
+      args: [xiboDisplayId, screenId],
+    },
+  ]);
+
+/**
+ * Stop showing a screen on a display.  Removing the primary promotes
+ * the remaining display with the lowest ID, if any.
+ */
+export const removeScreenDisplay = (screenId: number, xiboDisplayId: number): Promise<void> =>
+  writeScreenDisplays([
+    {
+      sql: "DELETE FROM screen_displays WHERE screen_id = ? AND xibo_display_id = ?",
+      args: [screenId, xiboDisplayId],
+    },
+    {
+      sql: `UPDATE screens SET xibo_display_id =
+              (SELECT MIN(xibo_display_id) FROM screen_displays WHERE screen_id = ?)
+            WHERE id = ? AND xibo_display_id = ?`,
+      args: [screenId, screenId, xiboDisplayId],
+    },
+  ]);
+
+/**
+ * Record the Xibo display group a screen is scheduled on (null once deleted)
+ */
+export const updateScreenDisplayGroupId = (
+  id: number,
+  xiboDisplayGroupId: number | null,
+): Promise<void> => updateField("screens", id, "xibo_display_group_id", xiboDisplayGroupId);
+
+/**
+ * Delete a screen and cascade delete its menu_screens and displays
  */
 export const deleteScreen = async (id: number): Promise<void> => {
   await executeByField("menu_screens", "screen_id", id);
+  await executeByField("screen_displays", "screen_id", id);
   await executeByField("screens", "id", id);
 };
 
 /**
- * Get all xibo_display_ids that are already assigned to screens
+ * Get the display IDs already assigned to screens of businesses on
+ * a Xibo connection (null for the default). Display IDs are per CMS,
+ * so the same ID on another connection is a different display.
  */
-export const getAssignedDisplayIds = async (): Promise<number[]> => {
-  const result = await getDb().execute(
-    "SELECT xibo_display_id FROM screens WHERE xibo_display_id IS NOT NULL",
+export const getAssignedDisplayIds = (
+  xiboConnectionId: number | null = null,
+): Promise<number[]> =>
+  queryDisplayIds(
+    `SELECT sd.xibo_display_id FROM screen_displays sd
+     INNER JOIN screens s ON s.id = sd.screen_id
+     INNER JOIN businesses b ON b.id = s.business_id
+     WHERE b.xibo_connection_id IS ?`,
+    [xiboConnectionId],
   );
-  return result.rows.map((r) => r.xibo_display_id as number);
-};
 
 /**
  * Decrypt a screen for display
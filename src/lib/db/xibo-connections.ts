@@ -0,0 +1,139 @@
+/**
+ * Xibo connections table operations
+ *
+ * Named CMS connections used alongside the default connection in
+ * settings. Credentials are encrypted at rest like the default ones.
+ */
+
+import { decrypt, encrypt } from "#lib/crypto.ts";
+import { getDb, queryAll, queryOne } from "#lib/db/client.ts";
+import {
+  decryptEntity,
+  insertAndGetId,
+  prepareEncryptedFields,
+} from "#lib/db/entity-helpers.ts";
+import type { XiboConnection } from "#lib/types.ts";
+import type { XiboConfig } from "#xibo/types.ts";
+
+/** Decrypted connection for display (the secret stays encrypted) */
+export interface DisplayXiboConnection {
+  id: number;
+  name: string;
+  api_url: string;
+  client_id: string;
+  created_at: string;
+}
+
+/** Connection credentials as entered in the form */
+export type XiboConnectionInput = {
+  name: string;
+  apiUrl: string;
+  clientId: string;
+  clientSecret: string;
+};
+
+/** Fields selected in all connection queries */
+const CONNECTION_COLS = "id, name, api_url, client_id, client_secret, created_at";
+
+/** Encrypt the credentials of a connection, in column order */
+const encryptCredentials = async (
+  input: XiboConnectionInput,
+): Promise<string[]> => [
+  await encrypt(input.apiUrl),
+  await encrypt(input.clientId),
+  await encrypt(input.clientSecret),
+];
+
+/**
+ * Create a named connection, returning its ID
+ */
+export const createXiboConnection = async (
+  input: XiboConnectionInput,
+): Promise<number> => {
+  const { encName, encCreatedAt } = await prepareEncryptedFields(input.name);
+  return insertAndGetId(
+    "INSERT INTO xibo_connections (name, api_url, client_id, client_secret, created_at) VALUES (?, ?, ?, ?, ?)",
+    [encName, ...await encryptCredentials(input), encCreatedAt],
+  );
+};
+
+/**
+ * Get a connection by ID
+ */
+export const getXiboConnectionById = (
+  id: number,
+): Promise<XiboConnection | null> =>
+  queryOne<XiboConnection>(
+    `SELECT ${CONNECTION_COLS} FROM xibo_connections WHERE id = ?`,
+    [id],
+  );
+
+/**
+ * Get all connections
+ */
+export const getAllXiboConnections = (): Promise<XiboConnection[]> =>
+  queryAll<XiboConnection>(
+    `SELECT ${CONNECTION_COLS} FROM xibo_connections ORDER BY id ASC`,
+  );
+
+/**
+ * Replace a connection's name and credentials
+ */
+export const updateXiboConnection = async (
+  id: number,
+  input: XiboConnectionInput,
+): Promise<void> => {
+  await getDb().execute({
+    sql: "UPDATE xibo_connections SET name = ?, api_url = ?, client_id = ?, client_secret = ? WHERE id = ?",
+    args: [await encrypt(input.name), ...await encryptCredentials(input), id],
+  });
+};
+
+/**
+ * Delete a connection
+ */
+export const deleteXiboConnection = async (id: number): Promise<void> => {
+  await getDb().execute({
+    sql: "DELETE FROM xibo_connections WHERE id = ?",
+    args: [id],
+  });
+};
+
+/**
+ * Decrypt a connection for display
+ */
+export const toDisplayXiboConnection = async (
+  connection: XiboConnection,
+): Promise<DisplayXiboConnection> => {
+  const { id, name, api_url, client_id, created_at } = await decryptEntity(connection);
+  return {
+    id,
+    name,
+    api_url: await decrypt(api_url),
+    client_id: await decrypt(client_id),
+    created_at,
+  };
+};
+
+/**
+ * Decrypted connection names by ID, for labelling businesses
+ */
+export const getXiboConnectionNames = async (): Promise<Record<number, string>> => {
+  const names: Record<number, string> = {};
+  for (const connection of await getAllXiboConnections()) {
+    names[connection.id] = await decrypt(connection.name);
+  }
+  return names;
+};
+
+/**
+ * Decrypt a connection into the API client config
+ */
+export const toXiboConfig = async (
+  connection: XiboConnection,
+): Promise<XiboConfig> => ({
+  apiUrl: await decrypt(connection.api_url),
+  clientId: await decrypt(connection.client_id),
+  clientSecret: await decrypt(connection.client_secret),
+  connectionId: connection.id,
+});
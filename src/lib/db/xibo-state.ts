@@ -0,0 +1,128 @@
+/**
+ * Xibo state table operations
+ *
+ * Holds each connection's OAuth token (encrypted) and circuit breaker
+ * state, so a fresh edge isolate neither re-authenticates nor has to
+ * relearn that a CMS is down.  Reads are served from memory for a few
+ * seconds to avoid a query per API call.
+ */
+
+import { decrypt, encrypt } from "#lib/crypto.ts";
+import { getDb, queryOne } from "#lib/db/client.ts";
+import { nowMs } from "#lib/now.ts";
+import type { XiboState } from "#lib/types.ts";
+import type { BreakerSnapshot, CircuitState } from "#xibo/circuit-breaker.ts";
+
+/** How long a loaded state is served from memory */
+export const XIBO_STATE_CACHE_TTL_MS = 5_000;
+
+/** A connection's decrypted shared state */
+export type SharedXiboState = {
+  token: string | null;
+  tokenExpiresAt: number;
+  breaker: BreakerSnapshot;
+};
+
+/** State of a connection with no row yet */
+const EMPTY_STATE: SharedXiboState = {
+  token: null,
+  tokenExpiresAt: 0,
+  breaker: { state: "closed", failures: 0, lastFailureAt: 0, updatedAt: 0 },
+};
+
+type CacheEntry = { state: SharedXiboState; cachedAt: number };
+const stateCache = new Map<string, CacheEntry>();
+
+/** Decrypt a state row */
+const toSharedState = async (row: XiboState): Promise<SharedXiboState> => ({
+  token: row.token === null ? null : await decrypt(row.token),
+  tokenExpiresAt: row.token_expires_at,
+  breaker: {
+    state: row.breaker_state as CircuitState,
+    failures: row.breaker_failures,
+    lastFailureAt: row.breaker_last_failure_at,
+    updatedAt: row.breaker_updated_at,
+  },
+});
+
+/** Apply a write to the in-memory copy, if one is held */
+const patchCached = (key: string, patch: Partial<SharedXiboState>): void => {
+  const entry = stateCache.get(key);
+  if (entry) entry.state = { ...entry.state, ...patch };
+};
+
+/**
+ * Load a connection's shared state, from memory when loaded recently.
+ */
+export const loadXiboState = async (key: string): Promise<SharedXiboState> => {
+  const entry = stateCache.get(key);
+  if (entry && nowMs() - entry.cachedAt < XIBO_STATE_CACHE_TTL_MS) return entry.state;
+
+  const row = await queryOne<XiboState>(
+    "SELECT * FROM xibo_state WHERE key = ?",
+    [key],
+  );
+  const state = row ? await toSharedState(row) : EMPTY_STATE;
+  stateCache.set(key, { state, cachedAt: nowMs() });
+  return state;
+};
+
+/**
+ * Store a connection's access token and its expiry.
+ */
+export const saveXiboToken = async (
+  key: string,
+  token: string,
+  expiresAt: number,
+): Promise<void> => {
+  await getDb().execute({
+    sql: `INSERT INTO xibo_state (key, token, token_expires_at) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET token = excluded.token, token_expires_at = excluded.token_expires_at`,
+    args: [key, await encrypt(token), expiresAt],
+  });
+  patchCached(key, { token, tokenExpiresAt: expiresAt });
+};
+
+/**
+ * Drop a connection's access token, or every connection's when no key
+ * is given.
+ */
+export const clearXiboTokens = async (key?: string): Promise<void> => {
+  await getDb().execute(
+    key === undefined
+      ? "UPDATE xibo_state SET token = NULL, token_expires_at = 0"
+      : {
+        sql: "UPDATE xibo_state SET token = NULL, token_expires_at = 0 WHERE key = ?",
+        args: [key],
+      },
+  );
+  for (const cached of key === undefined ? [...stateCache.keys()] : [key]) {
+    patchCached(cached, { token: null, tokenExpiresAt: 0 });
+  }
+};
+
+/**
+ * Store a connection's circuit breaker state.
+ */
+export const saveXiboBreaker = async (
+  key: string,
+  breaker: BreakerSnapshot,
+): Promise<void> => {
+  await getDb().execute({
+    sql: `INSERT INTO xibo_state (key, breaker_state, breaker_failures, breaker_last_failure_at, breaker_updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET breaker_state = excluded.breaker_state,
+        breaker_failures = excluded.breaker_failures,
+        breaker_last_failure_at = excluded.breaker_last_failure_at,
+        breaker_updated_at = excluded.breaker_updated_at`,
+    args: [key, breaker.state, breaker.failures, breaker.lastFailureAt, breaker.updatedAt],
+  });
+  patchCached(key, { breaker });
+};
+
+/**
+ * Forget every in-memory state (for testing).
+ */
+export const invalidateXiboStateCache = (): void => {
+  stateCache.clear();
+};
@@ -15,7 +15,8 @@ export type FieldType =
   | "select"
   | "checkbox-group"
   | "date"
-  | "datetime-local";
+  | "datetime-local"
+  | "time";
 
 export interface Field {
   name: string;
@@ -25,6 +26,7 @@ export interface Field {
   placeholder?: string;
   hint?: string;
   min?: number;
+  rows?: number;
   pattern?: string;
   autofocus?: boolean;
   validate?: (value: string) => string | null;
@@ -89,7 +91,7 @@ export const renderField = (field: Field, value: string = ""): string =>
         ? (
           <textarea
             name={field.name}
-            rows="3"
+            rows={String(field.rows ?? 3)}
             required={field.required}
             placeholder={field.placeholder}
           >
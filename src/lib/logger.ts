@@ -31,6 +31,10 @@ export const ErrorCode = {
   XIBO_API_CONNECTION: "E_XIBO_API_CONNECTION",
   XIBO_API_AUTH: "E_XIBO_API_AUTH",
   XIBO_API_REQUEST: "E_XIBO_API_REQUEST",
+  XIBO_API_RESPONSE: "E_XIBO_API_RESPONSE",
+  XIBO_API_BUDGET: "E_XIBO_API_BUDGET",
+  XIBO_CACHE_REVALIDATE: "E_XIBO_CACHE_REVALIDATE",
+  XIBO_LAYOUT_BUILD: "E_XIBO_LAYOUT_BUILD",
 
   // Validation errors
   VALIDATION_FORM: "E_VALIDATION_FORM",
@@ -0,0 +1,62 @@
+/**
+ * Built-in layout templates
+ *
+ * Seeded into the layout_templates table by the migrations. Owners can
+ * edit them or clone them as a starting point for new templates.
+ */
+
+import type { LayoutTemplate } from "#lib/db/layout-templates.ts";
+
+/** Header across the top of the grid and live templates */
+const HEADER_BOX = { top: 0, left: 0.06, width: 0.88, height: 0.13 };
+
+/** The area below HEADER_BOX */
+const BELOW_HEADER = { top: 0.13, left: 0, width: 1, height: 0.87 };
+
+/** Header and rows of the list template: 900 wide and 200 high on 1080x1920 */
+const LIST_HEADER_BOX = { top: 0, left: 0.08333, width: 0.83333, height: 0.104167 };
+const LIST_ROWS_BOX = { top: 0.104167, left: 0.08333, width: 0.83333, height: 0.895833 };
+
+/** Templates seeded on first run */
+export const BUILTIN_TEMPLATES: LayoutTemplate[] = [
+  {
+    id: "grid-3x4",
+    name: "3x4 Grid",
+    maxProducts: 12,
+    description: "Classic 3-column, 4-row product grid with header",
+    definition: {
+      header: { ...HEADER_BOX, text: "Menu" },
+      slots: [{ type: "products", ...BELOW_HEADER, cols: 3, rows: 4, transpose: true }],
+    },
+  },
+  {
+    id: "list-6",
+    name: "Simple List",
+    maxProducts: 6,
+    description: "Single-column list of up to 6 products",
+    definition: {
+      header: { ...LIST_HEADER_BOX, text: "Menu" },
+      slots: [{ type: "products", ...LIST_ROWS_BOX, cols: 1, rows: 6 }],
+    },
+  },
+  {
+    id: "live-list",
+    name: "Live List",
+    maxProducts: 12,
+    description: "Product table read from your product data, so edits show without re-publishing",
+    definition: {
+      header: { ...HEADER_BOX, text: "Menu" },
+      slots: [{ type: "datasetview", ...BELOW_HEADER }],
+    },
+  },
+  {
+    id: "live-ticker",
+    name: "Live Ticker",
+    maxProducts: 20,
+    description: "Scrolling ticker read from your product data, so edits show without re-publishing",
+    definition: {
+      header: { ...HEADER_BOX, text: "Menu" },
+      slots: [{ type: "ticker", ...BELOW_HEADER }],
+    },
+  },
+];
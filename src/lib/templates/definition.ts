@@ -0,0 +1,262 @@
+/**
+ * Declarative template definitions
+ *
+ * A template definition is JSON describing a layout's regions with
+ * coordinates relative to the canvas (0 to 1 of its width and height),
+ * so one definition fits any screen resolution:
+ *
+ *   {
+ *     "header": { "top": 0, "left": 0.06, "width": 0.88, "height": 0.13,
+ *                 "text": "Menu", "style": { "color": "#ffffff" } },
+ *     "slots": [
+ *       { "type": "products", "top": 0.13, "left": 0, "width": 1, "height": 0.87,
+ *         "cols": 3, "rows": 4, "transpose": true }
+ *     ]
+ *   }
+ *
+ * Slots are either a grid of product tiles ("products", filled in
+ * order with the selected products; "transpose" swaps columns and rows
+ * on landscape canvases) or a dataset widget ("datasetview" table or
+ * "ticker") showing the selected rows of the business dataset.
+ */
+
+import type { ValidationResult } from "#lib/forms.tsx";
+import { canvasOrientation } from "#xibo/layout-builder.ts";
+import type {
+  Canvas,
+  DatasetWidgetType,
+  GridPosition,
+  TextStyle,
+} from "#xibo/layout-builder.ts";
+
+/** Region box as shares (0 to 1) of the canvas width and height */
+export type RelativeBox = {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+};
+
+/** Header text region */
+export type TemplateHeader = RelativeBox & { text: string; style?: TextStyle };
+
+/** Grid of product tiles, filled in order with the selected products */
+export type ProductsSlot = RelativeBox & {
+  type: "products";
+  cols: number;
+  rows: number;
+  transpose?: boolean;
+  style?: TextStyle;
+};
+
+/** Dataset widget showing the selected rows of the business dataset */
+export type DatasetSlot = RelativeBox & { type: DatasetWidgetType };
+
+/** A region of a template besides the header */
+export type TemplateSlot = ProductsSlot | DatasetSlot;
+
+/** Template definition: an optional header and at least one slot */
+export type TemplateDefinition = {
+  header: TemplateHeader | null;
+  slots: TemplateSlot[];
+};
+
+/** A slot resolved to pixel positions on a canvas */
+export type ResolvedSlot =
+  | { type: "products"; cells: GridPosition[]; style: TextStyle }
+  | { type: DatasetWidgetType; pos: GridPosition };
+
+/** A definition resolved to pixel positions on a canvas */
+export type TemplateRegions = {
+  header: { pos: GridPosition; text: string; style: TextStyle } | null;
+  slots: ResolvedSlot[];
+};
+
+/** Check whether a slot renders from the business dataset */
+export const isDatasetSlot = (slot: TemplateSlot): slot is DatasetSlot =>
+  slot.type !== "products";
+
+/** Number of product tiles in a definition */
+export const productSlotCount = (definition: TemplateDefinition): number =>
+  definition.slots.reduce(
+    (total, slot) => isDatasetSlot(slot) ? total : total + slot.cols * slot.rows,
+    0,
+  );
+
+/** Convert a relative box to pixels on a canvas */
+const toPixels = (box: RelativeBox, canvas: Canvas): GridPosition => ({
+  top: Math.round(box.top * canvas.height),
+  left: Math.round(box.left * canvas.width),
+  width: Math.round(box.width * canvas.width),
+  height: Math.round(box.height * canvas.height),
+});
+
+/** Split an area into evenly sized cells, row by row */
+const gridCells = (area: GridPosition, cols: number, rows: number): GridPosition[] => {
+  const width = Math.floor(area.width / cols);
+  const height = Math.floor(area.height / rows);
+  return Array.from({ length: cols * rows }, (_, i) => ({
+    top: area.top + Math.floor(i / cols) * height,
+    left: area.left + (i % cols) * width,
+    width,
+    height,
+  }));
+};
+
+/** Resolve a slot to pixel positions on a canvas */
+const resolveSlot = (slot: TemplateSlot, canvas: Canvas): ResolvedSlot => {
+  const area = toPixels(slot, canvas);
+  if (isDatasetSlot(slot)) return { type: slot.type, pos: area };
+  const swap = slot.transpose === true && canvasOrientation(canvas) === "landscape";
+  return {
+    type: "products",
+    cells: swap ? gridCells(area, slot.rows, slot.cols) : gridCells(area, slot.cols, slot.rows),
+    style: slot.style ?? {},
+  };
+};
+
+/** Resolve a definition to pixel positions on a canvas */
+export const resolveRegions = (
+  definition: TemplateDefinition,
+  canvas: Canvas,
+): TemplateRegions => ({
+  header: definition.header && {
+    pos: toPixels(definition.header, canvas),
+    text: definition.header.text,
+    style: definition.header.style ?? {},
+  },
+  slots: definition.slots.map((slot) => resolveSlot(slot, canvas)),
+});
+
+/**
+ * The products each resolved slot shows: product slots take the next
+ * products in order, one per cell; dataset slots show every product.
+ */
+export const slotProducts = <T>(slots: ResolvedSlot[], products: T[]): T[][] => {
+  let next = 0;
+  return slots.map((slot) => {
+    if (slot.type !== "products") return products;
+    const shown = products.slice(next, next + slot.cells.length);
+    next += slot.cells.length;
+    return shown;
+  });
+};
+
+// ─── Validation ─────────────────────────────────────────────────────
+
+/** Tolerance for boxes whose shares add up to 1 with rounding error */
+const EPSILON = 1e-6;
+
+/** Largest number of columns or rows in a product grid */
+const MAX_GRID_SIDE = 12;
+
+/** Widget types a slot can have */
+const SLOT_TYPES = ["products", "datasetview", "ticker"];
+
+/** CSS colours: #rgb, #rrggbb or with alpha */
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/** Font family lists: names, spaces, commas, quotes and hyphens only */
+const FONT_PATTERN = /^[\w\s,'"-]+$/;
+
+/** Check a value is a plain object */
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Check a value is a whole number from 1 to max */
+const isCount = (value: unknown, max: number): boolean =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max;
+
+/** Validate a relative box, returning an error message or null */
+const boxError = (box: Record<string, unknown>, path: string): string | null => {
+  for (const key of ["top", "left", "width", "height"]) {
+    const value = box[key];
+    if (typeof value !== "number" || value < 0 || value > 1) {
+      return `${path}.${key} must be a number from 0 to 1`;
+    }
+  }
+  const { top, left, width, height } = box as RelativeBox;
+  if (width === 0 || height === 0) return `${path} must have a width and height`;
+  if (left + width > 1 + EPSILON || top + height > 1 + EPSILON) {
+    return `${path} must fit on the canvas`;
+  }
+  return null;
+};
+
+/** Validate an optional text style, returning an error message or null */
+const styleError = (style: unknown, path: string): string | null => {
+  if (style === undefined) return null;
+  if (!isObject(style)) return `${path} must be an object`;
+  const { font, fontSize, color, background } = style;
+  if (font !== undefined && (typeof font !== "string" || !FONT_PATTERN.test(font))) {
+    return `${path}.font must be a font family list`;
+  }
+  if (fontSize !== undefined && !isCount(fontSize, 1000)) {
+    return `${path}.fontSize must be a whole number of pixels`;
+  }
+  for (const [key, value] of [["color", color], ["background", background]]) {
+    if (value !== undefined && (typeof value !== "string" || !COLOR_PATTERN.test(value))) {
+      return `${path}.${key} must be a hex colour such as #ffffff`;
+    }
+  }
+  return null;
+};
+
+/** Validate the header, returning an error message or null */
+const headerError = (header: unknown): string | null => {
+  if (header === null || header === undefined) return null;
+  if (!isObject(header)) return "header must be an object or null";
+  if (typeof header.text !== "string" || !header.text.trim()) {
+    return "header.text is required";
+  }
+  return boxError(header, "header") ?? styleError(header.style, "header.style");
+};
+
+/** Validate a slot, returning an error message or null */
+const slotError = (slot: unknown, path: string): string | null => {
+  if (!isObject(slot)) return `${path} must be an object`;
+  if (!SLOT_TYPES.includes(slot.type as string)) {
+    return `${path}.type must be one of ${SLOT_TYPES.join(", ")}`;
+  }
+  const error = boxError(slot, path);
+  if (error || slot.type !== "products") return error;
+  if (!isCount(slot.cols, MAX_GRID_SIDE) || !isCount(slot.rows, MAX_GRID_SIDE)) {
+    return `${path}.cols and rows must be whole numbers from 1 to ${MAX_GRID_SIDE}`;
+  }
+  if (slot.transpose !== undefined && typeof slot.transpose !== "boolean") {
+    return `${path}.transpose must be true or false`;
+  }
+  return styleError(slot.style, `${path}.style`);
+};
+
+/** Validate a parsed definition, returning an error message or null */
+const definitionError = (value: unknown): string | null => {
+  if (!isObject(value)) return "must be a JSON object";
+  if (!Array.isArray(value.slots) || value.slots.length === 0) {
+    return "slots must be a non-empty array";
+  }
+  return headerError(value.header) ??
+    value.slots.reduce<string | null>(
+      (error, slot, i) => error ?? slotError(slot, `slots[${i}]`),
+      null,
+    );
+};
+
+/**
+ * Parse and validate template definition JSON.
+ * Returns the definition, or an error describing the first problem.
+ */
+export const parseTemplateDefinition = (
+  json: string,
+): ValidationResult<TemplateDefinition> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return { valid: false, error: "Definition is not valid JSON" };
+  }
+  const error = definitionError(value);
+  if (error) return { valid: false, error: `Definition ${error}` };
+  const { header = null, slots } = value as Partial<TemplateDefinition>;
+  return { valid: true, values: { header, slots: slots! } };
+};
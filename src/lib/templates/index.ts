@@ -1,136 +1,143 @@
 /**
- * Layout template registry
+ * Layout templates
  *
- * Templates define how products are laid out on a Xibo display.
- * Each template has a build function that generates Xibo layout
- * regions and widgets from a list of products.
+ * Templates define how products are laid out on a Xibo display. Each
+ * template is a declarative definition stored in the database (see
+ * #lib/templates/definition.ts), and one generic builder turns any
+ * definition into Xibo regions and widgets.
+ *
+ * Product slots bake each product's name and price into its own
+ * widgets, so product edits need a republish. Dataset slots render
+ * the selected rows of the business dataset with a single dataset
+ * widget, so product edits reach the screen without re-publishing.
+ *
+ * A layout is built once per template; later edits update it in place,
+ * so it stays in its campaigns until the template changes.
  */
 
+import { getLayoutTemplate, type LayoutTemplate } from "#lib/db/layout-templates.ts";
+import {
+  isDatasetSlot,
+  resolveRegions,
+  slotProducts,
+  type TemplateRegions,
+} from "#lib/templates/definition.ts";
 import { post, put } from "#xibo/client.ts";
+import { COL } from "#xibo/dataset.ts";
 import {
-  calculateGridPositions,
-  calculateHeaderPosition,
-  createHeaderRegion,
-  createProductGridRegions,
+  DEFAULT_DURATION,
+  editLayoutInPlace,
   getOrCreateResolution,
-  GRID_COLS,
-  GRID_ROWS,
-  HEADER_HEIGHT,
-  SCREEN_HEIGHT,
-  SCREEN_WIDTH,
+  PORTRAIT_CANVAS,
+  productGridSpecs,
+  publishNewLayout,
+  textSpec,
+} from "#xibo/layout-builder.ts";
+import type {
+  Canvas,
+  DatasetWidgetRows,
+  RegionProduct,
+  RegionSpec,
 } from "#xibo/layout-builder.ts";
-import type { GridPosition, RegionProduct } from "#xibo/layout-builder.ts";
 import type { XiboConfig, XiboLayout } from "#xibo/types.ts";
 
+export type { LayoutTemplate, TemplateRegions };
+
 /** A product to be rendered in a layout (re-exported from layout-builder) */
 export type TemplateProduct = RegionProduct;
 
-/** Layout template definition */
-export type LayoutTemplate = {
-  id: string;
-  name: string;
-  maxProducts: number;
-  description: string;
-};
-
-/** All available layout templates */
-export const TEMPLATES: LayoutTemplate[] = [
-  {
-    id: "grid-3x4",
-    name: "3x4 Grid",
-    maxProducts: 12,
-    description: "Classic 3-column, 4-row product grid with header",
-  },
-  {
-    id: "list-6",
-    name: "Simple List",
-    maxProducts: 6,
-    description: "Single-column list of up to 6 products",
-  },
-];
-
-/** Lookup a template by ID */
-export const getTemplateById = (id: string): LayoutTemplate | undefined =>
-  TEMPLATES.find((t) => t.id === id);
-
-/** Build a template by creating a header region and product grid regions */
-const buildTemplateRegions = async (
-  config: XiboConfig,
-  layoutId: number,
-  headerPos: GridPosition,
-  label: string,
-  gridPositions: GridPosition[],
-  products: TemplateProduct[],
-): Promise<void> => {
-  await createHeaderRegion(config, layoutId, headerPos, label);
-  await createProductGridRegions(config, layoutId, gridPositions, products);
-};
+/** Business dataset rows shown by a dataset template */
+export type TemplateDataset = { datasetId: number; rowIds: number[] };
 
-/** Factory to create template builder from header/grid position functions */
-const templateBuilder = (
-  headerPos: () => GridPosition,
-  gridPos: () => GridPosition[],
-): ((config: XiboConfig, layoutId: number, products: TemplateProduct[]) => Promise<void>) =>
-  (config, layoutId, products) =>
-    buildTemplateRegions(config, layoutId, headerPos(), "Menu", gridPos(), products);
+/** Business dataset column headings shown by dataset widgets */
+const DATASET_COLUMNS = [COL.NAME, COL.PRICE];
 
 /**
- * Build a Xibo layout using the grid-3x4 template.
- * Creates a header region + 3x4 product grid.
+ * Dataset widget rows for a template dataset: the selected rows that
+ * are available, in product sort order. No selection shows no rows.
  */
-const buildGrid3x4 = templateBuilder(
-  calculateHeaderPosition,
-  () => calculateGridPositions(GRID_COLS, GRID_ROWS, SCREEN_WIDTH, SCREEN_HEIGHT, HEADER_HEIGHT),
-);
-
-/** List template constants */
-const LIST_ITEM_COUNT = 6;
-const LIST_HEADER_HEIGHT = 200;
-const LIST_ITEM_WIDTH = 900;
-
-/** Compute list header position centered horizontally */
-const listHeaderPosition = (): GridPosition => ({
-  width: LIST_ITEM_WIDTH,
-  height: LIST_HEADER_HEIGHT,
-  top: 0,
-  left: Math.floor((SCREEN_WIDTH - LIST_ITEM_WIDTH) / 2),
+const toDatasetWidgetRows = ({ datasetId, rowIds }: TemplateDataset): DatasetWidgetRows => ({
+  datasetId,
+  columns: DATASET_COLUMNS,
+  filter: rowIds.length > 0 ? `id IN (${rowIds.join(",")}) AND ${COL.AVAILABLE} = 1` : "1 = 0",
+  ordering: COL.SORT_ORDER,
 });
 
-/** Compute vertical list item positions below the header */
-const listItemPositions = (): GridPosition[] => {
-  const availableHeight = SCREEN_HEIGHT - LIST_HEADER_HEIGHT;
-  const itemHeight = Math.floor(availableHeight / LIST_ITEM_COUNT);
-  const itemLeft = Math.floor((SCREEN_WIDTH - LIST_ITEM_WIDTH) / 2);
-  return Array.from({ length: LIST_ITEM_COUNT }, (_, i) => ({
-    width: LIST_ITEM_WIDTH,
-    height: itemHeight,
-    top: LIST_HEADER_HEIGHT + i * itemHeight,
-    left: itemLeft,
-  }));
+/** Check whether a template renders from the business dataset */
+export const isDatasetTemplate = (template: LayoutTemplate): boolean =>
+  template.definition.slots.some(isDatasetSlot);
+
+/**
+ * Get a template's region geometry on a canvas (used to build layouts
+ * and render previews).
+ */
+export const getTemplateRegions = (
+  template: LayoutTemplate,
+  canvas: Canvas = PORTRAIT_CANVAS,
+): TemplateRegions => resolveRegions(template.definition, canvas);
+
+/**
+ * Region specs for a template: the header, then each slot in order.
+ * Product slots get a tile per cell; dataset slots get a dataset widget.
+ */
+const templateRegionSpecs = (
+  regions: TemplateRegions,
+  products: TemplateProduct[],
+  dataset: TemplateDataset | null,
+): RegionSpec[] => {
+  const header = regions.header ? [textSpec(regions.header.pos, regions.header.text, regions.header.style)] : [];
+  const shown = slotProducts(regions.slots, products);
+  return [
+    ...header,
+    ...regions.slots.flatMap((slot, i): RegionSpec[] =>
+      slot.type === "products"
+        ? productGridSpecs(slot.cells, shown[i]!, slot.style)
+        : [{ pos: slot.pos, kind: slot.type, rows: toDatasetWidgetRows(dataset!) }]
+    ),
+  ];
 };
 
 /**
- * Build a Xibo layout using the list-6 template.
- * Creates a header region + 6 stacked list rows.
+ * Where a layout is built: the screen's canvas and, for dataset
+ * templates, its rows; and how many seconds it plays in rotation
  */
-const buildList6 = templateBuilder(listHeaderPosition, listItemPositions);
-
-/** Template builder functions keyed by template ID */
-const BUILDERS: Record<
-  string,
-  (config: XiboConfig, layoutId: number, products: TemplateProduct[]) => Promise<void>
-> = {
-  "grid-3x4": buildGrid3x4,
-  "list-6": buildList6,
+export type BuildOptions = {
+  canvas?: Canvas;
+  dataset?: TemplateDataset | null;
+  duration?: number;
 };
 
+/** A planned layout: its canvas, region specs and seconds in rotation */
+type LayoutPlan = { canvas: Canvas; specs: RegionSpec[]; duration: number };
+
+/** Plan a layout after checking the template can be built */
+const planTemplateLayout = async (
+  templateId: string,
+  products: TemplateProduct[],
+  { canvas = PORTRAIT_CANVAS, dataset = null, duration = DEFAULT_DURATION }: BuildOptions,
+): Promise<LayoutPlan> => {
+  const template = await getLayoutTemplate(templateId);
+  if (!template) {
+    throw new Error(`Unknown template: ${templateId}`);
+  }
+  if (isDatasetTemplate(template) && !dataset) {
+    throw new Error(`Template ${templateId} needs a business dataset`);
+  }
+  return { canvas, specs: templateRegionSpecs(getTemplateRegions(template, canvas), products, dataset), duration };
+};
+
+/** Description of a layout built from a template, which records the template */
+const templateDescription = (templateId: string): string =>
+  `Auto-generated from template ${templateId}`;
+
 /**
- * Create a Xibo layout from a template and product list.
+ * Create a Xibo layout from a stored template and product list.
+ * Dataset templates also need the business dataset and selected rows.
  *
- * 1. Get or create the standard resolution
+ * 1. Get or create the canvas resolution (the default portrait canvas if none given)
  * 2. Create layout
- * 3. Build regions/widgets via the template builder
- * 4. Publish the layout
+ * 3. Build regions/widgets from the template geometry, each playing for the duration
+ * 4. Publish the layout, or delete it if any region failed (see publishNewLayout)
  *
  * Returns the created XiboLayout.
  */
@@ -139,27 +146,54 @@ export const buildLayoutFromTemplate = async (
   templateId: string,
   layoutName: string,
   products: TemplateProduct[],
+  options: BuildOptions = {},
 ): Promise<XiboLayout> => {
-  const builder = BUILDERS[templateId];
-  if (!builder) {
-    throw new Error(`Unknown template: ${templateId}`);
-  }
+  const { canvas, specs, duration } = await planTemplateLayout(templateId, products, options);
 
   const resolution = await getOrCreateResolution(
     config,
-    SCREEN_WIDTH,
-    SCREEN_HEIGHT,
+    canvas.width,
+    canvas.height,
   );
 
   const layout = await post<XiboLayout>(config, "layout", {
     name: layoutName,
-    description: `Auto-generated from template ${templateId}`,
+    description: templateDescription(templateId),
     resolutionId: resolution.resolutionId,
   });
 
-  await builder(config, layout.layoutId, products);
-  await put(config, `layout/publish/${layout.layoutId}`, {});
-
+  await publishNewLayout(config, layout, specs, duration);
   return layout;
 };
 
+/**
+ * Update a layout built from a template in place: rename it if needed,
+ * then edit only the regions whose products or duration changed (see
+ * editLayoutInPlace).  The layout keeps its campaign, though publishing
+ * the edit gives it a new ID.
+ *
+ * Returns false when the layout can't be edited in place and needs a
+ * rebuild: it was built from another template or for another canvas.
+ */
+export const updateLayoutFromTemplate = async (
+  config: XiboConfig,
+  layout: XiboLayout,
+  templateId: string,
+  name: string,
+  products: TemplateProduct[],
+  options: BuildOptions = {},
+): Promise<boolean> => {
+  const { canvas, specs, duration } = await planTemplateLayout(templateId, products, options);
+  if (
+    layout.description !== templateDescription(templateId) ||
+    layout.width !== canvas.width || layout.height !== canvas.height
+  ) {
+    return false;
+  }
+
+  if (layout.layout !== name) {
+    await put(config, `layout/${layout.layoutId}`, { name });
+  }
+  await editLayoutInPlace(config, layout.layoutId, specs, duration);
+  return true;
+};
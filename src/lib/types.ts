@@ -47,15 +47,40 @@ export interface Business {
   xibo_folder_id: number | null;
   folder_name: string | null; // encrypted
   xibo_dataset_id: number | null;
+  xibo_connection_id: number | null; // null for the default connection
   created_at: string; // encrypted ISO 8601
 }
 
+/** Named Xibo CMS connection (encrypted at rest) */
+export interface XiboConnection {
+  id: number;
+  name: string; // encrypted
+  api_url: string; // encrypted
+  client_id: string; // encrypted
+  client_secret: string; // encrypted
+  created_at: string; // encrypted ISO 8601
+}
+
+/** Xibo connection state shared across isolates, one row per connection key */
+export interface XiboState {
+  key: string; // "default" or "connection-<id>"
+  token: string | null; // encrypted OAuth access token
+  token_expires_at: number; // epoch ms
+  breaker_state: string; // "closed", "open" or "half-open"
+  breaker_failures: number;
+  breaker_last_failure_at: number; // epoch ms
+  breaker_updated_at: number; // epoch ms of the breaker's last change
+}
+
 /** Screen entity (encrypted at rest) */
 export interface Screen {
   id: number;
   name: string; // encrypted
   business_id: number;
-  xibo_display_id: number | null;
+  xibo_display_id: number | null; // primary display: status, screenshots and resolution
+  xibo_display_group_id: number | null; // managed group of all the screen's displays, scheduled on
+  width: number; // layout canvas, from the display's resolution
+  height: number;
   created_at: string; // encrypted ISO 8601
 }
 
@@ -67,11 +92,28 @@ export interface MenuScreen {
   template_id: string;
   display_time: number;
   sort_order: number;
-  xibo_layout_id: number | null;
+  xibo_layout_id: number | null; // as built; publishing an edit changes it
+  xibo_layout_campaign_id: number | null; // the layout's own campaign, stable across edits
   xibo_campaign_id: number | null;
+  active_days: string | null; // comma-separated ISO weekdays (1 = Mon .. 7 = Sun)
+  active_from: string | null; // HH:MM
+  active_to: string | null; // HH:MM
+  draft: string | null; // encrypted JSON of unpublished MenuScreenContent
   created_at: string; // encrypted ISO 8601
 }
 
+/** When a menu screen is shown; all null means always active */
+export type MenuScreenDaypart = Pick<
+  MenuScreen,
+  "active_days" | "active_from" | "active_to"
+>;
+
+/** User-editable content of a menu screen, with its selected products */
+export type MenuScreenContent =
+  & Pick<MenuScreen, "name" | "template_id" | "display_time" | "sort_order">
+  & MenuScreenDaypart
+  & { product_row_ids: number[] };
+
 /** Menu screen item — links a menu screen to a product (dataset row ID) */
 export interface MenuScreenItem {
   id: number;
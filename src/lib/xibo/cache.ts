@@ -4,6 +4,11 @@
  * On Bunny Edge each request is a fresh isolate, so in-memory caches
  * are useless.  We persist cached responses in a `cache` table and
  * expire rows by comparing `expires` (epoch ms) to the current time.
+ *
+ * Expired rows are kept as stale copies until `stale_until`, so reads
+ * can fall back to them while the CMS is unreachable.  Rows carry
+ * resource tags (e.g. "dataset:5") so a mutation drops only the
+ * entries for the resources it touched.
  */
 
 import { getDb } from "#lib/db/client.ts";
@@ -12,42 +17,60 @@ import { nowMs } from "#lib/now.ts";
 /** Default TTL: 10 minutes — mutations auto-invalidate, so this is safe */
 export const DEFAULT_CACHE_TTL_MS = 600_000;
 
+/** How long an expired entry is kept as a stale copy: 1 day */
+export const STALE_RETENTION_MS = 86_400_000;
+
+/** A cached value, and whether it is still within its TTL */
+export type CacheEntry = { value: string; fresh: boolean };
+
+/** Tags as stored: space-delimited with surrounding spaces, so each can be matched whole */
+const formatTags = (tags: string[]): string =>
+  tags.length === 0 ? "" : ` ${tags.join(" ")} `;
+
 /**
- * Read a cached value.  Returns `null` on miss or expiry.
+ * Read a cached value, fresh or stale.  Returns `null` on miss or once
+ * the stale copy has passed its retention.
  */
-export const cacheGet = async (key: string): Promise<string | null> => {
+export const cacheGetEntry = async (key: string): Promise<CacheEntry | null> => {
   const result = await getDb().execute({
-    sql: "SELECT value, expires FROM cache WHERE key = ?",
+    sql: "SELECT value, expires, stale_until FROM cache WHERE key = ?",
     args: [key],
   });
   const row = result.rows[0];
   if (!row) return null;
 
-  const expires = row.expires as number;
-  if (nowMs() >= expires) {
-    // Expired – delete lazily and return miss
-    await getDb().execute({
-      sql: "DELETE FROM cache WHERE key = ?",
-      args: [key],
-    });
+  const now = nowMs();
+  if (now >= (row.stale_until as number)) {
+    // Past retention – delete lazily and return miss
+    await cacheDelete(key);
     return null;
   }
 
-  return row.value as string;
+  return { value: row.value as string, fresh: now < (row.expires as number) };
+};
+
+/**
+ * Read a fresh cached value.  Returns `null` on miss or expiry.
+ */
+export const cacheGet = async (key: string): Promise<string | null> => {
+  const entry = await cacheGetEntry(key);
+  return entry?.fresh ? entry.value : null;
 };
 
 /**
- * Write a value into the cache with a TTL (default 10 min).
+ * Write a value into the cache with a TTL (default 10 min) and the
+ * resource tags it can be invalidated by.
  */
 export const cacheSet = async (
   key: string,
   value: string,
   ttlMs = DEFAULT_CACHE_TTL_MS,
+  tags: string[] = [],
 ): Promise<void> => {
   const expires = nowMs() + ttlMs;
   await getDb().execute({
-    sql: "INSERT OR REPLACE INTO cache (key, value, expires) VALUES (?, ?, ?)",
-    args: [key, value, expires],
+    sql: "INSERT OR REPLACE INTO cache (key, value, expires, stale_until, tags) VALUES (?, ?, ?, ?, ?)",
+    args: [key, value, expires, expires + STALE_RETENTION_MS, formatTags(tags)],
   });
 };
 
@@ -73,6 +96,19 @@ export const cacheInvalidatePrefix = async (prefix: string): Promise<void> => {
   });
 };
 
+/**
+ * Invalidate every entry tagged with any of the given tags, fresh or stale.
+ *   `cacheInvalidateTags(["dataset:5"])` clears dataset 5's rows and
+ *   columns, leaving other datasets cached.
+ */
+export const cacheInvalidateTags = async (tags: string[]): Promise<void> => {
+  if (tags.length === 0) return;
+  await getDb().execute({
+    sql: `DELETE FROM cache WHERE ${tags.map(() => "instr(tags, ?) > 0").join(" OR ")}`,
+    args: tags.map((tag) => formatTags([tag])),
+  });
+};
+
 /**
  * Drop every cached row.
  */
@@ -81,12 +117,12 @@ export const cacheInvalidateAll = async (): Promise<void> => {
 };
 
 /**
- * Remove expired rows.  Can be called periodically or on a schedule
- * to keep the table compact.
+ * Remove rows whose stale copy has passed its retention.  Can be called
+ * periodically or on a schedule to keep the table compact.
  */
 export const cachePurgeExpired = async (): Promise<number> => {
   const result = await getDb().execute({
-    sql: "DELETE FROM cache WHERE expires < ?",
+    sql: "DELETE FROM cache WHERE stale_until < ?",
     args: [nowMs()],
   });
   return result.rowsAffected;
@@ -9,11 +9,13 @@
  * - open: API considered down, requests fail fast
  * - half-open: after recovery timeout, allow one probe request
  *
- * In Bunny Edge (production) each request is a fresh isolate,
- * so the breaker state resets per request. In Deno.serve (dev)
- * the state persists across requests, providing real protection.
+ * In Bunny Edge (production) each request may be a fresh isolate,
+ * so breaker state is shared through the xibo_state table: each
+ * change is written there, and isolates adopt newer shared state
+ * when they next load the breaker.
  */
 
+import { loadXiboState, saveXiboBreaker } from "#lib/db/xibo-state.ts";
 import { nowMs } from "#lib/now.ts";
 
 /** Circuit breaker states */
@@ -36,8 +38,13 @@ type CircuitInternalState = {
   failures: number;
   lastFailureAt: number;
   state: CircuitState;
+  /** When the state last changed (0 = never), to tell newer shared state */
+  updatedAt: number;
 };
 
+/** Breaker state as shared between isolates */
+export type BreakerSnapshot = Readonly<CircuitInternalState>;
+
 /** Circuit breaker instance */
 export type CircuitBreaker = {
   /** Get the current circuit state */
@@ -52,6 +59,10 @@ export type CircuitBreaker = {
   recordFailure: () => void;
   /** Reset the circuit breaker to initial state */
   reset: () => void;
+  /** Copy the state, for sharing with other isolates */
+  snapshot: () => BreakerSnapshot;
+  /** Adopt shared state if it changed more recently than ours */
+  restore: (snapshot: BreakerSnapshot) => void;
 };
 
 /**
@@ -67,6 +78,12 @@ export const createCircuitBreaker = (
     failures: 0,
     lastFailureAt: 0,
     state: "closed",
+    updatedAt: 0,
+  };
+
+  /** Mark a change, strictly after the previous one */
+  const touch = (): void => {
+    internal.updatedAt = Math.max(nowMs(), internal.updatedAt + 1);
   };
 
   const getState = (): CircuitState => {
@@ -85,8 +102,10 @@ export const createCircuitBreaker = (
   };
 
   const recordSuccess = (): void => {
+    if (internal.failures === 0 && internal.state === "closed") return;
     internal.failures = 0;
     internal.state = "closed";
+    touch();
   };
 
   const recordFailure = (): void => {
@@ -95,12 +114,18 @@ export const createCircuitBreaker = (
     if (internal.failures >= threshold) {
       internal.state = "open";
     }
+    touch();
   };
 
   const reset = (): void => {
     internal.failures = 0;
     internal.lastFailureAt = 0;
     internal.state = "closed";
+    internal.updatedAt = 0;
+  };
+
+  const restore = (snapshot: BreakerSnapshot): void => {
+    if (snapshot.updatedAt > internal.updatedAt) Object.assign(internal, snapshot);
   };
 
   return {
@@ -110,25 +135,58 @@ export const createCircuitBreaker = (
     recordSuccess,
     recordFailure,
     reset,
+    snapshot: () => ({ ...internal }),
+    restore,
   };
 };
 
-/** Singleton circuit breaker for the Xibo API */
-let xiboBreaker: CircuitBreaker | null = null;
+/** Breaker key for the default connection */
+export const DEFAULT_BREAKER_KEY = "default";
+
+/** One circuit breaker per Xibo connection, so one CMS being down doesn't block the others */
+const xiboBreakers = new Map<string, CircuitBreaker>();
 
 /**
- * Get or create the singleton Xibo circuit breaker.
+ * Get or create the circuit breaker for a Xibo connection.
  */
-export const getXiboCircuitBreaker = (): CircuitBreaker => {
-  if (!xiboBreaker) {
-    xiboBreaker = createCircuitBreaker();
+export const getXiboCircuitBreaker = (
+  key: string = DEFAULT_BREAKER_KEY,
+): CircuitBreaker => {
+  let breaker = xiboBreakers.get(key);
+  if (!breaker) {
+    breaker = createCircuitBreaker();
+    xiboBreakers.set(key, breaker);
   }
-  return xiboBreaker;
+  return breaker;
+};
+
+/**
+ * Get a connection's circuit breaker, adopting any newer state other
+ * isolates have shared.
+ */
+export const loadXiboCircuitBreaker = async (
+  key: string = DEFAULT_BREAKER_KEY,
+): Promise<CircuitBreaker> => {
+  const breaker = getXiboCircuitBreaker(key);
+  breaker.restore((await loadXiboState(key)).breaker);
+  return breaker;
+};
+
+/**
+ * Share a connection's breaker state with other isolates, if it has
+ * changed since it was last shared.
+ */
+export const saveXiboCircuitBreaker = async (
+  key: string = DEFAULT_BREAKER_KEY,
+): Promise<void> => {
+  const snapshot = getXiboCircuitBreaker(key).snapshot();
+  const shared = (await loadXiboState(key)).breaker;
+  if (snapshot.updatedAt > shared.updatedAt) await saveXiboBreaker(key, snapshot);
 };
 
 /**
- * Reset the singleton circuit breaker (for testing).
+ * Reset every connection's circuit breaker (for testing).
  */
 export const resetXiboCircuitBreaker = (): void => {
-  xiboBreaker = null;
+  xiboBreakers.clear();
 };
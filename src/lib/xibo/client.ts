@@ -4,6 +4,29 @@
  * Authenticates using client credentials grant, auto-refreshes on 401,
  * and provides typed HTTP methods for all Xibo API operations.
  * Responses are cached in libsql via the cache module.
+ *
+ * Xibo pages its list endpoints, so whole lists are read with getAll,
+ * which walks start/length one cached page at a time, and counted with
+ * getCount, which reads the X-Total-Count header from a one-row page.
+ *
+ * Each connection (the default one in settings, or a named one) has its
+ * own token, cache keys and circuit breaker, so one CMS being slow or
+ * down doesn't affect businesses bound to another.  Tokens and breaker
+ * state are kept in the database, so they outlive the isolate.
+ *
+ * Cached reads are tagged with the resource they belong to (e.g.
+ * "dataset:5"), so a mutation only drops that resource and its list.
+ * When the CMS is unreachable or the breaker is open, expired entries
+ * are served stale instead of failing.
+ *
+ * Responses are checked against the schemas in schemas.ts before they
+ * are used or cached, so a CMS upgrade that changes a payload fails
+ * here with E_XIBO_API_RESPONSE rather than deep in a template.
+ *
+ * Requests pass through the connection's limiter (limiter.ts), which
+ * paces them and honours Retry-After.  Configs loaded for a request
+ * carry a deadline; a call that can't finish by then fails with
+ * XiboBudgetError, logged as E_XIBO_API_BUDGET.
  */
 
 import {
@@ -14,10 +37,31 @@ import {
   logError,
 } from "#lib/logger.ts";
 import { nowMs } from "#lib/now.ts";
-import { cacheGet, cacheInvalidatePrefix, cacheSet } from "#xibo/cache.ts";
-import { getXiboCircuitBreaker } from "#xibo/circuit-breaker.ts";
-import { withRetry } from "#xibo/retry.ts";
+import {
+  clearXiboTokens,
+  loadXiboState,
+  saveXiboToken,
+} from "#lib/db/xibo-state.ts";
+import {
+  cacheGetEntry,
+  cacheInvalidateTags,
+  cacheSet,
+} from "#xibo/cache.ts";
+import {
+  DEFAULT_BREAKER_KEY,
+  loadXiboCircuitBreaker,
+  saveXiboCircuitBreaker,
+} from "#xibo/circuit-breaker.ts";
+import {
+  deadlineSignal,
+  getXiboLimiter,
+  REQUEST_BUDGET_MS,
+  XiboBudgetError,
+} from "#xibo/limiter.ts";
+import { isRetryableError, withRetry } from "#xibo/retry.ts";
+import { responseSchema, type SchemaError } from "#xibo/schemas.ts";
 import type {
+  BreakerStatus,
   ConnectionTestResult,
   DashboardStatus,
   XiboAbout,
@@ -29,17 +73,20 @@ import type {
 /** Margin (ms) to refresh the token before it actually expires */
 const TOKEN_EXPIRY_MARGIN_MS = 60_000;
 
-/** In-memory token store – lives for the duration of a single edge isolate */
-let currentToken: string | null = null;
-let tokenExpiresAt = 0;
+/** Key identifying a connection (null for the default), for its token and circuit breaker */
+export const connectionKey = (connectionId: number | null): string =>
+  connectionId === null ? DEFAULT_BREAKER_KEY : `connection-${connectionId}`;
+
+/** Key identifying a config's connection */
+export const xiboConnectionKey = (config: XiboConfig): string =>
+  connectionKey(config.connectionId ?? null);
 
 /**
- * Clear the in-memory token (useful for testing and forced re-auth).
+ * Clear a connection's stored token, or every token when no config
+ * is given (useful for testing and forced re-auth).
  */
-export const clearToken = (): void => {
-  currentToken = null;
-  tokenExpiresAt = 0;
-};
+export const clearToken = (config?: XiboConfig): Promise<void> =>
+  clearXiboTokens(config && xiboConnectionKey(config));
 
 /**
  * Authenticate with the Xibo CMS and store the token.
@@ -60,6 +107,7 @@ export const authenticate = async (config: XiboConfig): Promise<void> => {
       method: "POST",
       headers: { "content-type": "application/x-www-form-urlencoded" },
       body,
+      signal: deadlineSignal(config.deadline),
     })
   );
 
@@ -70,9 +118,16 @@ export const authenticate = async (config: XiboConfig): Promise<void> => {
     `Authentication failed: ${response.status}`,
   );
 
-  const data = (await response.json()) as XiboAuthToken;
-  currentToken = data.access_token;
-  tokenExpiresAt = nowMs() + data.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS;
+  const data = validateResponse(
+    "POST",
+    "authorize/access_token",
+    await response.json(),
+  ) as XiboAuthToken;
+  await saveXiboToken(
+    xiboConnectionKey(config),
+    data.access_token,
+    nowMs() + data.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+  );
 
   logDebug("Xibo", `authenticated in ${timer()}ms`);
 };
@@ -81,10 +136,11 @@ export const authenticate = async (config: XiboConfig): Promise<void> => {
  * Ensure we have a valid token, re-authenticating if needed.
  */
 const ensureToken = async (config: XiboConfig): Promise<string> => {
-  if (!currentToken || nowMs() >= tokenExpiresAt) {
-    await authenticate(config);
-  }
-  return currentToken!;
+  const key = xiboConnectionKey(config);
+  const stored = await loadXiboState(key);
+  if (stored.token !== null && nowMs() < stored.tokenExpiresAt) return stored.token;
+  await authenticate(config);
+  return (await loadXiboState(key)).token!;
 };
 
 /**
@@ -104,13 +160,42 @@ export class XiboClientError extends Error {
   }
 }
 
-/** Execute a fetch, throwing XiboClientError on network failure */
+/**
+ * Check a response against its schema, returning it with numeric
+ * strings coerced.  A malformed one is logged and rejected.
+ */
+const validateResponse = (
+  method: string,
+  endpoint: string,
+  body: unknown,
+): unknown => {
+  const schema = responseSchema(method, endpoint);
+  if (!schema) return body;
+  try {
+    return schema(body, "response");
+  } catch (e) {
+    const detail = `${method} ${endpoint} ${(e as SchemaError).message}`;
+    logError({ code: ErrorCode.XIBO_API_RESPONSE, detail });
+    throw new XiboClientError(`Unexpected response from Xibo: ${detail}`, 502);
+  }
+};
+
+/** Whether a fetch was abandoned by its deadline signal */
+const isAbandoned = (e: unknown): boolean =>
+  e instanceof DOMException && (e.name === "TimeoutError" || e.name === "AbortError");
+
+/**
+ * Execute a fetch, throwing XiboClientError on network failure, or
+ * XiboBudgetError when the request's deadline cut it off
+ */
 const safeFetch = async (
   fn: () => Promise<globalThis.Response>,
 ): Promise<globalThis.Response> => {
   try {
     return await fn();
   } catch (e) {
+    if (e instanceof XiboBudgetError) throw e;
+    if (isAbandoned(e)) throw new XiboBudgetError();
     logError({ code: ErrorCode.XIBO_API_CONNECTION, detail: String(e) });
     throw new XiboClientError("Failed to connect to Xibo CMS", 0);
   }
@@ -157,7 +242,7 @@ const fetchWithAuth = async (
 
   // Auto-refresh on 401
   if (response.status === 401) {
-    clearToken();
+    await clearToken(config);
     token = await ensureToken(config);
     response = await safeFetch(() => makeRequest(token));
   }
@@ -165,29 +250,45 @@ const fetchWithAuth = async (
   return response;
 };
 
+/** Options for an API request */
+type RequestOptions = {
+  params?: Record<string, string>;
+  body?: Record<string, unknown>;
+  formData?: FormData;
+};
+
+/** A parsed API response, with the list total when Xibo reports one */
+type ApiResult = { body: unknown; total: number | null };
+
+/** Read Xibo's X-Total-Count header, null when missing or malformed */
+const readTotal = (response: globalThis.Response): number | null => {
+  const header = response.headers.get("X-Total-Count");
+  const total = header === null ? NaN : Number(header);
+  return Number.isInteger(total) && total >= 0 ? total : null;
+};
+
 /**
  * Make an authenticated request to the Xibo API.
  * On 401, re-authenticates once and retries.
  * Uses circuit breaker to fail fast when API is down,
  * and retry with backoff for transient failures.
  */
-const apiRequest = async (
+const apiCall = async (
   config: XiboConfig,
   method: string,
   endpoint: string,
-  options: {
-    params?: Record<string, string>;
-    body?: Record<string, unknown>;
-    formData?: FormData;
-  } = {},
-): Promise<unknown> => {
-  const breaker = getXiboCircuitBreaker();
+  options: RequestOptions = {},
+): Promise<ApiResult> => {
+  const breakerKey = xiboConnectionKey(config);
+  const breaker = await loadXiboCircuitBreaker(breakerKey);
 
   // Fail fast if circuit is open
   if (!breaker.canAttempt()) {
     throw new XiboClientError("Xibo API circuit breaker is open", 503);
   }
 
+  const limiter = getXiboLimiter(breakerKey);
+  const deadline = config.deadline ?? Infinity;
   const timer = createRequestTimer();
 
   const makeRequest = (token: string): Promise<globalThis.Response> => {
@@ -209,13 +310,15 @@ const apiRequest = async (
       reqBody = JSON.stringify(options.body);
     }
 
-    return fetch(url, { method, headers, body: reqBody });
+    // A request still in flight at the deadline is abandoned
+    return fetch(url, { method, headers, body: reqBody, signal: deadlineSignal(deadline) });
   };
 
-  const execute = async (): Promise<unknown> => {
+  const execute = async (): Promise<ApiResult> => {
     const response = await fetchWithAuth(config, makeRequest);
     const duration = timer();
     logDebug("Xibo", `${method} ${endpoint} ${response.status} ${duration}ms`);
+    limiter.honourRetryAfter(response);
 
     await throwOnError(
       response,
@@ -227,51 +330,252 @@ const apiRequest = async (
     breaker.recordSuccess();
 
     // Some DELETE endpoints return 204 No Content
-    if (response.status === 204) return null;
+    if (response.status === 204) return { body: null, total: null };
 
-    return response.json();
+    return { body: await response.json(), total: readTotal(response) };
   };
 
+  let result: ApiResult;
   try {
-    return await withRetry(execute);
+    result = await withRetry(() => limiter.run(execute, deadline));
+    await saveXiboCircuitBreaker(breakerKey);
   } catch (e) {
-    breaker.recordFailure();
+    // Running out of time isn't the CMS failing
+    if (e instanceof XiboBudgetError) {
+      logError({ code: ErrorCode.XIBO_API_BUDGET, detail: `${method} ${endpoint}` });
+    } else {
+      breaker.recordFailure();
+    }
+    await saveXiboCircuitBreaker(breakerKey);
     throw e;
   }
+
+  // A malformed payload isn't an outage, so it's checked outside the breaker
+  return { ...result, body: validateResponse(method, endpoint, result.body) };
 };
 
+/** Make an API request and return just the parsed body */
+const apiRequest = async (
+  ...args: Parameters<typeof apiCall>
+): Promise<unknown> => (await apiCall(...args)).body;
+
+/**
+ * Cache key prefix for a config's connection.  The default connection
+ * is unprefixed; named connections can't collide with it as no
+ * endpoint starts with "@".
+ */
+const cacheScope = (config: XiboConfig): string =>
+  config.connectionId === undefined ? "" : `@${config.connectionId}/`;
+
 /**
- * Build a cache key from endpoint + params.
+ * Build a cache key from connection + endpoint + params.
  */
 const buildCacheKey = (
+  config: XiboConfig,
   endpoint: string,
   params?: Record<string, string>,
 ): string => {
-  const base = endpoint.replace(/\//g, "_");
+  const base = cacheScope(config) + endpoint.replace(/\//g, "_");
   if (!params || Object.keys(params).length === 0) return base;
   const qs = new URLSearchParams(params).toString();
   return `${base}:${qs}`;
 };
 
+/**
+ * Endpoint families whose numeric segments don't name one resource
+ * (a menuboard path ID can be a board, category or product; a playlist
+ * path ID a region or widget), so they're only tagged as a whole.
+ */
+const UNTAGGED_ID_FAMILIES = new Set(["menuboard", "playlist"]);
+
+/**
+ * Resource tags for an endpoint, scoped to the config's connection.
+ * The entity is the first path segment, singular so that list reads
+ * ("menuboards") share a tag with their mutations ("menuboard").
+ * The first numeric segment names the resource:
+ *   "dataset/data/5/12" → { resource: "dataset:5", collection: "dataset" }
+ *   "folders"           → { resource: "folder", collection: "folder" }
+ */
+const resourceTags = (
+  config: XiboConfig,
+  endpoint: string,
+): { resource: string; collection: string } => {
+  const segments = endpoint.split("?")[0]!.split("/");
+  const entity = segments[0]!.replace(/s$/, "");
+  const collection = cacheScope(config) + entity;
+  const id = segments.find((segment) => /^\d+$/.test(segment));
+  const tagged = id !== undefined && !UNTAGGED_ID_FAMILIES.has(entity);
+  return { resource: tagged ? `${collection}:${id}` : collection, collection };
+};
+
+/**
+ * How a cached read behaves once its entry has expired:
+ * - "on-error" (default): refetch, serving the stale copy only if the
+ *   CMS is unreachable, the circuit breaker is open or the request's
+ *   time budget has run out
+ * - "revalidate": serve the stale copy at once and refresh it in the
+ *   background
+ */
+export type StaleMode = "on-error" | "revalidate";
+
+/** Options for a cached read */
+export type CacheOptions = {
+  /** Time to live for a fresh entry (default 10 min) */
+  ttlMs?: number;
+  stale?: StaleMode;
+  /** Called when a stale copy is served because the CMS is unavailable */
+  onStale?: () => void;
+};
+
+/** Background refreshes in flight, by cache key, so each key refreshes once */
+const revalidations = new Map<string, Promise<void>>();
+
+/**
+ * Wait for background refreshes to finish (for testing).
+ */
+export const settleRevalidations = async (): Promise<void> => {
+  await Promise.all(revalidations.values());
+};
+
+/** Refresh a stale entry in the background, logging rather than throwing on failure */
+const revalidate = (cacheKey: string, refresh: () => Promise<unknown>): void => {
+  if (revalidations.has(cacheKey)) return;
+  const pending = refresh()
+    .then(() => undefined)
+    .catch((e: unknown) => {
+      logError({ code: ErrorCode.XIBO_CACHE_REVALIDATE, detail: `${cacheKey}: ${String(e)}` });
+    })
+    .finally(() => revalidations.delete(cacheKey));
+  revalidations.set(cacheKey, pending);
+};
+
+/**
+ * Read a value from the cache, or fetch and store it with its resource
+ * tag.  An expired entry is served stale per the options' stale mode.
+ */
+const cachedFetch = async <T>(
+  config: XiboConfig,
+  endpoint: string,
+  cacheKey: string,
+  fetchValue: () => Promise<T>,
+  options: CacheOptions,
+): Promise<T> => {
+  const entry = await cacheGetEntry(cacheKey);
+  if (entry?.fresh) return JSON.parse(entry.value) as T;
+
+  const refresh = async (): Promise<T> => {
+    const result = await fetchValue();
+    await cacheSet(cacheKey, JSON.stringify(result), options.ttlMs, [
+      resourceTags(config, endpoint).resource,
+    ]);
+    return result;
+  };
+
+  if (!entry) return refresh();
+
+  if (options.stale === "revalidate") {
+    revalidate(cacheKey, refresh);
+    return JSON.parse(entry.value) as T;
+  }
+
+  try {
+    return await refresh();
+  } catch (e) {
+    if (!isRetryableError(e) && !(e instanceof XiboBudgetError)) throw e;
+    logDebug("Xibo", `serving stale ${cacheKey}`);
+    options.onStale?.();
+    return JSON.parse(entry.value) as T;
+  }
+};
+
 /**
  * GET with caching.  Reads from libsql cache first; on miss, fetches
  * from the API and stores the result.
  */
-export const get = async <T>(
+export const get = <T>(
   config: XiboConfig,
   endpoint: string,
   params?: Record<string, string>,
-  cacheTtlMs?: number,
-): Promise<T> => {
-  const cacheKey = buildCacheKey(endpoint, params);
-  const cached = await cacheGet(cacheKey);
-  if (cached !== null) {
-    return JSON.parse(cached) as T;
+  options: CacheOptions = {},
+): Promise<T> =>
+  cachedFetch(
+    config,
+    endpoint,
+    buildCacheKey(config, endpoint, params),
+    async () => (await apiRequest(config, "GET", endpoint, { params })) as T,
+    options,
+  );
+
+/** Rows requested per page when walking a list endpoint */
+export const LIST_PAGE_SIZE = 100;
+
+/** One page of a list endpoint, with Xibo's total row count if reported */
+type ListPage<T> = { rows: T[]; total: number | null };
+
+/**
+ * GET one page of a list endpoint, cached under its own key so a
+ * walk can resume from the cache page by page.
+ */
+const getPage = <T>(
+  config: XiboConfig,
+  endpoint: string,
+  params: Record<string, string>,
+  start: number,
+  length: number,
+  options: CacheOptions,
+): Promise<ListPage<T>> => {
+  const pageParams = { ...params, start: String(start), length: String(length) };
+  return cachedFetch(
+    config,
+    endpoint,
+    buildCacheKey(config, endpoint, pageParams),
+    async () => {
+      const { body, total } = await apiCall(config, "GET", endpoint, { params: pageParams });
+      return { rows: body as T[], total };
+    },
+    options,
+  );
+};
+
+/** Arguments of the list readers: connection, endpoint, filters and cache options */
+type ListArgs = [
+  config: XiboConfig,
+  endpoint: string,
+  params?: Record<string, string>,
+  options?: CacheOptions,
+];
+
+/**
+ * GET every row of a list endpoint by walking start/length.
+ * Stops at the reported total, or at a short page when Xibo sends no
+ * total. An endpoint that ignores paging returns more rows than asked
+ * for, which are taken as the whole list.
+ */
+export const getAll = async <T>(
+  ...[config, endpoint, params = {}, options = {}]: ListArgs
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (;;) {
+    const page = await getPage<T>(config, endpoint, params, rows.length, LIST_PAGE_SIZE, options);
+    rows.push(...page.rows);
+    const done = page.total === null
+      ? page.rows.length !== LIST_PAGE_SIZE
+      : page.rows.length === 0 || rows.length >= page.total;
+    if (done) return rows;
   }
+};
 
-  const result = await apiRequest(config, "GET", endpoint, { params });
-  await cacheSet(cacheKey, JSON.stringify(result), cacheTtlMs);
-  return result as T;
+/**
+ * Count the rows of a list endpoint without fetching them all.
+ * Asks for a single row and reads the X-Total-Count header, falling
+ * back to walking the list when Xibo doesn't report a total.
+ */
+export const getCount = async (
+  ...[config, endpoint, params = {}, options = {}]: ListArgs
+): Promise<number> => {
+  const page = await getPage<unknown>(config, endpoint, params, 0, 1, options);
+  if (page.total !== null) return page.total;
+  return page.rows.length === 0 ? 0 : (await getAll(config, endpoint, params, options)).length;
 };
 
 /** Shared mutation handler for POST and PUT methods */
@@ -282,7 +586,7 @@ const mutate = async <T>(
   body?: Record<string, unknown>,
 ): Promise<T> => {
   const result = await apiRequest(config, method, endpoint, { body });
-  await invalidateCacheForEndpoint(endpoint);
+  await invalidateCacheForEndpoint(config, endpoint);
   return result as T;
 };
 
@@ -310,7 +614,7 @@ export const del = async (
   endpoint: string,
 ): Promise<void> => {
   await apiRequest(config, "DELETE", endpoint);
-  await invalidateCacheForEndpoint(endpoint);
+  await invalidateCacheForEndpoint(config, endpoint);
 };
 
 /**
@@ -322,7 +626,7 @@ export const postMultipart = async <T>(
   formData: FormData,
 ): Promise<T> => {
   const result = await apiRequest(config, "POST", endpoint, { formData });
-  await invalidateCacheForEndpoint(endpoint);
+  await invalidateCacheForEndpoint(config, endpoint);
   return result as T;
 };
 
@@ -354,16 +658,37 @@ export const getRaw = async (
 };
 
 /**
- * Invalidate caches related to a mutated endpoint.
- * Extracts the entity prefix from the endpoint path.
+ * Lists another entity's mutations change: display lists are filtered
+ * by display group, so assigning a display to a group drops them.
  */
-const invalidateCacheForEndpoint = async (endpoint: string): Promise<void> => {
-  // Extract the first path segment as the entity prefix, e.g.
-  // "menuboard/5/category" → "menuboard"
-  const prefix = endpoint.split("/")[0];
-  if (prefix) {
-    await cacheInvalidatePrefix(prefix);
-  }
+const DEPENDENT_COLLECTIONS: Record<string, string> = { displaygroup: "display" };
+
+/**
+ * Invalidate caches related to a mutated endpoint: the resource it
+ * touched and the lists of its entity, e.g. "dataset/data/5" drops
+ * dataset 5 and the dataset list but leaves other datasets cached.
+ */
+const invalidateCacheForEndpoint = async (
+  config: XiboConfig,
+  endpoint: string,
+): Promise<void> => {
+  const { resource, collection } = resourceTags(config, endpoint);
+  const tags = [resource, collection];
+  const dependent = DEPENDENT_COLLECTIONS[endpoint.split("/")[0]!];
+  if (dependent !== undefined) tags.push(cacheScope(config) + dependent);
+  await cacheInvalidateTags(tags);
+};
+
+/**
+ * Drop every cached read of these entities for a connection, e.g.
+ * ["campaign", "schedule"], so the next reads see changes made on the
+ * CMS itself.
+ */
+export const invalidateCollections = async (
+  config: XiboConfig,
+  entities: string[],
+): Promise<void> => {
+  await cacheInvalidateTags(entities.map((entity) => cacheScope(config) + entity));
 };
 
 /**
@@ -374,7 +699,7 @@ export const testConnection = async (
   config: XiboConfig,
 ): Promise<ConnectionTestResult> => {
   try {
-    clearToken();
+    await clearToken(config);
     await authenticate(config);
     const about = (await apiRequest(config, "GET", "about")) as XiboAbout;
     return {
@@ -396,31 +721,31 @@ export const DISCONNECTED_STATUS: DashboardStatus = {
   mediaCount: null,
   layoutCount: null,
   datasetCount: null,
+  stale: false,
 };
 
 /**
  * Fetch dashboard summary: connection status + entity counts.
- * Uses the cache aggressively — each count is cached individually.
+ * Counts come from Xibo's list totals, so no list is fetched in full.
+ * While the CMS is unreachable, previously cached figures are shown
+ * and the status is flagged stale.
  */
 export const getDashboardStatus = async (
   config: XiboConfig,
 ): Promise<DashboardStatus> => {
-  try {
-    await ensureToken(config);
-  } catch {
-    return DISCONNECTED_STATUS;
-  }
+  let stale = false;
+  const options: CacheOptions = { onStale: () => stale = true };
 
   // Fetch version
   let version: string | null = null;
   try {
-    const about = await get<XiboAbout>(config, "about");
+    const about = await get<XiboAbout>(config, "about", undefined, options);
     version = about.version;
   } catch {
     return DISCONNECTED_STATUS;
   }
 
-  // Fetch counts in parallel — each uses its own cache key
+  // Count in parallel — each count reads one cached single-row page
   const countEndpoints = [
     "menuboards",
     "library",
@@ -431,8 +756,7 @@ export const getDashboardStatus = async (
   const counts = await Promise.all(
     countEndpoints.map(async (ep) => {
       try {
-        const data = await get<unknown[]>(config, ep);
-        return data.length;
+        return await getCount(config, ep, {}, options);
       } catch {
         return null;
       }
@@ -453,14 +777,47 @@ export const getDashboardStatus = async (
     mediaCount,
     layoutCount,
     datasetCount,
+    stale,
   };
 };
 
 /**
- * Load Xibo API config from the database (decrypted).
- * Returns null if any credential is missing.
+ * Circuit breaker state of the default connection and each named one.
  */
-export const loadXiboConfig = async (): Promise<XiboConfig | null> => {
+export const getBreakerStatuses = (
+  connectionIds: number[],
+): Promise<BreakerStatus[]> =>
+  Promise.all(
+    [null, ...connectionIds].map(async (connectionId) => {
+      const breaker = await loadXiboCircuitBreaker(connectionKey(connectionId));
+      return { connectionId, state: breaker.getState(), failures: breaker.getFailures() };
+    }),
+  );
+
+/** A config whose calls must finish within REQUEST_BUDGET_MS from now */
+const withRequestBudget = (config: XiboConfig): XiboConfig => ({
+  ...config,
+  deadline: nowMs() + REQUEST_BUDGET_MS,
+});
+
+/**
+ * Load Xibo API config from the database (decrypted): the named
+ * connection when an ID is given, otherwise the default connection
+ * from settings.  Returns null if the connection or any credential is
+ * missing.  Routes load a config per request, so it carries that
+ * request's time budget.
+ */
+export const loadXiboConfig = async (
+  connectionId: number | null = null,
+): Promise<XiboConfig | null> => {
+  if (connectionId !== null) {
+    const { getXiboConnectionById, toXiboConfig } = await import(
+      "#lib/db/xibo-connections.ts"
+    );
+    const connection = await getXiboConnectionById(connectionId);
+    return connection ? withRequestBudget(await toXiboConfig(connection)) : null;
+  }
+
   const { getXiboApiUrl, getXiboClientId, getXiboClientSecret } = await import(
     "#lib/db/settings.ts"
   );
@@ -470,5 +827,5 @@ export const loadXiboConfig = async (): Promise<XiboConfig | null> => {
     getXiboClientSecret(),
   ]);
   if (!apiUrl || !clientId || !clientSecret) return null;
-  return { apiUrl, clientId, clientSecret };
+  return withRequestBudget({ apiUrl, clientId, clientSecret });
 };
@@ -0,0 +1,16 @@
+/**
+ * Business dataset layout
+ *
+ * Every business gets one Xibo dataset holding its products.  Routes
+ * read and write rows by these headings, and live templates filter and
+ * order dataset widgets by them.
+ */
+
+/** Column headings in the business dataset */
+export const COL = {
+  NAME: "name",
+  PRICE: "price",
+  MEDIA_ID: "mediaId",
+  AVAILABLE: "available",
+  SORT_ORDER: "sortOrder",
+} as const;
@@ -0,0 +1,79 @@
+/**
+ * Xibo connection diagnostics
+ *
+ * testConnection only proves the credentials work.  Xibo grants an API
+ * application its scopes per area, reads and writes alike, so an
+ * application missing one fails only when a publish reaches that area.
+ * Diagnostics read one row from each area the app relies on, timing
+ * every probe, and flag CMS versions the client hasn't been verified
+ * against.  A read stands in for writes such as library upload, so
+ * diagnosing a connection leaves nothing behind on the CMS.
+ *
+ * Probes go straight to the CMS, past the cache and circuit breaker,
+ * so they show how it answers now.
+ */
+
+import { mapAsync } from "#fp";
+import { createRequestTimer, errorMessage } from "#lib/logger.ts";
+import { getRaw, testConnection, XiboClientError } from "#xibo/client.ts";
+import type {
+  CapabilityCheck,
+  ConnectionDiagnostics,
+  XiboConfig,
+} from "#xibo/types.ts";
+
+/** Xibo releases (major.minor) the client has been verified against */
+export const VERIFIED_XIBO_VERSIONS = ["4.0", "4.1"];
+
+/** Whether a CMS version belongs to a verified release */
+export const isVerifiedVersion = (version: string): boolean =>
+  VERIFIED_XIBO_VERSIONS.some((release) => version === release || version.startsWith(`${release}.`));
+
+/** A capability the app relies on, and the endpoint that probes it */
+type Capability = { capability: string; endpoint: string };
+
+/** Every capability the app relies on */
+export const CAPABILITIES: Capability[] = [
+  { capability: "Folders", endpoint: "folders" },
+  { capability: "Library", endpoint: "library" },
+  { capability: "Datasets", endpoint: "dataset" },
+  { capability: "Layouts", endpoint: "layout" },
+  { capability: "Campaigns", endpoint: "campaign" },
+  { capability: "Schedules", endpoint: "schedule" },
+  { capability: "Displays", endpoint: "display" },
+  { capability: "Resolutions", endpoint: "resolution" },
+];
+
+/** Why a probe failed, naming a refused scope as such */
+const probeError = (e: unknown): string =>
+  e instanceof XiboClientError && e.httpStatus === 403
+    ? "Forbidden: the API application lacks this scope"
+    : errorMessage(e);
+
+/** Read one row from a capability's endpoint, timing it */
+const probe = (config: XiboConfig) => async ({ capability, endpoint }: Capability): Promise<CapabilityCheck> => {
+  const timer = createRequestTimer();
+  let error: string | null = null;
+  try {
+    const response = await getRaw(config, `${endpoint}?start=0&length=1`);
+    await response.body?.cancel();
+  } catch (e) {
+    error = probeError(e);
+  }
+  return { capability, endpoint, ok: error === null, latencyMs: timer(), error };
+};
+
+/**
+ * Diagnose a connection: log in and read the CMS version, then probe
+ * each capability in turn.  Nothing is probed without a working login.
+ */
+export const diagnoseConnection = async (
+  config: XiboConfig,
+): Promise<ConnectionDiagnostics> => {
+  const result = await testConnection(config);
+  return {
+    ...result,
+    versionVerified: result.version !== undefined && isVerifiedVersion(result.version),
+    checks: result.success ? await mapAsync(probe(config))(CAPABILITIES) : [],
+  };
+};
@@ -0,0 +1,97 @@
+/**
+ * Managed display groups — one per screen
+ *
+ * A screen can be shown on several displays at once.  The app keeps a
+ * Xibo display group for each screen with a display, holding all of
+ * its displays, and schedules the screen's campaigns on the group, so
+ * adding or removing a display needs no schedule change.  A screen
+ * whose last display is removed loses its group (and the group's events).
+ */
+
+import { del, get, getAll, post } from "#xibo/client.ts";
+import type { XiboConfig, XiboDisplay, XiboDisplayGroup } from "#xibo/types.ts";
+import { type DisplayScreen, updateScreenDisplayGroupId } from "#lib/db/screens.ts";
+
+/** Group name, unique on the CMS as Xibo requires */
+const groupName = (screen: DisplayScreen): string => `Screen ${screen.id}: ${screen.name}`;
+
+/** A display group by ID, or null when it was deleted on the CMS */
+const findDisplayGroup = async (
+  config: XiboConfig,
+  displayGroupId: number,
+): Promise<XiboDisplayGroup | null> =>
+  (await get<XiboDisplayGroup[]>(config, `displaygroup?displayGroupId=${displayGroupId}`))[0] ?? null;
+
+/** A screen's display group, or null when it has none on the CMS */
+const findScreenGroup = (
+  config: XiboConfig,
+  screen: DisplayScreen,
+): Promise<XiboDisplayGroup | null> =>
+  screen.xibo_display_group_id === null
+    ? Promise.resolve(null)
+    : findDisplayGroup(config, screen.xibo_display_group_id);
+
+/** IDs of the displays in a group */
+const getGroupDisplayIds = async (
+  config: XiboConfig,
+  displayGroupId: number,
+): Promise<number[]> =>
+  (await getAll<XiboDisplay>(config, "display", { displayGroupId: String(displayGroupId) }))
+    .map((d) => d.displayId);
+
+/**
+ * IDs of the displays in a screen's display group, or null when the
+ * screen has no group or it was deleted on the CMS
+ */
+export const getScreenGroupDisplayIds = async (
+  config: XiboConfig,
+  screen: DisplayScreen,
+): Promise<number[] | null> => {
+  const group = await findScreenGroup(config, screen);
+  return group && await getGroupDisplayIds(config, group.displayGroupId);
+};
+
+/** Assign and unassign displays so the group holds exactly these */
+const setGroupDisplays = async (
+  config: XiboConfig,
+  displayGroupId: number,
+  displayIds: number[],
+): Promise<void> => {
+  const current = await getGroupDisplayIds(config, displayGroupId);
+  const added = displayIds.filter((id) => !current.includes(id));
+  const removed = current.filter((id) => !displayIds.includes(id));
+  if (added.length > 0) {
+    await post(config, `displaygroup/${displayGroupId}/display/assign`, { displayId: added });
+  }
+  if (removed.length > 0) {
+    await post(config, `displaygroup/${displayGroupId}/display/unassign`, { displayId: removed });
+  }
+};
+
+/**
+ * Bring a screen's display group to exactly these displays and record
+ * its ID.  The group is created when the screen has none (or it was
+ * deleted on the CMS), and deleted when no displays remain.  Returns
+ * the group ID, or null when the screen is left without one; a new ID
+ * means the screen's campaigns still need scheduling on it.
+ */
+export const syncScreenDisplayGroup = async (
+  config: XiboConfig,
+  screen: DisplayScreen,
+  displayIds: number[],
+): Promise<number | null> => {
+  const existing = await findScreenGroup(config, screen);
+
+  let groupId: number | null = null;
+  if (displayIds.length === 0) {
+    if (existing) await del(config, `displaygroup/${existing.displayGroupId}`);
+  } else {
+    const group = existing ??
+      await post<XiboDisplayGroup>(config, "displaygroup", { displayGroup: groupName(screen), isDynamic: 0 });
+    await setGroupDisplays(config, group.displayGroupId, displayIds);
+    groupId = group.displayGroupId;
+  }
+
+  if (groupId !== screen.xibo_display_group_id) await updateScreenDisplayGroupId(screen.id, groupId);
+  return groupId;
+};
@@ -0,0 +1,85 @@
+/**
+ * Display status for screens
+ *
+ * Xibo records when each player last checked in and the layout it last
+ * reported playing.  A screen's status compares that with what the app
+ * scheduled: one of its menu screens' layouts, or the display's default
+ * layout, which Xibo plays whenever no daypart is active.
+ *
+ * A display's state changes each time its player checks in, so the
+ * display list is cached for a minute rather than the usual ten.  A
+ * page of screens reads the list once.
+ */
+
+import { compact } from "#fp";
+import { getMenuScreensForScreen } from "#lib/db/menu-screens.ts";
+import type { Screen } from "#lib/types.ts";
+import { getAll } from "#xibo/client.ts";
+import { withCurrentLayoutIds } from "#xibo/layout-builder.ts";
+import type { DisplayStatus, XiboConfig, XiboDisplay } from "#xibo/types.ts";
+
+/** How long the display list is cached */
+export const DISPLAY_LIST_TTL_MS = 60_000;
+
+/**
+ * Every display on the CMS, as last reported by its player
+ */
+export const fetchDisplays = (config: XiboConfig): Promise<XiboDisplay[]> =>
+  getAll<XiboDisplay>(config, "display", {}, { ttlMs: DISPLAY_LIST_TTL_MS });
+
+/**
+ * Status of a display given the layouts its screen should be playing.
+ * A player that hasn't reported a layout isn't flagged for it.
+ */
+export const displayStatus = (
+  display: XiboDisplay | undefined,
+  expectedLayoutIds: number[],
+): DisplayStatus => {
+  if (!display) return { state: "missing", display: null };
+  const current = display.currentLayoutId;
+  const expected = current === null || current === display.defaultLayoutId ||
+    expectedLayoutIds.includes(current);
+  return {
+    state: display.loggedIn !== 1 ? "offline" : expected ? "online" : "unexpected-layout",
+    display,
+  };
+};
+
+/**
+ * Layouts published for a screen's menu screens, as they are now:
+ * publishing an edit gives a layout a new ID
+ */
+const expectedLayoutIds = async (config: XiboConfig, screenId: number): Promise<number[]> =>
+  compact(
+    (await withCurrentLayoutIds(config, await getMenuScreensForScreen(screenId)))
+      .map((ms) => ms.xibo_layout_id),
+  );
+
+/**
+ * Status of each screen with a display, keyed by screen ID.  Screens
+ * without one are left out; while the CMS can't be reached every
+ * status is "unknown".
+ */
+export const getScreenStatuses = async (
+  config: XiboConfig,
+  screens: Screen[],
+): Promise<Record<number, DisplayStatus>> => {
+  const mapped = screens.filter((s) => s.xibo_display_id !== null);
+  if (mapped.length === 0) return {};
+
+  try {
+    const displays = await fetchDisplays(config);
+    const statuses: Record<number, DisplayStatus> = {};
+    for (const screen of mapped) {
+      statuses[screen.id] = displayStatus(
+        displays.find((d) => d.displayId === screen.xibo_display_id),
+        await expectedLayoutIds(config, screen.id),
+      );
+    }
+    return statuses;
+  } catch {
+    // Statuses are informational; pages still render without the CMS
+    const unknown: DisplayStatus = { state: "unknown", display: null };
+    return Object.fromEntries(mapped.map((s) => [s.id, unknown]));
+  }
+};
@@ -1,24 +1,52 @@
 /**
- * Layout builder — generates 1080x1920 portrait menu board layouts
+ * Layout builder — generates menu board layouts
  *
  * Ports the Ruby LayoutBuilder to TypeScript. Creates layouts with a
  * header region at top and a 3x4 product grid filling the remaining space.
+ * Positions are computed for a canvas: each screen's resolution, or the
+ * default 1080x1920 portrait canvas.
+ *
+ * Each region is described by a RegionSpec.  A new layout gets a region
+ * per spec; an existing one is edited in place through a Xibo draft,
+ * touching only the regions whose spec changed.
+ *
+ * Regions are created BUILD_CONCURRENCY at a time rather than one by
+ * one.  A new layout is only published once every region is built: a
+ * failed build stops, deletes the half-built layout and throws a
+ * LayoutBuildError carrying its report.
+ *
+ * Publishing a draft gives the layout a new ID, but its layout-specific
+ * campaign stays the same, so menu screens find their layout by campaign.
  */
 
+import { mapAsync } from "#fp";
 import { logAuditEvent } from "#lib/db/audit-events.ts";
-import { get, post, put } from "#xibo/client.ts";
+import type { MenuScreen } from "#lib/types.ts";
+import { escapeHtml } from "#jsx/jsx-runtime.ts";
+import {
+  createRequestTimer,
+  ErrorCode,
+  errorMessage,
+  logDebug,
+  logError,
+} from "#lib/logger.ts";
+import { del, get, getAll, post, put } from "#xibo/client.ts";
 import type {
   XiboConfig,
+  XiboDatasetColumn,
   XiboLayout,
+  XiboLayoutRegion,
+  XiboLayoutWidget,
   XiboRegion,
   XiboResolution,
+  XiboWidget,
 } from "#xibo/types.ts";
 
-/** Screen dimensions (portrait orientation) */
+/** Default screen dimensions (portrait orientation) */
 export const SCREEN_WIDTH = 1080;
 export const SCREEN_HEIGHT = 1920;
 
-/** Header region dimensions */
+/** Header region dimensions on the default screen (scaled for other canvases) */
 export const HEADER_WIDTH = 950;
 export const HEADER_HEIGHT = 250;
 
@@ -35,15 +63,51 @@ export type GridPosition = {
   height: number;
 };
 
+/** Layout canvas size in pixels */
+export type Canvas = { width: number; height: number };
+
+/** The default 1080x1920 portrait canvas */
+export const PORTRAIT_CANVAS: Canvas = { width: SCREEN_WIDTH, height: SCREEN_HEIGHT };
+
+/** Canvas orientation: landscape when wider than tall */
+export type Orientation = "portrait" | "landscape";
+
+/** Get the orientation of a canvas */
+export const canvasOrientation = (canvas: Canvas): Orientation =>
+  canvas.width > canvas.height ? "landscape" : "portrait";
+
 /**
- * Calculate header position (centered at top of screen).
+ * Parse a Xibo resolution string such as "1920x1080" into a canvas.
+ * Returns null for a missing or malformed resolution.
  */
-export const calculateHeaderPosition = (): GridPosition => ({
-  top: 0,
-  left: Math.floor((SCREEN_WIDTH - HEADER_WIDTH) / 2),
-  width: HEADER_WIDTH,
-  height: HEADER_HEIGHT,
-});
+export const parseResolution = (resolution: string | null | undefined): Canvas | null => {
+  const match = /^\s*(\d+)\s*x\s*(\d+)\s*$/i.exec(resolution ?? "");
+  if (!match) return null;
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? { width, height } : null;
+};
+
+/** Format a canvas as "1920x1080 (landscape)" */
+export const formatCanvas = (canvas: Canvas): string =>
+  `${canvas.width}x${canvas.height} (${canvasOrientation(canvas)})`;
+
+/** Scale a length on the default screen to the same share of a canvas side */
+export const scaleToCanvas = (length: number, defaultSide: number, canvasSide: number): number =>
+  Math.floor((length * canvasSide) / defaultSide);
+
+/**
+ * Calculate header position (centered at top of the canvas).
+ */
+export const calculateHeaderPosition = (canvas: Canvas = PORTRAIT_CANVAS): GridPosition => {
+  const width = scaleToCanvas(HEADER_WIDTH, SCREEN_WIDTH, canvas.width);
+  return {
+    top: 0,
+    left: Math.floor((canvas.width - width) / 2),
+    width,
+    height: scaleToCanvas(HEADER_HEIGHT, SCREEN_HEIGHT, canvas.height),
+  };
+};
 
 /**
  * Calculate grid cell positions for the product grid.
@@ -77,14 +141,19 @@ export const calculateGridPositions = (
 };
 
 /**
- * Get or create a resolution matching the given dimensions.
+ * Get or create a resolution matching the given dimensions.  Xibo
+ * filters the list by size, so a match is found however many custom
+ * resolutions the CMS holds.
  */
 export const getOrCreateResolution = async (
   config: XiboConfig,
   width: number,
   height: number,
 ): Promise<XiboResolution> => {
-  const resolutions = await get<XiboResolution[]>(config, "resolution");
+  const resolutions = await get<XiboResolution[]>(config, "resolution", {
+    width: String(width),
+    height: String(height),
+  });
   const existing = resolutions.find(
     (r) => r.width === width && r.height === height,
   );
@@ -113,74 +182,574 @@ export const LAYOUT_STATUS_LABELS: Record<number, string> = {
 export const layoutStatusLabel = (status: number): string =>
   LAYOUT_STATUS_LABELS[status] ?? `Unknown (${status})`;
 
-/** Product data needed for layout region widgets */
-export type RegionProduct = { name: string; price: string };
+/**
+ * Product data needed for layout region widgets.
+ * Products with a library image get an image tile; others are text only.
+ */
+export type RegionProduct = { name: string; price: string; mediaId?: number | null };
+
+/** Share of an image tile's long side given to the image */
+export const TILE_IMAGE_SHARE = 0.7;
+
+/** Image and caption areas of a product tile */
+export type TileAreas = { image: GridPosition; caption: GridPosition };
 
 /**
- * Create a header region with a text widget on a layout.
- * Returns the created region.
+ * Split a product tile into image and caption areas.
+ * Wide tiles (list rows) put a square-ish image on the left;
+ * tall tiles (grid cells) put the image on top.
  */
-export const createHeaderRegion = async (
+export const splitProductTile = (pos: GridPosition): TileAreas => {
+  if (pos.width > pos.height) {
+    const imageWidth = Math.min(pos.height, Math.floor(pos.width * TILE_IMAGE_SHARE));
+    return {
+      image: { ...pos, width: imageWidth },
+      caption: { ...pos, left: pos.left + imageWidth, width: pos.width - imageWidth },
+    };
+  }
+  const imageHeight = Math.floor(pos.height * TILE_IMAGE_SHARE);
+  return {
+    image: { ...pos, height: imageHeight },
+    caption: { ...pos, top: pos.top + imageHeight, height: pos.height - imageHeight },
+  };
+};
+
+/** Create an empty region at a position on a layout */
+const createRegion = (
   config: XiboConfig,
   layoutId: number,
-  headerPos: GridPosition,
-  label: string,
-): Promise<XiboRegion> => {
-  const region = await post<XiboRegion>(
-    config,
-    `region/${layoutId}`,
-    {
-      width: headerPos.width,
-      height: headerPos.height,
-      top: headerPos.top,
-      left: headerPos.left,
-    },
-  );
-  await post(config, `playlist/widget/text/${region.regionId}`, {
-    name: label,
-    duration: 0,
+  pos: GridPosition,
+): Promise<XiboRegion> =>
+  post<XiboRegion>(config, `region/${layoutId}`, {
+    width: pos.width,
+    height: pos.height,
+    top: pos.top,
+    left: pos.left,
   });
-  return region;
+
+/** Font and colours of a text widget; unset properties keep the Xibo defaults */
+export type TextStyle = {
+  font?: string;
+  fontSize?: number;
+  color?: string;
+  background?: string;
 };
 
+/** Inline CSS for a text style */
+export const textStyleCss = (style: TextStyle): string =>
+  [
+    style.font ? `font-family:${style.font}` : "",
+    style.fontSize ? `font-size:${style.fontSize}px` : "",
+    style.color ? `color:${style.color}` : "",
+  ].filter((rule) => rule).join(";");
+
 /**
- * Create product grid regions on a layout.
- * Each position gets a region; if a matching product exists, a text widget is added.
+ * Text widget options for a styled text: the text wrapped in a styled
+ * paragraph, and the widget background. Unstyled text needs no options.
  */
-export const createProductGridRegions = async (
+const textStyleOptions = (text: string, style: TextStyle): Record<string, unknown> => {
+  const css = textStyleCss(style);
+  return {
+    ...(css ? { text: `<p style="${css}">${escapeHtml(text)}</p>` } : {}),
+    ...(style.background ? { backgroundColor: style.background } : {}),
+  };
+};
+
+/** Options that set a text widget's content: its name and styled text */
+const textWidgetOptions = (text: string, style: TextStyle): Record<string, unknown> => ({
+  name: text,
+  ...textStyleOptions(text, style),
+});
+
+/** Caption shown for a product: "name - price" */
+export const productCaption = (product: RegionProduct): string =>
+  `${product.name} - ${product.price}`;
+
+/** Xibo widget types that render rows straight from a dataset */
+export type DatasetWidgetType = "datasetview" | "ticker";
+
+/** Xibo ticker source ID for dataset-backed tickers */
+const TICKER_SOURCE_DATASET = 2;
+
+/**
+ * Dataset rows a dataset widget shows: the columns to display,
+ * and SQL filter/ordering clauses over the dataset's column headings.
+ */
+export type DatasetWidgetRows = {
+  datasetId: number;
+  columns: string[];
+  filter: string;
+  ordering: string;
+};
+
+/** Look up the column IDs for the given headings, in heading order */
+const datasetColumnIds = async (
   config: XiboConfig,
-  layoutId: number,
+  datasetId: number,
+  headings: string[],
+): Promise<number[]> => {
+  const columns = await getAll<XiboDatasetColumn>(config, `dataset/${datasetId}/column`);
+  return headings.map((heading) => {
+    const column = columns.find((c) => c.heading === heading);
+    if (!column) throw new Error(`Dataset column not found: ${heading}`);
+    return column.dataSetColumnId;
+  });
+};
+
+/** The row selection of a dataset widget, as its options hold it */
+const datasetRowOptions = (rows: DatasetWidgetRows): Record<string, unknown> => ({
+  useFilteringClause: 1,
+  filter: rows.filter,
+  useOrderingClause: 1,
+  ordering: rows.ordering,
+});
+
+/** Seconds a layout plays when no display time is given */
+export const DEFAULT_DURATION = 10;
+
+/**
+ * Options that make a widget play for a number of seconds.  Every
+ * region holds one widget, so the layout plays as long as its widgets.
+ */
+const widgetTiming = (duration: number): Record<string, unknown> => ({ useDuration: 1, duration });
+
+/** Whether a widget already plays for a number of seconds */
+const playsFor = (widget: XiboLayoutWidget, duration: number): boolean =>
+  widget.useDuration === 1 && widget.duration === duration;
+
+/** Every setting of a dataset widget after it is created: its rows, then options specific to its type */
+const datasetWidgetSettings = async (
+  config: XiboConfig,
+  type: DatasetWidgetType,
+  rows: DatasetWidgetRows,
+  duration: number,
+): Promise<Record<string, unknown>> => ({
+  ...widgetTiming(duration),
+  ...datasetRowOptions(rows),
+  ...(type === "datasetview"
+    ? {
+      dataSetColumnId: await datasetColumnIds(config, rows.datasetId, rows.columns),
+      showHeadings: 0,
+      rowsPerPage: 0,
+    }
+    : {
+      template: rows.columns.map((c) => `[${c}]`).join(" - "),
+      effect: "marqueeLeft",
+    }),
+});
+
+/**
+ * One region of a layout and what it shows: a text widget, a library
+ * image, a dataset widget, or nothing.  `kind` is the Xibo widget type.
+ * Layouts are built from a list of specs, and edited in place by
+ * comparing a draft's regions against the same list.
+ */
+export type RegionSpec =
+  | { pos: GridPosition; kind: "empty" }
+  | { pos: GridPosition; kind: "text"; text: string; style: TextStyle }
+  | { pos: GridPosition; kind: "image"; mediaId: number }
+  | { pos: GridPosition; kind: DatasetWidgetType; rows: DatasetWidgetRows };
+
+/** Spec for a text region, such as a header */
+export const textSpec = (pos: GridPosition, text: string, style: TextStyle = {}): RegionSpec => ({
+  pos,
+  kind: "text",
+  text,
+  style,
+});
+
+/**
+ * Specs for a product grid: a tile per position.  A product with a
+ * library image gets an image region beside a caption region, one
+ * without gets a caption, and a position with no product stays empty.
+ */
+export const productGridSpecs = (
   positions: GridPosition[],
   products: RegionProduct[],
-): Promise<void> => {
-  for (let i = 0; i < positions.length; i++) {
-    const pos = positions[i]!;
+  style: TextStyle = {},
+): RegionSpec[] =>
+  positions.flatMap((pos, i): RegionSpec[] => {
     const product = products[i];
+    if (!product) return [{ pos, kind: "empty" }];
+    const caption = productCaption(product);
+    if (!product.mediaId) return [textSpec(pos, caption, style)];
+    const areas = splitProductTile(pos);
+    return [{ pos: areas.image, kind: "image", mediaId: product.mediaId }, textSpec(areas.caption, caption, style)];
+  });
 
-    const region = await post<XiboRegion>(config, `region/${layoutId}`, {
-      width: pos.width,
-      height: pos.height,
-      top: pos.top,
-      left: pos.left,
+/** Create a spec's region on a layout, with its widget playing for `duration` seconds */
+export const createSpecRegion = async (
+  config: XiboConfig,
+  layoutId: number,
+  spec: RegionSpec,
+  duration: number,
+): Promise<XiboRegion> => {
+  const region = await createRegion(config, layoutId, spec.pos);
+  if (spec.kind === "text") {
+    await post(config, `playlist/widget/text/${region.regionId}`, {
+      ...textWidgetOptions(spec.text, spec.style),
+      ...widgetTiming(duration),
     });
+  } else if (spec.kind === "image") {
+    await post(config, `playlist/library/assign/${region.regionId}`, {
+      media: [spec.mediaId],
+      ...widgetTiming(duration),
+    });
+  } else if (spec.kind !== "empty") {
+    // The display reads the rows from the dataset on each refresh, so
+    // edits to the rows reach the screen without rebuilding the layout
+    const widget = await post<XiboWidget>(config, `playlist/widget/${spec.kind}/${region.regionId}`, {
+      dataSetId: spec.rows.datasetId,
+      ...(spec.kind === "ticker" ? { sourceId: TICKER_SOURCE_DATASET } : {}),
+    });
+    await put(
+      config,
+      `playlist/widget/${widget.widgetId}`,
+      await datasetWidgetSettings(config, spec.kind, spec.rows, duration),
+    );
+  }
+  return region;
+};
 
-    if (product) {
-      await post(config, `playlist/widget/text/${region.regionId}`, {
-        name: `${product.name} - ${product.price}`,
-        duration: 0,
-      });
+/** Spec builds run at once, matching the client's per-connection limit */
+export const BUILD_CONCURRENCY = 4;
+
+/** Outcome of running a list of tasks (see runBounded) */
+type BoundedRun = {
+  completed: number;
+  errors: { index: number; error: unknown }[];
+};
+
+/**
+ * Run tasks BUILD_CONCURRENCY at a time.  Once one fails no more are
+ * started, but those already running finish.
+ */
+const runBounded = async (tasks: (() => Promise<unknown>)[]): Promise<BoundedRun> => {
+  const run: BoundedRun = { completed: 0, errors: [] };
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (run.errors.length === 0 && next < tasks.length) {
+      const index = next++;
+      try {
+        await tasks[index]!();
+        run.completed++;
+      } catch (error) {
+        run.errors.push({ index, error });
+      }
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(BUILD_CONCURRENCY, tasks.length) }, worker));
+  return run;
+};
+
+/** Run tasks as runBounded does, throwing the first failure's error */
+const runBoundedOrThrow = async (tasks: (() => Promise<unknown>)[]): Promise<void> => {
+  const { errors } = await runBounded(tasks);
+  if (errors.length > 0) throw errors[0]!.error;
+};
+
+/** How a layout's regions were built */
+export type BuildReport = {
+  layoutId: number;
+  /** Specs whose region and widget were created */
+  built: number;
+  /** Specs that failed, by index in the spec list */
+  failures: { index: number; kind: RegionSpec["kind"]; error: string }[];
+  /** Specs not started once a failure stopped the build */
+  skipped: number;
+  durationMs: number;
+};
+
+/** A build that failed partway; its layout has been deleted */
+export class LayoutBuildError extends Error {
+  constructor(public readonly report: BuildReport) {
+    const { built, failures, skipped } = report;
+    super(
+      `Layout build failed: ${failures.length} of ${built + failures.length + skipped} regions ` +
+        `failed, ${skipped} skipped (${failures[0]!.error})`,
+    );
+    this.name = "LayoutBuildError";
+  }
+}
+
+/** Create the regions for a list of specs on a layout, reporting any that failed */
+export const createSpecRegions = async (
+  config: XiboConfig,
+  layoutId: number,
+  specs: RegionSpec[],
+  duration: number,
+): Promise<BuildReport> => {
+  const timer = createRequestTimer();
+  const { completed, errors } = await runBounded(
+    specs.map((spec) => () => createSpecRegion(config, layoutId, spec, duration)),
+  );
+  return {
+    layoutId,
+    built: completed,
+    failures: errors.map(({ index, error }) => ({ index, kind: specs[index]!.kind, error: errorMessage(error) })),
+    skipped: specs.length - completed - errors.length,
+    durationMs: timer(),
+  };
+};
+
+/**
+ * Clean up after a failure, keeping the failure's error.  Cleanup gets
+ * past a spent request budget: it's one request, and the budget leaves
+ * room for it.
+ */
+const cleanUp = async (
+  config: XiboConfig,
+  request: (unbudgeted: XiboConfig) => Promise<unknown>,
+): Promise<void> => {
+  const { deadline: _, ...unbudgeted } = config;
+  try {
+    await request(unbudgeted);
+  } catch {
+    // A leftover unpublished layout or draft is harmless; the failure matters more
+  }
+};
+
+/** Delete a layout whose build failed, keeping the build's error */
+const deleteFailedBuild = (config: XiboConfig, layoutId: number): Promise<void> =>
+  cleanUp(config, (unbudgeted) => del(unbudgeted, `layout/${layoutId}`));
+
+/**
+ * Build a new layout's regions from specs, playing for `duration`
+ * seconds, then publish it.  When a region fails, or publishing does,
+ * the layout is deleted instead; a region failure is logged and thrown
+ * as a LayoutBuildError.
+ */
+export const publishNewLayout = async (
+  config: XiboConfig,
+  { layoutId }: XiboLayout,
+  specs: RegionSpec[],
+  duration: number,
+): Promise<BuildReport> => {
+  const report = await createSpecRegions(config, layoutId, specs, duration);
+  try {
+    if (report.failures.length > 0) {
+      const error = new LayoutBuildError(report);
+      logError({ code: ErrorCode.XIBO_LAYOUT_BUILD, detail: `layout=${layoutId} ${error.message}` });
+      throw error;
+    }
+    await put(config, `layout/publish/${layoutId}`, {});
+  } catch (e) {
+    await deleteFailedBuild(config, layoutId);
+    throw e;
+  }
+  logDebug("Xibo", `built layout ${layoutId}: ${report.built} regions in ${report.durationMs}ms`);
+  return report;
+};
+
+/** The widget a region's playlist shows, if any */
+const regionWidget = (region: XiboLayoutRegion): XiboLayoutWidget | undefined =>
+  region.regionPlaylist.widgets[0];
+
+/** Options compared to tell whether a text or dataset widget shows its spec */
+const specOptions = (spec: RegionSpec): Record<string, unknown> =>
+  spec.kind === "text"
+    ? textWidgetOptions(spec.text, spec.style)
+    : spec.kind === "datasetview" || spec.kind === "ticker"
+    ? { dataSetId: spec.rows.datasetId, ...datasetRowOptions(spec.rows) }
+    : {};
+
+/** Whether a region's widget already shows a spec's content */
+const showsSpec = (widget: XiboLayoutWidget | undefined, spec: RegionSpec): boolean =>
+  spec.kind === "image"
+    ? widget!.mediaIds.includes(spec.mediaId)
+    : Object.entries(specOptions(spec)).every(([option, value]) =>
+      widget!.widgetOptions.some((o) => o.option === option && o.value === String(value))
+    );
+
+/**
+ * Whether a draft region can hold a spec: it sits at the spec's
+ * position with a widget of the same type.  An image can't be swapped
+ * in place, so an image region only holds its own image.
+ */
+const canHoldSpec = (region: XiboLayoutRegion, spec: RegionSpec): boolean => {
+  const { pos } = spec;
+  const widget = regionWidget(region);
+  return region.top === pos.top && region.left === pos.left &&
+    region.width === pos.width && region.height === pos.height &&
+    (widget?.type ?? "empty") === spec.kind &&
+    (spec.kind !== "image" || showsSpec(widget, spec));
+};
+
+/** Point a widget at its spec's content, playing for `duration` seconds */
+const updateSpecWidget = async (
+  config: XiboConfig,
+  widget: XiboLayoutWidget,
+  spec: RegionSpec,
+  duration: number,
+): Promise<void> => {
+  const options = spec.kind === "datasetview" || spec.kind === "ticker"
+    ? await datasetWidgetSettings(config, spec.kind, spec.rows, duration)
+    : { ...specOptions(spec), ...widgetTiming(duration) };
+  await put(config, `playlist/widget/${widget.widgetId}`, options);
+};
+
+/**
+ * Bring a draft's regions in line with specs.  A region that already
+ * shows its spec for `duration` seconds is left alone, a widget whose
+ * content or duration changed is updated, and the rest are replaced,
+ * BUILD_CONCURRENCY changes at a time.  Throws the first change's
+ * error, or returns the number of regions changed.
+ */
+const applyRegionSpecs = async (
+  config: XiboConfig,
+  draftId: number,
+  regions: XiboLayoutRegion[],
+  specs: RegionSpec[],
+  duration: number,
+): Promise<number> => {
+  const unused = [...regions];
+  const changes: (() => Promise<unknown>)[] = [];
+  for (const spec of specs) {
+    const i = unused.findIndex((region) => canHoldSpec(region, spec));
+    if (i < 0) {
+      changes.push(() => createSpecRegion(config, draftId, spec, duration));
+      continue;
+    }
+    const widget = regionWidget(unused.splice(i, 1)[0]!);
+    if (spec.kind !== "empty" && !(showsSpec(widget, spec) && playsFor(widget!, duration))) {
+      changes.push(() => updateSpecWidget(config, widget!, spec, duration));
+    }
+  }
+  for (const region of unused) changes.push(() => del(config, `region/${region.regionId}`));
+
+  await runBoundedOrThrow(changes);
+  return changes.length;
+};
+
+/** The regions of a layout's checked-out draft */
+const getDraftRegions = async (
+  config: XiboConfig,
+  layoutId: number,
+): Promise<XiboLayoutRegion[]> => {
+  const [draft] = await get<XiboLayout[]>(config, "layout", {
+    parentId: String(layoutId),
+    embed: "regions,playlists,widgets",
+  });
+  return draft?.regions ?? [];
+};
+
+/** Discard a layout's draft after a failed edit, keeping the edit's error */
+const discardDraft = (config: XiboConfig, layoutId: number): Promise<void> =>
+  cleanUp(config, (unbudgeted) => put(unbudgeted, `layout/discard/${layoutId}`, {}));
+
+/**
+ * Change a published layout through a Xibo draft: check it out, let
+ * `apply` change the draft's regions, then publish the draft, or
+ * discard it when `apply` changed nothing.  Xibo publishes the draft
+ * under its own ID in the layout's place: it keeps the layout's
+ * campaign, campaigns holding the layout hold it instead, and displays
+ * only fetch the changed widgets.  A failed change discards the draft,
+ * leaving the published layout as it was.  Returns the number of regions
+ * changed.
+ */
+const changeThroughDraft = async (
+  config: XiboConfig,
+  layoutId: number,
+  apply: (draftId: number, regions: XiboLayoutRegion[]) => Promise<number>,
+): Promise<number> => {
+  const draft = await put<XiboLayout>(config, `layout/checkout/${layoutId}`, {});
+  try {
+    const changed = await apply(draft.layoutId, await getDraftRegions(config, layoutId));
+    await put(config, `layout/${changed > 0 ? "publish" : "discard"}/${layoutId}`, {});
+    return changed;
+  } catch (e) {
+    await discardDraft(config, layoutId);
+    throw e;
   }
 };
 
+/** The first layout matching a filter, if Xibo has one */
+const findLayout = async (
+  config: XiboConfig,
+  params: Record<string, string>,
+): Promise<XiboLayout | null> => {
+  const [layout] = await get<XiboLayout[]>(config, "layout", params);
+  return layout ?? null;
+};
+
+/** The published layout of a layout-specific campaign, if Xibo still has it */
+export const fetchCampaignLayout = (
+  config: XiboConfig,
+  layoutCampaignId: number,
+): Promise<XiboLayout | null> =>
+  findLayout(config, { campaignId: String(layoutCampaignId) });
+
+/** What a menu screen records of its layout */
+export type LayoutRef = Pick<MenuScreen, "xibo_layout_id" | "xibo_layout_campaign_id">;
+
+/**
+ * The layout a menu screen shows, or null when it has none or Xibo no
+ * longer has it.  It is found by its campaign; menu screens built before
+ * campaigns were recorded fall back to the layout ID, which holds until
+ * their first edit records the campaign.
+ */
+export const fetchMenuScreenLayout = (
+  config: XiboConfig,
+  ref: LayoutRef,
+): Promise<XiboLayout | null> =>
+  ref.xibo_layout_campaign_id !== null
+    ? fetchCampaignLayout(config, ref.xibo_layout_campaign_id)
+    : ref.xibo_layout_id !== null
+    ? findLayout(config, { layoutId: String(ref.xibo_layout_id) })
+    : Promise.resolve(null);
+
+/**
+ * Menu screens with the current IDs of their layouts, ready to assign
+ * to campaigns.  A menu screen whose layout Xibo no longer has gets none.
+ */
+export const withCurrentLayoutIds = <T extends LayoutRef>(
+  config: XiboConfig,
+  menuScreens: T[],
+): Promise<T[]> =>
+  mapAsync(async (ms: T): Promise<T> => ({
+    ...ms,
+    xibo_layout_id: (await fetchMenuScreenLayout(config, ms))?.layoutId ?? null,
+  }))(menuScreens);
+
+/**
+ * Edit a published layout in place, bringing its regions in line with
+ * specs playing for `duration` seconds (see changeThroughDraft).
+ * Returns the number of regions changed.
+ */
+export const editLayoutInPlace = (
+  config: XiboConfig,
+  layoutId: number,
+  specs: RegionSpec[],
+  duration: number,
+): Promise<number> =>
+  changeThroughDraft(config, layoutId, (draftId, regions) => applyRegionSpecs(config, draftId, regions, specs, duration));
+
+/**
+ * Make every widget of a published layout play for `duration` seconds,
+ * leaving what it shows alone (see changeThroughDraft).  Returns the
+ * number of widgets changed.
+ */
+export const retimeLayout = (
+  config: XiboConfig,
+  layoutId: number,
+  duration: number,
+): Promise<number> =>
+  changeThroughDraft(config, layoutId, async (_, regions) => {
+    const widgets = regions.map(regionWidget)
+      .filter((w): w is XiboLayoutWidget => w !== undefined && !playsFor(w, duration));
+    await runBoundedOrThrow(
+      widgets.map((widget) => () => put(config, `playlist/widget/${widget.widgetId}`, widgetTiming(duration))),
+    );
+    return widgets.length;
+  });
+
 /**
  * Create a full menu board layout with header and product grid.
  *
  * 1. Get or create 1080x1920 resolution
  * 2. Create layout
- * 3. Create header region with category name
- * 4. Create product grid regions
- * 5. Publish layout
+ * 3. Create header and product grid regions
+ * 4. Publish layout (see publishNewLayout)
  */
 export const createMenuLayout = async (
   config: XiboConfig,
@@ -203,15 +772,7 @@ export const createMenuLayout = async (
     resolutionId: resolution.resolutionId,
   });
 
-  // 3. Header region
-  await createHeaderRegion(
-    config,
-    layout.layoutId,
-    calculateHeaderPosition(),
-    categoryName,
-  );
-
-  // 4. Product grid
+  // 3-4. Header and product grid regions, then publish
   const gridPositions = calculateGridPositions(
     GRID_COLS,
     GRID_ROWS,
@@ -219,10 +780,11 @@ export const createMenuLayout = async (
     SCREEN_HEIGHT,
     HEADER_HEIGHT,
   );
-  await createProductGridRegions(config, layout.layoutId, gridPositions, products);
+  await publishNewLayout(config, layout, [
+    textSpec(calculateHeaderPosition(), categoryName),
+    ...productGridSpecs(gridPositions, products),
+  ], DEFAULT_DURATION);
 
-  // 5. Publish
-  await put(config, `layout/publish/${layout.layoutId}`, {});
   await logAuditEvent({
     actorUserId,
     action: "CREATE",
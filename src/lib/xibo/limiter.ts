@@ -0,0 +1,177 @@
+/**
+ * Outbound limiter for Xibo API requests
+ *
+ * A layout build sends dozens of requests back to back, which is how a
+ * busy CMS ends up answering 429.  Each connection gets a limiter that
+ * holds a request back until:
+ * - fewer than maxConcurrent of the connection's requests are in flight
+ * - its token bucket has a token (a burst, then perSecond)
+ * - any pause a 429/503 asked for with Retry-After has passed
+ *
+ * A request may also carry a deadline (XiboConfig.deadline).  One that
+ * would have to wait past it fails at once with XiboBudgetError, so the
+ * route can answer before the edge runtime kills it.
+ *
+ * Limiter state lives in the isolate.  Unlike the circuit breaker it
+ * isn't shared: it only paces the requests this isolate sends.
+ */
+
+import { bracket } from "#fp";
+import { nowMs } from "#lib/now.ts";
+
+/** Limits for one connection */
+export type LimiterConfig = {
+  /** Requests in flight at once */
+  maxConcurrent: number;
+  /** Requests sent back to back before the rate applies */
+  burst: number;
+  /** Requests per second once the burst is spent */
+  perSecond: number;
+};
+
+/** Default limits per connection */
+export const DEFAULT_LIMITS: LimiterConfig = {
+  maxConcurrent: 4,
+  burst: 30,
+  perSecond: 10,
+};
+
+/** Longest pause a Retry-After header can ask for */
+export const MAX_PAUSE_MS = 60_000;
+
+/**
+ * How long an incoming request may spend on Xibo calls, leaving the
+ * edge runtime time to send its response
+ */
+export const REQUEST_BUDGET_MS = 25_000;
+
+/** Thrown when a request's Xibo calls would run past its deadline */
+export class XiboBudgetError extends Error {
+  constructor() {
+    super("Timed out waiting for Xibo CMS");
+    this.name = "XiboBudgetError";
+  }
+}
+
+/**
+ * A signal that abandons a fetch at the deadline (epoch ms), or none
+ * without one.  Throws XiboBudgetError if the deadline has passed.
+ */
+export const deadlineSignal = (deadline = Infinity): AbortSignal | undefined => {
+  if (!Number.isFinite(deadline)) return undefined;
+  const remaining = deadline - nowMs();
+  if (remaining <= 0) throw new XiboBudgetError();
+  return AbortSignal.timeout(remaining);
+};
+
+/**
+ * Milliseconds a Retry-After header asks to wait, given as seconds or
+ * an HTTP date; 0 when missing or unreadable.
+ */
+export const parseRetryAfter = (header: string | null): number => {
+  if (header === null) return 0;
+  const ms = /^\s*\d+\s*$/.test(header) ? Number(header) * 1000 : Date.parse(header) - nowMs();
+  return Number.isNaN(ms) ? 0 : Math.max(0, ms);
+};
+
+/** A connection's limiter */
+export type XiboLimiter = {
+  /**
+   * Run fn once a slot and a token are free, or throw XiboBudgetError
+   * if that would be at or past the deadline (epoch ms)
+   */
+  run: <T>(fn: () => Promise<T>, deadline?: number) => Promise<T>;
+  /** Hold back every request for ms, up to MAX_PAUSE_MS */
+  pause: (ms: number) => void;
+  /** Pause as a 429 or 503 response's Retry-After header asks */
+  honourRetryAfter: (response: globalThis.Response) => void;
+  /** Requests in flight */
+  active: () => number;
+};
+
+/**
+ * Create a limiter.
+ */
+export const createLimiter = (
+  limits: LimiterConfig = DEFAULT_LIMITS,
+): XiboLimiter => {
+  let inFlight = 0;
+  let tokens = limits.burst;
+  let refilledAt = nowMs();
+  let pausedUntil = 0;
+  /** Wake-ups for requests waiting on a slot */
+  let waiting: Array<() => void> = [];
+
+  /** Milliseconds until a token is free and any pause is over */
+  const delayAt = (now: number): number => {
+    tokens = Math.min(limits.burst, tokens + (now - refilledAt) * limits.perSecond / 1000);
+    refilledAt = now;
+    const tokenWait = tokens >= 1 ? 0 : Math.ceil((1 - tokens) * 1000 / limits.perSecond);
+    return Math.max(tokenWait, pausedUntil - now);
+  };
+
+  /** Resolve when a request finishes, or after ms if that's finite */
+  const slotFreed = (ms: number): Promise<void> =>
+    new Promise((resolve) => {
+      const timer = Number.isFinite(ms) ? setTimeout(resolve, ms) : undefined;
+      waiting.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+
+  const acquire = async (deadline: number): Promise<void> => {
+    for (;;) {
+      const now = nowMs();
+      const delay = delayAt(now);
+      if (now + delay >= deadline) throw new XiboBudgetError();
+      if (delay > 0) await new Promise<void>((r) => setTimeout(r, delay));
+      else if (inFlight >= limits.maxConcurrent) await slotFreed(deadline - now);
+      else {
+        tokens -= 1;
+        inFlight += 1;
+        return;
+      }
+    }
+  };
+
+  const release = (): void => {
+    inFlight -= 1;
+    const woken = waiting;
+    waiting = [];
+    for (const wake of woken) wake();
+  };
+
+  const pause = (ms: number): void => {
+    pausedUntil = Math.max(pausedUntil, nowMs() + Math.min(ms, MAX_PAUSE_MS));
+  };
+
+  return {
+    run: (fn, deadline = Infinity) => bracket(() => acquire(deadline), release)(fn),
+    pause,
+    honourRetryAfter: (response) => {
+      if (response.status === 429 || response.status === 503) {
+        pause(parseRetryAfter(response.headers.get("Retry-After")));
+      }
+    },
+    active: () => inFlight,
+  };
+};
+
+/** One limiter per Xibo connection, keyed like the circuit breakers */
+const xiboLimiters = new Map<string, XiboLimiter>();
+
+/**
+ * Get or create the limiter for a Xibo connection.
+ */
+export const getXiboLimiter = (key: string): XiboLimiter => {
+  if (!xiboLimiters.has(key)) xiboLimiters.set(key, createLimiter());
+  return xiboLimiters.get(key)!;
+};
+
+/**
+ * Drop every connection's limiter (for testing).
+ */
+export const resetXiboLimiters = (): void => {
+  xiboLimiters.clear();
+};
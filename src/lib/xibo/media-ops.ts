@@ -5,7 +5,7 @@
  * HTTP-aware handlers (upload, delete, preview) live in routes/media-ops.ts.
  */
 
-import { del, get, getRaw, postMultipart } from "#xibo/client.ts";
+import { del, getAll, getRaw, postMultipart } from "#xibo/client.ts";
 import type { XiboConfig, XiboFolder, XiboMedia } from "#xibo/types.ts";
 
 /**
@@ -15,7 +15,7 @@ export const fetchFolders = async (
   config: XiboConfig,
 ): Promise<XiboFolder[]> => {
   try {
-    return await get<XiboFolder[]>(config, "folders");
+    return await getAll<XiboFolder>(config, "folders");
   } catch {
     return [];
   }
@@ -25,7 +25,7 @@ export const fetchFolders = async (
  * Fetch all media from Xibo.
  */
 export const fetchAllMedia = (config: XiboConfig): Promise<XiboMedia[]> =>
-  get<XiboMedia[]>(config, "library");
+  getAll<XiboMedia>(config, "library");
 
 /**
  * Find a specific media item by ID. Returns undefined if not found.
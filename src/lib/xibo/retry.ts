@@ -2,7 +2,9 @@
  * Retry with exponential backoff for transient Xibo API failures
  *
  * Retries on network errors and transient HTTP status codes
- * with configurable delays and maximum attempts.
+ * with configurable delays and maximum attempts.  A Retry-After header
+ * is honoured by the connection's limiter (limiter.ts), which holds the
+ * retry back until the pause it asks for has passed.
  */
 
 import { logDebug } from "#lib/logger.ts";
@@ -3,21 +3,23 @@
  *
  * When menu screens change for a screen, the system:
  * 1. Collects all menu screens ordered by sort_order
- * 2. Creates/updates a Xibo campaign with the layouts
- * 3. Schedules the campaign on the screen's Xibo display
+ * 2. Groups them by daypart (active days/hours)
+ * 3. Creates/updates one Xibo campaign per daypart with its layouts
+ * 4. Schedules each campaign on the screen's display group, which holds
+ *    every display the screen is shown on (see display-groups.ts)
  */
 
-import { filter, mapAsync, pipe, reduce } from "#fp";
-import { del, get, post, put } from "#xibo/client.ts";
-import type { XiboCampaign, XiboConfig, XiboSchedule } from "#xibo/types.ts";
+import { compact, filter, groupBy, mapAsync, pipe, reduce, unique } from "#fp";
+import { del, get, post } from "#xibo/client.ts";
+import type { XiboCampaign, XiboCampaignLayout, XiboConfig, XiboSchedule } from "#xibo/types.ts";
 import { ErrorCode, logError } from "#lib/logger.ts";
-import type { DisplayMenuScreen } from "#lib/db/menu-screens.ts";
+import { daypartKey, formatDaypart, isAlwaysActive } from "#lib/dayparts.ts";
+import { today } from "#lib/now.ts";
+import type { MenuScreenDaypart } from "#lib/types.ts";
+import { ALWAYS_ACTIVE, type DisplayMenuScreen } from "#lib/db/menu-screens.ts";
 
 /** Campaign layout assignment body */
-type CampaignLayoutAssignment = {
-  layoutId: number;
-  displayOrder: number;
-};
+type CampaignLayoutAssignment = XiboCampaignLayout;
 
 /**
  * Assign layouts to a campaign in order.
@@ -51,26 +53,39 @@ export const createCampaign = async (
 };
 
 /**
- * Update a campaign by removing old layouts and assigning new ones
+ * A campaign with its layouts in display order, or null when it was
+ * deleted on the CMS
+ */
+export const fetchCampaign = async (
+  config: XiboConfig,
+  campaignId: number,
+): Promise<XiboCampaign | null> => {
+  const [campaign] = await get<XiboCampaign[]>(config, `campaign?campaignId=${campaignId}&embed=layouts`);
+  if (!campaign) return null;
+  const layouts = [...campaign.layouts ?? []].sort((a, b) => a.displayOrder - b.displayOrder);
+  return { ...campaign, layouts };
+};
+
+/** Layout IDs in display order, e.g. "3,5,3" */
+const layoutSequence = (layouts: CampaignLayoutAssignment[]): string =>
+  layouts.map((l) => l.layoutId).join(",");
+
+/**
+ * Make a campaign play exactly these layouts in this order.  Unless it
+ * already does, every current layout is removed (last first, so each
+ * display order stays valid) before the new ones are assigned.
  */
 export const updateCampaign = async (
   config: XiboConfig,
   campaignId: number,
   layouts: CampaignLayoutAssignment[],
 ): Promise<void> => {
-  // Get the current campaign layouts to unassign
-  const existing = await get<XiboCampaign[]>(config, `campaign?campaignId=${campaignId}`);
-  if (existing.length > 0) {
-    // Unassign all existing layouts first by getting the full campaign details
-    try {
-      await put(config, `campaign/${campaignId}`, {
-        name: existing[0]!.campaign,
-      });
-    } catch (_e) {
-      logError({ code: ErrorCode.XIBO_API_REQUEST, detail: "campaign update (may be no-op)" });
-    }
-  }
+  const current = (await fetchCampaign(config, campaignId))?.layouts ?? [];
+  if (layoutSequence(current) === layoutSequence(layouts)) return;
 
+  await mapAsync((layout: CampaignLayoutAssignment) =>
+    del(config, `campaign/${campaignId}/layout/remove?layoutId=${layout.layoutId}&displayOrder=${layout.displayOrder}`)
+  )(current.toReversed());
   await assignLayouts({ config, campaignId, layouts });
 };
 
@@ -84,20 +99,57 @@ export const deleteCampaign = async (
   await del(config, `campaign/${campaignId}`);
 };
 
+/** Add days to a YYYY-MM-DD date */
+const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+/** Recurrence fields: weekly on the chosen days, otherwise daily */
+const recurrenceFields = (days: string | null): Record<string, unknown> =>
+  days === null
+    ? { recurrenceType: "Day", recurrenceDetail: 1 }
+    : { recurrenceType: "Week", recurrenceDetail: 1, recurrenceRepeatsOn: days };
+
 /**
- * Schedule a campaign on a display.
- * Creates an "always" schedule (no fromDt/toDt) for the display group.
+ * Schedule event fields for a daypart.
+ * "Always" dayparts have no fromDt/toDt. Timed dayparts recur from
+ * today and take priority over the always-on campaign while active.
+ * Day-only dayparts run all day (00:00 to 00:00 the next day).
+ */
+export const daypartEventFields = (
+  daypart: MenuScreenDaypart,
+  startDate: string = today(),
+): Record<string, unknown> => {
+  if (isAlwaysActive(daypart)) return { isPriority: 0 };
+  const from = daypart.active_from ?? "00:00";
+  const to = daypart.active_to ?? "00:00";
+  const endDate = to <= from ? addDays(startDate, 1) : startDate;
+  return {
+    isPriority: 1,
+    fromDt: `${startDate} ${from}:00`,
+    toDt: `${endDate} ${to}:00`,
+    ...recurrenceFields(daypart.active_days),
+  };
+};
+
+/**
+ * Schedule a campaign on a display group.
+ * With no daypart this creates an "always" schedule (no fromDt/toDt)
+ * for the display group; otherwise a recurring timed event.
  */
 export const scheduleCampaign = (
   config: XiboConfig,
   campaignId: number,
   displayGroupId: number,
+  daypart: MenuScreenDaypart = ALWAYS_ACTIVE,
 ): Promise<XiboSchedule> =>
   post<XiboSchedule>(config, "schedule", {
     eventTypeId: 1, // Layout/campaign event
     campaignId,
     displayGroupIds: [displayGroupId],
-    isPriority: 0,
+    ...daypartEventFields(daypart),
   });
 
 /**
@@ -109,6 +161,15 @@ export const getSchedulesForDisplay = (
 ): Promise<XiboSchedule[]> =>
   get<XiboSchedule[]>(config, `schedule?displayGroupIds=[${displayGroupId}]`);
 
+/**
+ * Get a campaign's schedule events, on whichever display groups
+ */
+export const getSchedulesForCampaign = (
+  config: XiboConfig,
+  campaignId: number,
+): Promise<XiboSchedule[]> =>
+  get<XiboSchedule[]>(config, `schedule?campaignId=${campaignId}`);
+
 /**
  * Delete a schedule event
  */
@@ -135,52 +196,178 @@ export const buildCampaignLayouts = (
   )(menuScreens);
 
 /**
- * Rebuild the campaign and schedule for a screen.
- *
- * This is the main entry point called after any menu screen change.
- * It collects all menu screens for the screen, creates/updates
- * the campaign, and schedules it on the display.
+ * Seconds a campaign takes to play its menu screens once through: each
+ * layout plays for its menu screen's display time.
  */
-export const rebuildScreenSchedule = async (
+export const campaignDuration = (menuScreens: DisplayMenuScreen[]): number =>
+  menuScreens.reduce((total, ms) => total + (ms.xibo_layout_id === null ? 0 : ms.display_time), 0);
+
+/** Menu screens sharing a daypart, played together as one campaign */
+export type DaypartGroup = {
+  daypart: MenuScreenDaypart;
+  menuScreens: DisplayMenuScreen[];
+};
+
+/** A campaign with the daypart it plays in */
+type DaypartCampaign = { campaignId: number; daypart: MenuScreenDaypart };
+
+/** A daypart group's campaign once created or updated */
+type GroupCampaign = DaypartGroup & DaypartCampaign;
+
+/** Result of rebuilding a screen's schedule */
+export type ScreenSchedule = {
+  /** First daypart's campaign (or the previous campaign when none remain) */
+  campaignId: number;
+  /** Campaign ID for each scheduled menu screen, keyed by menu screen ID */
+  campaignIds: Record<number, number>;
+};
+
+/** Group menu screens with layouts by daypart, keeping sort order */
+export const groupByDaypart = (menuScreens: DisplayMenuScreen[]): DaypartGroup[] =>
+  Object.values(
+    groupBy((ms: DisplayMenuScreen) => daypartKey(ms))(
+      menuScreens.filter((ms) => ms.xibo_layout_id !== null),
+    ),
+  ).map((group) => {
+    const { active_days, active_from, active_to } = group[0]!;
+    return { daypart: { active_days, active_from, active_to }, menuScreens: group };
+  });
+
+/** Campaign name for a daypart group */
+const campaignName = (screenName: string, daypart: MenuScreenDaypart): string =>
+  isAlwaysActive(daypart)
+    ? `Screen: ${screenName}`
+    : `Screen: ${screenName} (${formatDaypart(daypart)})`;
+
+/**
+ * Update the group's existing campaign, or create one.
+ * Reuses the first campaign ID from the group (or the fallback) that
+ * no earlier group has claimed.
+ */
+const syncGroupCampaign = (
   config: XiboConfig,
-  menuScreens: DisplayMenuScreen[],
   screenName: string,
-  displayId: number,
-  existingCampaignId: number | null,
-): Promise<{ campaignId: number }> => {
-  const layouts = buildCampaignLayouts(menuScreens);
-
-  if (layouts.length === 0) {
-    // No layouts — delete the campaign if it exists
-    if (existingCampaignId !== null) {
-      try {
-        await deleteCampaign(config, existingCampaignId);
-      } catch (_e) {
-        logError({ code: ErrorCode.XIBO_API_REQUEST, detail: "campaign delete (may already be removed)" });
-      }
-    }
-    return { campaignId: existingCampaignId ?? 0 };
-  }
+  fallbackCampaignId: number | null,
+  claimed: Set<number>,
+) =>
+async (group: DaypartGroup): Promise<GroupCampaign> => {
+  const layouts = buildCampaignLayouts(group.menuScreens);
+  const candidates = [
+    ...group.menuScreens.map((ms) => ms.xibo_campaign_id),
+    fallbackCampaignId,
+  ];
+  const existing = candidates.find((id): id is number =>
+    id !== null && !claimed.has(id)
+  );
 
   let campaignId: number;
-
-  if (existingCampaignId !== null) {
-    // Update existing campaign
-    await updateCampaign(config, existingCampaignId, layouts);
-    campaignId = existingCampaignId;
+  if (existing !== undefined) {
+    await updateCampaign(config, existing, layouts);
+    campaignId = existing;
   } else {
-    // Create new campaign
     const campaign = await createCampaign(
       config,
-      `Screen: ${screenName}`,
+      campaignName(screenName, group.daypart),
       layouts,
     );
     campaignId = campaign.campaignId;
+  }
+
+  claimed.add(campaignId);
+  return { ...group, campaignId };
+};
+
+/** Delete campaigns no longer used by any daypart (Xibo drops their events) */
+export const deleteStaleCampaigns = async (
+  config: XiboConfig,
+  campaignIds: number[],
+): Promise<void> => {
+  await mapAsync(async (campaignId: number) => {
+    try {
+      await deleteCampaign(config, campaignId);
+    } catch (_e) {
+      logError({ code: ErrorCode.XIBO_API_REQUEST, detail: "campaign delete (may already be removed)" });
+    }
+  })(campaignIds);
+};
+
+/**
+ * Replace every event of these campaigns with one event per daypart on
+ * the display group, so changed days/hours take effect.  Events on other
+ * groups go too: a group the screen has moved off, or a screen's single
+ * display from before screens had groups.
+ */
+const rescheduleCampaigns = async (
+  config: XiboConfig,
+  displayGroupId: number,
+  campaigns: DaypartCampaign[],
+): Promise<void> => {
+  const ids = new Set(campaigns.map((c) => c.campaignId));
+  const existing = await mapAsync((c: DaypartCampaign) =>
+    getSchedulesForCampaign(config, c.campaignId)
+  )(campaigns);
+  await mapAsync((event: XiboSchedule) =>
+    deleteScheduleEvent(config, event.eventId)
+  )(existing.flat().filter((event) => ids.has(event.campaignId)));
+  await mapAsync((c: DaypartCampaign) =>
+    scheduleCampaign(config, c.campaignId, displayGroupId, c.daypart)
+  )(campaigns);
+};
 
-    // Schedule the new campaign on the display
-    // Display IDs map to display group IDs in Xibo (1:1 for simple displays)
-    await scheduleCampaign(config, campaignId, displayId);
+/**
+ * Schedule a screen's existing campaigns on its display group, one event
+ * per daypart, e.g. once the group is created or recreated.
+ */
+export const rescheduleScreen = (
+  config: XiboConfig,
+  menuScreens: (MenuScreenDaypart & { xibo_campaign_id: number | null })[],
+  displayGroupId: number,
+): Promise<void> => {
+  const scheduled = menuScreens.filter((ms) => ms.xibo_campaign_id !== null);
+  const campaigns = unique(scheduled.map((ms) => ms.xibo_campaign_id!)).map((campaignId) => {
+    const { active_days, active_from, active_to } = scheduled.find((ms) =>
+      ms.xibo_campaign_id === campaignId
+    )!;
+    return { campaignId, daypart: { active_days, active_from, active_to } };
+  });
+  return rescheduleCampaigns(config, displayGroupId, campaigns);
+};
+
+/**
+ * Rebuild the campaigns and schedule for a screen.
+ *
+ * This is the main entry point called after any menu screen change.
+ * It groups the screen's menu screens by daypart, creates/updates a
+ * campaign per daypart, schedules each one on the display group, and deletes
+ * campaigns left over from dayparts (or menu screens) that no longer exist.
+ * `existingCampaignId` covers a menu screen that was just removed.
+ */
+export const rebuildScreenSchedule = async (
+  config: XiboConfig,
+  menuScreens: DisplayMenuScreen[],
+  screenName: string,
+  displayGroupId: number,
+  existingCampaignId: number | null,
+): Promise<ScreenSchedule> => {
+  const previousIds = unique(compact([
+    ...menuScreens.map((ms) => ms.xibo_campaign_id),
+    existingCampaignId,
+  ]));
+  const claimed = new Set<number>();
+  const campaigns = await mapAsync(
+    syncGroupCampaign(config, screenName, existingCampaignId, claimed),
+  )(groupByDaypart(menuScreens));
+
+  await deleteStaleCampaigns(config, previousIds.filter((id) => !claimed.has(id)));
+  if (campaigns.length === 0) {
+    return { campaignId: existingCampaignId ?? 0, campaignIds: {} };
   }
 
-  return { campaignId };
+  await rescheduleCampaigns(config, displayGroupId, campaigns);
+
+  const campaignIds: Record<number, number> = {};
+  for (const c of campaigns) {
+    for (const ms of c.menuScreens) campaignIds[ms.id] = c.campaignId;
+  }
+  return { campaignId: campaigns[0]!.campaignId, campaignIds };
 };
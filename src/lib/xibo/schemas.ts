@@ -0,0 +1,361 @@
+/**
+ * Runtime schemas for Xibo API responses
+ *
+ * Xibo payloads drift between CMS versions: numbers arrive as strings
+ * and fields get renamed or dropped.  Each schema checks a response
+ * against its type in types.ts, coercing numeric strings, and throws a
+ * SchemaError naming the offending path.  IDs and the fields the app
+ * matches on are required; descriptive fields fall back to a default
+ * when a CMS version leaves them out.  Fields a schema doesn't name
+ * are kept as they came.
+ *
+ * responseSchema finds the schema for a request, so the client checks
+ * every response in one place.
+ */
+
+import type {
+  XiboAbout,
+  XiboAuthToken,
+  XiboCampaign,
+  XiboCampaignLayout,
+  XiboCategory,
+  XiboDataset,
+  XiboDatasetColumn,
+  XiboDatasetRow,
+  XiboDisplay,
+  XiboDisplayGroup,
+  XiboFolder,
+  XiboLayout,
+  XiboLayoutRegion,
+  XiboLayoutWidget,
+  XiboMedia,
+  XiboMenuBoard,
+  XiboProduct,
+  XiboRegion,
+  XiboResolution,
+  XiboSchedule,
+  XiboWidget,
+  XiboWidgetOption,
+} from "#xibo/types.ts";
+
+/** A response that doesn't match its schema */
+export class SchemaError extends Error {
+  constructor(
+    public readonly path: string,
+    reason: string,
+  ) {
+    super(`${path}: ${reason}`);
+    this.name = "SchemaError";
+  }
+}
+
+/** Parse an unknown value into T, or throw a SchemaError at path */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/** Schemas for every field of T, optional fields included */
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/** Name a value's kind for an error message */
+const kindOf = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new SchemaError(path, `expected ${expected}, got ${kindOf(value)}`);
+};
+
+/** A number, or a string holding one */
+export const num: Schema<number> = (value, path) => {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : fail(path, "a number", value);
+};
+
+/** A string; numbers are turned into their string form */
+export const str: Schema<string> = (value, path) =>
+  typeof value === "string"
+    ? value
+    : typeof value === "number"
+    ? String(value)
+    : fail(path, "a string", value);
+
+/** Null when missing */
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => (value, path) =>
+  value === null || value === undefined ? null : schema(value, path);
+
+/** Left out when missing */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === null || value === undefined ? undefined : schema(value, path);
+
+/** A fallback value when missing */
+export const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> => (value, path) =>
+  value === null || value === undefined ? fallback : schema(value, path);
+
+/** An array of items matching a schema */
+export const array = <T>(schema: Schema<T>): Schema<T[]> => (value, path) =>
+  Array.isArray(value)
+    ? value.map((item, i) => schema(item, `${path}[${i}]`))
+    : fail(path, "an array", value);
+
+/** An object whose named fields match their schemas */
+export const object = <T>(shape: Shape<T>): Schema<T> => (value, path) => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return fail(path, "an object", value);
+  }
+  const parsed: Record<string, unknown> = { ...value };
+  for (const [key, schema] of Object.entries<Schema<unknown>>(shape)) {
+    const field = schema(parsed[key], `${path}.${key}`);
+    if (field === undefined) delete parsed[key];
+    else parsed[key] = field;
+  }
+  return parsed as T;
+};
+
+const text = withDefault(str, "");
+const count = withDefault(num, 0);
+
+const authTokenSchema = object<XiboAuthToken>({
+  access_token: str,
+  token_type: withDefault(str, "Bearer"),
+  expires_in: num,
+});
+
+const aboutSchema = object<XiboAbout>({
+  version: str,
+  sourceUrl: optional(str),
+});
+
+const menuBoardSchema = object<XiboMenuBoard>({
+  menuId: num,
+  name: str,
+  code: text,
+  description: text,
+  modifiedDt: nullable(num),
+});
+
+const categorySchema = object<XiboCategory>({
+  menuCategoryId: num,
+  menuId: num,
+  name: str,
+  code: text,
+  mediaId: nullable(num),
+});
+
+const productSchema = object<XiboProduct>({
+  menuProductId: num,
+  menuCategoryId: num,
+  name: str,
+  price: text,
+  calories: text,
+  allergyInfo: text,
+  availability: withDefault(num, 1),
+  description: text,
+  mediaId: nullable(num),
+});
+
+const mediaSchema = object<XiboMedia>({
+  mediaId: num,
+  name: str,
+  mediaType: str,
+  storedAs: text,
+  fileSize: count,
+  duration: count,
+  tags: text,
+  folderId: withDefault(num, 1), // Xibo's root folder
+});
+
+const folderSchema: Schema<XiboFolder> = object<XiboFolder>({
+  folderId: num,
+  text: str,
+  parentId: nullable(num),
+  children: withDefault(array((value, path) => folderSchema(value, path)), []),
+});
+
+const regionFields = {
+  regionId: num,
+  width: count,
+  height: count,
+  top: count,
+  left: count,
+  zIndex: count,
+};
+
+const regionSchema = object<XiboRegion>(regionFields);
+
+const widgetFields = {
+  widgetId: num,
+  type: text,
+  displayOrder: count,
+  duration: count,
+  useDuration: count,
+};
+
+const widgetSchema = object<XiboWidget>(widgetFields);
+
+const widgetOptionSchema = object<XiboWidgetOption>({
+  option: str,
+  value: nullable(str),
+});
+
+const layoutWidgetSchema = object<XiboLayoutWidget>({
+  ...widgetFields,
+  widgetOptions: withDefault(array(widgetOptionSchema), []),
+  mediaIds: withDefault(array(num), []),
+});
+
+const layoutRegionSchema = object<XiboLayoutRegion>({
+  ...regionFields,
+  regionPlaylist: withDefault(
+    object<XiboLayoutRegion["regionPlaylist"]>({ widgets: withDefault(array(layoutWidgetSchema), []) }),
+    { widgets: [] },
+  ),
+});
+
+const layoutSchema = object<XiboLayout>({
+  layoutId: num,
+  campaignId: num,
+  layout: str,
+  description: text,
+  status: num,
+  width: count,
+  height: count,
+  publishedStatusId: count,
+  duration: count,
+  regions: optional(array(layoutRegionSchema)),
+});
+
+const datasetColumnSchema = object<XiboDatasetColumn>({
+  dataSetColumnId: num,
+  heading: str,
+  dataTypeId: withDefault(num, 1),
+  dataSetColumnTypeId: withDefault(num, 1),
+  listContent: text,
+  columnOrder: count,
+});
+
+const datasetSchema = object<XiboDataset>({
+  dataSetId: num,
+  dataSet: str,
+  description: text,
+  code: text,
+  columnCount: count,
+  columns: withDefault(array(datasetColumnSchema), []),
+});
+
+/** A dataset row: a numeric "id" and plain values keyed by heading */
+const datasetRowSchema: Schema<XiboDatasetRow> = (value, path) => {
+  const row = object<{ id: number }>({ id: num })(value, path) as XiboDatasetRow;
+  for (const [key, cell] of Object.entries(row)) {
+    if (cell !== null && typeof cell !== "string" && typeof cell !== "number") {
+      fail(`${path}.${key}`, "a string, number or null", cell);
+    }
+  }
+  return row;
+};
+
+const resolutionSchema = object<XiboResolution>({
+  resolutionId: num,
+  resolution: text,
+  width: num,
+  height: num,
+});
+
+const displaySchema = object<XiboDisplay>({
+  displayId: num,
+  display: str,
+  description: text,
+  licensed: count,
+  defaultLayoutId: count,
+  resolution: nullable(str),
+  loggedIn: count,
+  lastAccessed: nullable(num),
+  currentLayoutId: nullable(num),
+  clientVersion: text,
+});
+
+const displayGroupSchema = object<XiboDisplayGroup>({
+  displayGroupId: num,
+  displayGroup: str,
+  isDynamic: count,
+});
+
+const campaignLayoutSchema = object<XiboCampaignLayout>({
+  layoutId: num,
+  displayOrder: num,
+});
+
+const campaignSchema = object<XiboCampaign>({
+  campaignId: num,
+  campaign: str,
+  isLayoutSpecific: count,
+  totalDuration: count,
+  layouts: optional(array(campaignLayoutSchema)),
+});
+
+const scheduleSchema = object<XiboSchedule>({
+  eventId: num,
+  eventTypeId: withDefault(num, 1),
+  campaignId: num,
+  displayGroupIds: withDefault(array(num), []),
+  fromDt: nullable(str),
+  toDt: nullable(str),
+  isPriority: count,
+  recurrenceType: nullable(str),
+  recurrenceRepeatsOn: nullable(str),
+});
+
+/**
+ * Response schemas by "METHOD endpoint", where ":id" stands for a
+ * numeric path segment and ":type" for a widget type.  Endpoints
+ * without an entry (updates, deletes, assignments) aren't checked;
+ * a layout checkout is, as its draft is edited next.
+ */
+const RESPONSE_SCHEMAS: Record<string, Schema<unknown>> = {
+  "POST authorize/access_token": authTokenSchema,
+  "GET about": aboutSchema,
+  "GET folders": array(folderSchema),
+  "POST folders": folderSchema,
+  "GET library": array(mediaSchema),
+  "GET dataset": array(datasetSchema),
+  "POST dataset": datasetSchema,
+  "GET dataset/:id/column": array(datasetColumnSchema),
+  "POST dataset/:id/column": datasetColumnSchema,
+  "GET dataset/data/:id": array(datasetRowSchema),
+  "POST dataset/data/:id": datasetRowSchema,
+  "GET resolution": array(resolutionSchema),
+  "POST resolution": resolutionSchema,
+  "GET layout": array(layoutSchema),
+  "POST layout": layoutSchema,
+  "PUT layout/checkout/:id": layoutSchema,
+  "POST region/:id": regionSchema,
+  "POST playlist/widget/:type/:id": widgetSchema,
+  "GET campaign": array(campaignSchema),
+  "POST campaign": campaignSchema,
+  "GET schedule": array(scheduleSchema),
+  "POST schedule": scheduleSchema,
+  "GET display": array(displaySchema),
+  "GET displaygroup": array(displayGroupSchema),
+  "POST displaygroup": displayGroupSchema,
+  "GET menuboards": array(menuBoardSchema),
+  "POST menuboard": menuBoardSchema,
+  "GET menuboard/:id/categories": array(categorySchema),
+  "POST menuboard/:id/category": categorySchema,
+  "GET menuboard/:id/products": array(productSchema),
+  "POST menuboard/:id/product": productSchema,
+};
+
+/** RESPONSE_SCHEMAS keys compiled to anchored patterns */
+const COMPILED_SCHEMAS = Object.entries(RESPONSE_SCHEMAS).map(([route, schema]) => ({
+  pattern: new RegExp(`^${route.replace(":id", "\\d+").replace(":type", "[\\w-]+")}$`),
+  schema,
+}));
+
+/**
+ * The schema for a request's response, or null when it isn't checked.
+ * Any query on the endpoint is ignored.
+ */
+export const responseSchema = (
+  method: string,
+  endpoint: string,
+): Schema<unknown> | null => {
+  const route = `${method} ${endpoint.split("?")[0]}`;
+  return COMPILED_SCHEMAS.find((s) => s.pattern.test(route))?.schema ?? null;
+};
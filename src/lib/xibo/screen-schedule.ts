@@ -0,0 +1,273 @@
+/**
+ * Screen schedules — publish, check and repair
+ *
+ * The database records what each screen should play: its displays, and
+ * its menu screens' layouts grouped into one campaign per daypart.  A
+ * publish makes Xibo match it (see scheduling.ts), but the CMS can be
+ * edited behind the app's back: layouts reordered, unassigned or
+ * retimed, events deleted, displays moved between groups.
+ * checkScreenSchedule reports where Xibo has drifted from the database,
+ * and repairScreenSchedule rebuilds the screen so it matches exactly.
+ * Both read what the cache holds, so callers drop it once per connection
+ * with invalidateScheduleCache before checking that connection's screens.
+ *
+ * Menu screens record their layouts by campaign (see layout-builder.ts),
+ * so the layouts a campaign should hold are resolved to their current
+ * IDs first.
+ */
+
+import { compact, groupBy, mapAsync, unique } from "#fp";
+import { formatDaypart, isAlwaysActive } from "#lib/dayparts.ts";
+import {
+  ALWAYS_ACTIVE,
+  type DisplayMenuScreen,
+  getDisplayMenuScreensForScreen,
+  updateMenuScreenCampaignId,
+  updateMenuScreenLayout,
+} from "#lib/db/menu-screens.ts";
+import { type DisplayScreen, getScreenDisplayIds } from "#lib/db/screens.ts";
+import type { MenuScreenDaypart } from "#lib/types.ts";
+import { invalidateCollections } from "#xibo/client.ts";
+import { getScreenGroupDisplayIds, syncScreenDisplayGroup } from "#xibo/display-groups.ts";
+import { fetchMenuScreenLayout, retimeLayout, withCurrentLayoutIds } from "#xibo/layout-builder.ts";
+import {
+  buildCampaignLayouts,
+  campaignDuration,
+  type DaypartGroup,
+  deleteScheduleEvent,
+  fetchCampaign,
+  getSchedulesForCampaign,
+  getSchedulesForDisplay,
+  groupByDaypart,
+  rebuildScreenSchedule,
+} from "#xibo/scheduling.ts";
+import type { ScheduleDrift, XiboCampaignLayout, XiboConfig, XiboSchedule } from "#xibo/types.ts";
+
+/** Entities a check or repair reads */
+const SCHEDULE_ENTITIES = ["displaygroup", "display", "layout", "campaign", "schedule"];
+
+/**
+ * Drop a connection's cached reads of what checks and repairs read, so
+ * they see changes made on the CMS itself
+ */
+export const invalidateScheduleCache = (config: XiboConfig): Promise<void> =>
+  invalidateCollections(config, SCHEDULE_ENTITIES);
+
+/** A screen's menu screens, with the current IDs of their layouts */
+const currentMenuScreens = async (config: XiboConfig, screenId: number): Promise<DisplayMenuScreen[]> =>
+  withCurrentLayoutIds(config, await getDisplayMenuScreensForScreen(screenId));
+
+/**
+ * Rebuild the screen's campaigns and schedule on its display group and
+ * record each menu screen's campaign.  Returns the first campaign ID.
+ */
+const rebuildAndStore = async (
+  config: XiboConfig,
+  screen: DisplayScreen,
+  displayGroupId: number,
+  existingCampaignId: number | null,
+): Promise<number> => {
+  const menuScreens = await currentMenuScreens(config, screen.id);
+  const { campaignId, campaignIds } = await rebuildScreenSchedule(
+    config,
+    menuScreens,
+    screen.name,
+    displayGroupId,
+    existingCampaignId,
+  );
+  await mapAsync((ms: { id: number }) =>
+    updateMenuScreenCampaignId(ms.id, campaignIds[ms.id] ?? null)
+  )(menuScreens);
+  return campaignId;
+};
+
+/**
+ * Rebuild campaigns/schedule after a menu screen change (one campaign per
+ * daypart).  A screen with displays but no display group, as screens had
+ * before groups, gets its group first.  A screen without displays is left
+ * alone, returning `existingCampaignId`.
+ */
+export const refreshScreenSchedule = async (
+  config: XiboConfig,
+  screen: DisplayScreen,
+  existingCampaignId: number | null,
+): Promise<number | null> => {
+  const displayGroupId = screen.xibo_display_group_id ??
+    await syncScreenDisplayGroup(config, screen, await getScreenDisplayIds(screen.id));
+  if (displayGroupId === null) return existingCampaignId;
+  return rebuildAndStore(config, screen, displayGroupId, existingCampaignId);
+};
+
+/** "Displays 3, 4", or "None" */
+const describeDisplays = (displayIds: number[]): string =>
+  displayIds.length > 0 ? `Displays ${displayIds.toSorted((a, b) => a - b).join(", ")}` : "None";
+
+/** "Layouts 5, 3" in display order, or "None" */
+const describeLayouts = (layouts: XiboCampaignLayout[]): string =>
+  layouts.length > 0 ? `Layouts ${layouts.map((l) => l.layoutId).join(", ")}` : "None";
+
+/** "Sat 09:00–13:00, priority on display group 70" */
+const describeEvent = (
+  daypart: MenuScreenDaypart,
+  isPriority: boolean,
+  displayGroupIds: number[],
+): string =>
+  `${formatDaypart(daypart)}${isPriority ? ", priority" : ""} on display ${
+    displayGroupIds.length === 1 ? "group" : "groups"
+  } ${displayGroupIds.join(", ")}`;
+
+/**
+ * The daypart a schedule event plays in, read back from the fields
+ * daypartEventFields sets: hours from its times (00:00 to 00:00 is all
+ * day) and days from a weekly recurrence.
+ */
+const eventDaypart = (event: XiboSchedule): MenuScreenDaypart => {
+  if (event.fromDt === null) return ALWAYS_ACTIVE;
+  const from = event.fromDt.slice(11, 16);
+  const to = (event.toDt ?? "").slice(11, 16);
+  const allDay = from === "00:00" && to === "00:00";
+  return {
+    active_days: event.recurrenceType === "Week" ? event.recurrenceRepeatsOn : null,
+    active_from: allDay ? null : from,
+    active_to: allDay ? null : to,
+  };
+};
+
+/** A schedule event as describeEvent words it */
+const describeScheduleEvent = (event: XiboSchedule): string =>
+  describeEvent(eventDaypart(event), event.isPriority === 1, event.displayGroupIds);
+
+/** Events joined with "; ", or "None" */
+const describeEvents = (events: XiboSchedule[], describe = describeScheduleEvent): string =>
+  events.length > 0 ? events.map(describe).join("; ") : "None";
+
+/** The campaign a daypart group was last published to, if any */
+const groupCampaignId = (group: DaypartGroup): number | null => group.menuScreens[0]!.xibo_campaign_id;
+
+/**
+ * Expected and actual state of a daypart's campaign: its layouts in
+ * order, how long it takes to play them and, once the screen has a
+ * display group, its events.
+ */
+const compareDaypartGroup = (
+  config: XiboConfig,
+  displayGroupId: number | null,
+) =>
+async (group: DaypartGroup): Promise<ScheduleDrift[]> => {
+  const label = formatDaypart(group.daypart);
+  const campaignId = groupCampaignId(group);
+  const campaign = campaignId === null ? null : await fetchCampaign(config, campaignId);
+  const states = [{
+    subject: `Campaign (${label})`,
+    expected: describeLayouts(buildCampaignLayouts(group.menuScreens)),
+    actual: campaign ? describeLayouts(campaign.layouts!) : "Missing",
+  }];
+  if (campaign) {
+    states.push({
+      subject: `Rotation (${label})`,
+      expected: `${campaignDuration(group.menuScreens)}s`,
+      actual: `${campaign.totalDuration}s`,
+    });
+  }
+  if (campaign && displayGroupId !== null) {
+    const events = await getSchedulesForCampaign(config, campaign.campaignId);
+    states.push({
+      subject: `Schedule (${label})`,
+      expected: describeEvent(group.daypart, !isAlwaysActive(group.daypart), [displayGroupId]),
+      actual: describeEvents(events.filter((e) => e.campaignId === campaign.campaignId)),
+    });
+  }
+  return states;
+};
+
+/** Events on the screen's display group for campaigns the screen doesn't play */
+const foreignEvents = async (
+  config: XiboConfig,
+  displayGroupId: number,
+  campaignIds: number[],
+): Promise<XiboSchedule[]> =>
+  (await getSchedulesForDisplay(config, displayGroupId))
+    .filter((e) => !campaignIds.includes(e.campaignId));
+
+/**
+ * Compare what the database says a screen plays with what Xibo reports:
+ * the displays in its group, each daypart campaign's layouts in order,
+ * its rotation time and its events, plus any other campaign's events on
+ * the group.  Returns the differences, if any.
+ */
+export const checkScreenSchedule = async (
+  config: XiboConfig,
+  screen: DisplayScreen,
+): Promise<ScheduleDrift[]> => {
+  const displayIds = await getScreenDisplayIds(screen.id);
+  const groupDisplayIds = await getScreenGroupDisplayIds(config, screen);
+  const states = [{
+    subject: "Display group",
+    expected: describeDisplays(displayIds),
+    actual: describeDisplays(groupDisplayIds ?? []),
+  }];
+
+  if (displayIds.length > 0) {
+    const displayGroupId = groupDisplayIds === null ? null : screen.xibo_display_group_id;
+    const groups = groupByDaypart(await currentMenuScreens(config, screen.id));
+    states.push(...(await mapAsync(compareDaypartGroup(config, displayGroupId))(groups)).flat());
+    if (displayGroupId !== null) {
+      const others = await foreignEvents(config, displayGroupId, compact(groups.map(groupCampaignId)));
+      states.push({
+        subject: "Other events",
+        expected: "None",
+        actual: describeEvents(others, (e) => `Campaign ${e.campaignId}: ${describeScheduleEvent(e)}`),
+      });
+    }
+  }
+  return states.filter((s) => s.expected !== s.actual);
+};
+
+/** Menu screens sharing a layout share its campaign, or its ID before one is recorded */
+const layoutKey = (ms: DisplayMenuScreen): string =>
+  ms.xibo_layout_campaign_id !== null ? `campaign ${ms.xibo_layout_campaign_id}` : `layout ${ms.xibo_layout_id}`;
+
+/**
+ * Retime each layout that no longer plays for its menu screens' display
+ * time, once per layout however many menu screens share it, and record
+ * its campaign, which outlives the retime's publish.  A layout deleted
+ * on the CMS is left for its next publish to rebuild.
+ */
+const retimeLayouts = async (config: XiboConfig, menuScreens: DisplayMenuScreen[]): Promise<void> => {
+  await mapAsync(async (sharing: DisplayMenuScreen[]) => {
+    const displayTime = sharing[0]!.display_time;
+    const layout = await fetchMenuScreenLayout(config, sharing[0]!);
+    if (!layout || layout.duration === displayTime) return;
+    await retimeLayout(config, layout.layoutId, displayTime);
+    await mapAsync((ms: DisplayMenuScreen) => updateMenuScreenLayout(ms.id, layout))(sharing);
+  })(Object.values(groupBy(layoutKey)(menuScreens)));
+};
+
+/**
+ * Make Xibo match the database for a screen: its display group holds
+ * exactly its displays, its layouts play for their display times,
+ * campaigns deleted on the CMS are recreated, every campaign gets its
+ * layouts in order and one event per daypart, and other campaigns'
+ * events leave the group.
+ */
+export const repairScreenSchedule = async (
+  config: XiboConfig,
+  screen: DisplayScreen,
+): Promise<void> => {
+  const displayGroupId = await syncScreenDisplayGroup(config, screen, await getScreenDisplayIds(screen.id));
+  if (displayGroupId === null) return;
+
+  const menuScreens = await getDisplayMenuScreensForScreen(screen.id);
+  await retimeLayouts(config, menuScreens);
+  const campaignIds = unique(compact(menuScreens.map((ms) => ms.xibo_campaign_id)));
+  const found = compact(
+    await mapAsync(async (id: number) => (await fetchCampaign(config, id))?.campaignId ?? null)(campaignIds),
+  );
+  await mapAsync((ms: { id: number }) => updateMenuScreenCampaignId(ms.id, null))(
+    menuScreens.filter((ms) => ms.xibo_campaign_id !== null && !found.includes(ms.xibo_campaign_id)),
+  );
+  await mapAsync((e: XiboSchedule) => deleteScheduleEvent(config, e.eventId))(
+    await foreignEvents(config, displayGroupId, found),
+  );
+  await rebuildAndStore(config, screen, displayGroupId, null);
+};
@@ -0,0 +1,48 @@
+/**
+ * Display screenshots
+ *
+ * Xibo can't capture a screenshot on demand: a request sets a flag the
+ * player sees the next time it checks in, when it uploads one.  The CMS
+ * keeps only the latest screenshot per display, and its Last-Modified
+ * header is the time it was captured.
+ */
+
+import { getRaw, put } from "#xibo/client.ts";
+import type { XiboConfig } from "#xibo/types.ts";
+
+/**
+ * Ask a display to capture a screenshot when it next checks in.
+ */
+export const requestScreenshot = async (
+  config: XiboConfig,
+  displayId: number,
+): Promise<void> => {
+  await put(config, `display/requestscreenshot/${displayId}`, {});
+};
+
+/**
+ * Fetch a display's latest screenshot.
+ */
+export const fetchScreenshot = (
+  config: XiboConfig,
+  displayId: number,
+): Promise<Response> => getRaw(config, `display/screenshot/${displayId}`);
+
+/**
+ * When a display's latest screenshot was captured (epoch ms), or null
+ * when it has none or the CMS didn't say.
+ */
+export const screenshotCapturedAt = async (
+  config: XiboConfig,
+  displayId: number,
+): Promise<number | null> => {
+  try {
+    const response = await fetchScreenshot(config, displayId);
+    await response.body?.cancel();
+    const capturedAt = Date.parse(response.headers.get("last-modified") ?? "");
+    return Number.isNaN(capturedAt) ? null : capturedAt;
+  } catch {
+    // No screenshot yet, or the CMS is unavailable: the page shows neither
+    return null;
+  }
+};
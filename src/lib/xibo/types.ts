@@ -2,6 +2,8 @@
  * Xibo CMS API type definitions
  */
 
+import type { CircuitState } from "#xibo/circuit-breaker.ts";
+
 /** OAuth2 access token response */
 export type XiboAuthToken = {
   access_token: string;
@@ -69,12 +71,18 @@ export type XiboFolder = {
 /** Layout */
 export type XiboLayout = {
   layoutId: number;
+  /** The layout's own campaign; publishing a draft keeps it but changes layoutId */
+  campaignId: number;
   layout: string;
   description: string;
   status: number;
   width: number;
   height: number;
   publishedStatusId: number;
+  /** Seconds the layout plays: its longest region's widgets, set on publish */
+  duration: number;
+  /** Only when read with embed=regions,playlists,widgets */
+  regions?: XiboLayoutRegion[];
 };
 
 /** Region within a layout */
@@ -92,6 +100,26 @@ export type XiboWidget = {
   widgetId: number;
   type: string;
   displayOrder: number;
+  /** Seconds the widget plays; the module's default unless useDuration is 1 */
+  duration: number;
+  useDuration: number;
+};
+
+/** Widget option, as stored by Xibo */
+export type XiboWidgetOption = {
+  option: string;
+  value: string | null;
+};
+
+/** Widget embedded in a layout read, with its options and library media */
+export type XiboLayoutWidget = XiboWidget & {
+  widgetOptions: XiboWidgetOption[];
+  mediaIds: number[];
+};
+
+/** Region embedded in a layout read, with its playlist's widgets */
+export type XiboLayoutRegion = XiboRegion & {
+  regionPlaylist: { widgets: XiboLayoutWidget[] };
 };
 
 /** Dataset column definition */
@@ -143,6 +171,54 @@ export type XiboDisplay = {
   description: string;
   licensed: number;
   defaultLayoutId: number;
+  /** Resolution reported by the player, e.g. "1920x1080" (null until it reports) */
+  resolution: string | null;
+  /** 1 while the player is checking in with the CMS */
+  loggedIn: number;
+  /** When the player last checked in (unix seconds); null if it never has */
+  lastAccessed: number | null;
+  /** Layout the player last reported playing (null until it reports) */
+  currentLayoutId: number | null;
+  /** Player software version, e.g. "4 R406" */
+  clientVersion: string;
+};
+
+/** Display group: events scheduled on it play on every member display */
+export type XiboDisplayGroup = {
+  displayGroupId: number;
+  displayGroup: string;
+  /** 1 when membership follows a criteria rather than explicit assignment */
+  isDynamic: number;
+};
+
+/**
+ * How a screen's display is doing: checking in and playing one of the
+ * screen's layouts, offline, playing a layout the app didn't schedule,
+ * missing from the CMS, or unknown while the CMS can't be reached
+ */
+export type DisplayState = "online" | "offline" | "unexpected-layout" | "missing" | "unknown";
+
+/**
+ * One way Xibo differs from what the app published for a screen,
+ * e.g. a campaign missing a layout or an event on the wrong group
+ */
+export type ScheduleDrift = {
+  /** What differs, e.g. "Display group" or "Campaign (Always)" */
+  subject: string;
+  expected: string;
+  actual: string;
+};
+
+/** A display's state, with the display as last reported when found */
+export type DisplayStatus = {
+  state: DisplayState;
+  display: XiboDisplay | null;
+};
+
+/** A layout's place in a campaign */
+export type XiboCampaignLayout = {
+  layoutId: number;
+  displayOrder: number;
 };
 
 /** Campaign (layout rotation) */
@@ -151,6 +227,8 @@ export type XiboCampaign = {
   campaign: string;
   isLayoutSpecific: number;
   totalDuration: number;
+  /** Only when read with embed=layouts */
+  layouts?: XiboCampaignLayout[];
 };
 
 /** Schedule event */
@@ -162,6 +240,10 @@ export type XiboSchedule = {
   fromDt: string | null;
   toDt: string | null;
   isPriority: number;
+  /** "Day" or "Week" for a recurring event, else null */
+  recurrenceType: string | null;
+  /** ISO weekdays a weekly event repeats on, e.g. "6,7" */
+  recurrenceRepeatsOn: string | null;
 };
 
 /** Xibo API client configuration */
@@ -169,6 +251,10 @@ export type XiboConfig = {
   apiUrl: string;
   clientId: string;
   clientSecret: string;
+  /** Named connection ID; absent for the default connection in settings */
+  connectionId?: number;
+  /** Epoch ms by which this request's Xibo calls must finish; none when absent */
+  deadline?: number;
 };
 
 /** Result of a connection test */
@@ -178,12 +264,37 @@ export type ConnectionTestResult = {
   version?: string;
 };
 
+/** Outcome of probing one capability of a connection */
+export type CapabilityCheck = {
+  capability: string;
+  /** Endpoint read to probe it */
+  endpoint: string;
+  ok: boolean;
+  latencyMs: number;
+  /** Why the probe failed; null when it passed */
+  error: string | null;
+};
+
+/** Result of a connection's diagnostics: its test, then each capability */
+export type ConnectionDiagnostics = ConnectionTestResult & {
+  /** Whether the CMS version is one the client has been verified against */
+  versionVerified: boolean;
+  checks: CapabilityCheck[];
+};
+
 /** Xibo CMS about/version info */
 export type XiboAbout = {
   version: string;
   sourceUrl?: string;
 };
 
+/** A connection's circuit breaker, as shared across isolates */
+export type BreakerStatus = {
+  connectionId: number | null; // null for the default connection
+  state: CircuitState;
+  failures: number;
+};
+
 /** Dashboard status summary */
 export type DashboardStatus = {
   connected: boolean;
@@ -192,4 +303,6 @@ export type DashboardStatus = {
   mediaCount: number | null;
   layoutCount: number | null;
   datasetCount: number | null;
+  /** Figures were served from cache because the CMS is unavailable */
+  stale: boolean;
 };
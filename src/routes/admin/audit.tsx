@@ -27,6 +27,7 @@ const actionBadge = (action: string): string => {
   if (action === "CREATE") return "color: #28a745";
   if (action === "UPDATE") return "color: #007bff";
   if (action === "PUBLISH") return "color: #6f42c1";
+  if (action === "ROLLBACK") return "color: #e83e8c";
   if (action.includes("IMPERSONATE")) return "color: #fd7e14";
   if (action.includes("LOGIN")) return "color: #17a2b8";
   return "";
@@ -59,6 +60,7 @@ const auditLogPage = (
             <option value="UPDATE" selected={filterAction === "UPDATE" || undefined}>UPDATE</option>
             <option value="DELETE" selected={filterAction === "DELETE" || undefined}>DELETE</option>
             <option value="PUBLISH" selected={filterAction === "PUBLISH" || undefined}>PUBLISH</option>
+            <option value="ROLLBACK" selected={filterAction === "ROLLBACK" || undefined}>ROLLBACK</option>
             <option value="IMPERSONATE" selected={filterAction === "IMPERSONATE" || undefined}>IMPERSONATE</option>
           </select>
         </label>
@@ -74,6 +76,8 @@ const auditLogPage = (
             <option value="settings" selected={filterResource === "settings" || undefined}>settings</option>
             <option value="menu_screen" selected={filterResource === "menu_screen" || undefined}>menu_screen</option>
             <option value="schedule" selected={filterResource === "schedule" || undefined}>schedule</option>
+            <option value="layout_template" selected={filterResource === "layout_template" || undefined}>layout_template</option>
+            <option value="xibo_connection" selected={filterResource === "xibo_connection" || undefined}>xibo_connection</option>
           </select>
         </label>
         <button type="submit">Filter</button>
@@ -17,6 +17,10 @@ import {
   updateBusinessXiboIds,
 } from "#lib/db/businesses.ts";
 import { getScreensForBusiness, toDisplayScreen } from "#lib/db/screens.ts";
+import {
+  getXiboConnectionById,
+  getXiboConnectionNames,
+} from "#lib/db/xibo-connections.ts";
 import {
   decryptAdminLevel,
   decryptUsername,
@@ -166,7 +170,7 @@ const renderBusinessDetail = async (
   const ctx = await loadBusinessContext(biz.id);
   return htmlResponse(
     adminBusinessDetailPage(
-      display, ctx.displayScreens, ctx.assigned, ctx.available,
+      display, await getXiboConnectionNames(), ctx.displayScreens, ctx.assigned, ctx.available,
       toAdminSession(session), error, success,
     ),
     status,
@@ -182,7 +186,13 @@ const handleBusinessesGet = (request: Request): Promise<Response> =>
     const display = await Promise.all(businesses.map(toDisplayBusiness));
     const { error, success } = getQueryMessages(request);
     return htmlResponse(
-      adminBusinessesPage(display, toAdminSession(session), error, success),
+      adminBusinessesPage(
+        display,
+        await getXiboConnectionNames(),
+        toAdminSession(session),
+        error,
+        success,
+      ),
     );
   });
 
@@ -190,25 +200,46 @@ const handleBusinessesGet = (request: Request): Promise<Response> =>
  * Handle GET /admin/business/create
  */
 const handleBusinessCreateGet = (request: Request): Promise<Response> =>
-  requireManagerOrAbove(request, (session) =>
-    Promise.resolve(
-      htmlResponse(adminBusinessCreatePage(toAdminSession(session))),
+  requireManagerOrAbove(request, async (session) =>
+    htmlResponse(
+      adminBusinessCreatePage(await getXiboConnectionNames(), toAdminSession(session)),
     ));
 
+/**
+ * Validate the create form: the business fields and, when one is chosen,
+ * that the named Xibo connection exists.
+ */
+const validateNewBusiness = async (
+  form: URLSearchParams,
+): Promise<ValidationResult<{ name: string; connectionId: number | null }>> => {
+  const validation = validateBusinessFields(form);
+  if (!validation.valid) return validation;
+
+  const connectionId = Number(form.get("xibo_connection_id")) || null;
+  if (connectionId !== null && !await getXiboConnectionById(connectionId)) {
+    return { valid: false, error: "Xibo connection not found" };
+  }
+  return { valid: true, values: { name: validation.values.name, connectionId } };
+};
+
 /**
  * Handle POST /admin/business/create
  */
 const handleBusinessCreatePost = (request: Request): Promise<Response> =>
-  withManagerAuthForm(request, (session, form) => {
-    const validation = validateBusinessFields(form);
+  withManagerAuthForm(request, async (session, form) => {
+    const validation = await validateNewBusiness(form);
     if (!validation.valid) {
-      return Promise.resolve(htmlResponse(
-        adminBusinessCreatePage(toAdminSession(session), validation.error),
+      return htmlResponse(
+        adminBusinessCreatePage(
+          await getXiboConnectionNames(),
+          toAdminSession(session),
+          validation.error,
+        ),
         400,
-      ));
+      );
     }
 
-    const { name } = validation.values;
+    const { name, connectionId } = validation.values;
 
     // Provision Xibo resources first — only create DB record on success
     return withXiboConfig((config) =>
@@ -216,7 +247,7 @@ const handleBusinessCreatePost = (request: Request): Promise<Response> =>
         () => provisionXiboResources(config, name),
         "/admin/businesses",
         async (provision) => {
-          const business = await createBusiness(name);
+          const business = await createBusiness(name, connectionId);
           await updateBusinessXiboIds(
             business.id,
             provision.folderId,
@@ -232,6 +263,7 @@ const handleBusinessCreatePost = (request: Request): Promise<Response> =>
           return redirectWithSuccess("/admin/businesses", "Business created successfully");
         },
       ),
+      connectionId,
     );
   });
 
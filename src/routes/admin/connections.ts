@@ -0,0 +1,232 @@
+/**
+ * Admin Xibo connection routes - owner only
+ *
+ * A connection's business folder and dataset live on its CMS, so a
+ * connection can't be deleted while any business still uses it.
+ */
+
+import { logAuditEvent } from "#lib/db/audit-events.ts";
+import { countBusinessesForConnection } from "#lib/db/businesses.ts";
+import {
+  createXiboConnection,
+  deleteXiboConnection,
+  getAllXiboConnections,
+  getXiboConnectionById,
+  toDisplayXiboConnection,
+  toXiboConfig,
+  updateXiboConnection,
+  type XiboConnectionInput,
+} from "#lib/db/xibo-connections.ts";
+import {
+  type FieldValues,
+  validateForm,
+  type ValidationResult,
+} from "#lib/forms.tsx";
+import type { XiboConnection } from "#lib/types.ts";
+import { clearToken, testConnection } from "#xibo/client.ts";
+import {
+  defineRoutes,
+  type RouteHandlerFn,
+  type RouteParams,
+} from "#routes/router.ts";
+import {
+  type AuthSession,
+  htmlResponse,
+  redirectWithError,
+  redirectWithSuccess,
+  requireOwnerOnly,
+  withOwnerAuthForm,
+} from "#routes/utils.ts";
+import {
+  getQueryMessages,
+  toAdminSession,
+  withEntity,
+} from "#routes/route-helpers.ts";
+import {
+  adminConnectionCreatePage,
+  adminConnectionEditPage,
+  adminConnectionsPage,
+} from "#templates/admin/connections.tsx";
+import {
+  xiboConnectionFields,
+  type XiboConnectionFormValues,
+} from "#templates/fields.ts";
+
+/** Validate the connection form into the stored input */
+const validateConnectionForm = (
+  form: URLSearchParams,
+): ValidationResult<XiboConnectionInput> => {
+  const v = validateForm<XiboConnectionFormValues>(form, xiboConnectionFields);
+  return v.valid
+    ? {
+      valid: true,
+      values: {
+        name: v.values.name,
+        apiUrl: v.values.xibo_api_url,
+        clientId: v.values.xibo_client_id,
+        clientSecret: v.values.xibo_client_secret,
+      },
+    }
+    : v;
+};
+
+/**
+ * Validate the connection form, then run the handler. An invalid form is
+ * re-rendered with a 400 and the submitted values, minus the secret.
+ */
+const withValidConnection = async (
+  form: URLSearchParams,
+  renderInvalid: (values: FieldValues, error: string) => string | Promise<string>,
+  handler: (input: XiboConnectionInput) => Promise<Response>,
+): Promise<Response> => {
+  const validation = validateConnectionForm(form);
+  if (validation.valid) return handler(validation.values);
+
+  const { xibo_client_secret: _, ...values } = Object.fromEntries(form);
+  return htmlResponse(await renderInvalid(values, validation.error), 400);
+};
+
+/** Log a connection change */
+const logConnectionChange = (
+  session: AuthSession,
+  action: "CREATE" | "UPDATE" | "DELETE",
+  id: number,
+  detail: string,
+): Promise<void> =>
+  logAuditEvent({
+    actorUserId: session.userId,
+    action,
+    resourceType: "xibo_connection",
+    resourceId: id,
+    detail,
+  });
+
+/** Connection lookup by params.id, 404 when missing */
+const withConnection = (
+  params: RouteParams,
+  handler: (connection: XiboConnection) => Promise<Response>,
+): Promise<Response> =>
+  withEntity(getXiboConnectionById, Number(params.id), "Connection", handler);
+
+/**
+ * Handle GET /admin/connections
+ */
+const handleConnectionsGet = (request: Request): Promise<Response> =>
+  requireOwnerOnly(request, async (session) => {
+    const connections = await getAllXiboConnections();
+    const { error, success } = getQueryMessages(request);
+    return htmlResponse(
+      adminConnectionsPage(
+        await Promise.all(connections.map(toDisplayXiboConnection)),
+        toAdminSession(session),
+        error,
+        success,
+      ),
+    );
+  });
+
+/**
+ * Handle GET /admin/connection/create
+ */
+const handleConnectionCreateGet = (request: Request): Promise<Response> =>
+  requireOwnerOnly(request, (session) =>
+    htmlResponse(adminConnectionCreatePage(toAdminSession(session))));
+
+/**
+ * Handle POST /admin/connection/create
+ */
+const handleConnectionCreatePost = (request: Request): Promise<Response> =>
+  withOwnerAuthForm(request, (session, form) =>
+    withValidConnection(
+      form,
+      (values, error) => adminConnectionCreatePage(toAdminSession(session), values, error),
+      async (input) => {
+        const id = await createXiboConnection(input);
+        await logConnectionChange(session, "CREATE", id, `Created Xibo connection "${input.name}"`);
+        return redirectWithSuccess("/admin/connections", "Connection added");
+      },
+    ));
+
+/**
+ * Handle GET /admin/connection/:id
+ */
+const handleConnectionGet = (request: Request, params: RouteParams): Promise<Response> =>
+  requireOwnerOnly(request, (session) =>
+    withConnection(params, async (connection) =>
+      htmlResponse(
+        adminConnectionEditPage(
+          toAdminSession(session),
+          await toDisplayXiboConnection(connection),
+          getQueryMessages(request),
+        ),
+      )));
+
+/** Owner form submission for the connection in params.id */
+const connectionFormRoute = (
+  handler: (session: AuthSession, form: URLSearchParams, connection: XiboConnection) => Promise<Response>,
+): RouteHandlerFn =>
+(request, params) =>
+  withOwnerAuthForm(request, (session, form) =>
+    withConnection(params, (connection) => handler(session, form, connection)));
+
+/**
+ * Handle POST /admin/connection/:id (drops the old token so it's never
+ * sent to a changed CMS URL)
+ */
+const handleConnectionUpdatePost = connectionFormRoute((session, form, connection) =>
+  withValidConnection(
+    form,
+    async (values, error) =>
+      adminConnectionEditPage(
+        toAdminSession(session),
+        await toDisplayXiboConnection(connection),
+        { values, error },
+      ),
+    async (input) => {
+      await updateXiboConnection(connection.id, input);
+      await clearToken(await toXiboConfig(connection));
+      await logConnectionChange(session, "UPDATE", connection.id, `Updated Xibo connection ${connection.id}`);
+      return redirectWithSuccess(`/admin/connection/${connection.id}`, "Connection updated");
+    },
+  ));
+
+/**
+ * Handle POST /admin/connection/:id/test
+ */
+const handleConnectionTestPost = connectionFormRoute(async (session, _form, connection) =>
+  htmlResponse(
+    adminConnectionEditPage(
+      toAdminSession(session),
+      await toDisplayXiboConnection(connection),
+      { result: await testConnection(await toXiboConfig(connection)) },
+    ),
+  ));
+
+/**
+ * Handle POST /admin/connection/:id/delete
+ */
+const handleConnectionDeletePost = connectionFormRoute(async (session, _form, connection) => {
+  const businesses = await countBusinessesForConnection(connection.id);
+  if (businesses > 0) {
+    return redirectWithError(
+      `/admin/connection/${connection.id}`,
+      `Connection is used by ${businesses} business(es)`,
+    );
+  }
+
+  await deleteXiboConnection(connection.id);
+  await clearToken(await toXiboConfig(connection));
+  await logConnectionChange(session, "DELETE", connection.id, `Deleted Xibo connection ${connection.id}`);
+  return redirectWithSuccess("/admin/connections", "Connection deleted");
+});
+
+/** Xibo connection routes */
+export const connectionRoutes = defineRoutes({
+  "GET /admin/connections": handleConnectionsGet,
+  "GET /admin/connection/create": handleConnectionCreateGet,
+  "POST /admin/connection/create": handleConnectionCreatePost,
+  "GET /admin/connection/:id": handleConnectionGet,
+  "POST /admin/connection/:id": handleConnectionUpdatePost,
+  "POST /admin/connection/:id/test": handleConnectionTestPost,
+  "POST /admin/connection/:id/delete": handleConnectionDeletePost,
+});
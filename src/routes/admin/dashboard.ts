@@ -2,12 +2,14 @@
  * Admin dashboard route
  */
 
+import { getXiboConnectionNames } from "#lib/db/xibo-connections.ts";
 import { defineRoutes } from "#routes/router.ts";
 import { htmlResponse, withSession } from "#routes/utils.ts";
 import { adminDashboardPage } from "#templates/admin/dashboard.tsx";
 import { adminLoginPage } from "#templates/admin/login.tsx";
 import {
   DISCONNECTED_STATUS,
+  getBreakerStatuses,
   getDashboardStatus,
   loadXiboConfig,
 } from "#xibo/client.ts";
@@ -27,7 +29,9 @@ const handleAdminGet = (request: Request): Promise<Response> =>
       const status = config
         ? await getDashboardStatus(config)
         : DISCONNECTED_STATUS;
-      return htmlResponse(adminDashboardPage(session, status));
+      const names = await getXiboConnectionNames();
+      const breakers = await getBreakerStatuses(Object.keys(names).map(Number));
+      return htmlResponse(adminDashboardPage(session, status, breakers, names));
     },
     () => loginResponse(),
   );
@@ -2,7 +2,7 @@
  * Admin dataset routes — browse datasets and view details
  */
 
-import { get } from "#xibo/client.ts";
+import { getAll } from "#xibo/client.ts";
 import type {
   XiboDataset,
   XiboDatasetColumn,
@@ -42,7 +42,7 @@ const handleDatasetDetail = detailRoute(
     const datasetId = params.id!;
 
     // Fetch dataset list to find the one we want
-    const datasets = await get<XiboDataset[]>(config, "dataset", {
+    const datasets = await getAll<XiboDataset>(config, "dataset", {
       dataSetId: datasetId,
     });
     const dataset = datasets[0];
@@ -53,7 +53,7 @@ const handleDatasetDetail = detailRoute(
     // Fetch columns
     let columns: XiboDatasetColumn[] = [];
     try {
-      columns = await get<XiboDatasetColumn[]>(
+      columns = await getAll<XiboDatasetColumn>(
         config,
         `dataset/${datasetId}/column`,
       );
@@ -61,14 +61,10 @@ const handleDatasetDetail = detailRoute(
       logError({ code: ErrorCode.XIBO_API_REQUEST, detail: "dataset columns fetch" });
     }
 
-    // Fetch sample data (first 10 rows)
+    // Fetch every row
     let rows: XiboDatasetRow[] = [];
     try {
-      rows = await get<XiboDatasetRow[]>(
-        config,
-        `dataset/data/${datasetId}`,
-        { start: "0", length: "10" },
-      );
+      rows = await getAll<XiboDatasetRow>(config, `dataset/data/${datasetId}`);
     } catch (_e) {
       logError({ code: ErrorCode.XIBO_API_REQUEST, detail: "dataset data fetch" });
     }
@@ -0,0 +1,60 @@
+/**
+ * Admin Xibo diagnostics routes - owner only
+ */
+
+import { getXiboConnectionNames } from "#lib/db/xibo-connections.ts";
+import { loadXiboConfig } from "#xibo/client.ts";
+import { diagnoseConnection } from "#xibo/diagnostics.ts";
+import { defineRoutes } from "#routes/router.ts";
+import {
+  type AuthSession,
+  htmlResponse,
+  requireOwnerOnly,
+  withOwnerAuthForm,
+} from "#routes/utils.ts";
+import { toAdminSession } from "#routes/route-helpers.ts";
+import { adminDiagnosticsPage } from "#templates/admin/diagnostics.tsx";
+
+/**
+ * Handle GET /admin/diagnostics
+ */
+const handleDiagnosticsGet = (request: Request): Promise<Response> =>
+  requireOwnerOnly(request, async (session) =>
+    htmlResponse(
+      adminDiagnosticsPage(toAdminSession(session), await getXiboConnectionNames()),
+    ));
+
+/** Diagnose a connection: "" is the default connection from settings */
+const diagnosticsResponse = async (
+  session: AuthSession,
+  connection: string,
+): Promise<Response> => {
+  const [names, config] = await Promise.all([
+    getXiboConnectionNames(),
+    loadXiboConfig(connection ? Number(connection) : null),
+  ]);
+  const page = (options: Parameters<typeof adminDiagnosticsPage>[2]) =>
+    adminDiagnosticsPage(toAdminSession(session), names, options);
+  if (!config) return htmlResponse(page({ error: "Connection is not configured" }), 400);
+
+  return htmlResponse(page({
+    report: {
+      connection,
+      name: connection ? names[Number(connection)]! : "Default connection",
+      diagnostics: await diagnoseConnection(config),
+    },
+  }));
+};
+
+/**
+ * Handle POST /admin/diagnostics
+ */
+const handleDiagnosticsPost = (request: Request): Promise<Response> =>
+  withOwnerAuthForm(request, (session, form) =>
+    diagnosticsResponse(session, form.get("connection") ?? ""));
+
+/** Xibo diagnostics routes */
+export const diagnosticsRoutes = defineRoutes({
+  "GET /admin/diagnostics": handleDiagnosticsGet,
+  "POST /admin/diagnostics": handleDiagnosticsPost,
+});
@@ -5,12 +5,16 @@
 import { auditRoutes } from "#routes/admin/audit.tsx";
 import { authRoutes } from "#routes/admin/auth.ts";
 import { businessRoutes } from "#routes/admin/businesses.ts";
+import { connectionRoutes } from "#routes/admin/connections.ts";
 import { dashboardRoutes } from "#routes/admin/dashboard.ts";
 import { datasetRoutes } from "#routes/admin/datasets.ts";
+import { diagnosticsRoutes } from "#routes/admin/diagnostics.ts";
 import { impersonationRoutes } from "#routes/admin/impersonation.ts";
 import { layoutRoutes } from "#routes/admin/layouts.ts";
+import { layoutTemplateRoutes } from "#routes/admin/layout-templates.ts";
 import { mediaRoutes } from "#routes/admin/media.ts";
 import { menuBoardRoutes } from "#routes/admin/menuboards.ts";
+import { scheduleRoutes } from "#routes/admin/schedules.ts";
 import { screenRoutes } from "#routes/admin/screens.ts";
 import { sessionsRoutes } from "#routes/admin/sessions.tsx";
 import { settingsRoutes } from "#routes/admin/settings.tsx";
@@ -22,15 +26,19 @@ const adminRoutes = {
   ...dashboardRoutes,
   ...authRoutes,
   ...settingsRoutes,
+  ...connectionRoutes,
+  ...diagnosticsRoutes,
   ...sessionsRoutes,
   ...auditRoutes,
   ...mediaRoutes,
   ...menuBoardRoutes,
   ...layoutRoutes,
+  ...layoutTemplateRoutes,
   ...datasetRoutes,
   ...usersRoutes,
   ...businessRoutes,
   ...screenRoutes,
+  ...scheduleRoutes,
   ...impersonationRoutes,
 };
 
@@ -0,0 +1,217 @@
+/**
+ * Admin layout template routes - owner only
+ *
+ * Templates are JSON definitions validated before they are stored.
+ * A bad definition re-renders the form with the submitted values, so
+ * owners don't lose their edits.
+ */
+
+import { logAuditEvent } from "#lib/db/audit-events.ts";
+import {
+  createLayoutTemplate,
+  getLayoutTemplate,
+  getLayoutTemplates,
+  type LayoutTemplate,
+  updateLayoutTemplate,
+} from "#lib/db/layout-templates.ts";
+import { type Field, validateForm, type ValidationResult } from "#lib/forms.tsx";
+import {
+  parseTemplateDefinition,
+  productSlotCount,
+} from "#lib/templates/definition.ts";
+import type { AdminSession } from "#lib/types.ts";
+import { defineRoutes, type RouteHandlerFn, type RouteParams } from "#routes/router.ts";
+import type { AuthSession } from "#routes/utils.ts";
+import {
+  htmlResponse,
+  redirectWithSuccess,
+  requireOwnerOnly,
+  withOwnerAuthForm,
+} from "#routes/utils.ts";
+import { getQueryMessages, toAdminSession } from "#routes/route-helpers.ts";
+import {
+  adminLayoutTemplateCreatePage,
+  adminLayoutTemplateEditPage,
+  adminLayoutTemplatesPage,
+  templateFormValues,
+} from "#templates/admin/layout-templates.tsx";
+import {
+  layoutTemplateCreateFields,
+  layoutTemplateFields,
+  type LayoutTemplateFormValues,
+} from "#templates/fields.ts";
+
+/**
+ * Validate a template form: the fields, the definition JSON, and the
+ * product limit against the definition's product tiles.
+ */
+const validateTemplateForm = (
+  form: URLSearchParams,
+  fields: Field[],
+  id: string,
+): ValidationResult<LayoutTemplate> => {
+  const v = validateForm<LayoutTemplateFormValues>(form, fields);
+  if (!v.valid) return v;
+
+  const parsed = parseTemplateDefinition(v.values.definition);
+  if (!parsed.valid) return parsed;
+
+  const tiles = productSlotCount(parsed.values);
+  if (tiles > 0 && v.values.max_products > tiles) {
+    return {
+      valid: false,
+      error: `Max Products can't be more than the ${tiles} product tiles in the definition`,
+    };
+  }
+
+  return {
+    valid: true,
+    values: {
+      id,
+      name: v.values.name,
+      description: v.values.description ?? "",
+      maxProducts: v.values.max_products,
+      definition: parsed.values,
+    },
+  };
+};
+
+/** Submitted form values, to re-render a form after a validation error */
+const submittedValues = (form: URLSearchParams) => Object.fromEntries(form);
+
+/** Log a template change */
+const logTemplateChange = (
+  session: AuthSession,
+  action: "CREATE" | "UPDATE",
+  template: LayoutTemplate,
+): Promise<void> =>
+  logAuditEvent({
+    actorUserId: session.userId,
+    action,
+    resourceType: "layout_template",
+    resourceId: template.id,
+    detail: `${action === "CREATE" ? "Created" : "Updated"} template "${template.id}"`,
+  });
+
+/** Template lookup by params.slug, 404 when missing */
+const withTemplate = async (
+  params: RouteParams,
+  handler: (template: LayoutTemplate) => Response | Promise<Response>,
+): Promise<Response> => {
+  const template = await getLayoutTemplate(params.slug ?? "");
+  return template ? handler(template) : htmlResponse("<h1>Template not found</h1>", 404);
+};
+
+/**
+ * Handle GET /admin/templates
+ */
+const handleTemplatesGet = (request: Request): Promise<Response> =>
+  requireOwnerOnly(request, async (session) =>
+    htmlResponse(
+      adminLayoutTemplatesPage(
+        await getLayoutTemplates(),
+        toAdminSession(session),
+        getQueryMessages(request).success,
+      ),
+    ));
+
+/**
+ * Handle GET /admin/template/create
+ */
+const handleTemplateCreateGet = (request: Request): Promise<Response> =>
+  requireOwnerOnly(request, (session) =>
+    htmlResponse(adminLayoutTemplateCreatePage(toAdminSession(session))));
+
+/** Owner-only page for the template in params.slug */
+const templatePageRoute = (
+  render: (session: AdminSession, template: LayoutTemplate, request: Request) => string,
+): RouteHandlerFn =>
+(request, params) =>
+  requireOwnerOnly(request, (session) =>
+    withTemplate(params, (template) =>
+      htmlResponse(render(toAdminSession(session), template, request))));
+
+/**
+ * Handle GET /admin/template/:slug/clone (create form prefilled with a copy)
+ */
+const handleTemplateCloneGet = templatePageRoute((session, template) =>
+  adminLayoutTemplateCreatePage(session, {
+    ...templateFormValues(template),
+    id: `${template.id}-copy`,
+    name: `${template.name} (copy)`,
+  }));
+
+/** Validate a new template's form, and that its ID isn't already in use */
+const validateNewTemplate = async (
+  form: URLSearchParams,
+): Promise<ValidationResult<LayoutTemplate>> => {
+  const id = form.get("id")?.trim() ?? "";
+  const validation = validateTemplateForm(form, layoutTemplateCreateFields, id);
+  return validation.valid && await getLayoutTemplate(id)
+    ? { valid: false, error: `Template ID "${id}" is already in use` }
+    : validation;
+};
+
+/**
+ * Handle POST /admin/template/create
+ */
+const handleTemplateCreatePost = (request: Request): Promise<Response> =>
+  withOwnerAuthForm(request, async (session, form) => {
+    const validation = await validateNewTemplate(form);
+    if (!validation.valid) {
+      return htmlResponse(
+        adminLayoutTemplateCreatePage(toAdminSession(session), submittedValues(form), validation.error),
+        400,
+      );
+    }
+
+    await createLayoutTemplate(validation.values);
+    await logTemplateChange(session, "CREATE", validation.values);
+    return redirectWithSuccess("/admin/templates", "Template added");
+  });
+
+/**
+ * Handle GET /admin/template/:slug
+ */
+const handleTemplateEditGet = templatePageRoute((session, template, request) =>
+  adminLayoutTemplateEditPage(
+    session,
+    template.id,
+    templateFormValues(template),
+    undefined,
+    getQueryMessages(request).success,
+  ));
+
+/**
+ * Handle POST /admin/template/:slug
+ */
+const handleTemplateEditPost = (request: Request, params: RouteParams): Promise<Response> =>
+  withOwnerAuthForm(request, (session, form) =>
+    withTemplate(params, async (template) => {
+      const validation = validateTemplateForm(form, layoutTemplateFields, template.id);
+      if (!validation.valid) {
+        return htmlResponse(
+          adminLayoutTemplateEditPage(
+            toAdminSession(session),
+            template.id,
+            submittedValues(form),
+            validation.error,
+          ),
+          400,
+        );
+      }
+
+      await updateLayoutTemplate(validation.values);
+      await logTemplateChange(session, "UPDATE", validation.values);
+      return redirectWithSuccess(`/admin/template/${template.id}`, "Template updated");
+    }));
+
+/** Layout template routes (create before :slug so "create" isn't read as an ID) */
+export const layoutTemplateRoutes = defineRoutes({
+  "GET /admin/templates": handleTemplatesGet,
+  "GET /admin/template/create": handleTemplateCreateGet,
+  "POST /admin/template/create": handleTemplateCreatePost,
+  "GET /admin/template/:slug/clone": handleTemplateCloneGet,
+  "GET /admin/template/:slug": handleTemplateEditGet,
+  "POST /admin/template/:slug": handleTemplateEditPost,
+});
@@ -3,7 +3,7 @@
  */
 
 import { map, mapAsync, pick } from "#fp";
-import { get, del } from "#xibo/client.ts";
+import { del, getAll } from "#xibo/client.ts";
 import { createMenuLayout } from "#xibo/layout-builder.ts";
 import type {
   XiboCategory,
@@ -48,9 +48,9 @@ const handleLayoutCreateGet = sessionRoute(
     let error: string | undefined;
 
     try {
-      boards = await get<XiboMenuBoard[]>(config, "menuboards");
+      boards = await getAll<XiboMenuBoard>(config, "menuboards");
       for (const board of boards) {
-        categoriesByBoard[board.menuId] = await get<XiboCategory[]>(
+        categoriesByBoard[board.menuId] = await getAll<XiboCategory>(
           config,
           `menuboard/${board.menuId}/categories`,
         );
@@ -83,7 +83,7 @@ const handleLayoutCreatePost = (request: Request): Promise<Response> =>
     const catId = Number(catIdStr);
 
     // Fetch the category name
-    const categories = await get<XiboCategory[]>(
+    const categories = await getAll<XiboCategory>(
       config,
       `menuboard/${boardId}/categories`,
     );
@@ -96,7 +96,7 @@ const handleLayoutCreatePost = (request: Request): Promise<Response> =>
     }
 
     // Fetch products for the category
-    const categoryProducts = await get<XiboProduct[]>(
+    const categoryProducts = await getAll<XiboProduct>(
       config,
       `menuboard/${catId}/products`,
     );
@@ -120,7 +120,7 @@ const handleLayoutCreatePost = (request: Request): Promise<Response> =>
  */
 const handleLayoutDetail = detailRoute(
   async (session, config, params) => {
-    const layouts = await get<XiboLayout[]>(config, "layout", {
+    const layouts = await getAll<XiboLayout>(config, "layout", {
       layoutId: params.id!,
     });
     const layout = layouts[0];
@@ -146,7 +146,7 @@ const handleLayoutDelete = deleteRoute(
 const handleLayoutDeleteAll = (request: Request): Promise<Response> =>
   withXiboForm(request, async (_session, _form, config) => {
     try {
-      const layouts = await get<XiboLayout[]>(config, "layout");
+      const layouts = await getAll<XiboLayout>(config, "layout");
       await mapAsync((layout: XiboLayout) =>
         del(config, `layout/${layout.layoutId}`)
       )(layouts);
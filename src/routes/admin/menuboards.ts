@@ -3,7 +3,7 @@
  */
 
 import { logAuditEvent, type AuditAction, type AuditResourceType } from "#lib/db/audit-events.ts";
-import { get, post, put, del } from "#xibo/client.ts";
+import { getAll, post, put, del } from "#xibo/client.ts";
 import type {
   XiboCategory,
   XiboConfig,
@@ -51,7 +51,7 @@ const fetchCategories = (
   config: XiboConfig,
   menuId: number,
 ): Promise<XiboCategory[]> =>
-  get<XiboCategory[]>(config, `menuboard/${menuId}/categories`);
+  getAll<XiboCategory>(config, `menuboard/${menuId}/categories`);
 
 /**
  * Fetch products for a board grouped by category
@@ -63,7 +63,7 @@ const fetchProductsByCategory = async (
   const grouped: Record<number, XiboProduct[]> = {};
   await Promise.all(
     categories.map(async (cat) => {
-      grouped[cat.menuCategoryId] = await get<XiboProduct[]>(
+      grouped[cat.menuCategoryId] = await getAll<XiboProduct>(
         config,
         `menuboard/${cat.menuCategoryId}/products`,
       );
@@ -88,7 +88,7 @@ const findProduct = (
 /** Load a board by ID from the Xibo API, returning null if not found. */
 const loadBoard = (config: XiboConfig) =>
   async (id: number): Promise<XiboMenuBoard | null> => {
-    const boards = await get<XiboMenuBoard[]>(config, "menuboards", {
+    const boards = await getAll<XiboMenuBoard>(config, "menuboards", {
       menuId: String(id),
     });
     return boards[0] ?? null;
@@ -357,7 +357,7 @@ const handleBoardDelete = formRouteP<Record<string, never>>(
   (_values, config, params, session) =>
     xiboThenPersist(
       async () => {
-        const boards = await get<XiboMenuBoard[]>(config, "menuboards", {
+        const boards = await getAll<XiboMenuBoard>(config, "menuboards", {
           menuId: params.id!,
         });
         const name = boards[0]?.name ?? params.id;
@@ -0,0 +1,164 @@
+/**
+ * Admin schedule check routes - manager or above
+ *
+ * The overview lists each business on a configured Xibo connection with
+ * its screens.  A business's page checks its screens' displays,
+ * campaigns and events in Xibo against the database and repairs every
+ * screen that has drifted; a screen's page checks just that screen.
+ * A single screen is repaired by its screen route.
+ */
+
+import { compact, mapAsync } from "#fp";
+import { type DisplayBusiness, getAllBusinesses, getBusinessById, toDisplayBusiness } from "#lib/db/businesses.ts";
+import { type DisplayScreen, getScreenById, getScreensForBusiness, toDisplayScreen } from "#lib/db/screens.ts";
+import type { AdminSession, Business } from "#lib/types.ts";
+import { loadXiboConfig } from "#xibo/client.ts";
+import { checkScreenSchedule, invalidateScheduleCache, repairScreenSchedule } from "#xibo/screen-schedule.ts";
+import type { XiboConfig } from "#xibo/types.ts";
+import { logScreenUpdate } from "#routes/admin/screens.ts";
+import { errorMessage, getQueryMessages, toAdminSession, withEntity, withXiboConfig } from "#routes/route-helpers.ts";
+import { defineRoutes, type RouteHandlerFn, type RouteParams } from "#routes/router.ts";
+import {
+  htmlResponse,
+  redirectWithError,
+  redirectWithSuccess,
+  requireManagerOrAbove,
+  withManagerAuthForm,
+} from "#routes/utils.ts";
+import {
+  adminBusinessSchedulesPage,
+  adminScheduleScreenPage,
+  adminSchedulesPage,
+  type ScheduleBusiness,
+  type ScreenScheduleReport,
+} from "#templates/admin/schedules.tsx";
+
+/** A business's schedule page */
+const businessUrl = (businessId: number): string => `/admin/schedules/business/${businessId}`;
+
+/** A business's screens, decrypted */
+const businessScreens = async (businessId: number): Promise<DisplayScreen[]> =>
+  mapAsync(toDisplayScreen)(await getScreensForBusiness(businessId));
+
+/** Every business whose Xibo connection is configured, with its screens */
+const configuredBusinesses = async (): Promise<ScheduleBusiness[]> =>
+  compact(
+    await mapAsync(async (biz: Business) =>
+      await loadXiboConfig(biz.xibo_connection_id)
+        ? { business: await toDisplayBusiness(biz), screens: await businessScreens(biz.id) }
+        : null
+    )(await getAllBusinesses()),
+  );
+
+/** Check a screen, reporting a CMS failure instead of throwing */
+const checkScreen = (config: XiboConfig) => async (screen: DisplayScreen): Promise<ScreenScheduleReport> => {
+  try {
+    return { screen, drift: await checkScreenSchedule(config, screen) };
+  } catch (e) {
+    return { screen, drift: [], error: errorMessage(e) };
+  }
+};
+
+/**
+ * Repair a screen if its check finds drift.  Returns whether it was
+ * repaired, or the reason it couldn't be.
+ */
+const repairIfDrifted = (config: XiboConfig) => async (screen: DisplayScreen): Promise<boolean | string> => {
+  try {
+    if ((await checkScreenSchedule(config, screen)).length === 0) return false;
+    await repairScreenSchedule(config, screen);
+    return true;
+  } catch (e) {
+    return `${screen.name}: ${errorMessage(e)}`;
+  }
+};
+
+/**
+ * Load the business named by params.businessId and its connection's
+ * config, dropping the connection's schedule cache once so the checks
+ * that follow see what the CMS has now
+ */
+const withScheduleBusiness = (
+  params: RouteParams,
+  handler: (config: XiboConfig, business: DisplayBusiness) => Promise<Response>,
+): Promise<Response> =>
+  withEntity(getBusinessById, Number(params.businessId), "Business", (biz) =>
+    withXiboConfig(async (config) => {
+      await invalidateScheduleCache(config);
+      return handler(config, await toDisplayBusiness(biz));
+    }, biz.xibo_connection_id));
+
+/**
+ * Handle GET /admin/schedules
+ */
+const handleSchedulesGet: RouteHandlerFn = (request) =>
+  requireManagerOrAbove(request, async (session) =>
+    htmlResponse(adminSchedulesPage(toAdminSession(session), await configuredBusinesses())));
+
+/**
+ * Build a route that checks the business named by params.businessId
+ * and renders the result.  A null result is a screen not in the
+ * business.
+ */
+const scheduleCheckRoute = <T>(
+  check: (config: XiboConfig, business: DisplayBusiness, params: RouteParams) => Promise<T | null>,
+  render: (session: AdminSession, business: DisplayBusiness, result: T, error?: string, success?: string) => string,
+): RouteHandlerFn =>
+(request, params) =>
+  requireManagerOrAbove(request, (session) =>
+    withScheduleBusiness(params, async (config, business) => {
+      const result = await check(config, business, params);
+      if (result === null) return htmlResponse("<h1>Screen not found</h1>", 404);
+      const { error, success } = getQueryMessages(request);
+      return htmlResponse(render(toAdminSession(session), business, result, error, success));
+    }));
+
+/**
+ * Handle GET /admin/schedules/business/:businessId — check every
+ * screen of the business
+ */
+const handleBusinessSchedulesGet = scheduleCheckRoute(
+  async (config, business) => mapAsync(checkScreen(config))(await businessScreens(business.id)),
+  adminBusinessSchedulesPage,
+);
+
+/**
+ * Handle GET /admin/schedules/business/:businessId/screen/:id — check
+ * one screen
+ */
+const handleScreenScheduleGet = scheduleCheckRoute(async (config, business, params) => {
+  const screen = await getScreenById(Number(params.id));
+  return screen?.business_id === business.id ? checkScreen(config)(await toDisplayScreen(screen)) : null;
+}, adminScheduleScreenPage);
+
+/**
+ * Handle POST /admin/schedules/business/:businessId/repair — repair
+ * every drifted screen of the business, logging each one repaired
+ */
+const handleBusinessRepairPost: RouteHandlerFn = (request, params) =>
+  withManagerAuthForm(request, (session) =>
+    withScheduleBusiness(params, async (config, business) => {
+      const screens = await businessScreens(business.id);
+      const results = await mapAsync(repairIfDrifted(config))(screens);
+      const repaired = screens.filter((_, i) => results[i] === true);
+      await mapAsync((screen: DisplayScreen) =>
+        logScreenUpdate(session, screen, `Repaired schedule of screen ${screen.id}`)
+      )(repaired);
+
+      const failures = compact(results.map((r) => typeof r === "string" && r));
+      if (failures.length > 0) {
+        return redirectWithError(businessUrl(business.id), `Could not repair ${failures.join("; ")}`);
+      }
+      return redirectWithSuccess(
+        businessUrl(business.id),
+        `Repaired ${repaired.length} screen${repaired.length === 1 ? "" : "s"}`,
+      );
+    }));
+
+/** Schedule check routes */
+export const scheduleRoutes = defineRoutes({
+  "GET /admin/schedules": handleSchedulesGet,
+  "GET /admin/schedules/business/:businessId": handleBusinessSchedulesGet,
+  "GET /admin/schedules/business/:businessId/screen/:id": handleScreenScheduleGet,
+  "POST /admin/schedules/business/:businessId/repair": handleBusinessRepairPost,
+});
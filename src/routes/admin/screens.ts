@@ -5,20 +5,34 @@
 import { filter } from "#fp";
 import { logAuditEvent } from "#lib/db/audit-events.ts";
 import { getBusinessById, toDisplayBusiness } from "#lib/db/businesses.ts";
+import { getMenuScreensForScreen } from "#lib/db/menu-screens.ts";
 import {
+  addScreenDisplay,
   createScreen,
+  DEFAULT_SCREEN_SIZE,
   deleteScreen,
   getAssignedDisplayIds,
   getScreenById,
+  getScreenDisplayIds,
+  removeScreenDisplay,
+  type ScreenSize,
   toDisplayScreen,
+  updateScreenSize,
 } from "#lib/db/screens.ts";
 import { validateForm } from "#lib/forms.tsx";
-import { get, loadXiboConfig } from "#xibo/client.ts";
+import { loadXiboConfig } from "#xibo/client.ts";
+import { syncScreenDisplayGroup } from "#xibo/display-groups.ts";
+import { fetchDisplays, getScreenStatuses } from "#xibo/display-status.ts";
+import { requestScreenshot, screenshotCapturedAt } from "#xibo/screenshots.ts";
+import { formatCanvas, parseResolution } from "#xibo/layout-builder.ts";
+import { rescheduleScreen } from "#xibo/scheduling.ts";
+import { invalidateScheduleCache, repairScreenSchedule } from "#xibo/screen-schedule.ts";
 import type { XiboConfig, XiboDisplay } from "#xibo/types.ts";
-import { defineRoutes, type RouteParams } from "#routes/router.ts";
+import { defineRoutes, type RouteHandlerFn, type RouteParams } from "#routes/router.ts";
 import {
   type AuthSession,
   htmlResponse,
+  redirectWithError,
   redirectWithSuccess,
   requireManagerOrAbove,
   withManagerAuthForm,
@@ -28,29 +42,64 @@ import {
   getQueryMessages,
   toAdminSession,
   withEntity,
+  withXiboConfig,
 } from "#routes/route-helpers.ts";
+import { proxyScreenshot } from "#routes/media-ops.ts";
 import {
   adminScreenCreatePage,
   adminScreenDetailPage,
+  type ScreenDisplayReport,
+  type ScreenDisplays,
 } from "#templates/admin/screens.tsx";
 import { screenFields, type ScreenFormValues } from "#templates/fields.ts";
 
-/** Fetch available (unassigned) Xibo displays */
+/** The displays not assigned to a screen on the same connection */
+const unassignedDisplays = async (
+  displays: XiboDisplay[],
+  connectionId: number | null,
+): Promise<XiboDisplay[]> => {
+  const assignedSet = new Set(await getAssignedDisplayIds(connectionId));
+  return filter((d: XiboDisplay) => !assignedSet.has(d.displayId))(displays);
+};
+
+/** Fetch the Xibo displays not assigned to a screen on the same connection */
 const fetchAvailableDisplays = async (
   config: XiboConfig,
+  connectionId: number | null,
 ): Promise<{ displays: XiboDisplay[]; error?: string }> => {
   try {
-    const allDisplays = await get<XiboDisplay[]>(config, "display");
-    const assignedIds = await getAssignedDisplayIds();
-    const assignedSet = new Set(assignedIds);
-    return {
-      displays: filter((d: XiboDisplay) => !assignedSet.has(d.displayId))(allDisplays),
-    };
+    return { displays: await unassignedDisplays(await fetchDisplays(config), connectionId) };
   } catch (e) {
     return { displays: [], error: errorMessage(e) };
   }
 };
 
+/**
+ * Fetch the resolution a Xibo display reports, as a screen size.
+ * Returns null when the display is missing or hasn't reported one.
+ */
+const fetchDisplaySize = async (
+  config: XiboConfig,
+  displayId: number,
+): Promise<ScreenSize | null> => {
+  const displays = await fetchDisplays(config);
+  return parseResolution(displays.find((d) => d.displayId === displayId)?.resolution);
+};
+
+/** Size a new screen from its display, falling back to the default portrait size */
+const newScreenSize = async (
+  biz: Business,
+  displayId: number | null,
+): Promise<ScreenSize> => {
+  const config = await loadXiboConfig(biz.xibo_connection_id);
+  if (!config || displayId === null) return DEFAULT_SCREEN_SIZE;
+  try {
+    return (await fetchDisplaySize(config, displayId)) ?? DEFAULT_SCREEN_SIZE;
+  } catch {
+    return DEFAULT_SCREEN_SIZE;
+  }
+};
+
 /** Business type from DB loader */
 type Business = NonNullable<Awaited<ReturnType<typeof getBusinessById>>>;
 
@@ -72,6 +121,15 @@ const loadScreenForBusiness = async (
   return { business: biz, screen };
 };
 
+/** Load the business and screen named by params.businessId and params.id */
+const withRouteScreen = async (
+  params: RouteParams,
+  handler: (biz: Business, screen: Screen) => Promise<Response>,
+): Promise<Response> => {
+  const loaded = await loadScreenForBusiness(Number(params.businessId), Number(params.id));
+  return loaded instanceof Response ? loaded : handler(loaded.business, loaded.screen);
+};
+
 /** Screen GET route: require manager auth + load business by ID */
 const withScreenAuth = (
   request: Request,
@@ -104,9 +162,9 @@ const handleScreenCreateGet = (
     let availableDisplays: XiboDisplay[] = [];
     let fetchError: string | undefined;
 
-    const config = await loadXiboConfig();
+    const config = await loadXiboConfig(biz.xibo_connection_id);
     if (config) {
-      const result = await fetchAvailableDisplays(config);
+      const result = await fetchAvailableDisplays(config, biz.xibo_connection_id);
       availableDisplays = result.displays;
       fetchError = result.error;
     }
@@ -132,9 +190,14 @@ const handleScreenCreatePost = (
     }
 
     const xiboDisplayIdStr = form.get("xibo_display_id");
-    const xiboDisplayId = xiboDisplayIdStr ? Number(xiboDisplayIdStr) : null;
+    const xiboDisplayId = Number(xiboDisplayIdStr) || null;
 
-    await createScreen(validation.values.name, biz.id, xiboDisplayId || null);
+    await createScreen(
+      validation.values.name,
+      biz.id,
+      xiboDisplayId,
+      await newScreenSize(biz, xiboDisplayId),
+    );
     await logAuditEvent({
       actorUserId: session.userId,
       action: "CREATE",
@@ -144,52 +207,244 @@ const handleScreenCreatePost = (
     return redirectWithSuccess(`/admin/business/${biz.id}`, "Screen created");
   });
 
+/** Status and latest screenshot of a screen's display, when it has one and Xibo is configured */
+const screenDisplayReport = async (
+  biz: Business,
+  screen: Screen,
+): Promise<ScreenDisplayReport | undefined> => {
+  const config = await loadXiboConfig(biz.xibo_connection_id);
+  if (!config || screen.xibo_display_id === null) return undefined;
+  const [statuses, screenshotAt] = await Promise.all([
+    getScreenStatuses(config, [screen]),
+    screenshotCapturedAt(config, screen.xibo_display_id),
+  ]);
+  return { status: statuses[screen.id]!, screenshotAt };
+};
+
+/**
+ * The screen's displays, named from the CMS, and those free to add.
+ * While the CMS can't be reached the displays are listed by ID alone.
+ */
+const screenDisplays = async (
+  biz: Business,
+  screen: Screen,
+): Promise<ScreenDisplays> => {
+  const config = await loadXiboConfig(biz.xibo_connection_id);
+  let cmsDisplays: XiboDisplay[] = [];
+  try {
+    if (config) cmsDisplays = await fetchDisplays(config);
+  } catch {
+    // Names and the add picker need the CMS; the list itself doesn't
+  }
+  return {
+    assigned: (await getScreenDisplayIds(screen.id)).map((displayId) => ({
+      displayId,
+      name: cmsDisplays.find((d) => d.displayId === displayId)?.display ?? null,
+    })),
+    available: await unassignedDisplays(cmsDisplays, biz.xibo_connection_id),
+  };
+};
+
+/**
+ * Run a handler with the Xibo config and display of a screen, sending
+ * a screen without a display back to its page
+ */
+const withScreenDisplay = (
+  biz: Business,
+  screen: Screen,
+  handler: (config: XiboConfig, displayId: number, detailUrl: string) => Promise<Response>,
+): Promise<Response> => {
+  const detailUrl = `/admin/business/${biz.id}/screen/${screen.id}`;
+  const displayId = screen.xibo_display_id;
+  if (displayId === null) {
+    return Promise.resolve(redirectWithError(detailUrl, "Screen has no Xibo display"));
+  }
+  return withXiboConfig((config) => handler(config, displayId, detailUrl), biz.xibo_connection_id);
+};
+
 /** Handle GET /admin/business/:businessId/screen/:id */
-const handleScreenDetailGet = (
-  request: Request,
-  params: RouteParams,
+const handleScreenDetailGet: RouteHandlerFn = (request, params) =>
+  requireManagerOrAbove(request, (session) =>
+    withRouteScreen(params, async (biz, screen) => {
+      const { success, error } = getQueryMessages(request);
+      return htmlResponse(
+        adminScreenDetailPage(
+          await toDisplayBusiness(biz),
+          await toDisplayScreen(screen),
+          toAdminSession(session),
+          await screenDisplays(biz, screen),
+          error,
+          success,
+          await screenDisplayReport(biz, screen),
+        ),
+      );
+    }));
+
+/** Handle GET /admin/business/:businessId/screen/:id/screenshot — proxy the display's latest screenshot */
+const handleScreenScreenshotGet: RouteHandlerFn = (request, params) =>
+  requireManagerOrAbove(request, () =>
+    withRouteScreen(params, (biz, screen) =>
+      withScreenDisplay(biz, screen, (config, displayId) => proxyScreenshot(config, displayId))));
+
+/** Screen POST route: require manager auth form + load the business's screen */
+const screenMutation = (
+  handler: (
+    session: AuthSession,
+    biz: Business,
+    screen: Screen,
+    form: URLSearchParams,
+    params: RouteParams,
+  ) => Promise<Response>,
+): RouteHandlerFn =>
+  (request, params) =>
+    withManagerAuthForm(request, (session, form) =>
+      withRouteScreen(params, (biz, screen) => handler(session, biz, screen, form, params)));
+
+/** Record a change to a screen in the audit log */
+export const logScreenUpdate = (session: AuthSession, screen: Screen, detail: string): Promise<void> =>
+  logAuditEvent({
+    actorUserId: session.userId,
+    action: "UPDATE",
+    resourceType: "screen",
+    resourceId: screen.id,
+    detail,
+  });
+
+/** Handle POST /admin/business/:businessId/screen/:id/resolution — re-read the display's resolution */
+const handleScreenResolutionPost = screenMutation((session, biz, screen) =>
+  withScreenDisplay(biz, screen, async (config, displayId, detailUrl) => {
+    let size: ScreenSize | null;
+    try {
+      size = await fetchDisplaySize(config, displayId);
+    } catch (e) {
+      return redirectWithError(detailUrl, errorMessage(e));
+    }
+    if (!size) {
+      return redirectWithError(detailUrl, "The display has not reported a resolution yet");
+    }
+
+    await updateScreenSize(screen.id, size);
+    await logScreenUpdate(session, screen, `Set screen ${screen.id} resolution to ${formatCanvas(size)}`);
+    return redirectWithSuccess(
+      detailUrl,
+      `Resolution set to ${formatCanvas(size)}. Republish menu screens to apply it.`,
+    );
+  }));
+
+/** Handle POST /admin/business/:businessId/screen/:id/screenshot — ask the display for a screenshot */
+const handleScreenScreenshotPost = screenMutation((_session, biz, screen) =>
+  withScreenDisplay(biz, screen, async (config, displayId, detailUrl) => {
+    try {
+      await requestScreenshot(config, displayId);
+    } catch (e) {
+      return redirectWithError(detailUrl, errorMessage(e));
+    }
+    return redirectWithSuccess(
+      detailUrl,
+      "Screenshot requested. It appears here once the display next checks in.",
+    );
+  }));
+
+/**
+ * Show a screen on a new set of displays.  The display group is brought
+ * to them on the CMS before the change is recorded, and a group created
+ * for the screen gets its campaigns scheduled on it.
+ */
+const changeScreenDisplays = (
+  session: AuthSession,
+  biz: Business,
+  screen: Screen,
+  displayIds: number[],
+  change: { record: () => Promise<void>; detail: string; message: string },
 ): Promise<Response> =>
-  requireManagerOrAbove(request, async (session) => {
-    const loaded = await loadScreenForBusiness(Number(params.businessId), Number(params.id));
-    if (loaded instanceof Response) return loaded;
+  withXiboConfig(async (config) => {
+    const detailUrl = `/admin/business/${biz.id}/screen/${screen.id}`;
+    try {
+      const groupId = await syncScreenDisplayGroup(config, await toDisplayScreen(screen), displayIds);
+      await change.record();
+      if (groupId !== null && groupId !== screen.xibo_display_group_id) {
+        await rescheduleScreen(config, await getMenuScreensForScreen(screen.id), groupId);
+      }
+    } catch (e) {
+      return redirectWithError(detailUrl, errorMessage(e));
+    }
 
-    const { success } = getQueryMessages(request);
-    return htmlResponse(
-      adminScreenDetailPage(
-        await toDisplayBusiness(loaded.business),
-        await toDisplayScreen(loaded.screen),
-        toAdminSession(session),
-        undefined,
-        success,
-      ),
+    await logScreenUpdate(session, screen, change.detail);
+    return redirectWithSuccess(detailUrl, change.message);
+  }, biz.xibo_connection_id);
+
+/** Handle POST /admin/business/:businessId/screen/:id/display/add */
+const handleScreenDisplayAddPost = screenMutation(async (session, biz, screen, form) => {
+  const displayId = Number(form.get("xibo_display_id"));
+  const assigned = await getAssignedDisplayIds(biz.xibo_connection_id);
+  if (!Number.isInteger(displayId) || displayId <= 0 || assigned.includes(displayId)) {
+    return redirectWithError(
+      `/admin/business/${biz.id}/screen/${screen.id}`,
+      "Choose a display not already assigned to a screen",
     );
+  }
+  return changeScreenDisplays(session, biz, screen, [...await getScreenDisplayIds(screen.id), displayId], {
+    record: () => addScreenDisplay(screen.id, displayId),
+    detail: `Added display ${displayId} to screen ${screen.id}`,
+    message: "Display added",
   });
+});
 
-/** Handle POST /admin/business/:businessId/screen/:id/delete */
-const handleScreenDeletePost = (
-  request: Request,
-  params: RouteParams,
-): Promise<Response> =>
-  withManagerAuthForm(request, async (session, _form) => {
-    const businessId = Number(params.businessId);
-    const loaded = await loadScreenForBusiness(businessId, Number(params.id));
-    if (loaded instanceof Response) return loaded;
+/** Handle POST /admin/business/:businessId/screen/:id/display/:displayId/remove */
+const handleScreenDisplayRemovePost = screenMutation(async (session, biz, screen, _form, params) => {
+  const displayId = Number(params.displayId);
+  const displayIds = await getScreenDisplayIds(screen.id);
+  if (!displayIds.includes(displayId)) {
+    return redirectWithError(`/admin/business/${biz.id}/screen/${screen.id}`, "Display is not on this screen");
+  }
+  return changeScreenDisplays(session, biz, screen, displayIds.filter((id) => id !== displayId), {
+    record: () => removeScreenDisplay(screen.id, displayId),
+    detail: `Removed display ${displayId} from screen ${screen.id}`,
+    message: "Display removed",
+  });
+});
 
-    await deleteScreen(loaded.screen.id);
-    await logAuditEvent({
-      actorUserId: session.userId,
-      action: "DELETE",
-      resourceType: "screen",
-      resourceId: loaded.screen.id,
-      detail: `Deleted screen ${loaded.screen.id} from business ${businessId}`,
-    });
-    return redirectWithSuccess(`/admin/business/${businessId}`, "Screen deleted");
+/**
+ * Handle POST /admin/business/:businessId/screen/:id/schedule/repair —
+ * make Xibo match the screen's displays and menu screens, from a
+ * schedule check page, then show the screen's check
+ */
+const handleScreenScheduleRepairPost = screenMutation((session, biz, screen) =>
+  withXiboConfig(async (config) => {
+    const checkUrl = `/admin/schedules/business/${biz.id}/screen/${screen.id}`;
+    try {
+      await invalidateScheduleCache(config);
+      await repairScreenSchedule(config, await toDisplayScreen(screen));
+    } catch (e) {
+      return redirectWithError(checkUrl, errorMessage(e));
+    }
+    await logScreenUpdate(session, screen, `Repaired schedule of screen ${screen.id}`);
+    return redirectWithSuccess(checkUrl, "Schedule repaired");
+  }, biz.xibo_connection_id));
+
+/** Handle POST /admin/business/:businessId/screen/:id/delete */
+const handleScreenDeletePost = screenMutation(async (session, biz, screen) => {
+  await deleteScreen(screen.id);
+  await logAuditEvent({
+    actorUserId: session.userId,
+    action: "DELETE",
+    resourceType: "screen",
+    resourceId: screen.id,
+    detail: `Deleted screen ${screen.id} from business ${biz.id}`,
   });
+  return redirectWithSuccess(`/admin/business/${biz.id}`, "Screen deleted");
+});
 
 /** Screen management routes */
 export const screenRoutes = defineRoutes({
   "GET /admin/business/:id/screen/create": handleScreenCreateGet,
   "POST /admin/business/:id/screen/create": handleScreenCreatePost,
   "GET /admin/business/:businessId/screen/:id": handleScreenDetailGet,
+  "POST /admin/business/:businessId/screen/:id/display/add": handleScreenDisplayAddPost,
+  "POST /admin/business/:businessId/screen/:id/display/:displayId/remove": handleScreenDisplayRemovePost,
+  "POST /admin/business/:businessId/screen/:id/resolution": handleScreenResolutionPost,
+  "GET /admin/business/:businessId/screen/:id/screenshot": handleScreenScreenshotGet,
+  "POST /admin/business/:businessId/screen/:id/screenshot": handleScreenScreenshotPost,
+  "POST /admin/business/:businessId/screen/:id/schedule/repair": handleScreenScheduleRepairPost,
   "POST /admin/business/:businessId/screen/:id/delete": handleScreenDeletePost,
 });
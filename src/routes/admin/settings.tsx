@@ -26,8 +26,9 @@ import {
 } from "#templates/fields.ts";
 import { Layout } from "#templates/layout.tsx";
 import { AdminNav } from "#templates/admin/nav.tsx";
+import { ConnectionResult } from "#templates/admin/connections.tsx";
 import { settingsApi } from "#lib/db/settings.ts";
-import { loadXiboConfig, testConnection } from "#xibo/client.ts";
+import { clearToken, loadXiboConfig, testConnection } from "#xibo/client.ts";
 import type { ConnectionTestResult } from "#xibo/types.ts";
 
 /**
@@ -52,16 +53,7 @@ const settingsPage = (
         <p>Current URL: {xiboUrl || "Not configured"}</p>
         <p>Client ID: {xiboClientId || "Not configured"}</p>
 
-        {connectionResult && (
-          <div class={connectionResult.success ? "success" : "error"}>
-            <p>
-              {connectionResult.success ? "Connected" : "Connection failed"}
-              {connectionResult.version &&
-                ` — CMS v${connectionResult.version}`}
-            </p>
-            {!connectionResult.success && <p>{connectionResult.message}</p>}
-          </div>
-        )}
+        {connectionResult && <ConnectionResult result={connectionResult} />}
 
         <form method="POST" action="/admin/settings/xibo">
           <input type="hidden" name="csrf_token" value={session.csrfToken} />
@@ -75,6 +67,13 @@ const settingsPage = (
             <button type="submit">Test Connection</button>
           </form>
         )}
+
+        <p>
+          <a href="/admin/connections">Other Xibo connections</a> can be
+          chosen for a business when it is created.{" "}
+          <a href="/admin/diagnostics">Diagnostics</a> check what each
+          connection can reach on its CMS.
+        </p>
       </section>
 
       <section>
@@ -121,6 +120,12 @@ const handleXiboUpdate = (request: Request): Promise<Response> =>
       xibo_client_id,
       xibo_client_secret,
     );
+    // The stored token outlives the isolate, so drop it before it's sent to a changed CMS URL
+    await clearToken({
+      apiUrl: xibo_api_url,
+      clientId: xibo_client_id,
+      clientSecret: xibo_client_secret,
+    });
     return redirectWithSuccess("/admin/settings", "Xibo credentials updated");
   });
 
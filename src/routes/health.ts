@@ -1,18 +1,24 @@
 /**
  * Health check endpoint with observability data
  *
- * Returns basic health status including database connectivity.
+ * Returns basic health status including database connectivity and the
+ * circuit breaker state of each Xibo connection, keyed like
+ * "default" or "connection-3".
  * Used by monitoring systems to detect service degradation.
  */
 
 import { getDb } from "#lib/db/client.ts";
+import { getAllXiboConnections } from "#lib/db/xibo-connections.ts";
 import { createRequestTimer } from "#lib/logger.ts";
+import type { CircuitState } from "#xibo/circuit-breaker.ts";
+import { connectionKey, getBreakerStatuses } from "#xibo/client.ts";
 
 /** Health check result */
 export type HealthStatus = {
   status: "ok" | "degraded";
   db: "connected" | "error";
   dbLatencyMs: number;
+  xiboBreakers: Record<string, CircuitState>;
 };
 
 /**
@@ -28,6 +34,21 @@ const checkDb = async (): Promise<{ ok: boolean; latencyMs: number }> => {
   }
 };
 
+/**
+ * Circuit breaker state by connection key (none when the database is down,
+ * as that's where the state is shared).
+ */
+const checkBreakers = async (
+  dbOk: boolean,
+): Promise<Record<string, CircuitState>> => {
+  if (!dbOk) return {};
+  const connections = await getAllXiboConnections();
+  const statuses = await getBreakerStatuses(connections.map((c) => c.id));
+  return Object.fromEntries(
+    statuses.map((s) => [connectionKey(s.connectionId), s.state]),
+  );
+};
+
 /**
  * Health check handler — returns JSON with service status.
  * GET /health
@@ -39,6 +60,7 @@ export const handleHealthCheck = async (): Promise<Response> => {
     status: db.ok ? "ok" : "degraded",
     db: db.ok ? "connected" : "error",
     dbLatencyMs: db.latencyMs,
+    xiboBreakers: await checkBreakers(db.ok),
   };
 
   return new Response(JSON.stringify(health), {
@@ -33,6 +33,12 @@ const loadUserRoutes = once(async () => {
   return routeUser;
 });
 
+/** Lazy-load join (invite acceptance) routes */
+const loadJoinRoutes = once(async () => {
+  const { routeJoin } = await import("#routes/join.ts");
+  return routeJoin;
+});
+
 /** Lazy-load setup routes */
 const loadSetupRoutes = once(async () => {
   const { createSetupRouter } = await import("#routes/setup.ts");
@@ -65,6 +71,7 @@ const createLazyRoute =
 /** Lazy-loaded route handlers */
 const routeAdminPath = createLazyRoute("/admin", loadAdminRoutes);
 const routeDashboardPath = createLazyRoute("/dashboard", loadUserRoutes);
+const routeJoinPath = createLazyRoute("/join", loadJoinRoutes);
 
 /**
  * Route main application requests (after setup is complete)
@@ -72,6 +79,7 @@ const routeDashboardPath = createLazyRoute("/dashboard", loadUserRoutes);
 const routeMainApp: RouterFn = async (request, path, method, server) =>
   (await routeAdminPath(request, path, method, server)) ??
     (await routeDashboardPath(request, path, method, server)) ??
+    (await routeJoinPath(request, path, method, server)) ??
     notFoundResponse();
 
 /**
@@ -0,0 +1,148 @@
+/**
+ * Join routes - invited users accept their invite and set a password
+ */
+
+import { generateSecureToken } from "#lib/crypto.ts";
+import { logAuditEvent } from "#lib/db/audit-events.ts";
+import {
+  decryptUsername,
+  getUserByInviteCode,
+  isInviteValid,
+  setUserPassword,
+} from "#lib/db/users.ts";
+import { validateForm } from "#lib/forms.tsx";
+import { ErrorCode, logError } from "#lib/logger.ts";
+import type { User } from "#lib/types.ts";
+import {
+  createRouter,
+  defineRoutes,
+  type RouteParams,
+} from "#routes/router.ts";
+import {
+  createNewSession,
+  csrfCookie,
+  htmlResponse,
+  htmlResponseWithCookie,
+  redirect,
+  requireCsrfForm,
+  sessionCookieValue,
+} from "#routes/utils.ts";
+import {
+  joinFields,
+  type JoinFormValues,
+  validateNewPassword,
+} from "#templates/fields.ts";
+import { joinInvalidPage, joinPage } from "#templates/join.tsx";
+
+/** Cookie name for the join form CSRF token */
+const JOIN_CSRF_COOKIE = "join_csrf";
+
+/** Response helper with join CSRF cookie */
+const joinResponse =
+  (code: string, username: string, token: string) =>
+  (error?: string, status = 200): Response =>
+    htmlResponseWithCookie(csrfCookie(token, "/join", JOIN_CSRF_COOKIE))(
+      joinPage(code, username, token, error),
+      status,
+    );
+
+/** Invalid or expired invite response */
+const invalidInviteResponse = (): Response =>
+  htmlResponse(joinInvalidPage(), 404);
+
+/**
+ * Look up the user for an invite code, or null if the code is
+ * unknown, already used, or expired.
+ */
+const loadInvitedUser = async (code: string): Promise<User | null> => {
+  const user = await getUserByInviteCode(code);
+  if (!user || !(await isInviteValid(user))) return null;
+  return user;
+};
+
+/** Run handler with the invited user for params.code, or 404 */
+const withInvite = async (
+  params: RouteParams,
+  handler: (code: string, user: User, username: string) => Promise<Response>,
+): Promise<Response> => {
+  const code = params.code ?? "";
+  const user = await loadInvitedUser(code);
+  if (!user) return invalidInviteResponse();
+  return handler(code, user, await decryptUsername(user));
+};
+
+/** Validate the join form, returning the new password or an error message */
+const validateJoinForm = (
+  form: URLSearchParams,
+): { valid: true; password: string } | { valid: false; error: string } => {
+  const validation = validateForm<JoinFormValues>(form, joinFields);
+  if (!validation.valid) return validation;
+
+  const { password, password_confirm: passwordConfirm } = validation.values;
+  const error = validateNewPassword(password, passwordConfirm);
+  return error ? { valid: false, error } : { valid: true, password };
+};
+
+/**
+ * Handle GET /join/:code
+ */
+const handleJoinGet = (
+  _request: Request,
+  params: RouteParams,
+): Promise<Response> =>
+  withInvite(params, (code, _user, username) =>
+    Promise.resolve(joinResponse(code, username, generateSecureToken())()));
+
+/**
+ * Handle POST /join/:code
+ * Sets the password, clears the invite, and signs the user in.
+ */
+const handleJoinPost = (
+  request: Request,
+  params: RouteParams,
+): Promise<Response> =>
+  withInvite(params, async (code, user, username) => {
+    const csrfResult = await requireCsrfForm(
+      request,
+      (newToken) => {
+        logError({ code: ErrorCode.AUTH_CSRF_MISMATCH, detail: "join form" });
+        return joinResponse(code, username, newToken)(
+          "Invalid or expired form. Please try again.",
+          403,
+        );
+      },
+      JOIN_CSRF_COOKIE,
+    );
+    if (!csrfResult.ok) return csrfResult.response;
+
+    const form = csrfResult.value;
+    const validation = validateJoinForm(form);
+    if (!validation.valid) {
+      return htmlResponse(
+        joinPage(code, username, form.get("csrf_token")!, validation.error),
+        400,
+      );
+    }
+
+    // setUserPassword also clears the invite code and expiry
+    await setUserPassword(user.id, validation.password);
+    await logAuditEvent({
+      actorUserId: user.id,
+      action: "UPDATE",
+      resourceType: "user",
+      resourceId: user.id,
+      detail: `User "${username}" accepted invite and set password`,
+    });
+
+    const token = await createNewSession(user.id);
+    return redirect("/admin", sessionCookieValue(token));
+  });
+
+/** Join routes */
+const joinRoutes = defineRoutes({
+  "GET /join/:code": handleJoinGet,
+  "POST /join/:code": handleJoinPost,
+});
+
+/** Route join requests using declarative router */
+export const routeJoin = createRouter(joinRoutes);
@@ -15,6 +15,7 @@ import {
   findMediaById,
   uploadMedia,
 } from "#xibo/media-ops.ts";
+import { fetchScreenshot } from "#xibo/screenshots.ts";
 import type { XiboConfig } from "#xibo/types.ts";
 import {
   type AuthSession,
@@ -47,30 +48,49 @@ export const uploadToXibo = async (
 };
 
 /**
- * Proxy an image preview from the Xibo API.
- * Returns the binary response with appropriate content type and caching.
+ * Proxy a binary Xibo response with its content type, capture time
+ * (Last-Modified) and the given cache policy, or a 500 with a message
+ * if it can't be fetched.
  */
-export const proxyMediaPreview = async (
-  config: XiboConfig,
-  mediaId: string,
+const proxyXiboImage = async (
+  fetchRaw: () => Promise<Response>,
+  cacheControl: string,
+  failure: string,
 ): Promise<Response> => {
   try {
-    const response = await fetchMediaRaw(config, mediaId);
-    const contentType =
-      response.headers.get("content-type") || "application/octet-stream";
-    const body = await response.arrayBuffer();
-
-    return new Response(body, {
-      headers: {
-        "content-type": contentType,
-        "cache-control": "public, max-age=300",
-      },
-    });
+    const response = await fetchRaw();
+    const headers: Record<string, string> = {
+      "content-type": response.headers.get("content-type") || "application/octet-stream",
+      "cache-control": cacheControl,
+    };
+    const lastModified = response.headers.get("last-modified");
+    if (lastModified) headers["last-modified"] = lastModified;
+
+    return new Response(await response.arrayBuffer(), { headers });
   } catch {
-    return htmlResponse("Failed to load preview", 500);
+    return htmlResponse(failure, 500);
   }
 };
 
+/**
+ * Proxy an image preview from the Xibo API.
+ * Returns the binary response with appropriate content type and caching.
+ */
+export const proxyMediaPreview = (
+  config: XiboConfig,
+  mediaId: string,
+): Promise<Response> =>
+  proxyXiboImage(() => fetchMediaRaw(config, mediaId), "public, max-age=300", "Failed to load preview");
+
+/**
+ * Proxy a display's latest screenshot from the Xibo API, uncached as a
+ * new one can arrive at any time.
+ */
+export const proxyScreenshot = (
+  config: XiboConfig,
+  displayId: number,
+): Promise<Response> =>
+  proxyXiboImage(() => fetchScreenshot(config, displayId), "private, no-store", "Failed to load screenshot");
 
 /**
  * Validate CSRF token from multipart form data.
@@ -106,7 +126,21 @@ export type UploadContext = {
 };
 
 /**
- * Resolve authenticated session + Xibo config for upload handlers.
+ * Resolve the Xibo config for an authenticated session's upload, from
+ * the given connection (the default one when null).
+ * Returns { session, config } or a redirect Response on failure.
+ */
+export const resolveSessionConfig = async (
+  session: AuthSession,
+  connectionId: number | null = null,
+): Promise<{ session: AuthSession; config: XiboConfig } | Response> => {
+  const config = await loadXiboConfig(connectionId);
+  if (!config) return redirect("/admin/settings?error=Xibo+API+not+configured");
+  return { session, config };
+};
+
+/**
+ * Resolve authenticated session + default Xibo config for upload handlers.
  * Returns { session, config } or a redirect Response on failure.
  */
 export const resolveAuthConfig = async (
@@ -114,9 +148,7 @@ export const resolveAuthConfig = async (
 ): Promise<{ session: AuthSession; config: XiboConfig } | Response> => {
   const session = await getAuthenticatedSession(request);
   if (!session) return redirect("/admin");
-  const config = await loadXiboConfig();
-  if (!config) return redirect("/admin/settings?error=Xibo+API+not+configured");
-  return { session, config };
+  return resolveSessionConfig(session);
 };
 
 /**
@@ -6,7 +6,7 @@
  * session+config wrappers, list/detail/form route builders, and entity helpers.
  */
 
-import { get, del, loadXiboConfig } from "#xibo/client.ts";
+import { getAll, del, loadXiboConfig } from "#xibo/client.ts";
 import { validateForm, type Field } from "#lib/forms.tsx";
 import { errorMessage } from "#lib/logger.ts";
 import type { AdminSession } from "#lib/types.ts";
@@ -42,11 +42,14 @@ export const toAdminSession = (session: AuthSession): AdminSession => ({
 
 /**
  * Load Xibo config or redirect to settings if not configured.
+ * Pass a business's connection ID to use its connection instead of
+ * the default one.
  */
 export const withXiboConfig = async (
   handler: (config: XiboConfig) => Promise<Response>,
+  connectionId: number | null = null,
 ): Promise<Response> => {
-  const config = await loadXiboConfig();
+  const config = await loadXiboConfig(connectionId);
   if (!config) {
     return redirectWithSuccess(
       "/admin/settings",
@@ -80,7 +83,7 @@ export const fetchList = async <T>(
   endpoint: string,
 ): Promise<{ items: T[]; error: string | undefined }> => {
   try {
-    return { items: await get<T[]>(config, endpoint), error: undefined };
+    return { items: await getAll<T>(config, endpoint), error: undefined };
   } catch (e) {
     return { items: [], error: errorMessage(e) };
   }
@@ -149,6 +152,17 @@ export const detailRoute = (
   withXiboSession(request, (session, config) =>
     handler(session, config, params, request));
 
+/**
+ * Create a session-aware route handler with URL params, for routes that
+ * resolve their own Xibo config (such as from a business's connection).
+ * Handler receives (session, params, request).
+ */
+export const sessionParamsRoute = (
+  handler: (session: AuthSession, params: Params, request: Request) => Promise<Response>,
+): ParamHandler =>
+(request, params) =>
+  requireSessionOr(request, (session) => handler(session, params, request));
+
 /**
  * Create a list page route handler.
  * Fetches items from the API and renders with optional success/error messages.
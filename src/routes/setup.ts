@@ -14,7 +14,11 @@ import {
   redirect,
   requireCsrfForm,
 } from "#routes/utils.ts";
-import { setupFields, type SetupFormValues } from "#templates/fields.ts";
+import {
+  setupFields,
+  type SetupFormValues,
+  validateNewPassword,
+} from "#templates/fields.ts";
 import { setupCompletePage, setupPage } from "#templates/setup.tsx";
 
 /** Response helper with setup CSRF cookie */
@@ -56,11 +60,9 @@ const validateSetupForm = (form: URLSearchParams): SetupValidation => {
   const xiboClientId = String(validation.values.xibo_client_id || "");
   const xiboClientSecret = String(validation.values.xibo_client_secret || "");
 
-  if (password.length < 8) {
-    return { valid: false, error: "Password must be at least 8 characters" };
-  }
-  if (password !== passwordConfirm) {
-    return { valid: false, error: "Passwords do not match" };
+  const passwordError = validateNewPassword(password, passwordConfirm);
+  if (passwordError) {
+    return { valid: false, error: passwordError };
   }
 
   return {
@@ -2,41 +2,45 @@
  * User dashboard routes
  *
  * Provides the user home page listing their businesses, and a
- * per-business overview with screen count, product count, and quick links.
+ * per-business overview with screen count, product count, each screen's
+ * display status, and quick links.
  */
 
 import { getBusinessesForUser, toDisplayBusiness } from "#lib/db/businesses.ts";
-import { getScreensForBusiness } from "#lib/db/screens.ts";
-import { get } from "#xibo/client.ts";
-import type { XiboConfig, XiboDatasetRow } from "#xibo/types.ts";
-import { htmlResponse } from "#routes/utils.ts";
+import { getPublishAttempts } from "#lib/db/publish-attempts.ts";
+import { getScreensForBusiness, toDisplayScreen } from "#lib/db/screens.ts";
+import { getCount } from "#xibo/client.ts";
+import { getScreenStatuses } from "#xibo/display-status.ts";
+import type { XiboConfig } from "#xibo/types.ts";
+import { htmlResponse, requireSessionOr } from "#routes/utils.ts";
 import { defineRoutes } from "#routes/router.ts";
-import { getQueryMessages, sessionRoute, toAdminSession } from "#routes/route-helpers.ts";
-import {
-  userBusinessDetailRoute,
-  withUserBusiness,
-} from "#routes/user/utils.ts";
+import { getQueryMessages, toAdminSession } from "#routes/route-helpers.ts";
+import { userBusinessByIdRoute } from "#routes/user/utils.ts";
 import {
   userBusinessDetailPage,
   userDashboardPage,
 } from "#templates/user/dashboard.tsx";
+import { userBusinessPublishHistoryPage } from "#templates/user/publishes.tsx";
 
-/** Count products by fetching dataset rows, returning 0 on any failure */
+/**
+ * Count products from the dataset's row total, returning 0 on any failure.
+ * An expired count is shown at once and refreshed in the background.
+ */
 const countProducts = async (
   config: XiboConfig,
   datasetId: number | null,
 ): Promise<number> => {
   if (datasetId === null) return 0;
   try {
-    return (await get<XiboDatasetRow[]>(config, `dataset/data/${datasetId}`)).length;
+    return await getCount(config, `dataset/data/${datasetId}`, {}, { stale: "revalidate" });
   } catch {
     return 0;
   }
 };
 
-/** GET /dashboard — user home, list businesses they belong to */
-const handleDashboardGet = sessionRoute(
-  async (session, _config, _request) => {
+/** GET /dashboard — user home, list businesses they belong to (no Xibo calls, so no config needed) */
+const handleDashboardGet = (request: Request): Promise<Response> =>
+  requireSessionOr(request, async (session) => {
     const businesses = await getBusinessesForUser(session.userId);
     const displayBusinesses = await Promise.all(
       businesses.map(toDisplayBusiness),
@@ -44,24 +48,24 @@ const handleDashboardGet = sessionRoute(
     return htmlResponse(
       userDashboardPage(toAdminSession(session), displayBusinesses),
     );
-  },
-);
+  });
 
 /** GET /dashboard/business/:id — business overview */
-const handleBusinessDetail = userBusinessDetailRoute(
-  async (session, config, _ctx, params, request) => {
-    const businessId = Number(params.id);
-    const result = await withUserBusiness(session.userId, businessId);
-    if (result instanceof Response) return result;
-
+const handleBusinessDetail = userBusinessByIdRoute(
+  async (session, config, business, request) => {
+    const screens = await getScreensForBusiness(business.id);
+    const productCount = await countProducts(config, business.xibo_dataset_id);
+    const statuses = await getScreenStatuses(config, screens);
+    const screenSummaries = await Promise.all(screens.map(async (screen) => ({
+      screen: await toDisplayScreen(screen),
+      status: statuses[screen.id] ?? null,
+    })));
     const { success, error: queryError } = getQueryMessages(request);
-    const screens = await getScreensForBusiness(businessId);
-    const productCount = await countProducts(config, result.xibo_dataset_id);
 
     return htmlResponse(
       userBusinessDetailPage(
         toAdminSession(session),
-        { business: result, screenCount: screens.length, productCount },
+        { business, screenCount: screens.length, productCount, screens: screenSummaries },
         success,
         queryError,
       ),
@@ -69,8 +73,28 @@ const handleBusinessDetail = userBusinessDetailRoute(
   },
 );
 
+/** GET /dashboard/business/:id/publishes — publish history for all screens */
+const handleBusinessPublishHistory = userBusinessByIdRoute(
+  async (session, _config, business) => {
+    const screens = await Promise.all(
+      (await getScreensForBusiness(business.id)).map(toDisplayScreen),
+    );
+    const screenNames = Object.fromEntries(screens.map((s) => [s.id, s.name]));
+
+    return htmlResponse(
+      userBusinessPublishHistoryPage(
+        toAdminSession(session),
+        business,
+        await getPublishAttempts(business.id),
+        screenNames,
+      ),
+    );
+  },
+);
+
 /** User dashboard routes */
 export const userDashboardRoutes = defineRoutes({
   "GET /dashboard": handleDashboardGet,
   "GET /dashboard/business/:id": handleBusinessDetail,
+  "GET /dashboard/business/:id/publishes": handleBusinessPublishHistory,
 });
@@ -6,18 +6,10 @@
  */
 
 import { map } from "#fp";
-import { get } from "#xibo/client.ts";
+import { getAll } from "#xibo/client.ts";
+import { COL } from "#xibo/dataset.ts";
 import type { DatasetProduct, XiboConfig, XiboDatasetRow } from "#xibo/types.ts";
 
-/** Column headings in the business dataset */
-export const COL = {
-  NAME: "name",
-  PRICE: "price",
-  MEDIA_ID: "mediaId",
-  AVAILABLE: "available",
-  SORT_ORDER: "sortOrder",
-} as const;
-
 /** Parse a Xibo dataset row into a typed DatasetProduct */
 export const parseProduct = (row: XiboDatasetRow): DatasetProduct => ({
   id: Number(row["id"] ?? 0),
@@ -36,7 +28,7 @@ export const fetchProducts = async (
   datasetId: number,
 ): Promise<DatasetProduct[]> =>
   map(parseProduct)(
-    await get<XiboDatasetRow[]>(config, `dataset/data/${datasetId}`),
+    await getAll<XiboDatasetRow>(config, `dataset/data/${datasetId}`),
   );
 
 /** Find a specific product by row ID within a dataset */
@@ -7,25 +7,31 @@
  */
 
 import { filter } from "#fp";
-import { getSharedFolderId } from "#lib/db/settings.ts";
 import type { XiboMedia } from "#xibo/types.ts";
 import { extractUploadName, fetchAllMedia } from "#xibo/media-ops.ts";
 import {
   handleMultipartUpload,
   proxyMediaPreview,
-  resolveAuthConfig,
+  resolveSessionConfig,
   uploadToXibo,
   verifyAndDeleteMedia,
 } from "#routes/media-ops.ts";
 import type { AuthSession } from "#routes/utils.ts";
-import { htmlResponse, redirectWithError, withAuthForm } from "#routes/utils.ts";
+import {
+  htmlResponse,
+  redirectWithError,
+  requireSessionOr,
+  withAuthForm,
+} from "#routes/utils.ts";
 import { defineRoutes } from "#routes/router.ts";
-import { errorMessage, getQueryMessages, toAdminSession, withXiboConfig } from "#routes/route-helpers.ts";
+import { errorMessage, getQueryMessages, toAdminSession } from "#routes/route-helpers.ts";
 import type { UserBusinessContext } from "#routes/user/utils.ts";
 import {
+  getBusinessSharedFolderId,
   resolveBusinessContext,
   userBusinessDetailRoute,
   userBusinessRoute,
+  withBusinessXiboConfig,
 } from "#routes/user/utils.ts";
 import { userMediaPage, userMediaUploadPage } from "#templates/user/media.tsx";
 
@@ -70,7 +76,7 @@ const handleMediaGet = userBusinessRoute(
   async (session, config, ctx, request) => {
     const businessFolderId = ctx.activeBusiness.xibo_folder_id;
     const { success, error } = getQueryMessages(request);
-    const sharedFolderId = await getSharedFolderId();
+    const sharedFolderId = await getBusinessSharedFolderId(ctx.activeBusiness);
 
     let allMedia: XiboMedia[];
     try {
@@ -127,26 +133,27 @@ const handleUploadGet = userBusinessRoute(
 
 /**
  * POST /dashboard/media/upload — upload to business folder.
- * Uses handleMultipartUpload with business context resolution.
+ * Uses handleMultipartUpload with business context resolution, and the
+ * config for the business's Xibo connection.
  */
-const handleUploadPost = async (request: Request): Promise<Response> => {
-  const auth = await resolveAuthConfig(request);
-  if (auth instanceof Response) return auth;
-  return handleMultipartUpload(
-    request,
-    async () => {
-      const bf = await resolveBusinessFolder(request, auth.session.userId,
-        (ctx) => uploadPageError(auth.session, ctx, "Business folder not provisioned. Contact your administrator.", 400));
-      if (bf instanceof Response) return bf;
-      return { ...auth, ctx: bf.ctx, businessFolderId: bf.businessFolderId };
-    },
-    (rctx, msg) => uploadPageError(rctx.session, rctx.ctx, msg, 400),
-    (rctx) => uploadPageError(rctx.session, rctx.ctx, "Please select a file to upload", 400),
-    (rctx, file, formData) =>
-      uploadToXibo(rctx.config, file, extractUploadName(formData, file), String(rctx.businessFolderId),
-        "/dashboard/media", (msg) => uploadPageError(rctx.session, rctx.ctx, msg)),
-  );
-};
+const handleUploadPost = (request: Request): Promise<Response> =>
+  requireSessionOr(request, (session) =>
+    handleMultipartUpload(
+      request,
+      async () => {
+        const bf = await resolveBusinessFolder(request, session.userId,
+          (ctx) => uploadPageError(session, ctx, "Business folder not provisioned. Contact your administrator.", 400));
+        if (bf instanceof Response) return bf;
+        const auth = await resolveSessionConfig(session, bf.ctx.activeBusiness.xibo_connection_id);
+        if (auth instanceof Response) return auth;
+        return { ...auth, ctx: bf.ctx, businessFolderId: bf.businessFolderId };
+      },
+      (rctx, msg) => uploadPageError(rctx.session, rctx.ctx, msg, 400),
+      (rctx) => uploadPageError(rctx.session, rctx.ctx, "Please select a file to upload", 400),
+      (rctx, file, formData) =>
+        uploadToXibo(rctx.config, file, extractUploadName(formData, file), String(rctx.businessFolderId),
+          "/dashboard/media", (msg) => uploadPageError(rctx.session, rctx.ctx, msg)),
+    ));
 
 /**
  * POST /dashboard/media/:id/delete — delete from own business folder only.
@@ -156,12 +163,12 @@ const handleDeletePost = (
   request: Request,
   params: Record<string, string | undefined>,
 ): Promise<Response> =>
-  withAuthForm(request, (session, _form) =>
-    withXiboConfig(async (config) => {
-      const bf = await resolveBusinessFolder(request, session.userId,
-        () => redirectWithError("/dashboard/media", "Business folder not provisioned"));
-      if (bf instanceof Response) return bf;
-      return verifyAndDeleteMedia({
+  withAuthForm(request, async (session, _form) => {
+    const bf = await resolveBusinessFolder(request, session.userId,
+      () => redirectWithError("/dashboard/media", "Business folder not provisioned"));
+    if (bf instanceof Response) return bf;
+    return withBusinessXiboConfig(bf.ctx.activeBusiness, (config) =>
+      verifyAndDeleteMedia({
         config,
         mediaId: Number(params.id),
         expectedFolderId: bf.businessFolderId,
@@ -170,11 +177,12 @@ const handleDeletePost = (
         errorUrl: "/dashboard/media",
         notFoundMsg: "Media not found",
         wrongFolderMsg: "You can only delete your own business photos",
-      });
-    }));
+      }));
+  });
 
 /**
- * GET /dashboard/media/:id/preview — image preview proxy
+ * GET /dashboard/media/:id/preview — image preview proxy, from the
+ * Xibo connection of the business in ?businessId
  */
 const handlePreviewGet = userBusinessDetailRoute(
   (_session, config, _ctx, params) =>
@@ -4,57 +4,107 @@
  * Menu screens are user-configured Xibo layouts built from layout
  * templates. Users create them, pick products, and the system
  * generates Xibo layouts, campaigns, and schedules automatically.
+ * Edits can instead be saved as a draft, previewed, and published later.
  */
 
-import { mapAsync } from "#fp";
+import { groupBy, mapAsync, unique } from "#fp";
+import { logAuditEvent } from "#lib/db/audit-events.ts";
 import type { DisplayBusiness } from "#lib/db/businesses.ts";
 import { getScreenById, toDisplayScreen } from "#lib/db/screens.ts";
 import type { DisplayScreen } from "#lib/db/screens.ts";
 import {
+  clearMenuScreenDraft,
   createMenuScreen,
   deleteMenuScreen,
+  getLiveMenuScreenContent,
   getMenuScreenById,
-  getMenuScreenItems,
+  getDisplayMenuScreensForScreen,
+  getMenuScreenDraft,
+  getMenuScreensForProduct,
   getMenuScreensForScreen,
+  saveMenuScreenDraft,
   setMenuScreenItems,
   toDisplayMenuScreen,
   updateMenuScreen,
   updateMenuScreenCampaignId,
-  updateMenuScreenLayoutId,
+  updateMenuScreenLayout,
 } from "#lib/db/menu-screens.ts";
 import type { DisplayMenuScreen } from "#lib/db/menu-screens.ts";
-import type { MenuScreen } from "#lib/types.ts";
+import {
+  getPublishAttemptsForScreen,
+  withPublishAttempt,
+} from "#lib/db/publish-attempts.ts";
+import {
+  createPublishSnapshot,
+  getPublishSnapshot,
+  getSnapshotIds,
+  isLayoutInSnapshot,
+  pruneSnapshots,
+} from "#lib/db/publish-snapshots.ts";
+import type {
+  PublishSnapshot,
+  SnapshotMenuScreen,
+} from "#lib/db/publish-snapshots.ts";
+import type { MenuScreen, MenuScreenContent } from "#lib/types.ts";
+import { daypartKey, validateDaypart } from "#lib/dayparts.ts";
 import { validateForm } from "#lib/forms.tsx";
+import { getLayoutTemplate, getLayoutTemplates } from "#lib/db/layout-templates.ts";
 import {
   buildLayoutFromTemplate,
-  getTemplateById,
-  TEMPLATES,
+  isDatasetTemplate,
+  updateLayoutFromTemplate,
 } from "#lib/templates/index.ts";
-import type { TemplateProduct } from "#lib/templates/index.ts";
-import { del } from "#xibo/client.ts";
-import { rebuildScreenSchedule } from "#xibo/scheduling.ts";
-import type { DatasetProduct, XiboConfig } from "#xibo/types.ts";
+import type { LayoutTemplate, TemplateProduct } from "#lib/templates/index.ts";
+import {
+  fetchCampaignLayout,
+  fetchMenuScreenLayout,
+  withCurrentLayoutIds,
+} from "#xibo/layout-builder.ts";
+import type { Canvas, LayoutRef } from "#xibo/layout-builder.ts";
+import { del, put } from "#xibo/client.ts";
+import { deleteStaleCampaigns } from "#xibo/scheduling.ts";
+import { refreshScreenSchedule } from "#xibo/screen-schedule.ts";
+import type { DatasetProduct, XiboConfig, XiboLayout } from "#xibo/types.ts";
 import { defineRoutes } from "#routes/router.ts";
-import { htmlResponse, redirectWithError, redirectWithSuccess } from "#routes/utils.ts";
-import { errorMessage, getQueryMessages, toAdminSession, withXiboForm } from "#routes/route-helpers.ts";
-import { userBusinessDetailRoute, withUserBusiness } from "#routes/user/utils.ts";
+import type { AuthSession } from "#routes/utils.ts";
+import {
+  htmlResponse,
+  redirectWithError,
+  redirectWithSuccess,
+  withAuthForm,
+} from "#routes/utils.ts";
+import {
+  errorMessage,
+  getQueryMessages,
+  sessionParamsRoute,
+  toAdminSession,
+} from "#routes/route-helpers.ts";
+import { withBusinessXiboConfig, withUserBusiness } from "#routes/user/utils.ts";
 import { fetchProducts } from "#routes/user/data-helpers.ts";
 import { menuScreenFields, type MenuScreenFormValues } from "#templates/fields.ts";
 import {
   userMenuScreenCreatePage,
   userMenuScreenEditPage,
   userMenuScreenListPage,
+  userMenuScreenPreviewPage,
 } from "#templates/user/menu-screens.tsx";
+import { userScreenPublishHistoryPage } from "#templates/user/publishes.tsx";
 
 // ─── URL helpers ───────────────────────────────────────────────────
 
 const menusUrl = (bizId: number, screenId: number): string =>
   `/dashboard/business/${bizId}/screen/${screenId}/menus`;
 
+const publishesUrl = (bizId: number, screenId: number): string =>
+  `/dashboard/business/${bizId}/screen/${screenId}/publishes`;
+
+const previewUrl = (bizId: number, screenId: number, menuScreenId: number): string =>
+  `/dashboard/business/${bizId}/screen/${screenId}/menu/${menuScreenId}/preview`;
+
 // ─── Access control helpers ────────────────────────────────────────
 
-/** Result of requireScreen when successful */
-type ScreenCtx = { business: DisplayBusiness; screen: DisplayScreen };
+/** Result of requireScreen when successful (userId is the verified user) */
+type ScreenCtx = { userId: number; business: DisplayBusiness; screen: DisplayScreen };
 
 /** Verify user access to business + screen, returning display objects or error response */
 const requireScreen = async (
@@ -70,14 +120,14 @@ const requireScreen = async (
     return htmlResponse("<h1>Screen not found</h1>", 404);
   }
 
-  return { business, screen: await toDisplayScreen(screen) };
+  return { userId, business, screen: await toDisplayScreen(screen) };
 };
 
 /** Parse bizId + screenId from route params, validate screen access, and pass context to handler */
 const withScreenCtx = async <T>(
   userId: number,
   params: Record<string, string | undefined>,
-  handler: (sc: { bizId: number; screenId: number; ctx: ScreenCtx }) => T | Promise<T>,
+  handler: (sc: ScreenPageCtx) => T | Promise<T>,
 ): Promise<T | Response> => {
   const bizId = Number(params.bizId);
   const screenId = Number(params.screenId);
@@ -86,28 +136,45 @@ const withScreenCtx = async <T>(
   return handler({ bizId, screenId, ctx: result });
 };
 
-/** Load menu screens for a screen and decrypt them for display */
-const loadDisplayMenuScreens = async (
-  screenId: number,
-): Promise<{ menuScreens: MenuScreen[]; display: DisplayMenuScreen[] }> => {
-  const menuScreens = await getMenuScreensForScreen(screenId);
-  const display = await Promise.all(menuScreens.map(toDisplayMenuScreen));
-  return { menuScreens, display };
-};
+/** Screen page context: parsed IDs plus the verified screen context */
+type ScreenPageCtx = { bizId: number; screenId: number; ctx: ScreenCtx };
+
+/** Screen access, then the config for the screen's business's Xibo connection */
+const withScreenConfig = (
+  userId: number,
+  params: Record<string, string | undefined>,
+  handler: (config: XiboConfig, sc: ScreenPageCtx) => Promise<Response>,
+): Promise<Response> =>
+  withScreenCtx(userId, params, (sc) =>
+    withBusinessXiboConfig(sc.ctx.business, (config) => handler(config, sc)));
+
+/** GET route for a screen's pages: business access, then screen access */
+const screenPageRoute = (
+  handler: (
+    session: AuthSession,
+    config: XiboConfig,
+    sc: ScreenPageCtx,
+    params: Record<string, string | undefined>,
+    request: Request,
+  ) => Promise<Response>,
+) =>
+  sessionParamsRoute((session, params, request) =>
+    withScreenConfig(session.userId, params, (config, sc) =>
+      handler(session, config, sc, params, request)));
 
 /** Parse product_ids from form (checkbox group returns multiple values) */
 const parseProductIds = (form: URLSearchParams): number[] =>
   form.getAll("product_ids").map(Number).filter((n) => !isNaN(n));
 
-/** Convert selected products into TemplateProduct[] for layout building */
+/** Convert selected, available products into TemplateProduct[] for layout building */
 const toTemplateProducts = (
   products: DatasetProduct[],
   selectedIds: number[],
 ): TemplateProduct[] => {
   const idSet = new Set(selectedIds);
   return products
-    .filter((p) => idSet.has(p.id))
-    .map((p) => ({ name: p.name, price: p.price }));
+    .filter((p) => idSet.has(p.id) && p.available === 1)
+    .map((p) => ({ name: p.name, price: p.price, mediaId: p.media_id }));
 };
 
 /**
@@ -129,25 +196,52 @@ const requireMenuScreen = async (
   return menuScreen;
 };
 
+/** A menu screen with the content to edit or preview: its draft, else the live version */
+type EditableMenuScreen = {
+  menuScreen: DisplayMenuScreen;
+  content: MenuScreenContent;
+  isDraft: boolean;
+};
+
+/** Look up a menu screen (as requireMenuScreen) along with its draft or live content */
+const requireEditableMenuScreen = async (
+  menuScreenId: number,
+  screenId: number,
+  bizId: number,
+): Promise<EditableMenuScreen | Response> => {
+  const menuScreen = await requireMenuScreen(menuScreenId, screenId, bizId);
+  if (menuScreen instanceof Response) return menuScreen;
+
+  const display = await toDisplayMenuScreen(menuScreen);
+  const draft = await getMenuScreenDraft(menuScreen);
+  return {
+    menuScreen: display,
+    content: draft ?? await getLiveMenuScreenContent(display),
+    isDraft: draft !== null,
+  };
+};
+
 /**
- * Validate template selection and product count from form data.
- * Returns validated form values + template + productIds, or a redirect on error.
+ * Validate template selection and product count from form data,
+ * then call onValid with the form values, template and productIds.
+ * Returns a redirect on error.
  */
-type ValidatedMenuForm = {
-  v: { values: MenuScreenFormValues };
-  templateId: string;
-  productIds: number[];
-};
-const validateMenuForm = (
+const validateMenuForm = async (
   form: URLSearchParams,
   bizId: number,
   screenId: number,
-): ValidatedMenuForm | Response => {
+  onValid: (values: MenuScreenFormValues, templateId: string, productIds: number[]) => Promise<Response>,
+): Promise<Response> => {
   const v = validateForm<MenuScreenFormValues>(form, menuScreenFields);
   if (!v.valid) return htmlResponse(v.error, 400);
 
+  const daypartError = validateDaypart(v.values);
+  if (daypartError) {
+    return redirectWithError(menusUrl(bizId, screenId), daypartError);
+  }
+
   const templateId = form.get("template_id") || "";
-  const template = getTemplateById(templateId);
+  const template = await getLayoutTemplate(templateId);
   if (!template) {
     return redirectWithError(menusUrl(bizId, screenId), "Invalid template");
   }
@@ -160,7 +254,7 @@ const validateMenuForm = (
     );
   }
 
-  return { v: v as { values: MenuScreenFormValues }, templateId, productIds };
+  return onValid(v.values, templateId, productIds);
 };
 
 /**
@@ -179,9 +273,8 @@ const fetchTemplateProducts = async (
 /** Silently try to delete an old Xibo layout */
 const deleteOldLayout = async (
   config: XiboConfig,
-  layoutId: number | null,
+  layoutId: number,
 ): Promise<void> => {
-  if (layoutId === null) return;
   try {
     await del(config, `layout/${layoutId}`);
   } catch {
@@ -189,6 +282,37 @@ const deleteOldLayout = async (
   }
 };
 
+/** Name given to a replaced layout kept for rollback (Xibo layout names must be unique) */
+const keptLayoutName = (layoutId: number): string =>
+  `Kept for rollback #${layoutId}`;
+
+/** Rename a layout kept for rollback, to free its menu screen's name */
+const keepLayout = async (
+  config: XiboConfig,
+  layoutId: number,
+): Promise<void> => {
+  try {
+    await put(config, `layout/${layoutId}`, { name: keptLayoutName(layoutId) });
+  } catch {
+    // Layout may already be deleted
+  }
+};
+
+/**
+ * Release a layout a menu screen no longer uses. Layouts referenced by a
+ * publish snapshot are renamed to free the menu screen's name; others are deleted.
+ */
+const releaseLayout = async (
+  config: XiboConfig,
+  layout: XiboLayout | null,
+): Promise<void> => {
+  if (!layout) return;
+  if (!(await isLayoutInSnapshot(layout.campaignId))) {
+    return deleteOldLayout(config, layout.layoutId);
+  }
+  await keepLayout(config, layout.layoutId);
+};
+
 /**
  * Safely fetch products for a business, returning empty array on failure.
  * Used by create/edit GET forms to populate the product picker.
@@ -206,23 +330,66 @@ const safeFetchProducts = async (
 };
 
 /**
- * Set items, optionally delete old layout, build from template, and save layout ID.
- * Shared by both create and edit POST handlers.
+ * GET route for a menu screen's edit and preview pages: resolves screen
+ * access, the menu screen with its draft or live content, and the products.
+ */
+const editableMenuScreenRoute = (
+  handler: (
+    session: AuthSession,
+    ctx: ScreenCtx,
+    editable: EditableMenuScreen,
+    products: DatasetProduct[],
+    templates: LayoutTemplate[],
+    request: Request,
+  ) => Response,
+) =>
+  screenPageRoute(async (session, config, { bizId, screenId, ctx }, params, request) => {
+    const editable = await requireEditableMenuScreen(Number(params.id), screenId, bizId);
+    if (editable instanceof Response) return editable;
+    const products = await safeFetchProducts(config, ctx.business.xibo_dataset_id);
+    return handler(session, ctx, editable, products, await getLayoutTemplates(), request);
+  });
+
+/** Where a screen's layouts are built: the business dataset and the screen's canvas */
+type BuildTarget = { datasetId: number | null; canvas: Canvas };
+
+/** Build target for a screen of a business */
+const buildTarget = (business: DisplayBusiness, screen: DisplayScreen): BuildTarget => ({
+  datasetId: business.xibo_dataset_id,
+  canvas: { width: screen.width, height: screen.height },
+});
+
+/**
+ * Set items, then update the old layout in place, or release it and build
+ * a new one from the template when it can't be (see updateLayoutFromTemplate),
+ * and save the layout and its campaign. The layout plays for the menu screen's
+ * display time. Shared by the create and edit POST handlers and rollback.
  */
 const saveItemsAndBuild = async (
   config: XiboConfig,
   menuScreenId: number,
   templateId: string,
   name: string,
-  datasetId: number | null,
+  displayTime: number,
+  { datasetId, canvas }: BuildTarget,
   productIds: number[],
-  oldLayoutId: number | null = null,
+  oldLayout: LayoutRef | null = null,
 ): Promise<void> => {
   await setMenuScreenItems(menuScreenId, productIds);
-  await deleteOldLayout(config, oldLayoutId);
   const templateProducts = await fetchTemplateProducts(config, datasetId, productIds);
-  const layout = await buildLayoutFromTemplate(config, templateId, name, templateProducts);
-  await updateMenuScreenLayoutId(menuScreenId, layout.layoutId);
+  const options = {
+    canvas,
+    dataset: datasetId === null ? null : { datasetId, rowIds: productIds },
+    duration: displayTime,
+  };
+  const current = oldLayout === null ? null : await fetchMenuScreenLayout(config, oldLayout);
+  if (current && await updateLayoutFromTemplate(config, current, templateId, name, templateProducts, options)) {
+    return updateMenuScreenLayout(menuScreenId, current);
+  }
+
+  await releaseLayout(config, current);
+  const layout = await buildLayoutFromTemplate(config, templateId, name, templateProducts, options);
+  await updateMenuScreenLayout(menuScreenId, layout);
 };
 
 /** Route handler accepting request + params */
@@ -230,7 +397,8 @@ type MutationHandler = (request: Request, params: Record<string, string | undefi
 
 /**
  * HOF for menu screen mutation routes.
- * Handles withXiboForm + param parsing + requireScreen + error wrapping.
+ * Handles withAuthForm + param parsing + requireScreen + config + error wrapping.
+ * `id` is the route's :id param (a menu screen or publish attempt).
  */
 const menuScreenMutation = (
   handler: (
@@ -238,13 +406,13 @@ const menuScreenMutation = (
     ctx: ScreenCtx,
     bizId: number,
     screenId: number,
-    menuScreenId: number,
+    id: number,
     form: URLSearchParams,
   ) => Promise<Response>,
 ): MutationHandler =>
   (request, params) =>
-    withXiboForm(request, (session, form, config) =>
-      withScreenCtx(session.userId, params, (sc) =>
+    withAuthForm(request, (session, form) =>
+      withScreenConfig(session.userId, params, (config, sc) =>
         handler(config, sc.ctx, sc.bizId, sc.screenId, Number(params.id), form)));
 
 /** Screen + menu screen context for detail mutations */
@@ -269,36 +437,84 @@ const menuScreenDetailMutation = (
     return handler(config, { ...ctx, menuScreen }, bizId, screenId, form);
   });
 
-/** Rebuild campaign/schedule after a menu screen change */
-const refreshSchedule = async (
+/** Capture a menu screen, with its selected products, for a publish snapshot */
+const toSnapshotMenuScreen = async (
+  ms: DisplayMenuScreen,
+): Promise<SnapshotMenuScreen> => ({
+  ...await getLiveMenuScreenContent(ms),
+  xibo_layout_id: ms.xibo_layout_id,
+  xibo_layout_campaign_id: ms.xibo_layout_campaign_id,
+  xibo_campaign_id: ms.xibo_campaign_id,
+});
+
+/**
+ * Snapshot the screen's published menu screens, then prune old snapshots
+ * and delete layouts that neither a kept snapshot nor the screen still uses.
+ */
+const snapshotScreen = async (
   config: XiboConfig,
+  attemptId: number,
   screenId: number,
-  screenName: string,
-  displayId: number | null,
-  existingCampaignId: number | null,
-): Promise<number | null> => {
-  if (displayId === null) return existingCampaignId;
+): Promise<void> => {
+  const display = await getDisplayMenuScreensForScreen(screenId);
+  await createPublishSnapshot(attemptId, screenId, await mapAsync(toSnapshotMenuScreen)(display));
+
+  const pruned = await pruneSnapshots(screenId);
+  const inUse = (await getSnapshotIds(screenId)).layoutCampaignIds;
+  for (const ms of display) if (ms.xibo_layout_campaign_id !== null) inUse.add(ms.xibo_layout_campaign_id);
+  await mapAsync(async (layoutCampaignId: number) => {
+    const layout = await fetchCampaignLayout(config, layoutCampaignId);
+    if (layout) await deleteOldLayout(config, layout.layoutId);
+  })(unique(pruned).filter((id) => !inUse.has(id)));
+};
 
-  const { menuScreens, display } = await loadDisplayMenuScreens(screenId);
+/**
+ * Replace the screen's menu screens with those from a snapshot.
+ * Kept layouts, found by their campaigns, are reused, renamed back and
+ * brought to the snapshot's products in place (rebuilt if they are gone),
+ * and current campaigns are reused for matching dayparts.
+ */
+const restoreSnapshot = async (
+  config: XiboConfig,
+  screenId: number,
+  target: BuildTarget,
+  snapshot: PublishSnapshot,
+): Promise<void> => {
+  const restored = await withCurrentLayoutIds(config, snapshot.menuScreens);
+  const restoredLayoutIds = new Set(restored.map((ms) => ms.xibo_layout_id));
+  const campaigns = new Map<string, number>();
+  for (const ms of await getMenuScreensForScreen(screenId)) {
+    const layout = await fetchMenuScreenLayout(config, ms);
+    if (layout && !restoredLayoutIds.has(layout.layoutId)) {
+      await releaseLayout(config, layout);
+    }
+    if (ms.xibo_campaign_id !== null) campaigns.set(daypartKey(ms), ms.xibo_campaign_id);
+    await deleteMenuScreen(ms.id);
+  }
+
+  for (const snap of snapshot.menuScreens) {
+    const ms = await createMenuScreen(
+      snap.name, screenId, snap.template_id, snap.display_time, snap.sort_order, snap,
+    );
+    const campaignId = campaigns.get(daypartKey(snap));
+    if (campaignId !== undefined) await updateMenuScreenCampaignId(ms.id, campaignId);
+    await saveItemsAndBuild(
+      config, ms.id, snap.template_id, snap.name, snap.display_time, target, snap.product_row_ids, snap,
+    );
+  }
 
-  const { campaignId } = await rebuildScreenSchedule(
+  const restoredKeys = new Set(snapshot.menuScreens.map(daypartKey));
+  await deleteStaleCampaigns(
     config,
-    display,
-    screenName,
-    displayId,
-    existingCampaignId,
+    [...campaigns].filter(([key]) => !restoredKeys.has(key)).map(([, id]) => id),
   );
-
-  await mapAsync((ms: MenuScreen) =>
-    updateMenuScreenCampaignId(ms.id, campaignId)
-  )(menuScreens);
-
-  return campaignId;
 };
 
 /**
  * Execute a menu screen mutation action with try/catch + schedule refresh + redirect.
- * Consolidates the common pattern across create, edit, and delete handlers.
+ * The whole rebuild is recorded as a publish attempt for the screen's history,
+ * and snapshotted on success so the screen can be rolled back to it.
+ * Consolidates the common pattern across create, edit, delete and rollback handlers.
  */
 const menuScreenAction = async (
   action: () => Promise<void>,
@@ -310,14 +526,109 @@ const menuScreenAction = async (
   successMsg: string,
 ): Promise<Response> => {
   try {
-    await action();
-    await refreshSchedule(config, screenId, ctx.screen.name, ctx.screen.xibo_display_id, existingCampaignId);
+    await withPublishAttempt(ctx.userId, bizId, screenId, async (attemptId) => {
+      await action();
+      await refreshScreenSchedule(config, ctx.screen, existingCampaignId);
+      await snapshotScreen(config, attemptId, screenId);
+    });
     return redirectWithSuccess(menusUrl(bizId, screenId), successMsg);
   } catch (e) {
     return redirectWithError(menusUrl(bizId, screenId), errorMessage(e));
   }
 };
 
+/** Screens refreshed after a product change, and those whose refresh failed */
+export type ProductRefresh = { refreshed: string[]; failed: string[] };
+
+/**
+ * Republish one screen's menu screens after a product change:
+ * rebuild their layouts, then the schedule and snapshot, as a publish attempt.
+ */
+const republishMenuScreens = (
+  config: XiboConfig,
+  userId: number,
+  business: DisplayBusiness,
+  screen: DisplayScreen,
+  menuScreens: MenuScreen[],
+): Promise<void> =>
+  withPublishAttempt(userId, business.id, screen.id, async (attemptId) => {
+    for (const ms of await mapAsync(toDisplayMenuScreen)(menuScreens)) {
+      const { product_row_ids } = await getLiveMenuScreenContent(ms);
+      await saveItemsAndBuild(
+        config, ms.id, ms.template_id, ms.name, ms.display_time,
+        buildTarget(business, screen), product_row_ids, ms,
+      );
+    }
+    await refreshScreenSchedule(config, screen, null);
+    await snapshotScreen(config, attemptId, screen.id);
+  });
+
+/**
+ * Republish every screen of a business with a menu screen showing a
+ * product, after the product is edited, deleted or toggled. Dataset
+ * templates read the product live, so only static templates are rebuilt.
+ * A failed screen is recorded in its publish history and doesn't stop the rest.
+ */
+export const republishProductScreens = async (
+  config: XiboConfig,
+  userId: number,
+  business: DisplayBusiness,
+  productRowId: number,
+): Promise<ProductRefresh> => {
+  const live = new Set((await getLayoutTemplates()).filter(isDatasetTemplate).map((t) => t.id));
+  const stale = (await getMenuScreensForProduct(business.id, productRowId))
+    .filter((ms) => !live.has(ms.template_id));
+  const result: ProductRefresh = { refreshed: [], failed: [] };
+
+  for (const [screenId, menuScreens] of Object.entries(groupBy((ms: MenuScreen) => String(ms.screen_id))(stale))) {
+    const screen = await toDisplayScreen((await getScreenById(Number(screenId)))!);
+    try {
+      await republishMenuScreens(config, userId, business, screen, menuScreens);
+      result.refreshed.push(screen.name);
+    } catch {
+      result.failed.push(screen.name);
+    }
+  }
+  return result;
+};
+
+/** Menu screen content from validated form values */
+const toContent = (
+  values: MenuScreenFormValues,
+  templateId: string,
+  productIds: number[],
+): MenuScreenContent => ({
+  name: values.name,
+  template_id: templateId,
+  display_time: values.display_time,
+  sort_order: values.sort_order,
+  active_days: values.active_days,
+  active_from: values.active_from,
+  active_to: values.active_to,
+  product_row_ids: productIds,
+});
+
+/**
+ * Make content live on an existing menu screen: update it, rebuild its
+ * layout, and drop any draft (the content supersedes it).
+ */
+const publishContent = async (
+  config: XiboConfig,
+  ctx: DetailCtx,
+  content: MenuScreenContent,
+): Promise<void> => {
+  const { menuScreen } = ctx;
+  await updateMenuScreen(
+    menuScreen.id, content.name, content.template_id,
+    content.display_time, content.sort_order, content,
+  );
+  await saveItemsAndBuild(
+    config, menuScreen.id, content.template_id, content.name, content.display_time,
+    buildTarget(ctx.business, ctx.screen), content.product_row_ids, menuScreen,
+  );
+  await clearMenuScreenDraft(menuScreen.id);
+};
+
 /**
  * Validate menu form, then execute the action within menuScreenAction.
  * Consolidates the validate + action pattern shared by create and edit POST.
@@ -331,54 +642,95 @@ const validatedMenuAction = (
   existingCampaignId: number | null,
   successMsg: string,
   action: (v: MenuScreenFormValues, templateId: string, productIds: number[]) => Promise<void>,
-): Promise<Response> => {
-  const validated = validateMenuForm(form, bizId, screenId);
-  if (validated instanceof Response) return Promise.resolve(validated);
-  const { v, templateId, productIds } = validated;
-  return menuScreenAction(
-    () => action(v.values, templateId, productIds),
-    config, screenId, ctx, existingCampaignId, bizId, successMsg,
-  );
-};
+): Promise<Response> =>
+  validateMenuForm(form, bizId, screenId, (values, templateId, productIds) =>
+    menuScreenAction(
+      () => action(values, templateId, productIds),
+      config, screenId, ctx, existingCampaignId, bizId, successMsg,
+    ));
 
 // ─── Route Handlers ────────────────────────────────────────────────
 
 /** GET /dashboard/business/:bizId/screen/:screenId/menus -- list menu screens */
-const handleMenuScreenList = userBusinessDetailRoute(
-  (session, _config, _ctx, params, request) =>
-    withScreenCtx(session.userId, params, async (sc) => {
-      const messages = getQueryMessages(request);
-      const { display } = await loadDisplayMenuScreens(sc.screenId);
-
-      return htmlResponse(
-        userMenuScreenListPage(
-          toAdminSession(session),
-          sc.ctx.business,
-          sc.ctx.screen,
-          display,
-          messages.success,
-          messages.error,
-        ),
-      );
-    }),
+const handleMenuScreenList = screenPageRoute(
+  async (session, _config, sc, _params, request) => {
+    const messages = getQueryMessages(request);
+    const display = await getDisplayMenuScreensForScreen(sc.screenId);
+
+    return htmlResponse(
+      userMenuScreenListPage(
+        toAdminSession(session),
+        sc.ctx.business,
+        sc.ctx.screen,
+        display,
+        messages.success,
+        messages.error,
+      ),
+    );
+  },
+);
+
+/** GET /dashboard/business/:bizId/screen/:screenId/publishes -- publish history */
+const handleScreenPublishHistory = screenPageRoute(
+  async (session, _config, { screenId, ctx }, _params, request) => {
+    const attempts = await getPublishAttemptsForScreen(screenId);
+    const { attemptIds } = await getSnapshotIds(screenId);
+    const { success, error } = getQueryMessages(request);
+
+    return htmlResponse(
+      userScreenPublishHistoryPage(
+        toAdminSession(session),
+        ctx.business,
+        ctx.screen,
+        attempts,
+        attemptIds,
+        success,
+        error,
+      ),
+    );
+  },
+);
+
+/** POST /dashboard/business/:bizId/screen/:screenId/publishes/:id/rollback -- restore a snapshot */
+const handleScreenRollback = menuScreenMutation(
+  async (config, ctx, bizId, screenId, attemptId, form) => {
+    const snapshot = await getPublishSnapshot(attemptId);
+    if (!snapshot || snapshot.screen_id !== screenId) {
+      return redirectWithError(publishesUrl(bizId, screenId), "Snapshot not found");
+    }
+
+    const reason = form.get("reason")?.trim();
+    return menuScreenAction(
+      async () => {
+        await restoreSnapshot(config, screenId, buildTarget(ctx.business, ctx.screen), snapshot);
+        await logAuditEvent({
+          actorUserId: ctx.userId,
+          action: "ROLLBACK",
+          resourceType: "screen",
+          resourceId: screenId,
+          detail: `Rolled back screen "${ctx.screen.name}" to publish #${attemptId}${reason ? `: ${reason}` : ""}`,
+        });
+      },
+      config, screenId, ctx, null, bizId, "Screen rolled back",
+    );
+  },
 );
 
 /** GET /dashboard/business/:bizId/screen/:screenId/menu/create -- create form */
-const handleMenuScreenCreateGet = userBusinessDetailRoute(
-  (session, config, _ctx, params) =>
-    withScreenCtx(session.userId, params, async (sc) => {
-      const products = await safeFetchProducts(config, sc.ctx.business.xibo_dataset_id);
-
-      return htmlResponse(
-        userMenuScreenCreatePage(
-          toAdminSession(session),
-          sc.ctx.business,
-          sc.ctx.screen,
-          TEMPLATES,
-          products,
-        ),
-      );
-    }),
+const handleMenuScreenCreateGet = screenPageRoute(
+  async (session, config, sc) => {
+    const products = await safeFetchProducts(config, sc.ctx.business.xibo_dataset_id);
+
+    return htmlResponse(
+      userMenuScreenCreatePage(
+        toAdminSession(session),
+        sc.ctx.business,
+        sc.ctx.screen,
+        await getLayoutTemplates(),
+        products,
+      ),
+    );
+  },
 );
 
 /** POST /dashboard/business/:bizId/screen/:screenId/menu/create -- create menu screen + layout */
@@ -388,59 +740,94 @@ const handleMenuScreenCreatePost = menuScreenMutation(
       async (values, templateId, productIds) => {
         const menuScreen = await createMenuScreen(
           values.name, screenId, templateId,
-          values.display_time as number, values.sort_order as number,
+          values.display_time as number, values.sort_order as number, values,
+        );
+        await saveItemsAndBuild(
+          config, menuScreen.id, templateId, values.name, values.display_time as number,
+          buildTarget(ctx.business, ctx.screen), productIds,
         );
-        await saveItemsAndBuild(config, menuScreen.id, templateId, values.name, ctx.business.xibo_dataset_id, productIds);
       },
     ),
 );
 
-/** GET /dashboard/business/:bizId/screen/:screenId/menu/:id -- edit form */
-const handleMenuScreenEditGet = userBusinessDetailRoute(
-  (session, config, _ctx, params) =>
-    withScreenCtx(session.userId, params, async ({ bizId, screenId, ctx }) => {
-      const menuScreen = await requireMenuScreen(Number(params.id), screenId, bizId);
-      if (menuScreen instanceof Response) return menuScreen;
-
-      const displayMs = await toDisplayMenuScreen(menuScreen);
-      const items = await getMenuScreenItems(menuScreen.id);
-      const selectedProductIds = items.map((i) => i.product_row_id);
-      const products = await safeFetchProducts(config, ctx.business.xibo_dataset_id);
-
-      return htmlResponse(
-        userMenuScreenEditPage(
-          toAdminSession(session),
-          ctx.business,
-          ctx.screen,
-          displayMs,
-          TEMPLATES,
-          products,
-          selectedProductIds,
-        ),
-      );
-    }),
+/** GET /dashboard/business/:bizId/screen/:screenId/menu/:id -- edit form (draft if any) */
+const handleMenuScreenEditGet = editableMenuScreenRoute(
+  (session, ctx, { menuScreen, content }, products, templates) =>
+    htmlResponse(
+      userMenuScreenEditPage(
+        toAdminSession(session),
+        ctx.business,
+        ctx.screen,
+        { ...menuScreen, ...content },
+        templates,
+        products,
+        content.product_row_ids,
+      ),
+    ),
 );
 
-/** POST /dashboard/business/:bizId/screen/:screenId/menu/:id -- update menu screen */
+/** POST /dashboard/business/:bizId/screen/:screenId/menu/:id -- update and publish menu screen */
 const handleMenuScreenEditPost = menuScreenDetailMutation(
   (config, ctx, bizId, screenId, form) =>
     validatedMenuAction(form, bizId, screenId, config, ctx, ctx.menuScreen.xibo_campaign_id, "Menu screen updated",
-      async (values, templateId, productIds) => {
-        await updateMenuScreen(
-          ctx.menuScreen.id, values.name, templateId,
-          values.display_time as number, values.sort_order as number,
-        );
-        await saveItemsAndBuild(config, ctx.menuScreen.id, templateId, values.name, ctx.business.xibo_dataset_id, productIds, ctx.menuScreen.xibo_layout_id);
-      },
+      (values, templateId, productIds) =>
+        publishContent(config, ctx, toContent(values, templateId, productIds)),
+    ),
+);
+
+/** POST /dashboard/business/:bizId/screen/:screenId/menu/:id/draft -- save changes as a draft */
+const handleMenuScreenDraftSave = menuScreenDetailMutation(
+  (_config, ctx, bizId, screenId, form) =>
+    validateMenuForm(form, bizId, screenId, async (values, templateId, productIds) => {
+      await saveMenuScreenDraft(ctx.menuScreen.id, toContent(values, templateId, productIds));
+      return redirectWithSuccess(previewUrl(bizId, screenId, ctx.menuScreen.id), "Draft saved");
+    }),
+);
+
+/** GET /dashboard/business/:bizId/screen/:screenId/menu/:id/preview -- preview draft (or live) content */
+const handleMenuScreenPreview = editableMenuScreenRoute(
+  (session, ctx, { menuScreen, content, isDraft }, products, templates, request) =>
+    htmlResponse(
+      userMenuScreenPreviewPage(
+        toAdminSession(session),
+        ctx.business,
+        ctx.screen,
+        menuScreen.id,
+        content,
+        templates.find((t) => t.id === content.template_id),
+        toTemplateProducts(products, content.product_row_ids),
+        isDraft,
+        getQueryMessages(request).success,
+      ),
     ),
 );
 
+/** POST /dashboard/business/:bizId/screen/:screenId/menu/:id/publish -- publish the draft */
+const handleMenuScreenPublish = menuScreenDetailMutation(
+  async (config, ctx, bizId, screenId) => {
+    const draft = await getMenuScreenDraft(ctx.menuScreen);
+    if (!draft) return redirectWithError(menusUrl(bizId, screenId), "No draft to publish");
+    return menuScreenAction(
+      () => publishContent(config, ctx, draft),
+      config, screenId, ctx, ctx.menuScreen.xibo_campaign_id, bizId, "Draft published",
+    );
+  },
+);
+
+/** POST /dashboard/business/:bizId/screen/:screenId/menu/:id/draft/discard -- discard the draft */
+const handleMenuScreenDraftDiscard = menuScreenDetailMutation(
+  async (_config, ctx, bizId, screenId) => {
+    await clearMenuScreenDraft(ctx.menuScreen.id);
+    return redirectWithSuccess(menusUrl(bizId, screenId), "Draft discarded");
+  },
+);
+
 /** POST /dashboard/business/:bizId/screen/:screenId/menu/:id/delete -- delete menu screen */
 const handleMenuScreenDelete = menuScreenDetailMutation(
   (config, ctx, bizId, screenId, _form) =>
     menuScreenAction(
       async () => {
-        await deleteOldLayout(config, ctx.menuScreen.xibo_layout_id);
+        await releaseLayout(config, await fetchMenuScreenLayout(config, ctx.menuScreen));
         await deleteMenuScreen(ctx.menuScreen.id);
       },
       config, screenId, ctx, ctx.menuScreen.xibo_campaign_id, bizId, "Menu screen deleted",
@@ -451,6 +838,12 @@ const handleMenuScreenDelete = menuScreenDetailMutation(
 export const userMenuScreenRoutes = defineRoutes({
   "GET /dashboard/business/:bizId/screen/:screenId/menus": (request, params) =>
     handleMenuScreenList(request, params),
+  "GET /dashboard/business/:bizId/screen/:screenId/publishes": (
+    request,
+    params,
+  ) => handleScreenPublishHistory(request, params),
+  "POST /dashboard/business/:bizId/screen/:screenId/publishes/:id/rollback":
+    handleScreenRollback,
   "GET /dashboard/business/:bizId/screen/:screenId/menu/create": (
     request,
     params,
@@ -463,6 +856,16 @@ export const userMenuScreenRoutes = defineRoutes({
   ) => handleMenuScreenEditGet(request, params),
   "POST /dashboard/business/:bizId/screen/:screenId/menu/:id":
     handleMenuScreenEditPost,
+  "GET /dashboard/business/:bizId/screen/:screenId/menu/:id/preview": (
+    request,
+    params,
+  ) => handleMenuScreenPreview(request, params),
+  "POST /dashboard/business/:bizId/screen/:screenId/menu/:id/draft":
+    handleMenuScreenDraftSave,
+  "POST /dashboard/business/:bizId/screen/:screenId/menu/:id/draft/discard":
+    handleMenuScreenDraftDiscard,
+  "POST /dashboard/business/:bizId/screen/:screenId/menu/:id/publish":
+    handleMenuScreenPublish,
   "POST /dashboard/business/:bizId/screen/:screenId/menu/:id/delete":
     handleMenuScreenDelete,
 });
@@ -3,32 +3,45 @@
  *
  * Products are rows in a per-business Xibo dataset. Users manage them
  * through the dashboard UI, with all CRUD operations hitting the
- * Xibo dataset data API.
+ * Xibo dataset data API. Edits, deletes and availability toggles
+ * republish the screens whose menu screens show the product.
  */
 
 import { filter, map, pick, pipe } from "#fp";
-import { getSharedFolderId } from "#lib/db/settings.ts";
 import { validateForm } from "#lib/forms.tsx";
 import type { DisplayBusiness } from "#lib/db/businesses.ts";
 import { post, put, del } from "#xibo/client.ts";
+import { COL } from "#xibo/dataset.ts";
 import { fetchAllMedia } from "#xibo/media-ops.ts";
 import type {
   DatasetProduct,
   XiboConfig,
   XiboMedia,
 } from "#xibo/types.ts";
-import type { AuthSession } from "#routes/utils.ts";
-import { htmlResponse, redirectWithError, redirectWithSuccess } from "#routes/utils.ts";
+import {
+  type AuthSession,
+  htmlResponse,
+  redirectWithError,
+  redirectWithSuccess,
+  withAuthForm,
+} from "#routes/utils.ts";
 import { defineRoutes } from "#routes/router.ts";
 import {
   errorMessage,
   getQueryMessages,
+  sessionParamsRoute,
   toAdminSession,
-  withXiboForm,
 } from "#routes/route-helpers.ts";
-import { userBusinessDetailRoute, withUserBusiness } from "#routes/user/utils.ts";
-import { COL, fetchProducts, findProduct } from "#routes/user/data-helpers.ts";
 import {
+  getBusinessSharedFolderId,
+  userBusinessByIdRoute,
+  withBusinessXiboConfig,
+  withUserBusiness,
+} from "#routes/user/utils.ts";
+import { fetchProducts, findProduct } from "#routes/user/data-helpers.ts";
+import { republishProductScreens } from "#routes/user/menu-screens.ts";
+import {
+  type MediaOption,
   userProductCreatePage,
   userProductEditPage,
   userProductListPage,
@@ -38,10 +51,11 @@ import { datasetProductFields, type DatasetProductFormValues } from "#templates/
 /** Get media options for the image picker — shared + business-owned images */
 const getMediaOptions = async (
   config: XiboConfig,
-  businessFolderId: number | null,
-): Promise<{ mediaId: number; name: string }[]> => {
+  business: DisplayBusiness,
+): Promise<MediaOption[]> => {
   const allMedia = await fetchAllMedia(config);
-  const sharedFolderId = await getSharedFolderId();
+  const sharedFolderId = await getBusinessSharedFolderId(business);
+  const businessFolderId = business.xibo_folder_id;
 
   return pipe(
     filter((m: XiboMedia) =>
@@ -56,10 +70,10 @@ const getMediaOptions = async (
 /** Silently load media options, returning [] on failure */
 const safeGetMediaOptions = async (
   config: XiboConfig,
-  folderId: number | null,
-): Promise<{ mediaId: number; name: string }[]> => {
+  business: DisplayBusiness,
+): Promise<MediaOption[]> => {
   try {
-    return await getMediaOptions(config, folderId);
+    return await getMediaOptions(config, business);
   } catch {
     return [];
   }
@@ -83,8 +97,13 @@ const productsUrl = (businessId: number): string =>
 
 // ─── Shared access-control + API helpers ────────────────────────────
 
-/** Result of resolving business + dataset access for mutation routes */
-type BusinessCtx = { business: DisplayBusiness; datasetId: number; businessId: number };
+/** Result of resolving business + dataset access for mutation routes (userId is the verified user) */
+type BusinessCtx = {
+  userId: number;
+  business: DisplayBusiness;
+  datasetId: number;
+  businessId: number;
+};
 
 /**
  * Verify user has access to the business AND it has a dataset provisioned.
@@ -99,17 +118,22 @@ export const requireBusinessDataset = async (
   if (result.xibo_dataset_id === null) {
     return redirectWithError(productsUrl(businessId), "Business dataset not provisioned");
   }
-  return { business: result, datasetId: result.xibo_dataset_id, businessId };
+  return { userId, business: result, datasetId: result.xibo_dataset_id, businessId };
 };
 
-/** Resolve business + dataset, then call onSuccess. Returns the error response on failure. */
+/**
+ * Resolve business + dataset and the business's Xibo config, then call
+ * onSuccess. Returns the error response on failure.
+ */
 const withBusinessDataset = async (
   userId: number,
   businessId: number,
-  onSuccess: (ctx: BusinessCtx) => Promise<Response>,
+  onSuccess: (config: XiboConfig, ctx: BusinessCtx) => Promise<Response>,
 ): Promise<Response> => {
   const result = await requireBusinessDataset(userId, businessId);
-  return result instanceof Response ? result : onSuccess(result);
+  return result instanceof Response
+    ? result
+    : withBusinessXiboConfig(result.business, (config) => onSuccess(config, result));
 };
 
 /** Fetch a product by ID, returning it or a redirect on error/not-found */
@@ -126,18 +150,42 @@ const requireProduct = async (
   }
 };
 
+/**
+ * Republish the screens showing a product after it changed.
+ * Returns the outcome as a suffix for the success message.
+ */
+const refreshProductScreens = async (
+  config: XiboConfig,
+  ctx: BusinessCtx,
+  rowId: number,
+): Promise<string> => {
+  const { refreshed, failed } = await republishProductScreens(
+    config,
+    ctx.userId,
+    ctx.business,
+    rowId,
+  );
+  return [
+    refreshed.length > 0 ? `. Refreshed screens: ${refreshed.join(", ")}` : "",
+    failed.length > 0 ? `. Failed to refresh: ${failed.join(", ")} (see publish history)` : "",
+  ].join("");
+};
+
 /**
  * Execute a Xibo API call and redirect. On success redirects with a success message,
  * on failure redirects with the error message.
+ * Pass refresh to republish affected screens after a successful call.
  */
 const apiCallAndRedirect = async (
   apiCall: () => Promise<unknown>,
   businessId: number,
   successMsg: string,
+  refresh?: () => Promise<string>,
 ): Promise<Response> => {
   try {
     await apiCall();
-    return redirectWithSuccess(productsUrl(businessId), successMsg);
+    const refreshed = refresh ? await refresh() : "";
+    return redirectWithSuccess(productsUrl(businessId), successMsg + refreshed);
   } catch (e) {
     return redirectWithError(productsUrl(businessId), errorMessage(e));
   }
@@ -156,8 +204,8 @@ const productMutation = (
   ) => Promise<Response>,
 ) =>
   (request: Request, params: Record<string, string | undefined>): Promise<Response> =>
-    withXiboForm(request, (session, form, config) =>
-      withBusinessDataset(session.userId, Number(params.id), (ctx) =>
+    withAuthForm(request, (session, form) =>
+      withBusinessDataset(session.userId, Number(params.id), (config, ctx) =>
         action(form, config, ctx, params.rowId ?? "")));
 
 /**
@@ -171,16 +219,17 @@ const validateAndSave = (
   apiMethod: typeof post | typeof put,
   endpoint: string,
   msg: string,
+  refresh?: () => Promise<string>,
 ): Promise<Response> => {
   const v = validateForm<DatasetProductFormValues>(form, datasetProductFields);
   return v.valid
-    ? apiCallAndRedirect(() => apiMethod(config, endpoint, buildRowBody(v.values)), ctx.businessId, msg)
+    ? apiCallAndRedirect(() => apiMethod(config, endpoint, buildRowBody(v.values)), ctx.businessId, msg, refresh)
     : Promise.resolve(htmlResponse(v.error, 400));
 };
 
 /**
- * Product detail route: composes userBusinessDetailRoute with requireBusinessDataset.
- * Resolves business + dataset access before calling the handler.
+ * Product detail route: session, then business + dataset access and
+ * the business's Xibo config before calling the handler.
  */
 const productDetailRoute = (
   handler: (
@@ -190,18 +239,15 @@ const productDetailRoute = (
     params: Record<string, string | undefined>,
   ) => Promise<Response>,
 ) =>
-  userBusinessDetailRoute((session, config, _routeCtx, params) =>
-    withBusinessDataset(session.userId, Number(params.id), (ctx) =>
+  sessionParamsRoute((session, params) =>
+    withBusinessDataset(session.userId, Number(params.id), (config, ctx) =>
       handler(session, config, ctx, params)));
 
 // ─── Route Handlers ────────────────────────────────────────────────
 
 /** GET /dashboard/business/:id/products — list products */
-const handleProductList = userBusinessDetailRoute(
-  async (session, config, _ctx, params, request) => {
-    const business = await withUserBusiness(session.userId, Number(params.id));
-    if (business instanceof Response) return business;
-
+const handleProductList = userBusinessByIdRoute(
+  async (session, config, business, request) => {
     const { success, error: queryError } = getQueryMessages(request);
     let products: DatasetProduct[] = [];
     let error: string | undefined = queryError;
@@ -225,7 +271,7 @@ const handleProductList = userBusinessDetailRoute(
 /** GET /dashboard/business/:id/product/create — create form */
 const handleProductCreateGet = productDetailRoute(
   async (session, config, ctx) => {
-    const media = await safeGetMediaOptions(config, ctx.business.xibo_folder_id);
+    const media = await safeGetMediaOptions(config, ctx.business);
     return htmlResponse(userProductCreatePage(toAdminSession(session), ctx.business, media));
   },
 );
@@ -240,22 +286,30 @@ const handleProductEditGet = productDetailRoute(
     const product = await requireProduct(config, ctx, Number(params.rowId));
     if (product instanceof Response) return product;
 
-    const media = await safeGetMediaOptions(config, ctx.business.xibo_folder_id);
+    const media = await safeGetMediaOptions(config, ctx.business);
     return htmlResponse(
       userProductEditPage(toAdminSession(session), ctx.business, product, media),
     );
   },
 );
 
-/** POST /dashboard/business/:id/product/:rowId — update dataset row */
+/** POST /dashboard/business/:id/product/:rowId — update dataset row, then republish affected screens */
 const handleProductEditPost = productMutation((form, config, ctx, rowId) =>
-  validateAndSave(form, config, ctx, put, `dataset/data/${ctx.datasetId}/${rowId}`, "Product updated"));
+  validateAndSave(
+    form, config, ctx, put, `dataset/data/${ctx.datasetId}/${rowId}`, "Product updated",
+    () => refreshProductScreens(config, ctx, Number(rowId)),
+  ));
 
-/** POST /dashboard/business/:id/product/:rowId/delete — delete dataset row */
+/** POST /dashboard/business/:id/product/:rowId/delete — delete dataset row, then republish affected screens */
 const handleProductDelete = productMutation((_form, config, ctx, rowId) =>
-  apiCallAndRedirect(() => del(config, `dataset/data/${ctx.datasetId}/${rowId}`), ctx.businessId, "Product deleted"));
+  apiCallAndRedirect(
+    () => del(config, `dataset/data/${ctx.datasetId}/${rowId}`),
+    ctx.businessId,
+    "Product deleted",
+    () => refreshProductScreens(config, ctx, Number(rowId)),
+  ));
 
-/** POST /dashboard/business/:id/product/:rowId/toggle — toggle availability */
+/** POST /dashboard/business/:id/product/:rowId/toggle — toggle availability, then republish affected screens */
 const handleProductToggle = productMutation(async (_form, config, ctx, rowId) => {
   const product = await requireProduct(config, ctx, Number(rowId));
   if (product instanceof Response) return product;
@@ -272,6 +326,7 @@ const handleProductToggle = productMutation(async (_form, config, ctx, rowId) =>
     ),
     ctx.businessId,
     newAvailable === 1 ? "Product enabled" : "Product disabled",
+    () => refreshProductScreens(config, ctx, product.id),
   );
 });
 
@@ -12,14 +12,15 @@ import {
   toDisplayBusiness,
 } from "#lib/db/businesses.ts";
 import type { DisplayBusiness } from "#lib/db/businesses.ts";
+import { getSharedFolderId } from "#lib/db/settings.ts";
 import type { XiboConfig } from "#xibo/types.ts";
 import type { AuthSession } from "#routes/utils.ts";
-import { htmlResponse } from "#routes/utils.ts";
+import { htmlResponse, requireSessionOr } from "#routes/utils.ts";
 import {
-  detailRoute,
   type Params,
   type ParamHandler,
-  sessionRoute,
+  sessionParamsRoute,
+  withXiboConfig,
 } from "#routes/route-helpers.ts";
 
 /** Single-request route handler */
@@ -64,21 +65,39 @@ const noBusinessResponse = (): Response =>
   );
 
 /**
- * Resolve business context or return 403. Shared by all user route HOFs.
+ * Resolve business context or return 403, then load the active
+ * business's Xibo config. Shared by all user route HOFs.
  */
 const withBusinessContext = async (
   request: Request,
   session: AuthSession,
-  handler: (ctx: UserBusinessContext) => Promise<Response>,
+  handler: (ctx: UserBusinessContext, config: XiboConfig) => Promise<Response>,
 ): Promise<Response> => {
   const ctx = await resolveBusinessContext(request, session.userId);
   if (!ctx) return noBusinessResponse();
-  return handler(ctx);
+  return withBusinessXiboConfig(ctx.activeBusiness, (config) => handler(ctx, config));
 };
 
 /**
- * Require authenticated session + Xibo config + business context.
- * Composes sessionRoute with business context resolution.
+ * Load the Xibo config for the connection a business is bound to.
+ */
+export const withBusinessXiboConfig = (
+  business: DisplayBusiness,
+  handler: (config: XiboConfig) => Promise<Response>,
+): Promise<Response> => withXiboConfig(handler, business.xibo_connection_id);
+
+/**
+ * The shared photo folder for a business. It lives on the default
+ * connection's CMS, so businesses on a named connection have none.
+ */
+export const getBusinessSharedFolderId = (
+  business: DisplayBusiness,
+): Promise<number | null> =>
+  business.xibo_connection_id === null ? getSharedFolderId() : Promise.resolve(null);
+
+/**
+ * Require authenticated session + business context + the active
+ * business's Xibo config.
  */
 export const userBusinessRoute = (
   handler: (
@@ -86,13 +105,14 @@ export const userBusinessRoute = (
     ctx: UserBusinessContext, request: Request,
   ) => Promise<Response>,
 ): RequestHandler =>
-  sessionRoute((session, config, request) =>
-    withBusinessContext(request, session, (ctx) =>
+(request) =>
+  requireSessionOr(request, (session) =>
+    withBusinessContext(request, session, (ctx, config) =>
       handler(session, config, ctx, request)));
 
 /**
  * User business route with URL params.
- * Composes detailRoute with business context resolution.
+ * Composes sessionParamsRoute with business context and config resolution.
  */
 export const userBusinessDetailRoute = (
   handler: (
@@ -103,8 +123,8 @@ export const userBusinessDetailRoute = (
     request: Request,
   ) => Promise<Response>,
 ): ParamHandler =>
-  detailRoute((session, config, params, request) =>
-    withBusinessContext(request, session, (ctx) =>
+  sessionParamsRoute((session, params, request) =>
+    withBusinessContext(request, session, (ctx, config) =>
       handler(session, config, ctx, params, request)));
 
 /**
@@ -130,3 +150,23 @@ export const withUserBusiness = async (
 
   return toDisplayBusiness(business);
 };
+
+/**
+ * User route for `/dashboard/business/:id/...` pages.
+ * Verifies the user belongs to business `:id` and passes it to the
+ * handler with the config for its Xibo connection.
+ */
+export const userBusinessByIdRoute = (
+  handler: (
+    session: AuthSession,
+    config: XiboConfig,
+    business: DisplayBusiness,
+    request: Request,
+  ) => Promise<Response>,
+): ParamHandler =>
+  sessionParamsRoute(async (session, params, request) => {
+    const business = await withUserBusiness(session.userId, Number(params.id));
+    if (business instanceof Response) return business;
+    return withBusinessXiboConfig(business, (config) =>
+      handler(session, config, business, request));
+  });
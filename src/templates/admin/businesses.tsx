@@ -7,7 +7,7 @@ import { Raw } from "#lib/jsx/jsx-runtime.ts";
 import type { AdminLevel, AdminSession } from "#lib/types.ts";
 import type { DisplayBusiness } from "#lib/db/businesses.ts";
 import type { DisplayScreen } from "#lib/db/screens.ts";
-import { businessFields } from "#templates/fields.ts";
+import { businessCreateFields, businessFields } from "#templates/fields.ts";
 import { Layout } from "#templates/layout.tsx";
 import { AdminNav, Breadcrumb } from "#templates/admin/nav.tsx";
 
@@ -18,11 +18,21 @@ export interface BusinessUser {
   adminLevel: AdminLevel;
 }
 
+/** Name of the Xibo CMS a business lives on */
+const connectionLabel = (
+  business: DisplayBusiness,
+  connectionNames: Record<number, string>,
+): string =>
+  business.xibo_connection_id === null
+    ? "Default"
+    : connectionNames[business.xibo_connection_id] ?? "Unknown";
+
 /**
  * Business list page
  */
 export const adminBusinessesPage = (
   businesses: DisplayBusiness[],
+  connectionNames: Record<number, string>,
   session: AdminSession,
   error?: string,
   success?: string,
@@ -46,6 +56,7 @@ export const adminBusinessesPage = (
               <thead>
                 <tr>
                   <th>Name</th>
+                  <th>Xibo CMS</th>
                   <th>Xibo Folder</th>
                   <th>Xibo Dataset</th>
                   <th>Created</th>
@@ -57,6 +68,7 @@ export const adminBusinessesPage = (
                     <td>
                       <a href={`/admin/business/${b.id}`}>{b.name}</a>
                     </td>
+                    <td>{connectionLabel(b, connectionNames)}</td>
                     <td>{b.xibo_folder_id ?? "—"}</td>
                     <td>{b.xibo_dataset_id ?? "—"}</td>
                     <td>{b.created_at.slice(0, 10)}</td>
@@ -73,6 +85,7 @@ export const adminBusinessesPage = (
  * Business create form page
  */
 export const adminBusinessCreatePage = (
+  connectionNames: Record<number, string>,
   session: AdminSession,
   error?: string,
 ): string =>
@@ -84,7 +97,7 @@ export const adminBusinessCreatePage = (
       <Raw html={renderError(error)} />
       <form method="POST" action="/admin/business/create">
         <input type="hidden" name="csrf_token" value={session.csrfToken} />
-        <Raw html={renderFields(businessFields)} />
+        <Raw html={renderFields(businessCreateFields(connectionNames))} />
         <button type="submit">Create Business</button>
       </form>
     </Layout>,
@@ -95,6 +108,7 @@ export const adminBusinessCreatePage = (
  */
 export const adminBusinessDetailPage = (
   business: DisplayBusiness,
+  connectionNames: Record<number, string>,
   screens: DisplayScreen[],
   assignedUsers: BusinessUser[],
   availableUsers: BusinessUser[],
@@ -109,6 +123,7 @@ export const adminBusinessDetailPage = (
       <h1>{business.name}</h1>
       <Raw html={renderError(error)} />
       {success && <div class="success">{success}</div>}
+      <p>Xibo CMS: {connectionLabel(business, connectionNames)}</p>
 
       <h2>Edit Business</h2>
       <form method="POST" action={`/admin/business/${business.id}`}>
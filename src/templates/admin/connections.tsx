@@ -0,0 +1,171 @@
+/**
+ * Admin Xibo connection page templates
+ *
+ * Named connections sit alongside the default connection in settings,
+ * so businesses can be provisioned on different CMS instances.
+ */
+
+import { type FieldValues, renderError, renderFields } from "#lib/forms.tsx";
+import { Raw } from "#lib/jsx/jsx-runtime.ts";
+import type { AdminSession } from "#lib/types.ts";
+import type { DisplayXiboConnection } from "#lib/db/xibo-connections.ts";
+import type { ConnectionTestResult } from "#xibo/types.ts";
+import { xiboConnectionFields } from "#templates/fields.ts";
+import { Layout } from "#templates/layout.tsx";
+import { AdminNav, Breadcrumb } from "#templates/admin/nav.tsx";
+
+/** Form values for a connection; the secret is never sent back to the browser */
+export const connectionFormValues = (
+  connection: DisplayXiboConnection,
+): FieldValues => ({
+  name: connection.name,
+  xibo_api_url: connection.api_url,
+  xibo_client_id: connection.client_id,
+});
+
+/**
+ * Outcome of a connection test
+ */
+export const ConnectionResult = (
+  { result }: { result: ConnectionTestResult },
+): JSX.Element => (
+  <div class={result.success ? "success" : "error"}>
+    <p>
+      {result.success ? "Connected" : "Connection failed"}
+      {result.version && ` — CMS v${result.version}`}
+    </p>
+    {!result.success && <p>{result.message}</p>}
+  </div>
+);
+
+/**
+ * Xibo connection list page
+ */
+export const adminConnectionsPage = (
+  connections: DisplayXiboConnection[],
+  session: AdminSession,
+  error?: string,
+  success?: string,
+): string =>
+  String(
+    <Layout title="Xibo Connections">
+      <AdminNav session={session} />
+      <Breadcrumb href="/admin/settings" label="Settings" />
+      <h1>Xibo Connections</h1>
+      <Raw html={renderError(error)} />
+      {success && <div class="success">{success}</div>}
+      <p>
+        Businesses use the default connection from settings unless one of
+        these is chosen when they are created.
+      </p>
+
+      <p>
+        <a href="/admin/connection/create">Add Connection</a>
+      </p>
+
+      {connections.length === 0
+        ? <p>No named connections yet.</p>
+        : (
+          <div class="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>CMS URL</th>
+                  <th>Client ID</th>
+                  <th>Created</th>
+                </tr>
+              </thead>
+              <tbody>
+                {connections.map((c) => (
+                  <tr>
+                    <td>
+                      <a href={`/admin/connection/${c.id}`}>{c.name}</a>
+                    </td>
+                    <td>{c.api_url}</td>
+                    <td>{c.client_id}</td>
+                    <td>{c.created_at.slice(0, 10)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+    </Layout>,
+  );
+
+/**
+ * Xibo connection create form page
+ */
+export const adminConnectionCreatePage = (
+  session: AdminSession,
+  values: FieldValues = {},
+  error?: string,
+): string =>
+  String(
+    <Layout title="Add Xibo Connection">
+      <AdminNav session={session} />
+      <Breadcrumb href="/admin/connections" label="Xibo Connections" />
+      <h1>Add Xibo Connection</h1>
+      <Raw html={renderError(error)} />
+      <form method="POST" action="/admin/connection/create">
+        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+        <Raw html={renderFields(xiboConnectionFields, values)} />
+        <button type="submit">Add Connection</button>
+      </form>
+    </Layout>,
+  );
+
+/**
+ * Xibo connection edit page, with test and delete actions
+ */
+export const adminConnectionEditPage = (
+  session: AdminSession,
+  connection: DisplayXiboConnection,
+  options: {
+    values?: FieldValues;
+    error?: string;
+    success?: string;
+    result?: ConnectionTestResult;
+  } = {},
+): string =>
+  String(
+    <Layout title={connection.name}>
+      <AdminNav session={session} />
+      <Breadcrumb href="/admin/connections" label="Xibo Connections" />
+      <h1>{connection.name}</h1>
+      <Raw html={renderError(options.error)} />
+      {options.success && <div class="success">{options.success}</div>}
+      {options.result && <ConnectionResult result={options.result} />}
+
+      <form method="POST" action={`/admin/connection/${connection.id}/test`}>
+        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+        <button type="submit">Test Connection</button>
+      </form>
+
+      <form method="POST" action="/admin/diagnostics">
+        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+        <input type="hidden" name="connection" value={String(connection.id)} />
+        <button type="submit">Run Diagnostics</button>
+      </form>
+
+      <h2>Edit Connection</h2>
+      <form method="POST" action={`/admin/connection/${connection.id}`}>
+        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+        <Raw
+          html={renderFields(
+            xiboConnectionFields,
+            options.values ?? connectionFormValues(connection),
+          )}
+        />
+        <button type="submit">Update</button>
+      </form>
+
+      <h2>Danger Zone</h2>
+      <p>Connections still used by a business can't be deleted.</p>
+      <form method="POST" action={`/admin/connection/${connection.id}/delete`}>
+        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+        <button type="submit">Delete Connection</button>
+      </form>
+    </Layout>,
+  );
@@ -3,7 +3,7 @@
  */
 
 import type { AdminSession } from "#lib/types.ts";
-import type { DashboardStatus } from "#xibo/types.ts";
+import type { BreakerStatus, DashboardStatus } from "#xibo/types.ts";
 import { Layout } from "#templates/layout.tsx";
 import { AdminNav } from "#templates/admin/nav.tsx";
 
@@ -31,6 +31,11 @@ const ConnectionStatus = (
       <p class="success">
         Connected{status.version && ` — CMS v${status.version}`}
       </p>
+      {status.stale && (
+        <p class="error">
+          The CMS is unreachable — showing cached figures until it recovers.
+        </p>
+      )}
       <table>
         <thead>
           <tr>
@@ -69,12 +74,50 @@ const ConnectionStatus = (
   );
 };
 
+/**
+ * Render each connection's circuit breaker state
+ */
+const BreakerTable = (
+  { breakers, names }: {
+    breakers: BreakerStatus[];
+    names: Record<number, string>;
+  },
+): JSX.Element => (
+  <section>
+    <h3>Circuit Breakers</h3>
+    <p>
+      A breaker opens after repeated CMS failures, pausing requests to that
+      connection until it recovers.
+    </p>
+    <table>
+      <thead>
+        <tr>
+          <th>Connection</th>
+          <th>State</th>
+          <th>Recent Failures</th>
+        </tr>
+      </thead>
+      <tbody>
+        {breakers.map((b) => (
+          <tr>
+            <td>{b.connectionId === null ? "Default" : names[b.connectionId]}</td>
+            <td class={b.state === "closed" ? "success" : "error"}>{b.state}</td>
+            <td>{b.failures}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </section>
+);
+
 /**
  * Admin dashboard page - shows Xibo CMS status overview
  */
 export const adminDashboardPage = (
   session: AdminSession,
   status: DashboardStatus,
+  breakers: BreakerStatus[] = [],
+  names: Record<number, string> = {},
 ): string =>
   String(
     <Layout title="Dashboard">
@@ -87,6 +130,8 @@ export const adminDashboardPage = (
 
       <ConnectionStatus status={status} />
 
+      {breakers.length > 0 && <BreakerTable breakers={breakers} names={names} />}
+
       <section>
         <h3>Quick Links</h3>
         <ul>
@@ -77,7 +77,7 @@ export const datasetListPage = (
   );
 
 /**
- * Dataset detail page — columns and sample data
+ * Dataset detail page — columns and rows
  */
 export const datasetDetailPage = (
   session: AdminSession,
@@ -141,7 +141,7 @@ export const datasetDetailPage = (
       </section>
 
       <section>
-        <h3>Sample Data (first 10 rows)</h3>
+        <h3>Rows ({rows.length})</h3>
         {rows.length === 0
           ? <p>No data rows.</p>
           : (
@@ -0,0 +1,106 @@
+/**
+ * Admin Xibo diagnostics page template
+ */
+
+import { renderError } from "#lib/forms.tsx";
+import { Raw } from "#lib/jsx/jsx-runtime.ts";
+import type { AdminSession } from "#lib/types.ts";
+import { VERIFIED_XIBO_VERSIONS } from "#xibo/diagnostics.ts";
+import type { ConnectionDiagnostics } from "#xibo/types.ts";
+import { Layout } from "#templates/layout.tsx";
+import { AdminNav, Breadcrumb } from "#templates/admin/nav.tsx";
+
+/** A diagnosed connection: "" is the default connection from settings */
+export type DiagnosticsReport = {
+  connection: string;
+  name: string;
+  diagnostics: ConnectionDiagnostics;
+};
+
+/**
+ * Login, version and capability checks for one connection
+ */
+const DiagnosticsResult = (
+  { report: { name, diagnostics } }: { report: DiagnosticsReport },
+): JSX.Element => (
+  <section>
+    <h2>{name}</h2>
+    <div class={diagnostics.success ? "success" : "error"}>
+      <p>{diagnostics.success ? "Logged in" : "Login failed"}</p>
+      {!diagnostics.success && <p>{diagnostics.message}</p>}
+    </div>
+    {diagnostics.version && (
+      <p class={diagnostics.versionVerified ? undefined : "error"}>
+        CMS v{diagnostics.version}
+        {!diagnostics.versionVerified &&
+          ` has not been verified; verified releases are ${VERIFIED_XIBO_VERSIONS.join(", ")}`}
+      </p>
+    )}
+    {diagnostics.checks.length > 0 && (
+      <div class="table-scroll">
+        <table>
+          <thead>
+            <tr>
+              <th>Capability</th>
+              <th>Endpoint</th>
+              <th>Result</th>
+              <th>Latency</th>
+              <th>Detail</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diagnostics.checks.map((check) => (
+              <tr>
+                <td>{check.capability}</td>
+                <td>{check.endpoint}</td>
+                <td class={check.ok ? "success" : "error"}>{check.ok ? "Pass" : "Fail"}</td>
+                <td>{check.latencyMs}ms</td>
+                <td>{check.error ?? ""}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </section>
+);
+
+/**
+ * Xibo diagnostics page, with the last report when one was run
+ */
+export const adminDiagnosticsPage = (
+  session: AdminSession,
+  connections: Record<number, string>,
+  options: { report?: DiagnosticsReport; error?: string } = {},
+): string =>
+  String(
+    <Layout title="Xibo Diagnostics">
+      <AdminNav session={session} />
+      <Breadcrumb href="/admin/settings" label="Settings" />
+      <h1>Xibo Diagnostics</h1>
+      <Raw html={renderError(options.error)} />
+      <p>
+        Checks that a connection can log in and reach each part of the CMS
+        the app uses. Every check only reads, so nothing is changed on the
+        CMS.
+      </p>
+
+      <form method="POST" action="/admin/diagnostics">
+        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+        <label>
+          Connection
+          <select name="connection">
+            <option value="">Default connection</option>
+            {Object.entries(connections).map(([id, name]) => (
+              <option value={id} selected={options.report?.connection === id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit">Run Diagnostics</button>
+      </form>
+
+      {options.report && <DiagnosticsResult report={options.report} />}
+    </Layout>,
+  );
@@ -0,0 +1,125 @@
+/**
+ * Admin layout template page templates
+ *
+ * Owners manage the templates users pick for their menu screens.
+ * Templates are edited as JSON definitions; cloning opens the create
+ * form prefilled with a copy of an existing template.
+ */
+
+import { type FieldValues, renderError, renderFields } from "#lib/forms.tsx";
+import { Raw } from "#lib/jsx/jsx-runtime.ts";
+import type { AdminSession } from "#lib/types.ts";
+import type { LayoutTemplate } from "#lib/db/layout-templates.ts";
+import { isDatasetTemplate } from "#lib/templates/index.ts";
+import { layoutTemplateCreateFields, layoutTemplateFields } from "#templates/fields.ts";
+import { Layout } from "#templates/layout.tsx";
+import { AdminNav, Breadcrumb } from "#templates/admin/nav.tsx";
+
+/** Form values for a template, with its definition as indented JSON */
+export const templateFormValues = (template: LayoutTemplate): FieldValues => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  max_products: template.maxProducts,
+  definition: JSON.stringify(template.definition, null, 2),
+});
+
+/**
+ * Layout template list page
+ */
+export const adminLayoutTemplatesPage = (
+  templates: LayoutTemplate[],
+  session: AdminSession,
+  success?: string,
+): string =>
+  String(
+    <Layout title="Templates">
+      <AdminNav session={session} />
+      <h1>Templates</h1>
+      {success && <div class="success">{success}</div>}
+
+      <p>
+        <a href="/admin/template/create">Add Template</a>
+      </p>
+
+      <div class="table-scroll">
+        <table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>ID</th>
+              <th>Type</th>
+              <th>Max Products</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {templates.map((t) => (
+              <tr>
+                <td>
+                  <a href={`/admin/template/${t.id}`}>{t.name}</a>
+                </td>
+                <td>{t.id}</td>
+                <td>{isDatasetTemplate(t) ? "Live" : "Static"}</td>
+                <td>{t.maxProducts}</td>
+                <td>
+                  <a href={`/admin/template/${t.id}/clone`}>Clone</a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Layout>,
+  );
+
+/**
+ * Layout template create form page, blank or prefilled with a clone
+ */
+export const adminLayoutTemplateCreatePage = (
+  session: AdminSession,
+  values: FieldValues = {},
+  error?: string,
+): string =>
+  String(
+    <Layout title="Add Template">
+      <AdminNav session={session} />
+      <Breadcrumb href="/admin/templates" label="Templates" />
+      <h1>Add Template</h1>
+      <Raw html={renderError(error)} />
+      <form method="POST" action="/admin/template/create">
+        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+        <Raw html={renderFields(layoutTemplateCreateFields, values)} />
+        <button type="submit">Add Template</button>
+      </form>
+    </Layout>,
+  );
+
+/**
+ * Layout template edit form page
+ */
+export const adminLayoutTemplateEditPage = (
+  session: AdminSession,
+  templateId: string,
+  values: FieldValues,
+  error?: string,
+  success?: string,
+): string =>
+  String(
+    <Layout title={`Edit Template ${templateId}`}>
+      <AdminNav session={session} />
+      <Breadcrumb href="/admin/templates" label="Templates" />
+      <h1>Edit Template {templateId}</h1>
+      <Raw html={renderError(error)} />
+      {success && <div class="success">{success}</div>}
+      <p>Changes apply the next time a menu screen using this template is published.</p>
+      <form method="POST" action={`/admin/template/${templateId}`}>
+        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+        <Raw html={renderFields(layoutTemplateFields, values)} />
+        <button type="submit">Update</button>
+      </form>
+      <p>
+        <a href={`/admin/template/${templateId}/clone`}>Clone this template</a>
+      </p>
+    </Layout>,
+  );
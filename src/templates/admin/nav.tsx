@@ -15,7 +15,7 @@ const isManagerOrAbove = (session?: AdminSession): boolean =>
 /**
  * Universal admin navigation - shown at top of all admin pages
  * - Owner: all links
- * - Manager: all except Settings and Sessions
+ * - Manager: all except Templates, Settings, Sessions and Audit Log
  * - User: Dashboard and Logout only
  */
 export const AdminNav = ({ session }: AdminNavProps = {}): JSX.Element => (
@@ -62,11 +62,21 @@ export const AdminNav = ({ session }: AdminNavProps = {}): JSX.Element => (
           <a href="/admin/datasets">Datasets</a>
         </li>
       )}
+      {isManagerOrAbove(session) && (
+        <li>
+          <a href="/admin/schedules">Schedules</a>
+        </li>
+      )}
       {isManagerOrAbove(session) && (
         <li>
           <a href="/admin/users">Users</a>
         </li>
       )}
+      {session?.adminLevel === "owner" && (
+        <li>
+          <a href="/admin/templates">Templates</a>
+        </li>
+      )}
       {session?.adminLevel === "owner" && (
         <li>
           <a href="/admin/settings">Settings</a>
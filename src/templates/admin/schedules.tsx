@@ -0,0 +1,178 @@
+/**
+ * Admin schedule check page templates
+ */
+
+import { renderError } from "#lib/forms.tsx";
+import { Raw } from "#lib/jsx/jsx-runtime.ts";
+import type { DisplayBusiness } from "#lib/db/businesses.ts";
+import type { DisplayScreen } from "#lib/db/screens.ts";
+import type { AdminSession } from "#lib/types.ts";
+import type { ScheduleDrift } from "#xibo/types.ts";
+import { Layout } from "#templates/layout.tsx";
+import { AdminNav, Breadcrumb } from "#templates/admin/nav.tsx";
+
+/** A business on a configured Xibo connection, with its screens */
+export type ScheduleBusiness = {
+  business: DisplayBusiness;
+  screens: DisplayScreen[];
+};
+
+/** A screen's schedule as checked against Xibo */
+export type ScreenScheduleReport = {
+  screen: DisplayScreen;
+  drift: ScheduleDrift[];
+  /** Set when the screen couldn't be checked */
+  error?: string;
+};
+
+/** A business's schedule page */
+const businessUrl = (businessId: number): string => `/admin/schedules/business/${businessId}`;
+
+/** One difference as a table row */
+const driftRow = (drift: ScheduleDrift): JSX.Element => (
+  <tr>
+    <td>{drift.subject}</td>
+    <td>{drift.expected}</td>
+    <td>{drift.actual}</td>
+  </tr>
+);
+
+/**
+ * A screen's check result: in sync, the check's error, or its
+ * differences with a repair button
+ */
+const screenReport = (session: AdminSession, businessId: number) => (report: ScreenScheduleReport): JSX.Element => (
+  <section>
+    <h2>
+      <a href={`/admin/business/${businessId}/screen/${report.screen.id}`}>{report.screen.name}</a>
+    </h2>
+    {report.error
+      ? <p class="error">Could not check: {report.error}</p>
+      : report.drift.length === 0
+      ? <p class="success">In sync</p>
+      : (
+        <>
+          <div class="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>What</th>
+                  <th>Expected</th>
+                  <th>In Xibo</th>
+                </tr>
+              </thead>
+              <tbody>{report.drift.map(driftRow)}</tbody>
+            </table>
+          </div>
+          <form method="POST" action={`/admin/business/${businessId}/screen/${report.screen.id}/schedule/repair`}>
+            <input type="hidden" name="csrf_token" value={session.csrfToken} />
+            <button type="submit">Repair Screen</button>
+          </form>
+        </>
+      )}
+  </section>
+);
+
+/** What a check compares, and what repairing does */
+const CheckIntro = (): JSX.Element => (
+  <p>
+    Each screen's display group, campaign layouts and rotation times, and schedule events as Xibo reports them, compared with
+    what was published. Repairing a screen makes Xibo match exactly, removing anything added on the CMS.
+  </p>
+);
+
+/** A business's row in the overview, linking to its check and each screen's */
+const businessRow = ({ business, screens }: ScheduleBusiness): JSX.Element => (
+  <tr>
+    <td>
+      <a href={businessUrl(business.id)}>{business.name}</a>
+    </td>
+    <td>
+      {screens.length === 0 ? "No screens" : screens.map((screen, i) => (
+        <>
+          {i > 0 && ", "}
+          <a href={`${businessUrl(business.id)}/screen/${screen.id}`}>{screen.name}</a>
+        </>
+      ))}
+    </td>
+  </tr>
+);
+
+/**
+ * Schedule overview: each business on a configured connection, linking
+ * to the checks of the business and of each of its screens
+ */
+export const adminSchedulesPage = (
+  session: AdminSession,
+  businesses: ScheduleBusiness[],
+): string =>
+  String(
+    <Layout title="Schedules">
+      <AdminNav session={session} />
+      <h1>Schedules</h1>
+      <p>Check a business's screens, or a single screen, against Xibo.</p>
+      {businesses.length === 0 ? <p>No businesses on a configured Xibo connection.</p> : (
+        <div class="table-scroll">
+          <table>
+            <thead>
+              <tr>
+                <th>Business</th>
+                <th>Screens</th>
+              </tr>
+            </thead>
+            <tbody>{businesses.map(businessRow)}</tbody>
+          </table>
+        </div>
+      )}
+    </Layout>,
+  );
+
+/**
+ * A business's schedule check: every screen's displays, campaigns and
+ * events in Xibo compared with what was published
+ */
+export const adminBusinessSchedulesPage = (
+  session: AdminSession,
+  business: DisplayBusiness,
+  reports: ScreenScheduleReport[],
+  error?: string,
+  success?: string,
+): string =>
+  String(
+    <Layout title={`Schedules - ${business.name}`}>
+      <AdminNav session={session} />
+      <Breadcrumb href="/admin/schedules" label="Schedules" />
+      <h1>Schedules - {business.name}</h1>
+      <Raw html={renderError(error)} />
+      {success && <div class="success">{success}</div>}
+      <CheckIntro />
+      {reports.length === 0 && <p>No screens yet.</p>}
+      {reports.some((r) => r.drift.length > 0) && (
+        <form method="POST" action={`${businessUrl(business.id)}/repair`}>
+          <input type="hidden" name="csrf_token" value={session.csrfToken} />
+          <button type="submit">Repair All</button>
+        </form>
+      )}
+      {reports.map(screenReport(session, business.id))}
+    </Layout>,
+  );
+
+/** One screen's schedule check */
+export const adminScheduleScreenPage = (
+  session: AdminSession,
+  business: DisplayBusiness,
+  report: ScreenScheduleReport,
+  error?: string,
+  success?: string,
+): string =>
+  String(
+    <Layout title={`Schedule - ${report.screen.name}`}>
+      <AdminNav session={session} />
+      <Breadcrumb href={businessUrl(business.id)} label={`Schedules - ${business.name}`} />
+      <h1>Schedule - {report.screen.name}</h1>
+      <Raw html={renderError(error)} />
+      {success && <div class="success">{success}</div>}
+      <CheckIntro />
+      {screenReport(session, business.id)(report)}
+    </Layout>,
+  );
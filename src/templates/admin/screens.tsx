@@ -7,11 +7,20 @@ import { Raw } from "#lib/jsx/jsx-runtime.ts";
 import type { AdminSession } from "#lib/types.ts";
 import type { DisplayBusiness } from "#lib/db/businesses.ts";
 import type { DisplayScreen } from "#lib/db/screens.ts";
-import type { XiboDisplay } from "#xibo/types.ts";
+import { formatCanvas } from "#xibo/layout-builder.ts";
+import type { DisplayStatus, XiboDisplay } from "#xibo/types.ts";
 import { screenFields } from "#templates/fields.ts";
+import { DisplayStatusDetails, formatUtcMinute } from "#templates/display-status.tsx";
 import { Layout } from "#templates/layout.tsx";
 import { AdminNav, Breadcrumb } from "#templates/admin/nav.tsx";
 
+/** A Xibo display as a picker option, with its resolution when reported */
+const displayOption = (display: XiboDisplay): JSX.Element => (
+  <option value={String(display.displayId)}>
+    {display.resolution ? `${display.display} (${display.resolution})` : display.display}
+  </option>
+);
+
 /**
  * Screen create form page (with Xibo display picker)
  */
@@ -40,9 +49,7 @@ export const adminScreenCreatePage = (
           Xibo Display
           <select name="xibo_display_id">
             <option value="">None</option>
-            {availableDisplays.map((d) => (
-              <option value={String(d.displayId)}>{d.display}</option>
-            ))}
+            {availableDisplays.map(displayOption)}
           </select>
         </label>
         <button type="submit">Create Screen</button>
@@ -50,6 +57,21 @@ export const adminScreenCreatePage = (
     </Layout>,
   );
 
+/** What a screen's display last reported, and when its latest screenshot was captured */
+export type ScreenDisplayReport = {
+  status: DisplayStatus;
+  /** Epoch ms, or null without a screenshot */
+  screenshotAt: number | null;
+};
+
+/** The displays a screen is shown on, and those free to add */
+export type ScreenDisplays = {
+  /** Each display's CMS name, or null when the CMS can't be reached or no longer has it */
+  assigned: { displayId: number; name: string | null }[];
+  /** Displays on the CMS not yet assigned to any screen */
+  available: XiboDisplay[];
+};
+
 /**
  * Screen detail page
  */
@@ -57,8 +79,10 @@ export const adminScreenDetailPage = (
   business: DisplayBusiness,
   screen: DisplayScreen,
   session: AdminSession,
+  displays: ScreenDisplays,
   error?: string,
   success?: string,
+  display?: ScreenDisplayReport,
 ): string =>
   String(
     <Layout title={screen.name}>
@@ -72,12 +96,110 @@ export const adminScreenDetailPage = (
       {success && <div class="success">{success}</div>}
 
       <dl>
-        <dt>Xibo Display ID</dt>
+        <dt>Primary Display ID</dt>
         <dd>{screen.xibo_display_id ?? "Not assigned"}</dd>
+        <dt>Display Group ID</dt>
+        <dd>{screen.xibo_display_group_id ?? "Not created"}</dd>
+        <dt>Resolution</dt>
+        <dd>{formatCanvas(screen)}</dd>
         <dt>Created</dt>
         <dd>{screen.created_at.slice(0, 10)}</dd>
       </dl>
 
+      <section>
+        <h2>Displays</h2>
+        <p>
+          Every display shows the screen's menus. Status, screenshots and resolution come from the primary
+          display.
+        </p>
+        {displays.assigned.length === 0
+          ? <p>No displays assigned.</p>
+          : (
+            <table>
+              <thead>
+                <tr>
+                  <th>Display</th>
+                  <th>ID</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {displays.assigned.map((d) => (
+                  <tr>
+                    <td>
+                      {d.name ?? "Unknown display"}
+                      {d.displayId === screen.xibo_display_id && " (primary)"}
+                    </td>
+                    <td>{d.displayId}</td>
+                    <td>
+                      <form
+                        class="inline"
+                        method="POST"
+                        action={`/admin/business/${business.id}/screen/${screen.id}/display/${d.displayId}/remove`}
+                      >
+                        <input type="hidden" name="csrf_token" value={session.csrfToken} />
+                        <button type="submit">Remove</button>
+                      </form>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        {displays.available.length > 0 && (
+          <form
+            method="POST"
+            action={`/admin/business/${business.id}/screen/${screen.id}/display/add`}
+          >
+            <input type="hidden" name="csrf_token" value={session.csrfToken} />
+            <label>
+              Display
+              <select name="xibo_display_id">
+                {displays.available.map(displayOption)}
+              </select>
+            </label>
+            <button type="submit">Add Display</button>
+          </form>
+        )}
+      </section>
+
+      {display && (
+        <section>
+          <h2>Display Status</h2>
+          <DisplayStatusDetails status={display.status} />
+
+          <h3>Screenshot</h3>
+          {display.screenshotAt === null
+            ? <p>No screenshot yet.</p>
+            : (
+              <figure>
+                <img
+                  src={`/admin/business/${business.id}/screen/${screen.id}/screenshot`}
+                  alt={`Latest screenshot of ${screen.name}`}
+                />
+                <figcaption>Captured {formatUtcMinute(display.screenshotAt)}</figcaption>
+              </figure>
+            )}
+          <form
+            method="POST"
+            action={`/admin/business/${business.id}/screen/${screen.id}/screenshot`}
+          >
+            <input type="hidden" name="csrf_token" value={session.csrfToken} />
+            <button type="submit">Request Screenshot</button>
+          </form>
+        </section>
+      )}
+
+      {screen.xibo_display_id !== null && (
+        <form
+          method="POST"
+          action={`/admin/business/${business.id}/screen/${screen.id}/resolution`}
+        >
+          <input type="hidden" name="csrf_token" value={session.csrfToken} />
+          <button type="submit">Update Resolution from Display</button>
+        </form>
+      )}
+
       <h2>Danger Zone</h2>
       <form
         method="POST"
@@ -0,0 +1,62 @@
+/**
+ * Display status badge and details, shared by the admin screen page
+ * and the user business overview
+ */
+
+import type { DisplayState, DisplayStatus } from "#xibo/types.ts";
+
+const STATE_LABELS: Record<DisplayState, string> = {
+  online: "Online",
+  offline: "Offline",
+  "unexpected-layout": "Unexpected layout",
+  missing: "Display not found",
+  unknown: "Status unavailable",
+};
+
+/** Badge colour for each state; only "online" needs no attention */
+const STATE_COLOURS: Record<DisplayState, string> = {
+  online: "color: #28a745",
+  offline: "color: #dc3545",
+  "unexpected-layout": "color: #fd7e14",
+  missing: "color: #dc3545",
+  unknown: "color: #6c757d",
+};
+
+/** Format epoch ms as "YYYY-MM-DD HH:MM UTC" */
+export const formatUtcMinute = (ms: number): string =>
+  `${new Date(ms).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+
+/** Format a unix timestamp, or "Never" */
+const formatLastSeen = (seconds: number | null): string =>
+  seconds === null ? "Never" : formatUtcMinute(seconds * 1000);
+
+/**
+ * A display's state as a coloured label
+ */
+export const DisplayStatusBadge = (
+  { status }: { status: DisplayStatus },
+): JSX.Element => <strong style={STATE_COLOURS[status.state]}>{STATE_LABELS[status.state]}</strong>;
+
+/**
+ * What the display last reported: check-in, layout and player version
+ */
+export const DisplayStatusDetails = (
+  { status }: { status: DisplayStatus },
+): JSX.Element => (
+  <dl>
+    <dt>Status</dt>
+    <dd>
+      <DisplayStatusBadge status={status} />
+    </dd>
+    {status.display && (
+      <>
+        <dt>Last Seen</dt>
+        <dd>{formatLastSeen(status.display.lastAccessed)}</dd>
+        <dt>Current Layout</dt>
+        <dd>{status.display.currentLayoutId ?? "Not reported"}</dd>
+        <dt>Player Version</dt>
+        <dd>{status.display.clientVersion || "Not reported"}</dd>
+      </>
+    )}
+  </dl>
+);
@@ -2,6 +2,7 @@
  * Form field definitions for all forms
  */
 
+import { validateTime, WEEKDAYS } from "#lib/dayparts.ts";
 import type { Field } from "#lib/forms.tsx";
 import type { AdminLevel } from "#lib/types.ts";
 
@@ -82,6 +83,16 @@ export const validateUsername = (value: string): string | null => {
   return null;
 };
 
+/** Validate a new password and its confirmation, returning an error or null */
+export const validateNewPassword = (
+  password: string,
+  passwordConfirm: string,
+): string | null => {
+  if (password.length < 8) return "Password must be at least 8 characters";
+  if (password !== passwordConfirm) return "Passwords do not match";
+  return null;
+};
+
 /**
  * Login form field definitions
  */
@@ -190,6 +201,25 @@ export const xiboCredentialsFields: Field[] = [
   },
 ];
 
+/** Typed values from the named Xibo connection form */
+export type XiboConnectionFormValues = XiboCredentialsFormValues & {
+  name: string;
+};
+
+/**
+ * Named Xibo connection form (name plus the API credentials)
+ */
+export const xiboConnectionFields: Field[] = [
+  {
+    name: "name",
+    label: "Connection Name",
+    type: "text",
+    required: true,
+    placeholder: "e.g. North Region",
+  },
+  ...xiboCredentialsFields,
+];
+
 /** All role options for the invite form */
 const ALL_ROLE_OPTIONS = [
   { value: "user", label: "User" },
@@ -280,6 +310,26 @@ export const businessFields: Field[] = [
   nameField,
 ];
 
+/**
+ * Business create form field definitions. With named Xibo connections,
+ * adds a choice of CMS; it's fixed once the business is provisioned.
+ */
+export const businessCreateFields = (
+  connectionNames: Record<number, string>,
+): Field[] => {
+  const options = Object.entries(connectionNames).map(([id, name]) => ({ value: id, label: name }));
+  return options.length === 0 ? businessFields : [
+    ...businessFields,
+    {
+      name: "xibo_connection_id",
+      label: "Xibo CMS",
+      type: "select",
+      options: [{ value: "", label: "Default" }, ...options],
+      hint: "The business's folder and dataset are created on this CMS, so it can't be changed later",
+    },
+  ];
+};
+
 /**
  * Screen form field definitions
  */
@@ -329,6 +379,9 @@ export type MenuScreenFormValues = {
   template_id: string;
   display_time: number;
   sort_order: number;
+  active_days: string | null;
+  active_from: string | null;
+  active_to: string | null;
 };
 
 /**
@@ -353,6 +406,27 @@ export const menuScreenFields: Field[] = [
     min: 0,
     hint: "Lower numbers display first",
   },
+  {
+    name: "active_days",
+    label: "Active Days",
+    type: "checkbox-group",
+    options: WEEKDAYS,
+    hint: "Leave all unticked to show every day",
+  },
+  {
+    name: "active_from",
+    label: "Active From",
+    type: "time",
+    validate: validateTime,
+    hint: "Leave both times empty to show all day",
+  },
+  {
+    name: "active_to",
+    label: "Active Until",
+    type: "time",
+    validate: validateTime,
+    hint: "Before the start time to run past midnight",
+  },
 ];
 
 /** Typed values from dataset product form (user-facing) */
@@ -370,3 +444,62 @@ export const datasetProductFields: Field[] = [
   priceField,
   { name: "media_id", label: "Image", type: "number", hint: "Select from your media library" },
 ];
+
+/** Typed values from layout template form */
+export type LayoutTemplateFormValues = {
+  id: string;
+  name: string;
+  description: string | null;
+  max_products: number;
+  definition: string;
+};
+
+/**
+ * Validate a template ID: lowercase letters, numbers and hyphens.
+ * "create" is taken by the create form's URL.
+ */
+const validateTemplateId = (value: string): string | null =>
+  !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value)
+    ? "Template ID must be lowercase letters and numbers, separated by hyphens"
+    : value === "create"
+    ? "Template ID \"create\" is reserved"
+    : null;
+
+/**
+ * Layout template form field definitions (the ID is set on create only)
+ */
+export const layoutTemplateFields: Field[] = [
+  nameField,
+  descriptionField,
+  {
+    name: "max_products",
+    label: "Max Products",
+    type: "number",
+    required: true,
+    min: 1,
+    hint: "Most products a menu screen can pick; at most the number of product tiles",
+  },
+  {
+    name: "definition",
+    label: "Definition (JSON)",
+    type: "textarea",
+    required: true,
+    rows: 20,
+    hint: "Header and slots with top, left, width and height from 0 to 1 of the screen",
+  },
+];
+
+/**
+ * Layout template create form field definitions
+ */
+export const layoutTemplateCreateFields: Field[] = [
+  {
+    name: "id",
+    label: "Template ID",
+    type: "text",
+    required: true,
+    validate: validateTemplateId,
+    hint: "e.g. grid-2x3. Menu screens refer to it, so it can't be changed later",
+  },
+  ...layoutTemplateFields,
+];
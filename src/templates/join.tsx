@@ -0,0 +1,44 @@
+/**
+ * Join page templates - invited users set their password
+ */
+
+import { renderError, renderFields } from "#lib/forms.tsx";
+import { Raw } from "#lib/jsx/jsx-runtime.ts";
+import { joinFields } from "#templates/fields.ts";
+import { Layout } from "#templates/layout.tsx";
+
+/**
+ * Set password form for an invited user
+ */
+export const joinPage = (
+  code: string,
+  username: string,
+  csrfToken: string,
+  error?: string,
+): string =>
+  String(
+    <Layout title="Join">
+      <h1>Welcome, {username}</h1>
+      <p>Choose a password to activate your account.</p>
+      <Raw html={renderError(error)} />
+      <form method="POST" action={`/join/${code}`}>
+        <input type="hidden" name="csrf_token" value={csrfToken} />
+        <Raw html={renderFields(joinFields)} />
+        <button type="submit">Set Password</button>
+      </form>
+    </Layout>,
+  );
+
+/**
+ * Invalid or expired invite page
+ */
+export const joinInvalidPage = (): string =>
+  String(
+    <Layout title="Invalid Invite">
+      <h1>Invalid Invite</h1>
+      <p class="error">
+        This invite link is invalid or has expired. Ask your administrator
+        for a new one.
+      </p>
+    </Layout>,
+  );
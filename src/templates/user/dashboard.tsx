@@ -2,19 +2,30 @@
  * User dashboard page templates
  *
  * Shows the user's businesses and a per-business overview with
- * screen count, product count, and quick links.
+ * screen count, product count, each screen's display status, and
+ * quick links.
  */
 
 import type { AdminSession } from "#lib/types.ts";
 import type { DisplayBusiness } from "#lib/db/businesses.ts";
+import type { DisplayScreen } from "#lib/db/screens.ts";
+import type { DisplayStatus } from "#xibo/types.ts";
+import { DisplayStatusBadge } from "#templates/display-status.tsx";
 import { Layout } from "#templates/layout.tsx";
 import { UserNav } from "#templates/user/nav.tsx";
 
+/** A screen with its display's status (null without a display) */
+export interface ScreenSummary {
+  screen: DisplayScreen;
+  status: DisplayStatus | null;
+}
+
 /** Summary data for a single business on the dashboard */
 export interface BusinessSummary {
   business: DisplayBusiness;
   screenCount: number;
   productCount: number;
+  screens: ScreenSummary[];
 }
 
 /**
@@ -75,7 +86,7 @@ export const userDashboardPage = (
   );
 
 /**
- * Business overview page — screens, product count, quick links
+ * Business overview page — counts, screen statuses, quick links
  */
 export const userBusinessDetailPage = (
   session: AdminSession,
@@ -114,6 +125,36 @@ export const userBusinessDetailPage = (
         </div>
       </section>
 
+      {summary.screens.length > 0 && (
+        <section>
+          <h2>Screens</h2>
+          <div class="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Screen</th>
+                  <th>Display</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.screens.map(({ screen, status }) => (
+                  <tr>
+                    <td>
+                      <a
+                        href={`/dashboard/business/${summary.business.id}/screen/${screen.id}/menus`}
+                      >
+                        {screen.name}
+                      </a>
+                    </td>
+                    <td>{status ? <DisplayStatusBadge status={status} /> : "No display"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
       <section>
         <h2>Quick Links</h2>
         <ul>
@@ -131,6 +172,13 @@ export const userBusinessDetailPage = (
               Manage Media
             </a>
           </li>
+          <li>
+            <a
+              href={`/dashboard/business/${summary.business.id}/publishes`}
+            >
+              Publish History
+            </a>
+          </li>
         </ul>
       </section>
     </Layout>,
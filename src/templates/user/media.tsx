@@ -2,6 +2,8 @@
  * User-facing media page templates
  *
  * Shows shared photos (read-only) and business-owned photos (editable).
+ * Links carry ?businessId so previews, uploads and deletes use the
+ * active business's folder and Xibo connection.
  */
 
 import type { AdminSession } from "#lib/types.ts";
@@ -11,21 +13,26 @@ import { formatFileSize, isPreviewable } from "#xibo/media.ts";
 import { Layout } from "#templates/layout.tsx";
 import { UserBreadcrumb, UserNav } from "#templates/user/nav.tsx";
 
+/** Query string selecting a business on media routes */
+const businessQuery = (business: DisplayBusiness): string =>
+  `?businessId=${business.id}`;
+
 /** Media table row with preview, name, size, and optional actions */
 const MediaRow = (
-  { media, previewBase, canDelete, csrfToken, deleteBase }: {
+  { media, previewBase, canDelete, csrfToken, deleteBase, query }: {
     media: XiboMedia;
     previewBase: string;
     canDelete: boolean;
     csrfToken: string;
     deleteBase: string;
+    query: string;
   },
 ): JSX.Element => (
   <tr>
     <td>
       {isPreviewable(media.mediaType) && (
         <img
-          src={`${previewBase}/${media.mediaId}/preview`}
+          src={`${previewBase}/${media.mediaId}/preview${query}`}
           alt={media.name}
           style="max-width:80px;max-height:60px"
         />
@@ -37,7 +44,7 @@ const MediaRow = (
       {canDelete && (
         <form
           method="POST"
-          action={`${deleteBase}/${media.mediaId}/delete`}
+          action={`${deleteBase}/${media.mediaId}/delete${query}`}
           style="display:inline"
         >
           <input type="hidden" name="csrf_token" value={csrfToken} />
@@ -50,12 +57,13 @@ const MediaRow = (
 
 /** Media table with header and rows */
 const MediaTable = (
-  { media, previewBase, canDelete, csrfToken, deleteBase }: {
+  { media, previewBase, canDelete, csrfToken, deleteBase, query }: {
     media: XiboMedia[];
     previewBase: string;
     canDelete: boolean;
     csrfToken: string;
     deleteBase: string;
+    query: string;
   },
 ): JSX.Element => (
   <table>
@@ -75,6 +83,7 @@ const MediaTable = (
           canDelete={canDelete}
           csrfToken={csrfToken}
           deleteBase={deleteBase}
+          query={query}
         />
       ))}
     </tbody>
@@ -107,7 +116,7 @@ export const userMediaPage = (
 
       <section>
         <div>
-          <a href="/dashboard/media/upload">
+          <a href={`/dashboard/media/upload${businessQuery(activeBusiness)}`}>
             <button type="button">Upload Photo</button>
           </a>
         </div>
@@ -124,6 +133,7 @@ export const userMediaPage = (
               canDelete
               csrfToken={session.csrfToken}
               deleteBase="/dashboard/media"
+              query={businessQuery(activeBusiness)}
             />
           )}
       </section>
@@ -139,6 +149,7 @@ export const userMediaPage = (
               canDelete={false}
               csrfToken={session.csrfToken}
               deleteBase="/dashboard/media"
+              query={businessQuery(activeBusiness)}
             />
           )}
       </section>
@@ -169,7 +180,7 @@ export const userMediaUploadPage = (
       <section>
         <form
           method="POST"
-          action="/dashboard/media/upload"
+          action={`/dashboard/media/upload${businessQuery(activeBusiness)}`}
           enctype="multipart/form-data"
         >
           <input type="hidden" name="csrf_token" value={session.csrfToken} />
@@ -3,17 +3,29 @@
  *
  * Menu screens are user-configured Xibo layouts built from templates.
  * Users create them, pick products, and the system publishes
- * them as a campaign to a Xibo display.
+ * them as a campaign to a Xibo display. Edits can be saved as a
+ * draft and previewed before they are published.
  */
 
+import { formatDaypart } from "#lib/dayparts.ts";
 import { renderError, renderFields } from "#lib/forms.tsx";
-import { Raw } from "#lib/jsx/jsx-runtime.ts";
-import type { AdminSession } from "#lib/types.ts";
+import { type Child, Raw } from "#lib/jsx/jsx-runtime.ts";
+import type { AdminSession, MenuScreenContent } from "#lib/types.ts";
 import type { DisplayBusiness } from "#lib/db/businesses.ts";
 import type { DisplayScreen } from "#lib/db/screens.ts";
 import type { DisplayMenuScreen } from "#lib/db/menu-screens.ts";
 import type { DatasetProduct } from "#xibo/types.ts";
-import type { LayoutTemplate } from "#lib/templates/index.ts";
+import { type ResolvedSlot, slotProducts } from "#lib/templates/definition.ts";
+import { getTemplateRegions } from "#lib/templates/index.ts";
+import type { LayoutTemplate, TemplateProduct } from "#lib/templates/index.ts";
+import type { Canvas, GridPosition, TextStyle } from "#xibo/layout-builder.ts";
+import {
+  formatCanvas,
+  productCaption,
+  splitProductTile,
+  textStyleCss,
+} from "#xibo/layout-builder.ts";
+import { campaignDuration, type DaypartGroup, groupByDaypart } from "#xibo/scheduling.ts";
 import { menuScreenFields } from "#templates/fields.ts";
 import { Layout } from "#templates/layout.tsx";
 import { UserBreadcrumb, UserNav } from "#templates/user/nav.tsx";
@@ -28,6 +40,41 @@ const MenuBreadcrumb = (
   />
 );
 
+/** Base URL for a menu screen's pages */
+const menuScreenUrl = (bizId: number, screenId: number, menuScreenId: number): string =>
+  `/dashboard/business/${bizId}/screen/${screenId}/menu/${menuScreenId}`;
+
+/** A daypart's rotation: its published menu screens, and how long one cycle of them takes */
+const rotationRow = (group: DaypartGroup): JSX.Element => (
+  <tr>
+    <td>{formatDaypart(group.daypart)}</td>
+    <td>{group.menuScreens.map((ms) => `${ms.name} (${ms.display_time}s)`).join(", ")}</td>
+    <td>{campaignDuration(group.menuScreens)}s</td>
+  </tr>
+);
+
+/**
+ * Rotation summary: the published menu screens each daypart plays in
+ * turn, and the seconds a full cycle takes on the display
+ */
+const RotationSummary = ({ groups }: { groups: DaypartGroup[] }): JSX.Element => (
+  <>
+    <h2>Rotation</h2>
+    <div class="table-scroll">
+      <table>
+        <thead>
+          <tr>
+            <th>Active</th>
+            <th>Plays in Turn</th>
+            <th>Cycle</th>
+          </tr>
+        </thead>
+        <tbody>{groups.map(rotationRow)}</tbody>
+      </table>
+    </div>
+  </>
+);
+
 /**
  * Menu screen list page for a screen
  */
@@ -57,6 +104,12 @@ export const userMenuScreenListPage = (
         >
           <button type="button">Add Menu Screen</button>
         </a>
+        {" "}
+        <a
+          href={`/dashboard/business/${business.id}/screen/${screen.id}/publishes`}
+        >
+          Publish History
+        </a>
       </p>
 
       {menuScreens.length === 0
@@ -69,6 +122,7 @@ export const userMenuScreenListPage = (
                   <th>Name</th>
                   <th>Template</th>
                   <th>Display Time</th>
+                  <th>Active</th>
                   <th>Order</th>
                   <th>Actions</th>
                 </tr>
@@ -77,20 +131,27 @@ export const userMenuScreenListPage = (
                 {menuScreens.map((ms) => (
                   <tr>
                     <td>
-                      <a
-                        href={`/dashboard/business/${business.id}/screen/${screen.id}/menu/${ms.id}`}
-                      >
+                      <a href={menuScreenUrl(business.id, screen.id, ms.id)}>
                         {ms.name}
                       </a>
+                      {ms.draft !== null && (
+                        <a
+                          href={`${menuScreenUrl(business.id, screen.id, ms.id)}/preview`}
+                          style="margin-left:0.5em"
+                        >
+                          <mark>Draft</mark>
+                        </a>
+                      )}
                     </td>
                     <td>{ms.template_id}</td>
                     <td>{ms.display_time}s</td>
+                    <td>{formatDaypart(ms)}</td>
                     <td>{ms.sort_order}</td>
                     <td>
                       <form
                         class="inline"
                         method="POST"
-                        action={`/dashboard/business/${business.id}/screen/${screen.id}/menu/${ms.id}/delete`}
+                        action={`${menuScreenUrl(business.id, screen.id, ms.id)}/delete`}
                         style="display:inline"
                       >
                         <input
@@ -107,6 +168,10 @@ export const userMenuScreenListPage = (
             </table>
           </div>
         )}
+
+      {menuScreens.some((ms) => ms.xibo_layout_id !== null) && (
+        <RotationSummary groups={groupByDaypart(menuScreens)} />
+      )}
     </Layout>,
   );
 
@@ -207,7 +272,8 @@ export const userMenuScreenCreatePage = (
   );
 
 /**
- * Menu screen edit form page
+ * Menu screen edit form page. When the menu screen has a draft, pass the
+ * draft's values in menuScreen and selectedProductIds.
  */
 export const userMenuScreenEditPage = (
   session: AdminSession,
@@ -227,10 +293,18 @@ export const userMenuScreenEditPage = (
       <h1>Edit {menuScreen.name}</h1>
 
       <Raw html={renderError(error)} />
+      {menuScreen.draft !== null && (
+        <p>
+          You are editing an unpublished draft.{" "}
+          <a href={`${menuScreenUrl(business.id, screen.id, menuScreen.id)}/preview`}>
+            Preview draft
+          </a>
+        </p>
+      )}
 
       <form
         method="POST"
-        action={`/dashboard/business/${business.id}/screen/${screen.id}/menu/${menuScreen.id}`}
+        action={menuScreenUrl(business.id, screen.id, menuScreen.id)}
       >
         <input type="hidden" name="csrf_token" value={session.csrfToken} />
         <Raw
@@ -238,6 +312,9 @@ export const userMenuScreenEditPage = (
             name: menuScreen.name,
             display_time: menuScreen.display_time,
             sort_order: menuScreen.sort_order,
+            active_days: menuScreen.active_days,
+            active_from: menuScreen.active_from,
+            active_to: menuScreen.active_to,
           })}
         />
         <Raw
@@ -245,7 +322,229 @@ export const userMenuScreenEditPage = (
         />
         <Raw html={renderProductPicker(products, selectedProductIds, maxProducts)} />
         <button type="submit">Update Menu Screen</button>
+        {" "}
+        <button
+          type="submit"
+          class="secondary"
+          formaction={`${menuScreenUrl(business.id, screen.id, menuScreen.id)}/draft`}
+        >
+          Save as Draft
+        </button>
       </form>
     </Layout>,
   );
 };
+
+/** Preview scale: a 1080x1920 screen renders at 270x480 */
+const PREVIEW_SCALE = 0.25;
+
+/** Absolutely positioned preview box for a template region */
+const PreviewRegion = (
+  { pos, style, children }: { pos: GridPosition; style: string; children?: Child },
+): JSX.Element => (
+  <div
+    style={`position:absolute;top:${Math.floor(pos.top * PREVIEW_SCALE)}px;left:${Math.floor(pos.left * PREVIEW_SCALE)}px;width:${Math.floor(pos.width * PREVIEW_SCALE)}px;height:${Math.floor(pos.height * PREVIEW_SCALE)}px;display:flex;align-items:center;justify-content:center;text-align:center;overflow:hidden;${style}`}
+  >
+    {children}
+  </div>
+);
+
+/** Style shared by product tile regions */
+const TILE_STYLE = "font-size:10px;border:1px dashed #555";
+
+/** Preview CSS for a template text style, with the font scaled down */
+const previewCss = (style: TextStyle): string =>
+  [
+    textStyleCss({
+      ...style,
+      ...(style.fontSize ? { fontSize: Math.ceil(style.fontSize * PREVIEW_SCALE) } : {}),
+    }),
+    style.background ? `background:${style.background}` : "",
+  ].filter((rule) => rule).join(";");
+
+/**
+ * Preview of one product slot: image tile, text tile, or empty.
+ * Images load through the business's media preview, from its Xibo connection.
+ */
+const PreviewTile = (
+  { pos, product, style, businessId }: {
+    pos: GridPosition;
+    product?: TemplateProduct;
+    style: string;
+    businessId: number;
+  },
+): JSX.Element => {
+  if (!product?.mediaId) {
+    return (
+      <PreviewRegion pos={pos} style={`${TILE_STYLE};${style}`}>
+        {product ? productCaption(product) : ""}
+      </PreviewRegion>
+    );
+  }
+  const areas = splitProductTile(pos);
+  return (
+    <>
+      <PreviewRegion pos={areas.image} style={TILE_STYLE}>
+        <img
+          src={`/dashboard/media/${product.mediaId}/preview?businessId=${businessId}`}
+          alt={product.name}
+          style="max-width:100%;max-height:100%"
+        />
+      </PreviewRegion>
+      <PreviewRegion pos={areas.caption} style={`${TILE_STYLE};${style}`}>
+        {productCaption(product)}
+      </PreviewRegion>
+    </>
+  );
+};
+
+/** Preview of a dataset widget region: every selected product, one per line */
+const PreviewDatasetRows = (
+  { pos, products }: { pos: GridPosition; products: TemplateProduct[] },
+): JSX.Element => (
+  <PreviewRegion pos={pos} style={TILE_STYLE}>
+    <div>
+      {products.map((p) => (
+        <div>{productCaption(p)}</div>
+      ))}
+    </div>
+  </PreviewRegion>
+);
+
+/** Preview of a template slot with the products it shows */
+const PreviewSlot = (
+  { slot, products, businessId }: {
+    slot: ResolvedSlot;
+    products: TemplateProduct[];
+    businessId: number;
+  },
+): JSX.Element =>
+  slot.type === "products"
+    ? (
+      <>
+        {slot.cells.map((pos, i) => (
+          <PreviewTile
+            pos={pos}
+            product={products[i]}
+            style={previewCss(slot.style)}
+            businessId={businessId}
+          />
+        ))}
+      </>
+    )
+    : <PreviewDatasetRows pos={slot.pos} products={products} />;
+
+/**
+ * Scaled rendering of a template with products in their slots,
+ * matching the image, text and dataset widgets the layout builder creates.
+ */
+const TemplatePreview = (
+  { template, products, canvas, businessId }: {
+    template: LayoutTemplate;
+    products: TemplateProduct[];
+    canvas: Canvas;
+    businessId: number;
+  },
+): JSX.Element => {
+  const regions = getTemplateRegions(template, canvas);
+  const shown = slotProducts(regions.slots, products);
+
+  return (
+    <div
+      style={`position:relative;width:${Math.floor(canvas.width * PREVIEW_SCALE)}px;height:${Math.floor(canvas.height * PREVIEW_SCALE)}px;border:2px solid #333;background:#111;color:#fff;margin:1em 0`}
+    >
+      {regions.header && (
+        <PreviewRegion
+          pos={regions.header.pos}
+          style={`font-size:16px;font-weight:bold;${previewCss(regions.header.style)}`}
+        >
+          {regions.header.text}
+        </PreviewRegion>
+      )}
+      {regions.slots.map((slot, i) => (
+        <PreviewSlot slot={slot} products={shown[i]!} businessId={businessId} />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Menu screen preview page: renders the draft (or the live version when
+ * there is no draft) with its products, with publish/discard actions.
+ */
+export const userMenuScreenPreviewPage = (
+  session: AdminSession,
+  business: DisplayBusiness,
+  screen: DisplayScreen,
+  menuScreenId: number,
+  content: MenuScreenContent,
+  template: LayoutTemplate | undefined,
+  products: TemplateProduct[],
+  isDraft: boolean,
+  success?: string,
+): string => {
+  const baseUrl = menuScreenUrl(business.id, screen.id, menuScreenId);
+  return String(
+    <Layout title={`Preview ${content.name} - ${screen.name}`}>
+      <UserNav session={session} />
+      <MenuBreadcrumb bizId={business.id} screenId={screen.id} />
+      <h1>Preview {content.name}</h1>
+
+      {success && <div class="success">{success}</div>}
+      <p>
+        {isDraft
+          ? "Unpublished draft. The display shows the live version until you publish."
+          : "Live version. There is no draft for this menu screen."}
+      </p>
+
+      <table>
+        <tbody>
+          <tr>
+            <th>Template</th>
+            <td>{template?.name ?? content.template_id}</td>
+          </tr>
+          <tr>
+            <th>Screen</th>
+            <td>{formatCanvas(screen)}</td>
+          </tr>
+          <tr>
+            <th>Display Time</th>
+            <td>{content.display_time}s</td>
+          </tr>
+          <tr>
+            <th>Active</th>
+            <td>{formatDaypart(content)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {template
+        ? (
+          <TemplatePreview
+            template={template}
+            products={products}
+            canvas={{ width: screen.width, height: screen.height }}
+            businessId={business.id}
+          />
+        )
+        : <p>Unknown template: {content.template_id}</p>}
+
+      <p>
+        <a href={baseUrl}>{isDraft ? "Edit Draft" : "Edit"}</a>
+      </p>
+      {isDraft && (
+        <p>
+          <form class="inline" method="POST" action={`${baseUrl}/publish`}>
+            <input type="hidden" name="csrf_token" value={session.csrfToken} />
+            <button type="submit">Publish Draft</button>
+          </form>
+          {" "}
+          <form class="inline" method="POST" action={`${baseUrl}/draft/discard`}>
+            <input type="hidden" name="csrf_token" value={session.csrfToken} />
+            <button type="submit" class="secondary">Discard Draft</button>
+          </form>
+        </p>
+      )}
+    </Layout>,
+  );
+};
@@ -109,7 +109,7 @@ export const userProductListPage = (
   );
 
 /** Media option for the image picker */
-interface MediaOption {
+export interface MediaOption {
   mediaId: number;
   name: string;
 }
@@ -0,0 +1,163 @@
+/**
+ * Publish history page templates
+ *
+ * Every menu screen change rebuilds Xibo layouts, campaigns and
+ * schedules as one publish attempt. These pages list recent attempts
+ * so users can see when a screen last updated and why a publish failed.
+ * Successful publishes with a snapshot can be rolled back to.
+ */
+
+import type { PublishAttempt } from "#lib/db/publish-attempts.ts";
+import type { AdminSession } from "#lib/types.ts";
+import type { DisplayBusiness } from "#lib/db/businesses.ts";
+import type { DisplayScreen } from "#lib/db/screens.ts";
+import { Layout } from "#templates/layout.tsx";
+import { UserBreadcrumb, UserNav } from "#templates/user/nav.tsx";
+
+/** Human-readable publish status */
+const STATUS_LABELS: Record<string, string> = {
+  started: "In progress",
+  success: "Published",
+  failed: "Failed",
+};
+
+/** Format an ISO timestamp as "YYYY-MM-DD HH:MM:SS UTC" */
+const formatTimestamp = (iso: string): string =>
+  `${iso.slice(0, 19).replace("T", " ")} UTC`;
+
+/** Format a duration in milliseconds, or a dash while still running */
+const formatDuration = (ms: number | null): string =>
+  ms === null ? "—" : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+/** Status cell, highlighting failures */
+const StatusCell = ({ status }: { status: string }): JSX.Element => (
+  <td>
+    {status === "failed"
+      ? <strong class="error">{STATUS_LABELS[status]}</strong>
+      : STATUS_LABELS[status] ?? status}
+  </td>
+);
+
+/** Rollback options for a single screen's history */
+type RollbackProps = {
+  csrfToken: string;
+  baseUrl: string;
+  snapshotIds: Set<number>;
+};
+
+/** Roll back form for attempts with a snapshot, with an optional reason */
+const RollbackCell = (
+  { attempt, rollback }: { attempt: PublishAttempt; rollback: RollbackProps },
+): JSX.Element => (
+  <td>
+    {rollback.snapshotIds.has(attempt.id) && (
+      <form
+        class="inline"
+        method="POST"
+        action={`${rollback.baseUrl}/${attempt.id}/rollback`}
+      >
+        <input type="hidden" name="csrf_token" value={rollback.csrfToken} />
+        <input type="text" name="reason" placeholder="Reason (optional)" />
+        <button type="submit">Roll back to this version</button>
+      </form>
+    )}
+  </td>
+);
+
+/**
+ * Publish attempts table. Pass screenNames to add a Screen column
+ * (used by the business-wide history), or rollback to add rollback forms.
+ */
+const PublishHistoryTable = (
+  { attempts, screenNames, rollback }: {
+    attempts: PublishAttempt[];
+    screenNames?: Record<number, string>;
+    rollback?: RollbackProps;
+  },
+): JSX.Element =>
+  attempts.length === 0
+    ? <p>No publishes recorded yet.</p>
+    : (
+      <div class="table-scroll">
+        <table>
+          <thead>
+            <tr>
+              <th>Started</th>
+              {screenNames && <th>Screen</th>}
+              <th>Status</th>
+              <th>Duration</th>
+              <th>Error</th>
+              {rollback && <th>Rollback</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {attempts.map((a) => (
+              <tr>
+                <td>{formatTimestamp(a.created)}</td>
+                {screenNames && (
+                  <td>{screenNames[a.screen_id] ?? `Screen #${a.screen_id}`}</td>
+                )}
+                <StatusCell status={a.status} />
+                <td>{formatDuration(a.duration_ms)}</td>
+                <td>{a.error_detail ?? ""}</td>
+                {rollback && <RollbackCell attempt={a} rollback={rollback} />}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+
+/**
+ * Publish history for a single screen, with rollback to snapshotted publishes
+ */
+export const userScreenPublishHistoryPage = (
+  session: AdminSession,
+  business: DisplayBusiness,
+  screen: DisplayScreen,
+  attempts: PublishAttempt[],
+  snapshotIds: Set<number>,
+  success?: string,
+  error?: string,
+): string =>
+  String(
+    <Layout title={`Publish History - ${screen.name}`}>
+      <UserNav session={session} />
+      <UserBreadcrumb
+        href={`/dashboard/business/${business.id}/screen/${screen.id}/menus`}
+        label="Menu Screens"
+      />
+      <h1>Publish History - {screen.name}</h1>
+      {success && <div class="success">{success}</div>}
+      {error && <div class="error">{error}</div>}
+      <PublishHistoryTable
+        attempts={attempts}
+        rollback={{
+          csrfToken: session.csrfToken,
+          baseUrl: `/dashboard/business/${business.id}/screen/${screen.id}/publishes`,
+          snapshotIds,
+        }}
+      />
+    </Layout>,
+  );
+
+/**
+ * Publish history across all of a business's screens
+ */
+export const userBusinessPublishHistoryPage = (
+  session: AdminSession,
+  business: DisplayBusiness,
+  attempts: PublishAttempt[],
+  screenNames: Record<number, string>,
+): string =>
+  String(
+    <Layout title={`Publish History - ${business.name}`}>
+      <UserNav session={session} />
+      <UserBreadcrumb
+        href={`/dashboard/business/${business.id}`}
+        label={business.name}
+      />
+      <h1>Publish History - {business.name}</h1>
+      <PublishHistoryTable attempts={attempts} screenNames={screenNames} />
+    </Layout>,
+  );
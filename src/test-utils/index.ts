@@ -4,13 +4,15 @@
 
 import { type Client, createClient } from "@libsql/client";
 import { setDb } from "#lib/db/client.ts";
-import { initDb, LATEST_UPDATE } from "#lib/db/migrations/index.ts";
+import { initDb, LATEST_UPDATE, seedLayoutTemplates } from "#lib/db/migrations/index.ts";
 import { getSession, resetSessionCache } from "#lib/db/sessions.ts";
 import {
   clearSetupCompleteCache,
   completeSetup,
   invalidateSettingsCache,
 } from "#lib/db/settings.ts";
+import { invalidateXiboStateCache } from "#lib/db/xibo-state.ts";
+import { resetXiboLimiters } from "#xibo/limiter.ts";
 import { resetAuthSessionCache } from "#routes/utils.ts";
 
 // Re-export crypto helpers (no db dependency)
@@ -70,10 +72,12 @@ const prepareTestClient = async (): Promise<{ reused: boolean }> => {
   clearSetupCompleteCache();
   resetSessionCache();
   resetAuthSessionCache();
+  invalidateXiboStateCache();
 
   if (cachedClient && await isSchemaIntact(cachedClient)) {
     setDb(cachedClient);
     await clearDataTables(cachedClient);
+    await seedLayoutTemplates();
     return { reused: true };
   }
 
@@ -152,6 +156,8 @@ export const resetDb = (): void => {
   invalidateSettingsCache();
   resetSessionCache();
   resetAuthSessionCache();
+  invalidateXiboStateCache();
+  resetXiboLimiters();
 };
 
 /**
@@ -417,6 +423,13 @@ export {
   tokenResponse,
 } from "#test-utils/xibo-fetch.ts";
 
+export {
+  createXiboSimulator,
+  installXiboSimulator,
+  SIMULATOR_API_URL,
+  type XiboSimulator,
+} from "#test-utils/xibo-simulator.ts";
+
 import { expect } from "#test-compat";
 
 /** Assert a Response has the given status code. */
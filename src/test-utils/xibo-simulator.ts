@@ -0,0 +1,827 @@
+/**
+ * In-memory Xibo CMS simulator for tests and local demos.
+ *
+ * Unlike the per-test handlers in xibo-fetch.ts, the simulator keeps
+ * state: a layout created through it can be listed, published, checked
+ * out and edited as a draft, put in a campaign and scheduled.  As in
+ * Xibo, publishing a draft replaces the layout under the draft's ID.
+ * It covers the API the app uses — OAuth, folders, library, datasets,
+ * resolutions, layouts with their regions and widgets, campaigns,
+ * schedules, displays (with screenshots), display groups and menu
+ * boards — with Xibo's paging (start/length and X-Total-Count) and list
+ * filters.
+ *
+ *   const sim = createXiboSimulator();
+ *   const { restore } = installXiboSimulator(sim);
+ *   // ... use SIMULATOR_API_URL as the CMS URL ...
+ *   restore();
+ *
+ * Tests can seed or inspect `sim.state` directly.  Setting `sim.offline`
+ * makes every request fail as a network error, for outage demos.
+ * The dev server runs against it with XIBO_SIMULATOR=1.
+ */
+
+import { nowMs } from "#lib/now.ts";
+import { buildFolderTree } from "#xibo/media.ts";
+import type {
+  XiboCampaign,
+  XiboCategory,
+  XiboDataset,
+  XiboDatasetRow,
+  XiboDisplay,
+  XiboDisplayGroup,
+  XiboLayout,
+  XiboLayoutWidget,
+  XiboMedia,
+  XiboMenuBoard,
+  XiboProduct,
+  XiboRegion,
+  XiboResolution,
+  XiboSchedule,
+  XiboWidget,
+} from "#xibo/types.ts";
+import { createRouter, type RouteParams } from "#routes/router.ts";
+
+/** CMS URL the simulator answers on */
+export const SIMULATOR_API_URL = "http://xibo-simulator.localhost";
+
+/** CMS version the simulator reports */
+export const SIMULATOR_VERSION = "4.1.0-simulator";
+
+/** Folder, as stored flat (the API returns a tree) */
+export type SimFolder = { folderId: number; text: string; parentId: number | null };
+
+/** Library item with its file */
+export type SimMedia = XiboMedia & { file: Blob };
+
+/** Layout; a checked-out draft names the layout it was taken from */
+export type SimLayout = XiboLayout & { parentId: number | null };
+
+/** Region with the layout it sits on */
+export type SimRegion = XiboRegion & { layoutId: number };
+
+/** Widget with its region and the options it was given */
+export type SimWidget = XiboWidget & { regionId: number; options: Record<string, unknown> };
+
+/** Campaign with its layouts in display order */
+export type SimCampaign = XiboCampaign & { layoutIds: number[] };
+
+/** Display group with its member displays */
+export type SimDisplayGroup = XiboDisplayGroup & { displayIds: number[] };
+
+/** A display's screenshot and when it was captured (epoch ms) */
+export type SimScreenshot = { file: Blob; capturedAt: number };
+
+/** Everything the simulated CMS holds */
+export type XiboSimulatorState = {
+  tokens: Set<string>;
+  folders: SimFolder[];
+  media: SimMedia[];
+  datasets: XiboDataset[];
+  /** Rows by dataset ID, keyed by column heading plus "id" */
+  datasetRows: Map<number, XiboDatasetRow[]>;
+  resolutions: XiboResolution[];
+  layouts: SimLayout[];
+  regions: SimRegion[];
+  widgets: SimWidget[];
+  campaigns: SimCampaign[];
+  schedules: XiboSchedule[];
+  displays: XiboDisplay[];
+  displayGroups: SimDisplayGroup[];
+  /** Latest screenshot by display ID */
+  screenshots: Map<number, SimScreenshot>;
+  menuBoards: XiboMenuBoard[];
+  categories: XiboCategory[];
+  products: XiboProduct[];
+};
+
+/** Simulator options */
+export type XiboSimulatorOptions = {
+  apiUrl?: string;
+  /** Only these credentials are accepted when given; otherwise any are */
+  clientId?: string;
+  clientSecret?: string;
+};
+
+/** A running simulator */
+export type XiboSimulator = {
+  apiUrl: string;
+  state: XiboSimulatorState;
+  /** When true, every request fails as if the CMS were unreachable */
+  offline: boolean;
+  handle: (request: Request) => Promise<Response>;
+};
+
+/** A parsed request, as seen by a simulator route */
+type SimRequest = {
+  params: RouteParams;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  form: FormData | null;
+};
+
+type SimRoute = (req: SimRequest) => Response | Promise<Response>;
+
+/** JSON response, with Xibo's list total when given */
+const json = (data: unknown, status = 200, total?: number): Response =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "content-type": "application/json",
+      ...(total === undefined ? {} : { "X-Total-Count": String(total) }),
+    },
+  });
+
+/** Xibo-style error response */
+const apiError = (status: number, message: string): Response =>
+  json({ error: { message, code: status } }, status);
+
+const noContent = (): Response => new Response(null, { status: 204 });
+
+/** Parse an ID list query value, e.g. "[1,2]" */
+const parseIds = (value: string): number[] =>
+  value.replace(/[[\]]/g, "").split(",").map(Number);
+
+/**
+ * Whether an item matches every query filter that names one of its
+ * fields.  Array fields (displayGroupIds) match on any shared ID; other
+ * params (start, length) are ignored.
+ */
+const matchesQuery = (query: URLSearchParams) => (item: object): boolean =>
+  [...query].every(([key, value]) => {
+    const field = (item as Record<string, unknown>)[key];
+    if (Array.isArray(field)) return parseIds(value).some((id) => field.includes(id));
+    return field === undefined || String(field) === value;
+  });
+
+/** Filtered page of a list, with the filtered total */
+const page = <T extends object>(items: T[], query: URLSearchParams): Response => {
+  const matching = items.filter(matchesQuery(query));
+  const start = Number(query.get("start") ?? 0);
+  const length = Number(query.get("length") ?? matching.length);
+  return json(matching.slice(start, start + length), 200, matching.length);
+};
+
+/** Read a request's body, whatever its encoding */
+const readBody = async (
+  request: Request,
+): Promise<Pick<SimRequest, "body" | "form">> => {
+  const type = request.headers.get("content-type") ?? "";
+  if (type.includes("application/json")) return { body: await request.json(), form: null };
+  if (type.includes("multipart/form-data")) {
+    const form = await request.formData();
+    return { body: Object.fromEntries(form), form };
+  }
+  const text = await request.text();
+  return { body: Object.fromEntries(new URLSearchParams(text)), form: null };
+};
+
+/**
+ * Query of a request URL.  The client appends params to endpoints that
+ * already carry a query, giving "campaign?campaignId=1?start=0", so any
+ * later "?" is read as "&".
+ */
+const readQuery = (url: URL): URLSearchParams =>
+  new URLSearchParams(url.search.slice(1).replaceAll("?", "&"));
+
+/** Library media type for an uploaded file */
+const mediaTypeOf = (contentType: string): string =>
+  contentType.startsWith("image/")
+    ? "image"
+    : contentType.startsWith("video/")
+    ? "video"
+    : "genericfile";
+
+/** A library item without its file, as the API lists it */
+const toMedia = ({ file: _, ...media }: SimMedia): XiboMedia => media;
+
+/** Seconds Xibo plays a widget that doesn't set its own duration */
+const MODULE_DURATION = 10;
+
+/** A widget's timing, and the options it was given besides */
+type WidgetTiming = Pick<XiboWidget, "duration" | "useDuration"> & { options: Record<string, unknown> };
+
+/**
+ * Split a widget body into its timing and its other options, keeping
+ * the current timing for fields not given.  A widget plays the module's
+ * default duration unless useDuration is 1.
+ */
+const widgetTiming = (
+  { duration, useDuration, ...options }: Record<string, unknown>,
+  current: Pick<XiboWidget, "duration" | "useDuration"> = { duration: MODULE_DURATION, useDuration: 0 },
+): WidgetTiming => {
+  const use = Number(useDuration ?? current.useDuration);
+  return { options, useDuration: use, duration: use === 1 ? Number(duration ?? current.duration) : MODULE_DURATION };
+};
+
+/** A widget as a layout read embeds it: options as strings, image media as IDs */
+const toLayoutWidget = ({ regionId: _, options, ...widget }: SimWidget): XiboLayoutWidget => ({
+  ...widget,
+  widgetOptions: Object.entries(options).map(([option, value]) => ({ option, value: String(value) })),
+  mediaIds: widget.type === "image" ? [Number(options.mediaId)] : [],
+});
+
+/** A row's values from a body, for the dataset columns it names */
+const rowFields = (dataset: XiboDataset, body: Record<string, unknown>): XiboDatasetRow =>
+  Object.fromEntries(
+    dataset.columns
+      .filter((c) => c.heading in body)
+      .map((c) => [c.heading, body[c.heading] as XiboDatasetRow[string]]),
+  );
+
+/** Fresh state: a root folder, a landscape resolution and two displays */
+const initialState = (): XiboSimulatorState => ({
+  tokens: new Set(),
+  folders: [{ folderId: 1, text: "Root", parentId: null }],
+  media: [],
+  datasets: [],
+  datasetRows: new Map(),
+  resolutions: [{ resolutionId: 2, resolution: "1080p HD Landscape", width: 1920, height: 1080 }],
+  layouts: [],
+  regions: [],
+  widgets: [],
+  campaigns: [],
+  schedules: [],
+  displays: [3, 4].map((displayId, i) => ({
+    displayId,
+    display: i === 0 ? "Lobby Display" : "Counter Display",
+    description: "",
+    licensed: 1,
+    defaultLayoutId: 0,
+    resolution: "1080x1920",
+    loggedIn: 1,
+    lastAccessed: null,
+    currentLayoutId: null,
+    clientVersion: "4 R406",
+  })),
+  displayGroups: [],
+  screenshots: new Map(),
+  menuBoards: [],
+  categories: [],
+  products: [],
+});
+
+/** A 1x1 PNG standing in for a display's screenshot */
+const SCREENSHOT_PNG = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="),
+  (c) => c.charCodeAt(0),
+);
+
+/** First ID the simulator hands out, clear of the seeded rows */
+const FIRST_ID = 100;
+
+/**
+ * Create a simulated Xibo CMS.  Nothing is intercepted until it is
+ * installed with installXiboSimulator.
+ */
+export const createXiboSimulator = (
+  options: XiboSimulatorOptions = {},
+): XiboSimulator => {
+  const state = initialState();
+  let lastId = FIRST_ID - 1;
+  const nextId = (): number => ++lastId;
+
+  /** Find an item by its ID field, or answer 404 */
+  const withItem = <T>(
+    items: T[],
+    key: keyof T,
+    id: string | undefined,
+    fn: (item: T) => Response,
+  ): Response => {
+    const item = items.find((i) => i[key] === Number(id));
+    return item ? fn(item) : apiError(404, `${String(key)} ${id} not found`);
+  };
+
+  /** Remove matching items, in place so held references stay valid */
+  const removeWhere = <T>(items: T[], predicate: (item: T) => boolean): void => {
+    items.splice(0, items.length, ...items.filter((i) => !predicate(i)));
+  };
+
+  /** Delete an item by its ID field, then anything that hangs off it */
+  const deleteRoute = <T>(
+    items: () => T[],
+    key: keyof T,
+    cascade: (id: number) => void = () => {},
+  ): SimRoute =>
+  ({ params }) =>
+    withItem(items(), key, params.id, (item) => {
+      items().splice(items().indexOf(item), 1);
+      cascade(Number(params.id));
+      return noContent();
+    });
+
+  /** Update an item's fields from the request body */
+  const updateRoute = <T>(
+    items: () => T[],
+    key: keyof T,
+    patch: (body: Record<string, unknown>, item: T) => Partial<T>,
+  ): SimRoute =>
+  ({ params, body }) =>
+    withItem(items(), key, params.id, (item) => json(Object.assign(item as object, patch(body, item))));
+
+  /** Route acting on the item a path param names, 404 when missing */
+  const itemRoute = <T>(
+    items: () => T[],
+    key: keyof T,
+    param: string,
+    fn: (item: T, req: SimRequest) => Response,
+  ): SimRoute =>
+  (req) => withItem(items(), key, req.params[param], (item) => fn(item, req));
+
+  const onDataset = (fn: (dataset: XiboDataset, req: SimRequest) => Response): SimRoute =>
+    itemRoute(() => state.datasets, "dataSetId", "id", fn);
+
+  const onLayout = (fn: (layout: SimLayout, req: SimRequest) => Response): SimRoute =>
+    itemRoute(() => state.layouts, "layoutId", "id", fn);
+
+  const onRegion = (fn: (region: SimRegion, req: SimRequest) => Response): SimRoute =>
+    itemRoute(() => state.regions, "regionId", "regionId", fn);
+
+  const onDisplayGroup = (fn: (group: SimDisplayGroup, req: SimRequest) => Response): SimRoute =>
+    itemRoute(() => state.displayGroups, "displayGroupId", "id", fn);
+
+  const rowsOf = (dataset: XiboDataset): XiboDatasetRow[] => state.datasetRows.get(dataset.dataSetId)!;
+
+  const created = <T>(items: T[], item: T): Response => {
+    items.push(item);
+    return json(item, 201);
+  };
+
+  const dropRegions = (layoutId: number): void => {
+    const regionIds = state.regions.filter((r) => r.layoutId === layoutId).map((r) => r.regionId);
+    removeWhere(state.regions, (r) => r.layoutId === layoutId);
+    removeWhere(state.widgets, (w) => regionIds.includes(w.regionId));
+  };
+
+  const dropLayout = (layoutId: number): void => {
+    dropRegions(layoutId);
+    for (const campaign of state.campaigns) {
+      campaign.layoutIds = campaign.layoutIds.filter((id) => id !== layoutId);
+    }
+  };
+
+  const addWidget = (regionId: number, type: string, body: Record<string, unknown>): SimWidget => {
+    const widget: SimWidget = {
+      widgetId: nextId(),
+      type,
+      displayOrder: state.widgets.filter((w) => w.regionId === regionId).length + 1,
+      regionId,
+      ...widgetTiming(body),
+    };
+    state.widgets.push(widget);
+    return widget;
+  };
+
+  /** Seconds a layout plays: its longest region, playing its widgets in turn */
+  const layoutDuration = (layoutId: number): number =>
+    Math.max(
+      0,
+      ...state.regions.filter((r) => r.layoutId === layoutId).map((region) =>
+        state.widgets.filter((w) => w.regionId === region.regionId).reduce((total, w) => total + w.duration, 0)
+      ),
+    );
+
+  /** A campaign as the API reads it: its total is its layouts' durations */
+  const toCampaign = (campaign: SimCampaign): SimCampaign => ({
+    ...campaign,
+    totalDuration: campaign.layoutIds.reduce(
+      (total, id) => total + (state.layouts.find((l) => l.layoutId === id)?.duration ?? 0),
+      0,
+    ),
+  });
+
+  const draftOf = (layout: SimLayout): SimLayout | undefined =>
+    state.layouts.find((l) => l.parentId === layout.layoutId);
+
+  /** A layout with its regions and their widgets embedded */
+  const withRegions = (layout: SimLayout): SimLayout => ({
+    ...layout,
+    regions: state.regions
+      .filter((r) => r.layoutId === layout.layoutId)
+      .map(({ layoutId: _, ...region }) => ({
+        ...region,
+        regionPlaylist: {
+          widgets: state.widgets.filter((w) => w.regionId === region.regionId).map(toLayoutWidget),
+        },
+      })),
+  });
+
+  /** Copy a layout's regions and widgets onto its new draft */
+  const copyRegions = (fromId: number, toId: number): void => {
+    for (const region of state.regions.filter((r) => r.layoutId === fromId)) {
+      const regionId = nextId();
+      state.regions.push({ ...region, regionId, layoutId: toId });
+      for (const widget of state.widgets.filter((w) => w.regionId === region.regionId)) {
+        state.widgets.push({ ...widget, widgetId: nextId(), regionId, options: { ...widget.options } });
+      }
+    }
+  };
+
+  /**
+   * Publish a layout's draft as Xibo does: the draft becomes the layout
+   * under its own ID, keeping the layout's campaign and taking its place
+   * in other campaigns, and the layout is deleted.
+   */
+  const promoteDraft = (layout: SimLayout, draft: SimLayout): SimLayout => {
+    dropRegions(layout.layoutId);
+    for (const campaign of state.campaigns) {
+      campaign.layoutIds = campaign.layoutIds.map((id) => id === layout.layoutId ? draft.layoutId : id);
+    }
+    removeWhere(state.layouts, (l) => l === layout);
+    return Object.assign(draft, { parentId: null });
+  };
+
+  const routes: Record<string, SimRoute> = {
+    "GET /api/about": () => json({ version: SIMULATOR_VERSION, sourceUrl: "" }),
+
+    "GET /api/folders": () =>
+      json(buildFolderTree(state.folders.map((f) => ({ id: f.folderId, text: f.text, parentId: f.parentId })))),
+    "POST /api/folders": ({ body }) =>
+      created(state.folders, {
+        folderId: nextId(),
+        text: String(body.text),
+        parentId: Number(body.parentId ?? 1),
+      }),
+
+    "GET /api/library": ({ query }) => page(state.media.map(toMedia), query),
+    "POST /api/library": ({ form }) => {
+      const file = form?.get("files");
+      if (!(file instanceof File)) return apiError(422, "No file uploaded");
+      const mediaId = nextId();
+      const media: SimMedia = {
+        mediaId,
+        name: String(form!.get("name") ?? file.name),
+        mediaType: mediaTypeOf(file.type),
+        storedAs: `${mediaId}.${file.name.split(".").pop()}`,
+        fileSize: file.size,
+        duration: 10,
+        tags: "",
+        folderId: Number(form!.get("folderId") ?? 1),
+        file,
+      };
+      state.media.push(media);
+      return json(toMedia(media), 201);
+    },
+    "GET /api/library/download/:id": ({ params }) => {
+      const media = state.media.find((m) => m.mediaId === Number(params.id));
+      return media
+        ? new Response(media.file, { headers: { "content-type": media.file.type } })
+        : apiError(404, `mediaId ${params.id} not found`);
+    },
+    "DELETE /api/library/:id": deleteRoute(() => state.media, "mediaId"),
+
+    "GET /api/dataset": ({ query }) => page(state.datasets, query),
+    "POST /api/dataset": ({ body }) => {
+      const dataSetId = nextId();
+      state.datasetRows.set(dataSetId, []);
+      return created(state.datasets, {
+        dataSetId,
+        dataSet: String(body.dataSet),
+        description: String(body.description ?? ""),
+        code: String(body.code ?? ""),
+        columnCount: 0,
+        columns: [],
+      });
+    },
+    "GET /api/dataset/:id/column": onDataset((dataset) => json(dataset.columns)),
+    "POST /api/dataset/:id/column": onDataset((dataset, { body }) => {
+      dataset.columnCount++;
+      return created(dataset.columns, {
+        dataSetColumnId: nextId(),
+        heading: String(body.heading),
+        dataTypeId: Number(body.dataTypeId ?? 1),
+        dataSetColumnTypeId: Number(body.dataSetColumnTypeId ?? 1),
+        listContent: "",
+        columnOrder: Number(body.columnOrder ?? dataset.columnCount),
+      });
+    }),
+    "GET /api/dataset/data/:id": onDataset((dataset, { query }) => page(rowsOf(dataset), query)),
+    "POST /api/dataset/data/:id": onDataset((dataset, { body }) =>
+      created(rowsOf(dataset), { id: nextId(), ...rowFields(dataset, body) })
+    ),
+    "PUT /api/dataset/data/:id/:rowId": onDataset((dataset, { params, body }) =>
+      withItem(rowsOf(dataset), "id", params.rowId, (row) => json(Object.assign(row, rowFields(dataset, body))))
+    ),
+    "DELETE /api/dataset/data/:id/:rowId": onDataset((dataset, { params }) =>
+      withItem(rowsOf(dataset), "id", params.rowId, (row) => {
+        rowsOf(dataset).splice(rowsOf(dataset).indexOf(row), 1);
+        return noContent();
+      })
+    ),
+
+    "GET /api/resolution": ({ query }) => page(state.resolutions, query),
+    "POST /api/resolution": ({ body }) =>
+      created(state.resolutions, {
+        resolutionId: nextId(),
+        resolution: String(body.resolution),
+        width: Number(body.width),
+        height: Number(body.height),
+      }),
+
+    // Drafts are only listed by their parent's ID, as in Xibo
+    "GET /api/layout": ({ query }) => {
+      const layouts = state.layouts.filter((l) => query.has("parentId") || l.parentId === null);
+      return page(query.get("embed")?.includes("regions") ? layouts.map(withRegions) : layouts, query);
+    },
+    "POST /api/layout": ({ body }) =>
+      withItem(state.resolutions, "resolutionId", String(body.resolutionId), (resolution) =>
+        created(state.layouts, {
+          layoutId: nextId(),
+          campaignId: nextId(),
+          layout: String(body.name),
+          description: String(body.description ?? ""),
+          status: 1,
+          width: resolution.width,
+          height: resolution.height,
+          publishedStatusId: 2,
+          duration: 0,
+          parentId: null,
+        })),
+    "PUT /api/layout/:id": updateRoute(() => state.layouts, "layoutId", (body, layout) => ({
+      layout: String(body.name ?? layout.layout),
+      description: String(body.description ?? layout.description),
+    })),
+    "PUT /api/layout/checkout/:id": onLayout((layout) => {
+      if (layout.parentId !== null || draftOf(layout)) return apiError(422, "Layout is already checked out");
+      const draft: SimLayout = { ...layout, layoutId: nextId(), status: 1, publishedStatusId: 2, parentId: layout.layoutId };
+      state.layouts.push(draft);
+      copyRegions(layout.layoutId, draft.layoutId);
+      return json(draft);
+    }),
+    "PUT /api/layout/publish/:id": onLayout((layout) => {
+      const draft = draftOf(layout);
+      const published = draft ? promoteDraft(layout, draft) : layout;
+      return json(
+        Object.assign(published, { status: 3, publishedStatusId: 1, duration: layoutDuration(published.layoutId) }),
+      );
+    }),
+    "PUT /api/layout/discard/:id": onLayout((layout) => {
+      const draft = draftOf(layout);
+      if (!draft) return apiError(422, "Layout is not checked out");
+      dropRegions(draft.layoutId);
+      removeWhere(state.layouts, (l) => l === draft);
+      return json(Object.assign(layout, { publishedStatusId: 1 }));
+    }),
+    "DELETE /api/layout/:id": deleteRoute(() => state.layouts, "layoutId", dropLayout),
+    "POST /api/region/:layoutId": ({ params, body }) =>
+      withItem(state.layouts, "layoutId", params.layoutId, (layout) =>
+        created(state.regions, {
+          regionId: nextId(),
+          layoutId: layout.layoutId,
+          width: Number(body.width),
+          height: Number(body.height),
+          top: Number(body.top ?? 0),
+          left: Number(body.left ?? 0),
+          zIndex: Number(body.zIndex ?? 0),
+        })),
+    "DELETE /api/region/:id": deleteRoute(() => state.regions, "regionId", (regionId) =>
+      removeWhere(state.widgets, (w) => w.regionId === regionId)),
+    "POST /api/playlist/widget/:type/:regionId": onRegion((region, { params, body }) =>
+      json(addWidget(region.regionId, params.type!, body), 201)
+    ),
+    "PUT /api/playlist/widget/:widgetId": itemRoute(() => state.widgets, "widgetId", "widgetId", (widget, { body }) => {
+      const { options, ...timing } = widgetTiming(body, widget);
+      return json(Object.assign(widget, timing, { options: { ...widget.options, ...options } }));
+    }),
+    "POST /api/playlist/library/assign/:regionId": onRegion((region, { body }) =>
+      json({
+        playlistId: region.regionId,
+        widgets: (body.media as number[]).map((mediaId) =>
+          addWidget(region.regionId, "image", { mediaId, duration: body.duration, useDuration: body.useDuration })
+        ),
+      }, 201)
+    ),
+
+    // embed=layouts lists each campaign's layouts in display order
+    "GET /api/campaign": ({ query }) =>
+      page(
+        query.get("embed")?.includes("layouts")
+          ? state.campaigns.map((c) => ({
+            ...toCampaign(c),
+            layouts: c.layoutIds.map((layoutId, i) => ({ layoutId, displayOrder: i + 1 })),
+          }))
+          : state.campaigns.map(toCampaign),
+        query,
+      ),
+    "POST /api/campaign": ({ body }) =>
+      created(state.campaigns, {
+        campaignId: nextId(),
+        campaign: String(body.name),
+        isLayoutSpecific: 0,
+        totalDuration: 0,
+        layoutIds: [],
+      }),
+    // Saving a campaign only renames it; its layouts stay assigned
+    "PUT /api/campaign/:id": updateRoute(() => state.campaigns, "campaignId", (body) => ({
+      campaign: String(body.name),
+    })),
+    "DELETE /api/campaign/:id": deleteRoute(() => state.campaigns, "campaignId", (id) =>
+      removeWhere(state.schedules, (s) => s.campaignId === id)),
+    "POST /api/campaign/:id/layout/assign": ({ params, body }) =>
+      withItem(state.campaigns, "campaignId", params.id, (campaign) => {
+        const layoutIds = body.layoutId as number[];
+        const orders = (body.displayOrder ?? []) as number[];
+        layoutIds.forEach((layoutId, i) =>
+          campaign.layoutIds.splice((orders[i] ?? campaign.layoutIds.length + 1) - 1, 0, layoutId)
+        );
+        return json(campaign);
+      }),
+    "DELETE /api/campaign/:id/layout/remove": ({ params, query }) =>
+      withItem(state.campaigns, "campaignId", params.id, (campaign) => {
+        const index = Number(query.get("displayOrder")) - 1;
+        if (campaign.layoutIds[index] !== Number(query.get("layoutId"))) {
+          return apiError(404, "Layout not at that position in the campaign");
+        }
+        campaign.layoutIds.splice(index, 1);
+        return noContent();
+      }),
+
+    "GET /api/schedule": ({ query }) => page(state.schedules, query),
+    "POST /api/schedule": ({ body }) =>
+      withItem(state.campaigns, "campaignId", String(body.campaignId), (campaign) =>
+        created(state.schedules, {
+          ...body,
+          eventId: nextId(),
+          eventTypeId: Number(body.eventTypeId ?? 1),
+          campaignId: campaign.campaignId,
+          displayGroupIds: (body.displayGroupIds ?? []) as number[],
+          fromDt: (body.fromDt ?? null) as string | null,
+          toDt: (body.toDt ?? null) as string | null,
+          isPriority: Number(body.isPriority ?? 0),
+          recurrenceType: (body.recurrenceType ?? null) as string | null,
+          recurrenceRepeatsOn: (body.recurrenceRepeatsOn ?? null) as string | null,
+        })),
+    "DELETE /api/schedule/:id": deleteRoute(() => state.schedules, "eventId"),
+
+    "GET /api/display": ({ query }) => {
+      const groupId = query.get("displayGroupId");
+      const group = state.displayGroups.find((g) => String(g.displayGroupId) === groupId);
+      return page(
+        groupId === null ? state.displays : state.displays.filter((d) => group?.displayIds.includes(d.displayId)),
+        query,
+      );
+    },
+    // No player checks in here, so a requested screenshot is captured at once
+    "PUT /api/display/requestscreenshot/:id": ({ params }) =>
+      withItem(state.displays, "displayId", params.id, (display) => {
+        state.screenshots.set(display.displayId, {
+          file: new Blob([SCREENSHOT_PNG], { type: "image/png" }),
+          capturedAt: nowMs(),
+        });
+        return json(display);
+      }),
+    "GET /api/display/screenshot/:id": ({ params }) => {
+      const screenshot = state.screenshots.get(Number(params.id));
+      return screenshot
+        ? new Response(screenshot.file, {
+          headers: {
+            "content-type": screenshot.file.type,
+            "last-modified": new Date(screenshot.capturedAt).toUTCString(),
+          },
+        })
+        : apiError(404, `No screenshot for display ${params.id}`);
+    },
+
+    "GET /api/displaygroup": ({ query }) => page(state.displayGroups, query),
+    "POST /api/displaygroup": ({ body }) =>
+      state.displayGroups.some((g) => g.displayGroup === body.displayGroup)
+        ? apiError(409, `Display group ${String(body.displayGroup)} already exists`)
+        : created(state.displayGroups, {
+          displayGroupId: nextId(),
+          displayGroup: String(body.displayGroup),
+          isDynamic: Number(body.isDynamic ?? 0),
+          displayIds: [],
+        }),
+    // Deleting a group drops the events scheduled on it
+    "DELETE /api/displaygroup/:id": deleteRoute(() => state.displayGroups, "displayGroupId", (id) =>
+      removeWhere(state.schedules, (s) => s.displayGroupIds.includes(id))),
+    "POST /api/displaygroup/:id/display/assign": onDisplayGroup((group, { body }) => {
+      group.displayIds.push(...(body.displayId as number[]).filter((id) => !group.displayIds.includes(id)));
+      return noContent();
+    }),
+    "POST /api/displaygroup/:id/display/unassign": onDisplayGroup((group, { body }) => {
+      removeWhere(group.displayIds, (id) => (body.displayId as number[]).includes(id));
+      return noContent();
+    }),
+
+    "GET /api/menuboards": ({ query }) => page(state.menuBoards, query),
+    "POST /api/menuboard": ({ body }) =>
+      created(state.menuBoards, {
+        menuId: nextId(),
+        name: String(body.name),
+        code: String(body.code ?? ""),
+        description: String(body.description ?? ""),
+        modifiedDt: nowMs(),
+      }),
+    "PUT /api/menuboard/:id": updateRoute(() => state.menuBoards, "menuId", (body, board) => ({
+      name: String(body.name ?? board.name),
+      code: String(body.code ?? board.code),
+      description: String(body.description ?? board.description),
+      modifiedDt: nowMs(),
+    })),
+    "DELETE /api/menuboard/:id": deleteRoute(() => state.menuBoards, "menuId", (menuId) => {
+      const categoryIds = state.categories.filter((c) => c.menuId === menuId).map((c) => c.menuCategoryId);
+      removeWhere(state.categories, (c) => c.menuId === menuId);
+      removeWhere(state.products, (p) => categoryIds.includes(p.menuCategoryId));
+    }),
+    "GET /api/menuboard/:id/categories": ({ params, query }) =>
+      page(state.categories.filter((c) => c.menuId === Number(params.id)), query),
+    "POST /api/menuboard/:id/category": ({ params, body }) =>
+      withItem(state.menuBoards, "menuId", params.id, (board) =>
+        created(state.categories, {
+          menuCategoryId: nextId(),
+          menuId: board.menuId,
+          name: String(body.name),
+          code: String(body.code ?? ""),
+          mediaId: body.mediaId ? Number(body.mediaId) : null,
+        })),
+    "PUT /api/menuboard/:id/category": updateRoute(() => state.categories, "menuCategoryId", (body, category) => ({
+      name: String(body.name ?? category.name),
+      code: String(body.code ?? category.code),
+      mediaId: body.mediaId ? Number(body.mediaId) : null,
+    })),
+    "DELETE /api/menuboard/:id/category": deleteRoute(() => state.categories, "menuCategoryId", (id) =>
+      removeWhere(state.products, (p) => p.menuCategoryId === id)),
+    "GET /api/menuboard/:id/products": ({ params, query }) =>
+      page(state.products.filter((p) => p.menuCategoryId === Number(params.id)), query),
+    "POST /api/menuboard/:id/product": ({ params, body }) =>
+      withItem(state.categories, "menuCategoryId", params.id, (category) =>
+        created(state.products, {
+          ...productFields(body),
+          menuProductId: nextId(),
+          menuCategoryId: category.menuCategoryId,
+        })),
+    "PUT /api/menuboard/:id/product": updateRoute(() => state.products, "menuProductId", productFields),
+    "DELETE /api/menuboard/:id/product": deleteRoute(() => state.products, "menuProductId"),
+  };
+
+  const router = createRouter(
+    Object.fromEntries(
+      Object.entries(routes).map(([pattern, route]) => [
+        pattern,
+        async (request: Request, params: RouteParams) =>
+          route({ params, query: readQuery(new URL(request.url)), ...(await readBody(request)) }),
+      ]),
+    ),
+  );
+
+  /** Issue a token for valid client credentials */
+  const authorize = async (request: Request): Promise<Response> => {
+    const { body } = await readBody(request);
+    const rejected = (options.clientId !== undefined && body.client_id !== options.clientId) ||
+      (options.clientSecret !== undefined && body.client_secret !== options.clientSecret);
+    if (rejected) return json({ error: "invalid_client" }, 401);
+    const token = `sim-${crypto.randomUUID()}`;
+    state.tokens.add(token);
+    return json({ access_token: token, token_type: "Bearer", expires_in: 3600 });
+  };
+
+  const simulator: XiboSimulator = {
+    apiUrl: options.apiUrl ?? SIMULATOR_API_URL,
+    state,
+    offline: false,
+    handle: async (request) => {
+      if (simulator.offline) throw new TypeError("Xibo simulator is offline");
+      const url = new URL(request.url);
+      if (url.pathname === "/api/authorize/access_token") return authorize(request);
+
+      const token = request.headers.get("Authorization")?.replace(/^Bearer /, "");
+      if (!token || !state.tokens.has(token)) return apiError(401, "Access token is invalid");
+      return await router(request, url.pathname, request.method) ??
+        apiError(404, `No simulated route for ${request.method} ${url.pathname}`);
+    },
+  };
+  return simulator;
+};
+
+/** Product fields from a create or update body */
+const productFields = (body: Record<string, unknown>): Omit<XiboProduct, "menuProductId" | "menuCategoryId"> => ({
+  name: String(body.name),
+  price: String(body.price ?? ""),
+  description: String(body.description ?? ""),
+  calories: String(body.calories ?? ""),
+  allergyInfo: String(body.allergyInfo ?? ""),
+  availability: Number(body.availability ?? 1),
+  mediaId: body.mediaId ? Number(body.mediaId) : null,
+});
+
+/**
+ * Route fetches to the simulator's URL into it; everything else goes to
+ * the fetch that was in place.  Returns `{ restore }` to put that back.
+ */
+export const installXiboSimulator = (
+  simulator: XiboSimulator,
+): { restore: () => void } => {
+  const previousFetch = globalThis.fetch;
+  globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    return request.url.startsWith(`${simulator.apiUrl}/`)
+      ? simulator.handle(request)
+      : previousFetch(input, init);
+  }) as typeof globalThis.fetch;
+  return {
+    restore: () => {
+      globalThis.fetch = previousFetch;
+    },
+  };
+};
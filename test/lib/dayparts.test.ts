@@ -0,0 +1,88 @@
+import { describe, expect, test } from "#test-compat";
+import {
+  daypartKey,
+  formatDaypart,
+  isAlwaysActive,
+  validateDaypart,
+  validateTime,
+} from "#lib/dayparts.ts";
+
+const always = { active_days: null, active_from: null, active_to: null };
+
+describe("dayparts", () => {
+  describe("validateTime", () => {
+    test("accepts 24-hour HH:MM times", () => {
+      expect(validateTime("00:00")).toBeNull();
+      expect(validateTime("07:30")).toBeNull();
+      expect(validateTime("23:59")).toBeNull();
+    });
+
+    test("rejects malformed or out-of-range times", () => {
+      expect(validateTime("7:30")).toBe("Times must be in HH:MM format");
+      expect(validateTime("24:00")).toBe("Times must be in HH:MM format");
+      expect(validateTime("12:60")).toBe("Times must be in HH:MM format");
+      expect(validateTime("noon")).toBe("Times must be in HH:MM format");
+    });
+  });
+
+  describe("validateDaypart", () => {
+    test("accepts always, days only, and full hour ranges", () => {
+      expect(validateDaypart(always)).toBeNull();
+      expect(validateDaypart({ ...always, active_days: "6,7" })).toBeNull();
+      expect(validateDaypart({ ...always, active_from: "22:00", active_to: "02:00" })).toBeNull();
+    });
+
+    test("rejects days other than comma lists of ISO weekday numbers", () => {
+      for (const active_days of ["0", "8", "6,", "Sat"]) {
+        expect(validateDaypart({ ...always, active_days })).toBe("Active days must be weekdays");
+      }
+      expect(validateDaypart({ ...always, active_days: "1,2,3,4,5,6,7" })).toBeNull();
+    });
+
+    test("rejects a start time without an end time", () => {
+      expect(validateDaypart({ ...always, active_from: "07:00" }))
+        .toBe("Set both a start and end time, or neither");
+      expect(validateDaypart({ ...always, active_to: "11:00" }))
+        .toBe("Set both a start and end time, or neither");
+    });
+
+    test("rejects an empty hour range", () => {
+      expect(validateDaypart({ ...always, active_from: "07:00", active_to: "07:00" }))
+        .toBe("Start and end times must differ");
+    });
+  });
+
+  describe("isAlwaysActive", () => {
+    test("is true only when no days or hours are set", () => {
+      expect(isAlwaysActive(always)).toBe(true);
+      expect(isAlwaysActive({ ...always, active_days: "1" })).toBe(false);
+      expect(isAlwaysActive({ ...always, active_from: "07:00", active_to: "11:00" })).toBe(false);
+    });
+  });
+
+  describe("daypartKey", () => {
+    test("is equal for equal dayparts and differs otherwise", () => {
+      const breakfast = { active_days: "1,2", active_from: "07:00", active_to: "11:00" };
+      expect(daypartKey(breakfast)).toBe(daypartKey({ ...breakfast }));
+      expect(daypartKey(breakfast)).not.toBe(daypartKey({ ...breakfast, active_to: "12:00" }));
+      expect(daypartKey(always)).not.toBe(daypartKey(breakfast));
+    });
+  });
+
+  describe("formatDaypart", () => {
+    test("formats always-active as Always", () => {
+      expect(formatDaypart(always)).toBe("Always");
+    });
+
+    test("formats days and hours", () => {
+      expect(formatDaypart({ active_days: "1,3,5", active_from: "07:00", active_to: "11:00" }))
+        .toBe("Mon, Wed, Fri 07:00–11:00");
+    });
+
+    test("formats days only and hours only", () => {
+      expect(formatDaypart({ ...always, active_days: "6,7" })).toBe("Sat, Sun");
+      expect(formatDaypart({ ...always, active_from: "17:00", active_to: "22:00" }))
+        .toBe("17:00–22:00");
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import { createTestDb, resetDb } from "#test-utils";
+import {
+  createLayoutTemplate,
+  getLayoutTemplate,
+  getLayoutTemplates,
+  type LayoutTemplate,
+  updateLayoutTemplate,
+} from "#lib/db/layout-templates.ts";
+import { BUILTIN_TEMPLATES } from "#lib/templates/builtin.ts";
+
+const template: LayoutTemplate = {
+  id: "grid-2x2",
+  name: "2x2 Grid",
+  description: "Four big tiles",
+  maxProducts: 4,
+  definition: {
+    header: null,
+    slots: [{ type: "products", top: 0, left: 0, width: 1, height: 1, cols: 2, rows: 2 }],
+  },
+};
+
+describe("layout templates", () => {
+  beforeEach(async () => {
+    await createTestDb();
+  });
+
+  afterEach(() => {
+    resetDb();
+  });
+
+  it("seeds the built-in templates", async () => {
+    expect(await getLayoutTemplates()).toEqual(BUILTIN_TEMPLATES);
+  });
+
+  it("round-trips a new template after the built-ins", async () => {
+    await createLayoutTemplate(template);
+
+    expect(await getLayoutTemplate("grid-2x2")).toEqual(template);
+    expect((await getLayoutTemplates()).at(-1)).toEqual(template);
+  });
+
+  it("returns null for an unknown template", async () => {
+    expect(await getLayoutTemplate("nonexistent")).toBeNull();
+  });
+
+  it("keeps an existing template when creating one with the same ID", async () => {
+    await createLayoutTemplate(template);
+    await createLayoutTemplate({ ...template, name: "Replacement" });
+
+    expect((await getLayoutTemplate("grid-2x2"))!.name).toBe("2x2 Grid");
+  });
+
+  it("updates a template's fields and definition", async () => {
+    await createLayoutTemplate(template);
+    const updated = {
+      ...template,
+      name: "Big Grid",
+      maxProducts: 2,
+      definition: { ...template.definition, header: { top: 0, left: 0, width: 1, height: 0.1, text: "Hi" } },
+    };
+    await updateLayoutTemplate(updated);
+
+    expect(await getLayoutTemplate("grid-2x2")).toEqual(updated);
+  });
+});
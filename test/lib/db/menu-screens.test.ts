@@ -12,16 +12,21 @@ import {
   test,
 } from "#test-compat";
 import {
+  clearMenuScreenDraft,
   createMenuScreen,
   deleteMenuScreen,
+  getLiveMenuScreenContent,
   getMenuScreenById,
+  getMenuScreenDraft,
   getMenuScreenItems,
+  getMenuScreensForProduct,
   getMenuScreensForScreen,
+  saveMenuScreenDraft,
   setMenuScreenItems,
   toDisplayMenuScreen,
   updateMenuScreen,
   updateMenuScreenCampaignId,
-  updateMenuScreenLayoutId,
+  updateMenuScreenLayout,
 } from "#lib/db/menu-screens.ts";
 import { createBusiness } from "#lib/db/businesses.ts";
 import { createScreen } from "#lib/db/screens.ts";
@@ -32,11 +37,13 @@ import {
 
 describe("menu screen DB operations", () => {
   let screenId: number;
+  let businessId: number;
 
   beforeEach(async () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     const biz = await createBusiness("Test Cafe");
+    businessId = biz.id;
     const screen = await createScreen("Main Display", biz.id, null);
     screenId = screen.id;
   });
@@ -66,6 +73,23 @@ describe("menu screen DB operations", () => {
       expect(ms1.id).toBe(1);
       expect(ms2.id).toBe(2);
     });
+
+    test("defaults to always active and stores a daypart when given", async () => {
+      const always = await createMenuScreen("All Day", screenId, "grid-3x4", 20, 0);
+      expect(always.active_days).toBeNull();
+      expect(always.active_from).toBeNull();
+      expect(always.active_to).toBeNull();
+
+      const breakfast = await createMenuScreen("Breakfast", screenId, "list-6", 20, 1, {
+        active_days: "1,2,3,4,5",
+        active_from: "07:00",
+        active_to: "11:00",
+      });
+      const found = await getMenuScreenById(breakfast.id);
+      expect(found!.active_days).toBe("1,2,3,4,5");
+      expect(found!.active_from).toBe("07:00");
+      expect(found!.active_to).toBe("11:00");
+    });
   });
 
   describe("getMenuScreenById", () => {
@@ -112,6 +136,24 @@ describe("menu screen DB operations", () => {
     });
   });
 
+  describe("getMenuScreensForProduct", () => {
+    test("returns the business's menu screens showing the product, across screens", async () => {
+      const other = await createScreen("Window", businessId, null);
+      const otherBiz = await createScreen("Elsewhere", (await createBusiness("Other Cafe")).id, null);
+      const windowMs = await createMenuScreen("Window Menu", other.id, "grid-3x4", 20, 0);
+      const mainMs = await createMenuScreen("Main Menu", screenId, "grid-3x4", 20, 1);
+      const unrelated = await createMenuScreen("Drinks", screenId, "list-6", 20, 0);
+      const foreign = await createMenuScreen("Other", otherBiz.id, "list-6", 20, 0);
+      await setMenuScreenItems(windowMs.id, [1, 7]);
+      await setMenuScreenItems(mainMs.id, [7]);
+      await setMenuScreenItems(unrelated.id, [2]);
+      await setMenuScreenItems(foreign.id, [7]);
+
+      const result = await getMenuScreensForProduct(businessId, 7);
+      expect(result.map((ms) => ms.id)).toEqual([mainMs.id, windowMs.id]);
+    });
+  });
+
   describe("updateMenuScreen", () => {
     test("updates editable fields", async () => {
       const ms = await createMenuScreen("Original", screenId, "grid-3x4", 20, 0);
@@ -126,15 +168,31 @@ describe("menu screen DB operations", () => {
       const display = await toDisplayMenuScreen(found!);
       expect(display.name).toBe("Updated");
     });
+
+    test("sets and clears the daypart", async () => {
+      const ms = await createMenuScreen("Dinner", screenId, "grid-3x4", 20, 0);
+      await updateMenuScreen(ms.id, "Dinner", "grid-3x4", 20, 0, {
+        active_days: null,
+        active_from: "17:00",
+        active_to: "22:00",
+      });
+      expect((await getMenuScreenById(ms.id))!.active_from).toBe("17:00");
+
+      await updateMenuScreen(ms.id, "Dinner", "grid-3x4", 20, 0);
+      const found = await getMenuScreenById(ms.id);
+      expect(found!.active_from).toBeNull();
+      expect(found!.active_to).toBeNull();
+    });
   });
 
-  describe("updateMenuScreenLayoutId", () => {
-    test("sets the Xibo layout ID", async () => {
+  describe("updateMenuScreenLayout", () => {
+    test("sets the Xibo layout ID and its campaign", async () => {
       const ms = await createMenuScreen("Layout Test", screenId, "grid-3x4", 20, 0);
-      await updateMenuScreenLayoutId(ms.id, 42);
+      await updateMenuScreenLayout(ms.id, { layoutId: 42, campaignId: 43 });
 
       const found = await getMenuScreenById(ms.id);
       expect(found!.xibo_layout_id).toBe(42);
+      expect(found!.xibo_layout_campaign_id).toBe(43);
     });
   });
 
@@ -235,4 +293,61 @@ describe("menu screen DB operations", () => {
       expect(display.created_at).toBeTruthy();
     });
   });
+
+  describe("drafts", () => {
+    const draft = {
+      name: "Evening Menu",
+      template_id: "list-6",
+      display_time: 45,
+      sort_order: 2,
+      active_days: "5,6",
+      active_from: "17:00",
+      active_to: "22:00",
+      product_row_ids: [3, 1],
+    };
+
+    test("new menu screens have no draft", async () => {
+      const ms = await createMenuScreen("Fresh", screenId, "grid-3x4", 20, 0);
+      expect(ms.draft).toBeNull();
+      expect(await getMenuScreenDraft(ms)).toBeNull();
+    });
+
+    test("saves an encrypted draft without changing the live state", async () => {
+      const ms = await createMenuScreen("Live Menu", screenId, "grid-3x4", 20, 0);
+      await setMenuScreenItems(ms.id, [1]);
+      await saveMenuScreenDraft(ms.id, draft);
+
+      const stored = await getMenuScreenById(ms.id);
+      expect(stored!.draft).not.toContain("Evening Menu");
+      expect(await getMenuScreenDraft(stored!)).toEqual(draft);
+      expect(stored!.template_id).toBe("grid-3x4");
+      expect((await getMenuScreenItems(ms.id)).map((i) => i.product_row_id)).toEqual([1]);
+    });
+
+    test("clearMenuScreenDraft discards the draft", async () => {
+      const ms = await createMenuScreen("Discard", screenId, "grid-3x4", 20, 0);
+      await saveMenuScreenDraft(ms.id, draft);
+      await clearMenuScreenDraft(ms.id);
+
+      expect((await getMenuScreenById(ms.id))!.draft).toBeNull();
+    });
+
+    test("getLiveMenuScreenContent returns the live fields and products", async () => {
+      const ms = await createMenuScreen("Live Menu", screenId, "grid-3x4", 20, 1);
+      await setMenuScreenItems(ms.id, [2, 4]);
+      await saveMenuScreenDraft(ms.id, draft);
+
+      const content = await getLiveMenuScreenContent(await toDisplayMenuScreen(ms));
+      expect(content).toEqual({
+        name: "Live Menu",
+        template_id: "grid-3x4",
+        display_time: 20,
+        sort_order: 1,
+        active_days: null,
+        active_from: null,
+        active_to: null,
+        product_row_ids: [2, 4],
+      });
+    });
+  });
 });
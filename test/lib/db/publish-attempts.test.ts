@@ -7,6 +7,7 @@ import {
   getPublishAttemptById,
   getPublishAttempts,
   getPublishAttemptsForScreen,
+  withPublishAttempt,
 } from "#lib/db/publish-attempts.ts";
 
 describe("publish attempts", () => {
@@ -59,6 +60,36 @@ describe("publish attempts", () => {
     });
   });
 
+  describe("withPublishAttempt", () => {
+    it("records a successful publish and returns its result", async () => {
+      const result = await withPublishAttempt(1, 10, 20, () => Promise.resolve(42));
+      expect(result).toBe(42);
+
+      const [attempt] = await getPublishAttemptsForScreen(20);
+      expect(attempt!.status).toBe("success");
+      expect(attempt!.duration_ms).toBeGreaterThanOrEqual(0);
+      expect(attempt!.error_detail).toBeNull();
+    });
+
+    it("passes the attempt ID to the publish operation", async () => {
+      const attemptId = await withPublishAttempt(1, 10, 20, (id) => Promise.resolve(id));
+
+      const [attempt] = await getPublishAttemptsForScreen(20);
+      expect(attemptId).toBe(attempt!.id);
+    });
+
+    it("records a failed publish and rethrows", async () => {
+      await expect(
+        withPublishAttempt(1, 10, 20, () => Promise.reject(new Error("Layout build failed"))),
+      ).rejects.toThrow("Layout build failed");
+
+      const [attempt] = await getPublishAttemptsForScreen(20);
+      expect(attempt!.status).toBe("failed");
+      expect(attempt!.error_detail).toBe("Layout build failed");
+      expect(attempt!.completed_at).not.toBeNull();
+    });
+  });
+
   describe("getPublishAttempts", () => {
     it("returns attempts for a business, most recent first", async () => {
       const id1 = await createPublishAttempt(1, 10, 20);
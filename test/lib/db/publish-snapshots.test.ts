@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import { createTestDb, resetDb } from "#test-utils";
+import { createPublishAttempt } from "#lib/db/publish-attempts.ts";
+import {
+  createPublishSnapshot,
+  getPublishSnapshot,
+  getSnapshotIds,
+  pruneSnapshots,
+  type SnapshotMenuScreen,
+} from "#lib/db/publish-snapshots.ts";
+
+const snapshotMenuScreen = (
+  overrides: Partial<SnapshotMenuScreen> = {},
+): SnapshotMenuScreen => ({
+  name: "Breakfast",
+  template_id: "grid-3x3",
+  display_time: 15,
+  sort_order: 0,
+  active_days: "1,2,3,4,5",
+  active_from: "07:00",
+  active_to: "11:00",
+  xibo_layout_id: 100,
+  xibo_layout_campaign_id: 300,
+  xibo_campaign_id: 200,
+  product_row_ids: [1, 2],
+  ...overrides,
+});
+
+/** Create a publish attempt for screen 20 and snapshot the given menu screens */
+const snapshot = async (menuScreens: SnapshotMenuScreen[]): Promise<number> => {
+  const attemptId = await createPublishAttempt(1, 10, 20);
+  await createPublishSnapshot(attemptId, 20, menuScreens);
+  return attemptId;
+};
+
+describe("publish snapshots", () => {
+  beforeEach(async () => {
+    await createTestDb();
+  });
+
+  afterEach(() => {
+    resetDb();
+  });
+
+  describe("createPublishSnapshot / getPublishSnapshot", () => {
+    it("round-trips the menu screens", async () => {
+      const attemptId = await snapshot([snapshotMenuScreen()]);
+
+      const result = await getPublishSnapshot(attemptId);
+      expect(result).toEqual({
+        publish_attempt_id: attemptId,
+        screen_id: 20,
+        menuScreens: [snapshotMenuScreen()],
+      });
+    });
+
+    it("reads snapshots taken before layout campaigns were recorded", async () => {
+      const { xibo_layout_campaign_id: _, ...legacy } = snapshotMenuScreen();
+      const attemptId = await snapshot([legacy as SnapshotMenuScreen]);
+
+      const result = await getPublishSnapshot(attemptId);
+      expect(result!.menuScreens).toEqual([snapshotMenuScreen({ xibo_layout_campaign_id: null })]);
+    });
+
+    it("returns null for an attempt without a snapshot", async () => {
+      expect(await getPublishSnapshot(999)).toBeNull();
+    });
+  });
+
+  describe("getSnapshotIds", () => {
+    it("returns attempt IDs with snapshots for the screen only", async () => {
+      const first = await snapshot([]);
+      const second = await snapshot([snapshotMenuScreen()]);
+      const other = await createPublishAttempt(1, 10, 21);
+      await createPublishSnapshot(other, 21, []);
+
+      expect((await getSnapshotIds(20)).attemptIds).toEqual(new Set([first, second]));
+    });
+
+    it("collects layout campaigns from every snapshot, skipping unbuilt ones", async () => {
+      await snapshot([snapshotMenuScreen(), snapshotMenuScreen({ xibo_layout_id: null, xibo_layout_campaign_id: null })]);
+      await snapshot([snapshotMenuScreen({ xibo_layout_campaign_id: 301 })]);
+      await snapshot([]);
+
+      expect((await getSnapshotIds(20)).layoutCampaignIds).toEqual(new Set([300, 301]));
+    });
+  });
+
+  describe("pruneSnapshots", () => {
+    it("keeps the newest snapshots and returns the pruned layout campaigns", async () => {
+      const oldest = await snapshot([snapshotMenuScreen({ xibo_layout_campaign_id: 301 })]);
+      const middle = await snapshot([snapshotMenuScreen({ xibo_layout_campaign_id: 302 })]);
+      const newest = await snapshot([snapshotMenuScreen({ xibo_layout_campaign_id: 303 })]);
+
+      expect(await pruneSnapshots(20, 2)).toEqual([301]);
+      expect((await getSnapshotIds(20)).attemptIds).toEqual(new Set([middle, newest]));
+      expect(await getPublishSnapshot(oldest)).toBeNull();
+    });
+
+    it("prunes nothing when under the limit", async () => {
+      await snapshot([snapshotMenuScreen()]);
+      expect(await pruneSnapshots(20)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import { createTestDb, resetDb } from "#test-utils";
+import {
+  countBusinessesForConnection,
+  createBusiness,
+} from "#lib/db/businesses.ts";
+import {
+  createXiboConnection,
+  deleteXiboConnection,
+  getAllXiboConnections,
+  getXiboConnectionById,
+  getXiboConnectionNames,
+  toDisplayXiboConnection,
+  toXiboConfig,
+  updateXiboConnection,
+} from "#lib/db/xibo-connections.ts";
+
+const north = {
+  name: "North",
+  apiUrl: "https://north.xibo.test",
+  clientId: "north-id",
+  clientSecret: "north-secret",
+};
+
+describe("xibo connections", () => {
+  beforeEach(async () => {
+    await createTestDb();
+  });
+
+  afterEach(() => {
+    resetDb();
+  });
+
+  it("stores credentials encrypted and decrypts them for display", async () => {
+    const id = await createXiboConnection(north);
+    const stored = (await getXiboConnectionById(id))!;
+    expect(stored.api_url).not.toBe(north.apiUrl);
+    expect(stored.client_secret).not.toBe(north.clientSecret);
+
+    const display = await toDisplayXiboConnection(stored);
+    expect(display).toEqual({
+      id,
+      name: "North",
+      api_url: north.apiUrl,
+      client_id: "north-id",
+      created_at: display.created_at,
+    });
+    expect(display.created_at).toContain("T");
+  });
+
+  it("decrypts a connection into a config tagged with its ID", async () => {
+    const id = await createXiboConnection(north);
+    expect(await toXiboConfig((await getXiboConnectionById(id))!)).toEqual({
+      apiUrl: north.apiUrl,
+      clientId: "north-id",
+      clientSecret: "north-secret",
+      connectionId: id,
+    });
+  });
+
+  it("lists connections and their names in creation order", async () => {
+    const first = await createXiboConnection(north);
+    const second = await createXiboConnection({ ...north, name: "South" });
+
+    expect((await getAllXiboConnections()).map((c) => c.id)).toEqual([first, second]);
+    expect(await getXiboConnectionNames()).toEqual({ [first]: "North", [second]: "South" });
+  });
+
+  it("replaces a connection's name and credentials", async () => {
+    const id = await createXiboConnection(north);
+    await updateXiboConnection(id, {
+      name: "North 2",
+      apiUrl: "https://new.xibo.test",
+      clientId: "new-id",
+      clientSecret: "new-secret",
+    });
+
+    const config = await toXiboConfig((await getXiboConnectionById(id))!);
+    expect(config.apiUrl).toBe("https://new.xibo.test");
+    expect(config.clientSecret).toBe("new-secret");
+    expect(await getXiboConnectionNames()).toEqual({ [id]: "North 2" });
+  });
+
+  it("deletes a connection", async () => {
+    const id = await createXiboConnection(north);
+    await deleteXiboConnection(id);
+    expect(await getXiboConnectionById(id)).toBeNull();
+  });
+
+  it("counts the businesses bound to a connection", async () => {
+    const id = await createXiboConnection(north);
+    await createBusiness("North Cafe", id);
+    await createBusiness("Default Cafe");
+
+    expect(await countBusinessesForConnection(id)).toBe(1);
+    expect((await createBusiness("Another", id)).xibo_connection_id).toBe(id);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "#test-compat";
+import { createTestDb, resetDb } from "#test-utils";
+import { getDb } from "#lib/db/client.ts";
+import {
+  clearXiboTokens,
+  invalidateXiboStateCache,
+  loadXiboState,
+  saveXiboBreaker,
+  saveXiboToken,
+  XIBO_STATE_CACHE_TTL_MS,
+} from "#lib/db/xibo-state.ts";
+
+const OPEN_BREAKER = {
+  state: "open",
+  failures: 5,
+  lastFailureAt: 900,
+  updatedAt: 900,
+} as const;
+
+describe("xibo state", () => {
+  beforeEach(async () => {
+    await createTestDb();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    resetDb();
+  });
+
+  it("returns an empty state for an unknown connection", async () => {
+    expect(await loadXiboState("default")).toEqual({
+      token: null,
+      tokenExpiresAt: 0,
+      breaker: { state: "closed", failures: 0, lastFailureAt: 0, updatedAt: 0 },
+    });
+  });
+
+  it("stores the token encrypted and decrypts it on load", async () => {
+    await saveXiboToken("default", "abc123", 5000);
+    const raw = await getDb().execute("SELECT token FROM xibo_state WHERE key = 'default'");
+    expect(raw.rows[0]!.token).not.toBe("abc123");
+
+    invalidateXiboStateCache();
+    const state = await loadXiboState("default");
+    expect(state.token).toBe("abc123");
+    expect(state.tokenExpiresAt).toBe(5000);
+  });
+
+  it("keeps the token and breaker of a connection in one row", async () => {
+    await saveXiboBreaker("connection-2", OPEN_BREAKER);
+    await saveXiboToken("connection-2", "abc123", 5000);
+    invalidateXiboStateCache();
+    const state = await loadXiboState("connection-2");
+    expect(state.breaker).toEqual(OPEN_BREAKER);
+    expect(state.token).toBe("abc123");
+  });
+
+  it("serves recent loads from memory, then reloads", async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(1_000_000);
+    await loadXiboState("default");
+    // Written by another isolate
+    await getDb().execute(
+      "INSERT INTO xibo_state (key, breaker_state, breaker_failures) VALUES ('default', 'open', 5)",
+    );
+    expect((await loadXiboState("default")).breaker.state).toBe("closed");
+
+    jest.setSystemTime(1_000_000 + XIBO_STATE_CACHE_TTL_MS);
+    expect((await loadXiboState("default")).breaker.state).toBe("open");
+  });
+
+  it("applies its own writes to the in-memory copy", async () => {
+    await loadXiboState("default");
+    await saveXiboToken("default", "abc123", 5000);
+    await saveXiboBreaker("default", OPEN_BREAKER);
+    const state = await loadXiboState("default");
+    expect(state.token).toBe("abc123");
+    expect(state.breaker.state).toBe("open");
+  });
+
+  it("clears one connection's token", async () => {
+    await saveXiboToken("default", "abc", 5000);
+    await saveXiboToken("connection-2", "def", 5000);
+    await loadXiboState("default");
+    await clearXiboTokens("default");
+
+    expect((await loadXiboState("default")).token).toBeNull();
+    invalidateXiboStateCache();
+    expect((await loadXiboState("default")).token).toBeNull();
+    expect((await loadXiboState("connection-2")).token).toBe("def");
+  });
+
+  it("clears every token, keeping breaker state", async () => {
+    await saveXiboToken("default", "abc", 5000);
+    await saveXiboBreaker("connection-2", OPEN_BREAKER);
+    await saveXiboToken("connection-2", "def", 5000);
+    await loadXiboState("connection-2");
+    await clearXiboTokens();
+
+    expect((await loadXiboState("connection-2")).token).toBeNull();
+    invalidateXiboStateCache();
+    expect((await loadXiboState("default")).token).toBeNull();
+    expect((await loadXiboState("connection-2")).breaker.state).toBe("open");
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for declarative template definitions
+ *
+ * Verifies definition validation, resolving relative boxes to pixels,
+ * and how products are shared between slots.
+ */
+
+import { describe, expect, test } from "#test-compat";
+import {
+  parseTemplateDefinition,
+  productSlotCount,
+  resolveRegions,
+  slotProducts,
+  type TemplateDefinition,
+} from "#lib/templates/definition.ts";
+
+const definition: TemplateDefinition = {
+  header: { top: 0, left: 0, width: 1, height: 0.1, text: "Menu" },
+  slots: [
+    { type: "products", top: 0.1, left: 0, width: 0.5, height: 0.9, cols: 2, rows: 1, transpose: true },
+    { type: "ticker", top: 0.1, left: 0.5, width: 0.5, height: 0.9 },
+    { type: "products", top: 0.5, left: 0, width: 0.5, height: 0.5, cols: 1, rows: 1 },
+  ],
+};
+
+/** Parse a definition object, returning the error message or null */
+const errorFor = (value: unknown): string | null => {
+  const result = parseTemplateDefinition(JSON.stringify(value));
+  return result.valid ? null : result.error;
+};
+
+/** A products slot with a valid box, with overrides */
+const productsSlot = (overrides: Record<string, unknown> = {}) => ({
+  type: "products", top: 0, left: 0, width: 1, height: 1, cols: 1, rows: 1, ...overrides,
+});
+
+describe("template definitions", () => {
+  describe("parseTemplateDefinition", () => {
+    test("accepts a valid definition", () => {
+      expect(parseTemplateDefinition(JSON.stringify(definition))).toEqual({
+        valid: true,
+        values: definition,
+      });
+    });
+
+    test("defaults a missing header to none", () => {
+      const result = parseTemplateDefinition(JSON.stringify({ slots: [productsSlot()] }));
+      expect(result.valid && result.values.header).toBeNull();
+    });
+
+    test("rejects JSON that doesn't parse", () => {
+      expect(parseTemplateDefinition("{ slots: [")).toEqual({
+        valid: false,
+        error: "Definition is not valid JSON",
+      });
+    });
+
+    test("rejects a definition that isn't an object or has no slots", () => {
+      expect(errorFor([])).toBe("Definition must be a JSON object");
+      expect(errorFor({ slots: [] })).toBe("Definition slots must be a non-empty array");
+    });
+
+    test("rejects a header without text or with a bad box", () => {
+      expect(errorFor({ header: "Menu", slots: [productsSlot()] }))
+        .toBe("Definition header must be an object or null");
+      expect(errorFor({ header: { top: 0, left: 0, width: 1, height: 0.1, text: " " }, slots: [productsSlot()] }))
+        .toBe("Definition header.text is required");
+      expect(errorFor({ header: { top: 0, left: 0, width: 1, height: "tall", text: "Menu" }, slots: [productsSlot()] }))
+        .toBe("Definition header.height must be a number from 0 to 1");
+    });
+
+    test("rejects boxes that are empty or off the canvas", () => {
+      expect(errorFor({ slots: [productsSlot({ width: 0 })] }))
+        .toBe("Definition slots[0] must have a width and height");
+      expect(errorFor({ slots: [productsSlot({ left: 0.5 })] }))
+        .toBe("Definition slots[0] must fit on the canvas");
+      expect(errorFor({ slots: [productsSlot(), productsSlot({ top: -0.1 })] }))
+        .toBe("Definition slots[1].top must be a number from 0 to 1");
+    });
+
+    test("rejects unknown slot types and bad grids", () => {
+      expect(errorFor({ slots: ["products"] })).toBe("Definition slots[0] must be an object");
+      expect(errorFor({ slots: [productsSlot({ type: "video" })] }))
+        .toBe("Definition slots[0].type must be one of products, datasetview, ticker");
+      expect(errorFor({ slots: [productsSlot({ cols: 0 })] }))
+        .toBe("Definition slots[0].cols and rows must be whole numbers from 1 to 12");
+      expect(errorFor({ slots: [productsSlot({ rows: 1.5 })] }))
+        .toBe("Definition slots[0].cols and rows must be whole numbers from 1 to 12");
+      expect(errorFor({ slots: [productsSlot({ transpose: "yes" })] }))
+        .toBe("Definition slots[0].transpose must be true or false");
+    });
+
+    test("rejects styles that aren't safe fonts, sizes or hex colours", () => {
+      const styled = (style: unknown) => ({ slots: [productsSlot({ style })] });
+      expect(errorFor(styled("red"))).toBe("Definition slots[0].style must be an object");
+      expect(errorFor(styled({ font: "x;}body{display:none" })))
+        .toBe("Definition slots[0].style.font must be a font family list");
+      expect(errorFor(styled({ fontSize: 0 })))
+        .toBe("Definition slots[0].style.fontSize must be a whole number of pixels");
+      expect(errorFor(styled({ color: "red" })))
+        .toBe("Definition slots[0].style.color must be a hex colour such as #ffffff");
+      expect(errorFor({
+        header: { top: 0, left: 0, width: 1, height: 0.1, text: "Menu", style: { background: "url(x)" } },
+        slots: [productsSlot()],
+      })).toBe("Definition header.style.background must be a hex colour such as #ffffff");
+      expect(errorFor(styled({ font: "'Open Sans', sans-serif", fontSize: 48, color: "#fff", background: "#00000080" })))
+        .toBeNull();
+    });
+  });
+
+  describe("productSlotCount", () => {
+    test("counts the tiles of every products slot", () => {
+      expect(productSlotCount(definition)).toBe(3);
+    });
+  });
+
+  describe("resolveRegions", () => {
+    test("converts relative boxes to pixels on the canvas", () => {
+      const regions = resolveRegions(definition, { width: 1000, height: 2000 });
+      expect(regions.header).toEqual({
+        pos: { top: 0, left: 0, width: 1000, height: 200 },
+        text: "Menu",
+        style: {},
+      });
+      expect(regions.slots).toEqual([
+        {
+          type: "products",
+          cells: [
+            { top: 200, left: 0, width: 250, height: 1800 },
+            { top: 200, left: 250, width: 250, height: 1800 },
+          ],
+          style: {},
+        },
+        { type: "ticker", pos: { top: 200, left: 500, width: 500, height: 1800 } },
+        { type: "products", cells: [{ top: 1000, left: 0, width: 500, height: 1000 }], style: {} },
+      ]);
+    });
+
+    test("transposes grids marked to on landscape canvases", () => {
+      const regions = resolveRegions(definition, { width: 2000, height: 1000 });
+      expect(regions.slots[0]).toEqual({
+        type: "products",
+        cells: [
+          { top: 100, left: 0, width: 1000, height: 450 },
+          { top: 550, left: 0, width: 1000, height: 450 },
+        ],
+        style: {},
+      });
+    });
+
+    test("resolves a definition without a header", () => {
+      expect(resolveRegions({ ...definition, header: null }, { width: 100, height: 100 }).header)
+        .toBeNull();
+    });
+  });
+
+  describe("slotProducts", () => {
+    test("fills product slots in order and shows every product in dataset slots", () => {
+      const { slots } = resolveRegions(definition, { width: 1000, height: 2000 });
+      expect(slotProducts(slots, ["a", "b", "c", "d"])).toEqual([
+        ["a", "b"],
+        ["a", "b", "c", "d"],
+        ["c"],
+      ]);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 /**
- * Tests for layout template registry
+ * Tests for layout templates
  *
- * Verifies template lookup, constants, and layout building with mocked Xibo API.
+ * Verifies the built-in templates, their geometry, and layout building with mocked Xibo API.
  */
 
 import {
@@ -9,81 +9,157 @@ import {
   beforeEach,
   describe,
   expect,
+  spyOn,
   test,
 } from "#test-compat";
 import {
   buildLayoutFromTemplate,
-  getTemplateById,
-  TEMPLATES,
+  getTemplateRegions,
+  isDatasetTemplate,
+  updateLayoutFromTemplate,
 } from "#lib/templates/index.ts";
-import type { TemplateProduct } from "#lib/templates/index.ts";
-import { clearToken } from "#xibo/client.ts";
+import type {
+  LayoutTemplate,
+  TemplateDataset,
+  TemplateProduct,
+  TemplateRegions,
+} from "#lib/templates/index.ts";
+import { BUILTIN_TEMPLATES } from "#lib/templates/builtin.ts";
+import { parseTemplateDefinition } from "#lib/templates/definition.ts";
+import { createLayoutTemplate, getLayoutTemplates } from "#lib/db/layout-templates.ts";
+import {
+  BUILD_CONCURRENCY,
+  fetchCampaignLayout,
+  type GridPosition,
+  LayoutBuildError,
+} from "#xibo/layout-builder.ts";
+import { clearToken, post } from "#xibo/client.ts";
 import { cacheInvalidateAll } from "#xibo/cache.ts";
+import type { XiboDataset, XiboLayout } from "#xibo/types.ts";
 import {
   createMockFetch,
   createTestDbWithSetup,
+  createXiboSimulator,
+  installXiboSimulator,
   jsonResponse,
   resetDb,
   restoreFetch,
+  SIMULATOR_API_URL,
+  wait,
+  type XiboSimulator,
 } from "#test-utils";
 import { updateXiboCredentials } from "#lib/db/settings.ts";
 
 const XIBO_URL = "https://xibo.test";
 
-describe("layout template registry", () => {
+describe("layout templates", () => {
   beforeEach(async () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
-  describe("TEMPLATES", () => {
-    test("has at least two templates", () => {
-      expect(TEMPLATES.length).toBeGreaterThanOrEqual(2);
+  /**
+   * Install the simulator behind a fetch that records the changes sent
+   * to it, as "METHOD path" with IDs as ":id", and refuses the paths
+   * in `refused` with a 422.
+   */
+  const recordingSimulator = () => {
+    const sim = createXiboSimulator();
+    installXiboSimulator(sim);
+    const simFetch = globalThis.fetch;
+    const calls: string[] = [];
+    const refused: string[] = [];
+    globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+      const path = new URL(String(input)).pathname.replace("/api/", "");
+      const method = init?.method ?? "GET";
+      if (method !== "GET") calls.push(`${method} ${path.replace(/\d+/g, ":id")}`);
+      return refused.some((p) => path.startsWith(p))
+        ? Promise.resolve(jsonResponse({ error: "refused" }, 422))
+        : simFetch(input, init);
+    }) as typeof globalThis.fetch;
+    return { sim, calls, refused };
+  };
+
+  describe("built-in templates", () => {
+    test("are seeded in order with unique IDs", async () => {
+      const templates = await getLayoutTemplates();
+      expect(templates.map((t) => t.id)).toEqual(BUILTIN_TEMPLATES.map((t) => t.id));
     });
 
-    test("each template has required fields", () => {
-      for (const t of TEMPLATES) {
-        expect(t.id).toBeTruthy();
-        expect(t.name).toBeTruthy();
+    test("each template has a valid definition", () => {
+      for (const t of BUILTIN_TEMPLATES) {
+        expect(parseTemplateDefinition(JSON.stringify(t.definition)).valid).toBe(true);
         expect(t.maxProducts).toBeGreaterThan(0);
         expect(t.description).toBeTruthy();
       }
     });
+  });
+
+  describe("getTemplateRegions", () => {
+    const builtin = (id: string): LayoutTemplate =>
+      BUILTIN_TEMPLATES.find((t) => t.id === id)!;
+
+    /** Product cells of a template's regions */
+    const productCells = (regions: TemplateRegions): GridPosition[] =>
+      regions.slots.flatMap((slot) => slot.type === "products" ? slot.cells : []);
 
-    test("template IDs are unique", () => {
-      const ids = TEMPLATES.map((t) => t.id);
-      expect(new Set(ids).size).toBe(ids.length);
+    test("has a slot per product for every static template", () => {
+      for (const t of BUILTIN_TEMPLATES.filter((t) => !isDatasetTemplate(t))) {
+        expect(productCells(getTemplateRegions(t)).length).toBe(t.maxProducts);
+      }
+    });
+
+    test("keeps the grid-3x4 geometry on the default canvas", () => {
+      const regions = getTemplateRegions(builtin("grid-3x4"));
+      expect(regions.header!.pos).toEqual({ top: 0, left: 65, width: 950, height: 250 });
+      expect(productCells(regions)[4]).toEqual({ top: 667, left: 360, width: 360, height: 417 });
+    });
+
+    test("gives dataset templates a single region below the header", () => {
+      for (const id of ["live-list", "live-ticker"]) {
+        const regions = getTemplateRegions(builtin(id));
+        expect(isDatasetTemplate(builtin(id))).toBe(true);
+        expect(regions.slots.length).toBe(1);
+        expect(regions.slots[0]).toEqual({
+          type: id === "live-list" ? "datasetview" : "ticker",
+          pos: { top: 250, left: 0, width: 1080, height: 1670 },
+        });
+      }
+      expect(isDatasetTemplate(builtin("grid-3x4"))).toBe(false);
     });
-  });
 
-  describe("getTemplateById", () => {
-    test("returns template when found", () => {
-      const t = getTemplateById("grid-3x4");
-      expect(t).not.toBeNull();
-      expect(t!.id).toBe("grid-3x4");
-      expect(t!.name).toBe("3x4 Grid");
-      expect(t!.maxProducts).toBe(12);
+    test("places list-6 rows below its header, aligned with it", () => {
+      const regions = getTemplateRegions(builtin("list-6"));
+      expect(regions.header!.pos).toEqual({ top: 0, left: 90, width: 900, height: 200 });
+      expect(productCells(regions)[0]).toEqual({ top: 200, left: 90, width: 900, height: 286 });
     });
 
-    test("returns undefined for unknown template", () => {
-      const t = getTemplateById("nonexistent");
-      expect(t).toBeUndefined();
+    test("fits every template inside a landscape canvas", () => {
+      const canvas = { width: 1920, height: 1080 };
+      for (const t of BUILTIN_TEMPLATES) {
+        const regions = getTemplateRegions(t, canvas);
+        const datasetAreas = regions.slots.flatMap((slot) => slot.type === "products" ? [] : [slot.pos]);
+        for (const pos of [regions.header!.pos, ...productCells(regions), ...datasetAreas]) {
+          expect(pos.left + pos.width).toBeLessThanOrEqual(canvas.width);
+          expect(pos.top + pos.height).toBeLessThanOrEqual(canvas.height);
+        }
+      }
     });
 
-    test("returns list-6 template", () => {
-      const t = getTemplateById("list-6");
-      expect(t).not.toBeNull();
-      expect(t!.name).toBe("Simple List");
-      expect(t!.maxProducts).toBe(6);
+    test("lays grid-3x4 out as 4 columns by 3 rows on landscape", () => {
+      const cells = productCells(getTemplateRegions(builtin("grid-3x4"), { width: 1920, height: 1080 }));
+      expect(cells.length).toBe(12);
+      expect(new Set(cells.map((p) => p.left)).size).toBe(4);
+      expect(new Set(cells.map((p) => p.top)).size).toBe(3);
     });
   });
 
@@ -108,7 +184,7 @@ describe("layout template registry", () => {
         "/api/layout": (_url, init) => {
           if (init?.method === "POST") {
             layoutCreated = true;
-            return jsonResponse({ layoutId: 100, layout: "Test", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 });
+            return jsonResponse({ layoutId: 100, campaignId: 110, layout: "Test", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 });
           }
           return jsonResponse([]);
         },
@@ -141,7 +217,7 @@ describe("layout template registry", () => {
           jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]),
         "/api/layout/publish/": () => jsonResponse({}),
         "/api/layout": () =>
-          jsonResponse({ layoutId: 200, layout: "List", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 }),
+          jsonResponse({ layoutId: 200, campaignId: 210, layout: "List", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 }),
         "/api/region/": () => {
           regionCount++;
           return jsonResponse({ regionId: regionCount, width: 100, height: 100, top: 0, left: 0, zIndex: 0 });
@@ -161,6 +237,156 @@ describe("layout template registry", () => {
       expect(regionCount).toBe(7);
     });
 
+    test("builds image tiles for products with an image", async () => {
+      const regions: GridPosition[] = [];
+      const assigned: { url: string; body: unknown }[] = [];
+      const captions: string[] = [];
+
+      globalThis.fetch = createMockFetch({
+        "/api/resolution": () =>
+          jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]),
+        "/api/layout/publish/": () => jsonResponse({}),
+        "/api/layout": () =>
+          jsonResponse({ layoutId: 400, campaignId: 410, layout: "Photos", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 }),
+        "/api/region/": (_url, init) => {
+          regions.push(JSON.parse(String(init?.body)));
+          return jsonResponse({ regionId: regions.length, width: 100, height: 100, top: 0, left: 0, zIndex: 0 });
+        },
+        "/api/playlist/library/assign/": (url, init) => {
+          assigned.push({ url, body: JSON.parse(String(init?.body)) });
+          return jsonResponse({});
+        },
+        "/api/playlist/widget/text/": (_url, init) => {
+          captions.push(JSON.parse(String(init?.body)).name);
+          return jsonResponse({ widgetId: 1, type: "text", displayOrder: 1 });
+        },
+      });
+
+      await buildLayoutFromTemplate(
+        { apiUrl: XIBO_URL, clientId: "test-id", clientSecret: "test-secret" },
+        "list-6",
+        "Photo Layout",
+        [
+          { name: "Burger", price: "5.99", mediaId: 42 },
+          { name: "Fries", price: "2.99", mediaId: null },
+        ],
+      );
+
+      // header + (image + caption) + text tile + 4 empty slots
+      expect(regions.length).toBe(8);
+      expect(assigned).toEqual([
+        { url: `${XIBO_URL}/api/playlist/library/assign/2`, body: { media: [42], useDuration: 1, duration: 10 } },
+      ]);
+      expect(captions).toEqual(["Menu", "Burger - 5.99", "Fries - 2.99"]);
+
+      // Image and caption share the first list row
+      const [, image, caption, fries] = regions;
+      expect(image!.top).toBe(caption!.top);
+      expect(caption!.left).toBe(image!.left + image!.width);
+      expect(caption!.left + caption!.width).toBe(fries!.left + fries!.width);
+    });
+
+    test("builds a stored custom template with styled text", async () => {
+      await createLayoutTemplate({
+        id: "two-panels",
+        name: "Two Panels",
+        description: "",
+        maxProducts: 3,
+        definition: {
+          header: {
+            top: 0, left: 0, width: 1, height: 0.1, text: "Specials",
+            style: { font: "Georgia", fontSize: 60, color: "#ffcc00", background: "#000000" },
+          },
+          slots: [
+            { type: "products", top: 0.1, left: 0, width: 0.5, height: 0.9, cols: 1, rows: 1 },
+            { type: "products", top: 0.1, left: 0.5, width: 0.5, height: 0.9, cols: 1, rows: 2, style: { color: "#fff" } },
+          ],
+        },
+      });
+      const regions: GridPosition[] = [];
+      const texts: Record<string, unknown>[] = [];
+
+      globalThis.fetch = createMockFetch({
+        "/api/resolution": () =>
+          jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]),
+        "/api/layout/publish/": () => jsonResponse({}),
+        "/api/layout": () =>
+          jsonResponse({ layoutId: 700, campaignId: 710, layout: "Panels", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 }),
+        "/api/region/": (_url, init) => {
+          regions.push(JSON.parse(String(init?.body)));
+          return jsonResponse({ regionId: regions.length, width: 100, height: 100, top: 0, left: 0, zIndex: 0 });
+        },
+        "/api/playlist/widget/text/": (_url, init) => {
+          texts.push(JSON.parse(String(init?.body)));
+          return jsonResponse({ widgetId: 1, type: "text", displayOrder: 1 });
+        },
+      });
+
+      await buildLayoutFromTemplate(
+        { apiUrl: XIBO_URL, clientId: "test-id", clientSecret: "test-secret" },
+        "two-panels",
+        "Panels",
+        sampleProducts,
+        { duration: 30 },
+      );
+
+      expect(regions).toEqual([
+        { top: 0, left: 0, width: 1080, height: 192 },
+        { top: 192, left: 0, width: 540, height: 1728 },
+        { top: 192, left: 540, width: 540, height: 864 },
+        { top: 1056, left: 540, width: 540, height: 864 },
+      ]);
+      expect(texts).toEqual([
+        {
+          name: "Specials",
+          useDuration: 1,
+          duration: 30,
+          text: '<p style="font-family:Georgia;font-size:60px;color:#ffcc00">Specials</p>',
+          backgroundColor: "#000000",
+        },
+        { name: "Vanilla - 3.50", useDuration: 1, duration: 30 },
+        { name: "Chocolate - 4.00", useDuration: 1, duration: 30, text: '<p style="color:#fff">Chocolate - 4.00</p>' },
+      ]);
+    });
+
+    test("builds on the canvas resolution, creating it when missing", async () => {
+      let createdResolution: unknown = null;
+      let resolutionQuery: URLSearchParams | null = null;
+      let layoutBody: Record<string, unknown> | null = null;
+
+      globalThis.fetch = createMockFetch({
+        "/api/resolution": (url, init) => {
+          resolutionQuery ??= new URL(url).searchParams;
+          if (init?.method === "POST") {
+            createdResolution = JSON.parse(String(init.body));
+            return jsonResponse({ resolutionId: 9, resolution: "1920x1080", width: 1920, height: 1080 });
+          }
+          return jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]);
+        },
+        "/api/layout/publish/": () => jsonResponse({}),
+        "/api/layout": (_url, init) => {
+          layoutBody = JSON.parse(String(init?.body));
+          return jsonResponse({ layoutId: 500, campaignId: 510, layout: "Van", description: "", status: 1, width: 1920, height: 1080, publishedStatusId: 1 });
+        },
+        "/api/region/": () =>
+          jsonResponse({ regionId: 1, width: 100, height: 100, top: 0, left: 0, zIndex: 0 }),
+        "/api/playlist/widget/text/": () => jsonResponse({ widgetId: 1, type: "text", displayOrder: 1 }),
+      });
+
+      await buildLayoutFromTemplate(
+        { apiUrl: XIBO_URL, clientId: "test-id", clientSecret: "test-secret" },
+        "list-6",
+        "Van Layout",
+        sampleProducts,
+        { canvas: { width: 1920, height: 1080 } },
+      );
+
+      expect(resolutionQuery!.get("width")).toBe("1920");
+      expect(resolutionQuery!.get("height")).toBe("1080");
+      expect(createdResolution).toEqual({ resolution: "1920x1080", width: 1920, height: 1080 });
+      expect(layoutBody!.resolutionId).toBe(9);
+    });
+
     test("throws for unknown template", async () => {
       try {
         await buildLayoutFromTemplate(
@@ -183,7 +409,7 @@ describe("layout template registry", () => {
           jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]),
         "/api/layout/publish/": () => jsonResponse({}),
         "/api/layout": () =>
-          jsonResponse({ layoutId: 300, layout: "Empty", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 }),
+          jsonResponse({ layoutId: 300, campaignId: 310, layout: "Empty", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 }),
         "/api/region/": () => {
           regionCount++;
           return jsonResponse({ regionId: regionCount, width: 100, height: 100, top: 0, left: 0, zIndex: 0 });
@@ -204,4 +430,364 @@ describe("layout template registry", () => {
     });
   });
 
+  describe("dataset templates", () => {
+    const DATASET_ID = 500;
+
+    const columns = [
+      { dataSetColumnId: 31, heading: "price", dataTypeId: 1, dataSetColumnTypeId: 1, listContent: "", columnOrder: 2 },
+      { dataSetColumnId: 30, heading: "name", dataTypeId: 1, dataSetColumnTypeId: 1, listContent: "", columnOrder: 1 },
+    ];
+
+    /** Mock Xibo for a dataset layout, recording widget creation and updates */
+    const mockDatasetLayout = (datasetColumns = columns) => {
+      const widgets: { url: string; body: Record<string, unknown> }[] = [];
+      globalThis.fetch = createMockFetch({
+        "/api/resolution": () =>
+          jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]),
+        "/api/layout/publish/": () => jsonResponse({}),
+        "/api/layout": () =>
+          jsonResponse({ layoutId: 600, campaignId: 610, layout: "Live", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 }),
+        "/api/region/": () =>
+          jsonResponse({ regionId: 7, width: 100, height: 100, top: 0, left: 0, zIndex: 0 }),
+        [`/api/dataset/${DATASET_ID}/column`]: () => jsonResponse(datasetColumns),
+        "/api/playlist/widget/": (url, init) => {
+          widgets.push({ url, body: JSON.parse(String(init?.body)) });
+          return jsonResponse({ widgetId: 90, type: "text", displayOrder: 1 });
+        },
+      });
+      return widgets;
+    };
+
+    const build = (templateId: string, rowIds: number[]) =>
+      buildLayoutFromTemplate(
+        { apiUrl: XIBO_URL, clientId: "test-id", clientSecret: "test-secret" },
+        templateId,
+        "Live Layout",
+        [],
+        { dataset: { datasetId: DATASET_ID, rowIds } },
+      );
+
+    test("live-list adds a dataset view filtered to the selected rows", async () => {
+      const widgets = mockDatasetLayout();
+      const layout = await build("live-list", [3, 1]);
+
+      expect(layout.layoutId).toBe(600);
+      const [header, view, options] = widgets;
+      expect(header!.body.name).toBe("Menu");
+      expect(view).toEqual({
+        url: `${XIBO_URL}/api/playlist/widget/datasetview/7`,
+        body: { dataSetId: DATASET_ID },
+      });
+      expect(options).toEqual({
+        url: `${XIBO_URL}/api/playlist/widget/90`,
+        body: {
+          useDuration: 1,
+          duration: 10,
+          useFilteringClause: 1,
+          filter: "id IN (3,1) AND available = 1",
+          useOrderingClause: 1,
+          ordering: "sortOrder",
+          dataSetColumnId: [30, 31],
+          showHeadings: 0,
+          rowsPerPage: 0,
+        },
+      });
+    });
+
+    test("live-ticker adds a dataset ticker with a name and price template", async () => {
+      const widgets = mockDatasetLayout();
+      await build("live-ticker", []);
+
+      const [, ticker, options] = widgets;
+      expect(ticker!.url).toBe(`${XIBO_URL}/api/playlist/widget/ticker/7`);
+      expect(ticker!.body).toEqual({ dataSetId: DATASET_ID, sourceId: 2 });
+      expect(options!.body.template).toBe("[name] - [price]");
+      // No selected rows shows nothing
+      expect(options!.body.filter).toBe("1 = 0");
+    });
+
+    test("throws when a display column is missing from the dataset", async () => {
+      mockDatasetLayout(columns.slice(0, 1));
+      await expect(build("live-list", [1])).rejects.toThrow("Dataset column not found: name");
+    });
+
+    test("throws without a business dataset", async () => {
+      await expect(
+        buildLayoutFromTemplate(
+          { apiUrl: XIBO_URL, clientId: "test-id", clientSecret: "test-secret" },
+          "live-list",
+          "Live Layout",
+          [],
+        ),
+      ).rejects.toThrow("Template live-list needs a business dataset");
+    });
+  });
+
+  describe("building on the simulator", () => {
+    const config = { apiUrl: SIMULATOR_API_URL, clientId: "sim-id", clientSecret: "sim-secret" };
+    /** A list-6 menu whose first product's image is assigned in the second region */
+    const photoMenu: TemplateProduct[] = [
+      { name: "Burger", price: "5.99", mediaId: 42 },
+      { name: "Fries", price: "2.99" },
+    ];
+    let sim: XiboSimulator;
+    let calls: string[];
+    let refused: string[];
+
+    beforeEach(() => {
+      ({ sim, calls, refused } = recordingSimulator());
+    });
+
+    const build = () => buildLayoutFromTemplate(config, "list-6", "Photos", photoMenu);
+
+    test("creates regions BUILD_CONCURRENCY at a time", async () => {
+      const recorded = globalThis.fetch;
+      let active = 0;
+      let peak = 0;
+      globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+        peak = Math.max(peak, ++active);
+        try {
+          await wait(5);
+          return await recorded(input, init);
+        } finally {
+          active--;
+        }
+      }) as typeof globalThis.fetch;
+
+      await build();
+      expect(peak).toBe(BUILD_CONCURRENCY);
+      expect(calls.at(-1)).toBe("PUT layout/publish/:id");
+    });
+
+    test("deletes a half-built layout and reports what failed", async () => {
+      const errorSpy = spyOn(console, "error");
+      refused.push("playlist/library/assign");
+      try {
+        const error = await build().catch((e) => e);
+        expect(error).toBeInstanceOf(LayoutBuildError);
+        const { report } = error as LayoutBuildError;
+        expect(report.failures.map(({ index, kind }) => ({ index, kind }))).toEqual([{ index: 1, kind: "image" }]);
+        expect(report.failures[0]!.error).toContain("422");
+        expect(report.built + report.skipped).toBe(7);
+        expect((error as Error).message).toContain("Layout build failed: 1 of 8 regions failed");
+        expect(errorSpy.mock.calls.some(([line]) => String(line).includes("E_XIBO_LAYOUT_BUILD"))).toBe(true);
+        expect(calls).toContain("DELETE layout/:id");
+        expect(calls).not.toContain("PUT layout/publish/:id");
+        expect(sim.state.layouts).toEqual([]);
+      } finally {
+        errorSpy.mockRestore();
+      }
+    });
+
+    test("deletes a layout it can't publish", async () => {
+      refused.push("layout/publish");
+      await expect(build()).rejects.toThrow("422");
+      expect(sim.state.layouts).toEqual([]);
+    });
+
+    test("keeps the build's error when the cleanup fails too", async () => {
+      const errorSpy = spyOn(console, "error");
+      refused.push("playlist/library/assign", "layout/");
+      try {
+        await expect(build()).rejects.toThrow(LayoutBuildError);
+        expect(sim.state.layouts.length).toBe(1);
+      } finally {
+        errorSpy.mockRestore();
+      }
+    });
+  });
+
+  describe("updateLayoutFromTemplate", () => {
+    const config = { apiUrl: SIMULATOR_API_URL, clientId: "sim-id", clientSecret: "sim-secret" };
+    const drinks: TemplateProduct[] = [
+      { name: "Tea", price: "2.00" },
+      { name: "Coffee", price: "3.00" },
+    ];
+    let sim: XiboSimulator;
+    let calls: string[];
+    let refused: string[];
+
+    beforeEach(() => {
+      ({ sim, calls, refused } = recordingSimulator());
+    });
+
+    /** Text widget names on a layout, in region order */
+    const captions = (layoutId: number): unknown[] =>
+      sim.state.regions
+        .filter((r) => r.layoutId === layoutId)
+        .flatMap((r) => sim.state.widgets.filter((w) => w.regionId === r.regionId && w.type === "text"))
+        .map((w) => w.options.name);
+
+    /** Build a layout, then forget the calls that built it */
+    const built = async (templateId: string, products: TemplateProduct[], dataset: TemplateDataset | null = null) => {
+      const layout = await buildLayoutFromTemplate(config, templateId, "Drinks", products, { dataset });
+      calls.length = 0;
+      return layout;
+    };
+
+    /** The published layout of a built layout's campaign */
+    const published = (layout: XiboLayout): XiboLayout =>
+      sim.state.layouts.find((l) => l.campaignId === layout.campaignId && l.parentId === null)!;
+
+    test("edits only the widgets whose product changed, keeping the layout's campaign", async () => {
+      const layout = await built("grid-3x4", drinks);
+
+      const updated = await updateLayoutFromTemplate(config, layout, "grid-3x4", "Drinks", [
+        drinks[0]!,
+        { name: "Coffee", price: "3.50" },
+      ]);
+
+      expect(updated).toBe(true);
+      expect(calls).toEqual(["PUT layout/checkout/:id", "PUT playlist/widget/:id", "PUT layout/publish/:id"]);
+      // Xibo publishes the draft under its own ID, in the layout's place
+      const current = published(layout);
+      expect(current.layoutId).not.toBe(layout.layoutId);
+      expect(captions(current.layoutId)).toEqual(["Menu", "Tea - 2.00", "Coffee - 3.50"]);
+      expect(sim.state.layouts).toEqual([current]);
+      expect(await fetchCampaignLayout(config, layout.campaignId)).toMatchObject({ layoutId: current.layoutId });
+    });
+
+    test("replaces the regions of tiles that change shape", async () => {
+      const layout = await built("grid-3x4", drinks);
+      const regionCount = sim.state.regions.length;
+
+      await updateLayoutFromTemplate(config, layout, "grid-3x4", "Drinks", [
+        { name: "Tea", price: "2.00", mediaId: 7 },
+        drinks[1]!,
+        { name: "Cake", price: "4.00" },
+      ]);
+
+      // Tea's text becomes an image and caption; an empty cell gets Cake
+      expect(calls.filter((c) => c === "POST region/:id").length).toBe(3);
+      expect(calls.filter((c) => c === "DELETE region/:id").length).toBe(2);
+      expect(sim.state.regions.length).toBe(regionCount + 1);
+      expect(sim.state.widgets.filter((w) => w.type === "image").map((w) => w.options.mediaId)).toEqual([7]);
+      expect(captions(published(layout).layoutId)).toContain("Cake - 4.00");
+    });
+
+    test("discards the draft when nothing changed", async () => {
+      const layout = await built("grid-3x4", drinks);
+
+      await updateLayoutFromTemplate(config, layout, "grid-3x4", "Drinks", drinks);
+
+      expect(calls).toEqual(["PUT layout/checkout/:id", "PUT layout/discard/:id"]);
+      expect(sim.state.layouts.map((l) => l.layoutId)).toEqual([layout.layoutId]);
+      expect(captions(layout.layoutId)).toEqual(["Menu", "Tea - 2.00", "Coffee - 3.00"]);
+    });
+
+    test("retimes every widget to a changed duration", async () => {
+      const layoutId = await built("grid-3x4", drinks);
+
+      await updateLayoutFromTemplate(config, layoutId, "grid-3x4", "Drinks", drinks, { duration: 25 });
+
+      expect(calls.filter((c) => c === "PUT playlist/widget/:id").length).toBe(3);
+      expect(sim.state.widgets.map((w) => w.duration)).toEqual([25, 25, 25]);
+      expect(sim.state.layouts[0]!.duration).toBe(25);
+    });
+
+    test("renames the layout to a changed name", async () => {
+      const layout = await built("grid-3x4", drinks);
+
+      await updateLayoutFromTemplate(config, layout, "grid-3x4", "Hot Drinks", drinks);
+
+      expect(calls[0]).toBe("PUT layout/:id");
+      expect(sim.state.layouts[0]!.layout).toBe("Hot Drinks");
+    });
+
+    test("returns false for a layout that needs a rebuild", async () => {
+      const layout = await built("grid-3x4", drinks);
+
+      expect(await updateLayoutFromTemplate(config, layout, "list-6", "Drinks", drinks)).toBe(false);
+      expect(
+        await updateLayoutFromTemplate(config, layout, "grid-3x4", "Drinks", drinks, {
+          canvas: { width: 1920, height: 1080 },
+        }),
+      ).toBe(false);
+      expect(calls).toEqual([]);
+    });
+
+    describe("dataset templates", () => {
+      /** A business dataset with name and price columns */
+      const createDataset = async (): Promise<number> => {
+        const { dataSetId } = await post<XiboDataset>(config, "dataset", { dataSet: "Cafe" });
+        for (const heading of ["name", "price"]) {
+          await post(config, `dataset/${dataSetId}/column`, { heading, dataTypeId: 1 });
+        }
+        return dataSetId;
+      };
+
+      /** The row filter of the layout's dataset widget */
+      const shownFilter = (): unknown => sim.state.widgets.find((w) => w.type === "datasetview")!.options.filter;
+
+      /** Drop the name column behind the client's back, so updating the widget fails */
+      const dropNameColumn = async (datasetId: number): Promise<void> => {
+        const dataset = sim.state.datasets.find((d) => d.dataSetId === datasetId)!;
+        dataset.columns = dataset.columns.filter((c) => c.heading !== "name");
+        await cacheInvalidateAll();
+      };
+
+      test("points the dataset widget at the new row selection", async () => {
+        const datasetId = await createDataset();
+        const layout = await built("live-list", [], { datasetId, rowIds: [1] });
+
+        await updateLayoutFromTemplate(config, layout, "live-list", "Drinks", [], {
+          dataset: { datasetId, rowIds: [1, 2] },
+        });
+
+        expect(calls).toEqual(["PUT layout/checkout/:id", "PUT playlist/widget/:id", "PUT layout/publish/:id"]);
+        expect(shownFilter()).toBe("id IN (1,2) AND available = 1");
+      });
+
+      test("discards the draft when an edit fails", async () => {
+        const datasetId = await createDataset();
+        const layout = await built("live-list", [], { datasetId, rowIds: [1] });
+        await dropNameColumn(datasetId);
+
+        await expect(
+          updateLayoutFromTemplate(config, layout, "live-list", "Drinks", [], {
+            dataset: { datasetId, rowIds: [2] },
+          }),
+        ).rejects.toThrow("Dataset column not found: name");
+
+        expect(calls).toEqual(["PUT layout/checkout/:id", "PUT layout/discard/:id"]);
+        expect(sim.state.layouts.length).toBe(1);
+        expect(shownFilter()).toBe("id IN (1) AND available = 1");
+      });
+
+      test("keeps the edit's error when the discard fails too", async () => {
+        const datasetId = await createDataset();
+        const layout = await built("live-list", [], { datasetId, rowIds: [1] });
+        await dropNameColumn(datasetId);
+        refused.push("layout/discard");
+
+        await expect(
+          updateLayoutFromTemplate(config, layout, "live-list", "Drinks", [], {
+            dataset: { datasetId, rowIds: [2] },
+          }),
+        ).rejects.toThrow("Dataset column not found: name");
+      });
+
+      test("discards the draft after the edit spends the request budget", async () => {
+        const datasetId = await createDataset();
+        const layout = await built("live-list", [], { datasetId, rowIds: [1] });
+        const budgeted = { ...config, deadline: Date.now() + 500 };
+        const recordingFetch = globalThis.fetch;
+        // The widget update outlasts the budget, then fails
+        globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+          if (!String(input).includes("/playlist/widget/")) return recordingFetch(input, init);
+          await wait(budgeted.deadline - Date.now() + 10);
+          return jsonResponse({ error: "refused" }, 422);
+        }) as typeof globalThis.fetch;
+
+        await expect(
+          updateLayoutFromTemplate(budgeted, layout, "live-list", "Drinks", [], {
+            dataset: { datasetId, rowIds: [2] },
+          }),
+        ).rejects.toThrow();
+
+        expect(calls.at(-1)).toBe("PUT layout/discard/:id");
+        expect(sim.state.layouts.map((l) => l.layoutId)).toEqual([layout.layoutId]);
+      });
+    });
+  });
 });
@@ -10,11 +10,14 @@ import { createTestDb, resetDb } from "#test-utils";
 import {
   cacheDelete,
   cacheGet,
+  cacheGetEntry,
   cacheInvalidateAll,
   cacheInvalidatePrefix,
+  cacheInvalidateTags,
   cachePurgeExpired,
   cacheSet,
   DEFAULT_CACHE_TTL_MS,
+  STALE_RETENTION_MS,
 } from "#xibo/cache.ts";
 
 describe("xibo/cache", () => {
@@ -41,7 +44,7 @@ describe("xibo/cache", () => {
       expect(result).toBe('{"data":"hello"}');
     });
 
-    it("returns null and deletes entry when expired", async () => {
+    it("returns null when expired", async () => {
       await cacheSet("expiring", "value", 1000);
       jest.setSystemTime(1_000_000 + 1001);
       const result = await cacheGet("expiring");
@@ -56,6 +59,27 @@ describe("xibo/cache", () => {
     });
   });
 
+  describe("cacheGetEntry", () => {
+    it("returns a fresh entry within its TTL", async () => {
+      await cacheSet("key", "value", 1000);
+      expect(await cacheGetEntry("key")).toEqual({ value: "value", fresh: true });
+    });
+
+    it("keeps an expired entry as a stale copy", async () => {
+      await cacheSet("key", "value", 1000);
+      jest.setSystemTime(1_000_000 + 1001);
+      expect(await cacheGetEntry("key")).toEqual({ value: "value", fresh: false });
+    });
+
+    it("returns null and deletes the entry once past stale retention", async () => {
+      await cacheSet("key", "value", 1000);
+      jest.setSystemTime(1_000_000 + 1000 + STALE_RETENTION_MS);
+      expect(await cacheGetEntry("key")).toBeNull();
+      jest.setSystemTime(1_000_000);
+      expect(await cacheGetEntry("key")).toBeNull();
+    });
+  });
+
   describe("cacheSet", () => {
     it("stores a value with default TTL", async () => {
       await cacheSet("key1", "value1");
@@ -108,6 +132,31 @@ describe("xibo/cache", () => {
     });
   });
 
+  describe("cacheInvalidateTags", () => {
+    it("removes entries carrying any of the tags, fresh or stale", async () => {
+      await cacheSet("dataset_data_5", "rows5", 100, ["dataset:5"]);
+      await cacheSet("dataset_data_6", "rows6", 10000, ["dataset:6"]);
+      await cacheSet("dataset", "list", 10000, ["dataset"]);
+      jest.setSystemTime(1_000_000 + 101);
+      await cacheInvalidateTags(["dataset:5", "dataset"]);
+      expect(await cacheGetEntry("dataset_data_5")).toBeNull();
+      expect(await cacheGet("dataset")).toBeNull();
+      expect(await cacheGet("dataset_data_6")).toBe("rows6");
+    });
+
+    it("matches whole tags only", async () => {
+      await cacheSet("dataset_data_50", "rows", 10000, ["dataset:50"]);
+      await cacheInvalidateTags(["dataset:5"]);
+      expect(await cacheGet("dataset_data_50")).toBe("rows");
+    });
+
+    it("does nothing without tags", async () => {
+      await cacheSet("untagged", "v");
+      await cacheInvalidateTags([]);
+      expect(await cacheGet("untagged")).toBe("v");
+    });
+  });
+
   describe("cacheInvalidateAll", () => {
     it("removes all cached entries", async () => {
       await cacheSet("a", "1");
@@ -121,14 +170,14 @@ describe("xibo/cache", () => {
   });
 
   describe("cachePurgeExpired", () => {
-    it("removes expired entries and returns count", async () => {
+    it("removes entries past stale retention and returns count", async () => {
       await cacheSet("expired1", "v", 100);
       await cacheSet("expired2", "v", 200);
-      await cacheSet("fresh", "v", 10000);
-      jest.setSystemTime(1_000_000 + 300);
+      await cacheSet("stale", "v", 10000);
+      jest.setSystemTime(1_000_000 + 300 + STALE_RETENTION_MS);
       const purged = await cachePurgeExpired();
       expect(purged).toBe(2);
-      expect(await cacheGet("fresh")).toBe("v");
+      expect(await cacheGetEntry("stale")).toEqual({ value: "v", fresh: false });
     });
 
     it("returns 0 when nothing to purge", async () => {
@@ -1,10 +1,17 @@
 import { afterEach, beforeEach, describe, expect, it, jest } from "#test-compat";
+import { createTestDb, resetDb } from "#test-utils";
+import {
+  invalidateXiboStateCache,
+  loadXiboState,
+} from "#lib/db/xibo-state.ts";
 import {
   createCircuitBreaker,
   FAILURE_THRESHOLD,
   getXiboCircuitBreaker,
+  loadXiboCircuitBreaker,
   RECOVERY_TIMEOUT_MS,
   resetXiboCircuitBreaker,
+  saveXiboCircuitBreaker,
 } from "#xibo/circuit-breaker.ts";
 
 describe("circuit breaker", () => {
@@ -162,4 +169,70 @@ describe("circuit breaker", () => {
       expect(cb.getFailures()).toBe(0);
     });
   });
+
+  describe("snapshot and restore", () => {
+    it("adopts a snapshot that changed more recently", () => {
+      const source = createCircuitBreaker({ failureThreshold: 1 });
+      source.recordFailure();
+      const cb = createCircuitBreaker();
+      cb.restore(source.snapshot());
+      expect(cb.getState()).toBe("open");
+      expect(cb.getFailures()).toBe(1);
+    });
+
+    it("ignores a snapshot older than its own state", () => {
+      const stale = createCircuitBreaker().snapshot();
+      const cb = createCircuitBreaker();
+      cb.recordFailure();
+      cb.restore(stale);
+      expect(cb.getFailures()).toBe(1);
+    });
+
+    it("orders changes made within the same millisecond", () => {
+      const cb = createCircuitBreaker();
+      cb.recordFailure();
+      const first = cb.snapshot().updatedAt;
+      cb.recordSuccess();
+      expect(cb.snapshot().updatedAt).toBeGreaterThan(first);
+    });
+
+    it("doesn't mark a success on a healthy breaker as a change", () => {
+      const cb = createCircuitBreaker();
+      cb.recordSuccess();
+      expect(cb.snapshot().updatedAt).toBe(0);
+    });
+  });
+
+  describe("shared state", () => {
+    beforeEach(async () => {
+      jest.useRealTimers();
+      await createTestDb();
+    });
+
+    afterEach(() => {
+      resetDb();
+    });
+
+    it("shares a changed breaker and skips unchanged ones", async () => {
+      await saveXiboCircuitBreaker("connection-1");
+      expect((await loadXiboState("connection-1")).breaker.updatedAt).toBe(0);
+
+      getXiboCircuitBreaker("connection-1").recordFailure();
+      await saveXiboCircuitBreaker("connection-1");
+      expect((await loadXiboState("connection-1")).breaker.failures).toBe(1);
+    });
+
+    it("loads state shared by another isolate", async () => {
+      const breaker = getXiboCircuitBreaker();
+      for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure();
+      await saveXiboCircuitBreaker();
+
+      // A fresh isolate has no breakers and no cached state
+      resetXiboCircuitBreaker();
+      invalidateXiboStateCache();
+      const loaded = await loadXiboCircuitBreaker();
+      expect(loaded.getState()).toBe("open");
+      expect(loaded.getFailures()).toBe(FAILURE_THRESHOLD);
+    });
+  });
 });
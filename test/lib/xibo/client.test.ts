@@ -36,12 +36,12 @@ const hasCredentials = config !== null;
 describe("xibo/client", () => {
   beforeEach(async () => {
     await createTestDb();
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
   });
 
-  afterEach(() => {
-    clearToken();
+  afterEach(async () => {
+    await clearToken();
     resetXiboCircuitBreaker();
     resetDb();
   });
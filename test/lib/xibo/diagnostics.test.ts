@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, test } from "#test-compat";
+import { clearToken } from "#xibo/client.ts";
+import {
+  CAPABILITIES,
+  diagnoseConnection,
+  isVerifiedVersion,
+} from "#xibo/diagnostics.ts";
+import {
+  createTestDbWithSetup,
+  createXiboSimulator,
+  installXiboSimulator,
+  resetDb,
+  SIMULATOR_API_URL,
+  type XiboSimulator,
+} from "#test-utils";
+
+const config = {
+  apiUrl: SIMULATOR_API_URL,
+  clientId: "demo-id",
+  clientSecret: "demo-secret",
+};
+
+describe("xibo diagnostics", () => {
+  let sim: XiboSimulator;
+  let restore: () => void;
+
+  beforeEach(async () => {
+    await createTestDbWithSetup();
+    await clearToken();
+    sim = createXiboSimulator();
+    restore = installXiboSimulator(sim).restore;
+  });
+
+  afterEach(async () => {
+    restore();
+    await clearToken();
+    resetDb();
+  });
+
+  /** Answer requests under an API path with a status, leaving the rest to the simulator */
+  const refuse = (path: string, status: number): void => {
+    const simulated = globalThis.fetch;
+    globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) =>
+      new Request(input, init).url.includes(`/api/${path}?`)
+        ? Promise.resolve(new Response("refused", { status }))
+        : simulated(input, init)) as typeof globalThis.fetch;
+  };
+
+  describe("isVerifiedVersion", () => {
+    test("accepts verified releases and their patches", () => {
+      expect(isVerifiedVersion("4.1")).toBe(true);
+      expect(isVerifiedVersion("4.0.9")).toBe(true);
+      expect(isVerifiedVersion("4.1.0-simulator")).toBe(true);
+      expect(isVerifiedVersion("4.10.0")).toBe(false);
+      expect(isVerifiedVersion("3.3.3")).toBe(false);
+    });
+  });
+
+  describe("diagnoseConnection", () => {
+    test("passes every capability on a CMS that grants them all", async () => {
+      const report = await diagnoseConnection(config);
+      expect(report.success).toBe(true);
+      expect(report.version).toBe("4.1.0-simulator");
+      expect(report.versionVerified).toBe(true);
+      expect(report.checks.map((c) => c.capability)).toEqual(CAPABILITIES.map((c) => c.capability));
+      expect(report.checks.every((c) => c.ok && c.error === null && c.latencyMs >= 0)).toBe(true);
+    });
+
+    test("names a missing scope and carries on", async () => {
+      refuse("campaign", 403);
+      refuse("schedule", 500);
+      const report = await diagnoseConnection(config);
+      const failed = report.checks.filter((c) => !c.ok);
+      expect(failed.map((c) => [c.capability, c.error])).toEqual([
+        ["Campaigns", "Forbidden: the API application lacks this scope"],
+        ["Schedules", "API request failed: GET schedule?start=0&length=1 500"],
+      ]);
+      expect(report.checks).toHaveLength(CAPABILITIES.length);
+    });
+
+    test("probes nothing without a working login", async () => {
+      sim.offline = true;
+      const report = await diagnoseConnection(config);
+      expect(report.success).toBe(false);
+      expect(report.versionVerified).toBe(false);
+      expect(report.checks).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, test } from "#test-compat";
+import { createBusiness } from "#lib/db/businesses.ts";
+import { createScreen, type DisplayScreen, getScreenById, toDisplayScreen } from "#lib/db/screens.ts";
+import { clearToken } from "#xibo/client.ts";
+import { cacheInvalidateAll } from "#xibo/cache.ts";
+import { syncScreenDisplayGroup } from "#xibo/display-groups.ts";
+import { createCampaign, rescheduleScreen, scheduleCampaign } from "#xibo/scheduling.ts";
+import {
+  createTestDbWithSetup,
+  createXiboSimulator,
+  installXiboSimulator,
+  resetDb,
+  SIMULATOR_API_URL,
+  type XiboSimulator,
+} from "#test-utils";
+
+const config = {
+  apiUrl: SIMULATOR_API_URL,
+  clientId: "demo-id",
+  clientSecret: "demo-secret",
+};
+
+describe("display groups", () => {
+  let sim: XiboSimulator;
+  let restore: () => void;
+  let screen: DisplayScreen;
+
+  /** The screen as stored now */
+  const reload = async (): Promise<DisplayScreen> => toDisplayScreen((await getScreenById(screen.id))!);
+
+  beforeEach(async () => {
+    await createTestDbWithSetup();
+    await clearToken();
+    await cacheInvalidateAll();
+    sim = createXiboSimulator();
+    restore = installXiboSimulator(sim).restore;
+    const business = await createBusiness("Van");
+    screen = await toDisplayScreen(await createScreen("Front", business.id, 3));
+  });
+
+  afterEach(async () => {
+    restore();
+    await clearToken();
+    resetDb();
+  });
+
+  test("creates a group holding the screen's displays and records it", async () => {
+    const groupId = await syncScreenDisplayGroup(config, screen, [3, 4]);
+
+    expect(sim.state.displayGroups).toEqual([
+      { displayGroupId: groupId!, displayGroup: `Screen ${screen.id}: Front`, isDynamic: 0, displayIds: [3, 4] },
+    ]);
+    expect((await reload()).xibo_display_group_id).toBe(groupId);
+  });
+
+  test("assigns and unassigns displays to match the screen's", async () => {
+    const groupId = await syncScreenDisplayGroup(config, screen, [3]);
+
+    expect(await syncScreenDisplayGroup(config, await reload(), [4])).toBe(groupId);
+    expect(sim.state.displayGroups.map((g) => g.displayIds)).toEqual([[4]]);
+  });
+
+  test("deletes the group and its events once no displays remain", async () => {
+    const groupId = await syncScreenDisplayGroup(config, screen, [3]);
+    const campaign = await createCampaign(config, "Screen: Front", []);
+    await scheduleCampaign(config, campaign.campaignId, groupId!);
+
+    expect(await syncScreenDisplayGroup(config, await reload(), [])).toBeNull();
+    expect(sim.state.displayGroups).toEqual([]);
+    expect(sim.state.schedules).toEqual([]);
+    expect((await reload()).xibo_display_group_id).toBeNull();
+  });
+
+  test("recreates a group deleted on the CMS", async () => {
+    const groupId = await syncScreenDisplayGroup(config, screen, [3]);
+    sim.state.displayGroups.length = 0;
+    await cacheInvalidateAll();
+
+    const recreated = await syncScreenDisplayGroup(config, await reload(), [3]);
+    expect(recreated).not.toBe(groupId);
+    expect((await reload()).xibo_display_group_id).toBe(recreated);
+  });
+
+  test("moves a screen's campaigns from its display onto its group", async () => {
+    const always = await createCampaign(config, "Screen: Front", []);
+    const brunch = await createCampaign(config, "Screen: Front (Sat 09:00-13:00)", []);
+    await scheduleCampaign(config, always.campaignId, 3);
+    const groupId = (await syncScreenDisplayGroup(config, screen, [3, 4]))!;
+
+    const daypart = { active_days: "6", active_from: "09:00", active_to: "13:00" };
+    await rescheduleScreen(config, [
+      { active_days: null, active_from: null, active_to: null, xibo_campaign_id: always.campaignId },
+      { ...daypart, xibo_campaign_id: brunch.campaignId },
+      { ...daypart, xibo_campaign_id: brunch.campaignId },
+      { ...daypart, xibo_campaign_id: null },
+    ], groupId);
+
+    expect(sim.state.schedules.map((s) => [s.campaignId, s.displayGroupIds, s.isPriority])).toEqual([
+      [always.campaignId, [groupId], 0],
+      [brunch.campaignId, [groupId], 1],
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, test } from "#test-compat";
+import { createBusiness } from "#lib/db/businesses.ts";
+import { createMenuScreen, updateMenuScreenLayout } from "#lib/db/menu-screens.ts";
+import { createScreen } from "#lib/db/screens.ts";
+import { clearToken } from "#xibo/client.ts";
+import { cacheInvalidateAll } from "#xibo/cache.ts";
+import { displayStatus, getScreenStatuses } from "#xibo/display-status.ts";
+import type { XiboConfig, XiboDisplay } from "#xibo/types.ts";
+import {
+  createMockFetch,
+  createTestDbWithSetup,
+  jsonResponse,
+  resetDb,
+  restoreFetch,
+} from "#test-utils";
+
+const config: XiboConfig = {
+  apiUrl: "https://xibo.test",
+  clientId: "test-id",
+  clientSecret: "test-secret",
+};
+
+const makeDisplay = (overrides: Partial<XiboDisplay> = {}): XiboDisplay => ({
+  displayId: 7,
+  display: "Van TV",
+  description: "",
+  licensed: 1,
+  defaultLayoutId: 5,
+  resolution: "1920x1080",
+  loggedIn: 1,
+  lastAccessed: 1_767_225_600,
+  currentLayoutId: 40,
+  clientVersion: "4 R406",
+  ...overrides,
+});
+
+describe("display status", () => {
+  describe("displayStatus", () => {
+    test("is online while checking in and playing a scheduled layout", () => {
+      const display = makeDisplay();
+      expect(displayStatus(display, [40, 41])).toEqual({ state: "online", display });
+    });
+
+    test("accepts the default layout and a player that hasn't reported one", () => {
+      expect(displayStatus(makeDisplay({ currentLayoutId: 5 }), [40]).state).toBe("online");
+      expect(displayStatus(makeDisplay({ currentLayoutId: null }), []).state).toBe("online");
+    });
+
+    test("flags a layout the app didn't schedule", () => {
+      expect(displayStatus(makeDisplay({ currentLayoutId: 99 }), [40]).state).toBe("unexpected-layout");
+    });
+
+    test("flags a player that stopped checking in before its layout", () => {
+      expect(displayStatus(makeDisplay({ loggedIn: 0, currentLayoutId: 99 }), [40]).state).toBe("offline");
+    });
+
+    test("flags a display missing from the CMS", () => {
+      expect(displayStatus(undefined, [40])).toEqual({ state: "missing", display: null });
+    });
+  });
+
+  describe("getScreenStatuses", () => {
+    let businessId: number;
+
+    beforeEach(async () => {
+      await createTestDbWithSetup();
+      await clearToken();
+      await cacheInvalidateAll();
+      businessId = (await createBusiness("Van")).id;
+    });
+
+    afterEach(async () => {
+      restoreFetch();
+      await clearToken();
+      resetDb();
+    });
+
+    test("compares each mapped screen with its published layouts", async () => {
+      globalThis.fetch = createMockFetch({
+        "/api/display": () =>
+          jsonResponse([makeDisplay(), makeDisplay({ displayId: 8, currentLayoutId: 41 })]),
+        // Publishing an edit moved the menu's layout from 38 to 40
+        "/api/layout?campaignId=50": () =>
+          jsonResponse([{ layoutId: 40, campaignId: 50, layout: "Drinks", status: 1 }]),
+      });
+      const front = await createScreen("Front", businessId, 7);
+      const side = await createScreen("Side", businessId, 8);
+      const spare = await createScreen("Spare", businessId, null);
+      const menu = await createMenuScreen("Drinks", front.id, "grid-3x4", 30, 0);
+      await updateMenuScreenLayout(menu.id, { layoutId: 38, campaignId: 50 });
+
+      const statuses = await getScreenStatuses(config, [front, side, spare]);
+      expect(Object.keys(statuses)).toEqual([String(front.id), String(side.id)]);
+      expect(statuses[front.id]!.state).toBe("online");
+      expect(statuses[side.id]!.state).toBe("unexpected-layout");
+    });
+
+    test("is unknown while the CMS can't be reached", async () => {
+      globalThis.fetch = createMockFetch({
+        "/api/display": () => new Response("Error", { status: 500 }),
+      });
+      const screen = await createScreen("Front", businessId, 7);
+      expect(await getScreenStatuses(config, [screen])).toEqual({
+        [screen.id]: { state: "unknown", display: null },
+      });
+    });
+
+    test("skips the CMS when no screen has a display", async () => {
+      let called = false;
+      globalThis.fetch = createMockFetch({
+        "/api/display": () => {
+          called = true;
+          return jsonResponse([]);
+        },
+      });
+      const screen = await createScreen("Spare", businessId, null);
+      expect(await getScreenStatuses(config, [screen])).toEqual({});
+      expect(called).toBe(false);
+    });
+  });
+});
@@ -6,6 +6,8 @@ import { describe, expect, test } from "#test-compat";
 import {
   calculateGridPositions,
   calculateHeaderPosition,
+  canvasOrientation,
+  formatCanvas,
   GRID_COLS,
   GRID_ROWS,
   GRID_TOTAL_SLOTS,
@@ -13,8 +15,12 @@ import {
   HEADER_WIDTH,
   LAYOUT_STATUS_LABELS,
   layoutStatusLabel,
+  parseResolution,
   SCREEN_HEIGHT,
   SCREEN_WIDTH,
+  splitProductTile,
+  textStyleCss,
+  TILE_IMAGE_SHARE,
 } from "#xibo/layout-builder.ts";
 
 describe("layout builder constants", () => {
@@ -49,6 +55,43 @@ describe("calculateHeaderPosition", () => {
     // (1080 - 950) / 2 = 65
     expect(header.left).toBe(65);
   });
+
+  test("scales the header to a landscape canvas", () => {
+    const header = calculateHeaderPosition({ width: 1920, height: 1080 });
+    // 950/1080 of the width, 250/1920 of the height
+    expect(header).toEqual({ top: 0, left: 116, width: 1688, height: 140 });
+  });
+});
+
+describe("canvas helpers", () => {
+  test("canvasOrientation is landscape only when wider than tall", () => {
+    expect(canvasOrientation({ width: 1920, height: 1080 })).toBe("landscape");
+    expect(canvasOrientation({ width: 1080, height: 1920 })).toBe("portrait");
+    expect(canvasOrientation({ width: 1000, height: 1000 })).toBe("portrait");
+  });
+
+  test("parseResolution reads Xibo resolution strings", () => {
+    expect(parseResolution("1920x1080")).toEqual({ width: 1920, height: 1080 });
+    expect(parseResolution(" 1280 X 720 ")).toEqual({ width: 1280, height: 720 });
+  });
+
+  test("parseResolution rejects missing or malformed resolutions", () => {
+    expect(parseResolution(null)).toBeNull();
+    expect(parseResolution(undefined)).toBeNull();
+    expect(parseResolution("")).toBeNull();
+    expect(parseResolution("wide")).toBeNull();
+    expect(parseResolution("0x1080")).toBeNull();
+  });
+
+  test("formatCanvas shows size and orientation", () => {
+    expect(formatCanvas({ width: 1080, height: 1920 })).toBe("1080x1920 (portrait)");
+  });
+
+  test("textStyleCss renders the font and colour rules that are set", () => {
+    expect(textStyleCss({})).toBe("");
+    expect(textStyleCss({ font: "Georgia, serif", fontSize: 40, color: "#fff", background: "#000" }))
+      .toBe("font-family:Georgia, serif;font-size:40px;color:#fff");
+  });
 });
 
 describe("calculateGridPositions", () => {
@@ -121,6 +164,27 @@ describe("calculateGridPositions", () => {
   });
 });
 
+describe("splitProductTile", () => {
+  test("puts the image on top of tall tiles", () => {
+    const { image, caption } = splitProductTile({ top: 250, left: 360, width: 360, height: 417 });
+    const imageHeight = Math.floor(417 * TILE_IMAGE_SHARE);
+    expect(image).toEqual({ top: 250, left: 360, width: 360, height: imageHeight });
+    expect(caption).toEqual({ top: 250 + imageHeight, left: 360, width: 360, height: 417 - imageHeight });
+  });
+
+  test("puts a square image left of wide tiles", () => {
+    const { image, caption } = splitProductTile({ top: 250, left: 0, width: 900, height: 200 });
+    expect(image).toEqual({ top: 250, left: 0, width: 200, height: 200 });
+    expect(caption).toEqual({ top: 250, left: 200, width: 700, height: 200 });
+  });
+
+  test("caps the image width on barely-wide tiles", () => {
+    const { image, caption } = splitProductTile({ top: 0, left: 0, width: 110, height: 100 });
+    expect(image.width).toBe(Math.floor(110 * TILE_IMAGE_SHARE));
+    expect(caption.left + caption.width).toBe(110);
+  });
+});
+
 describe("layoutStatusLabel", () => {
   test("returns correct labels for known statuses", () => {
     expect(layoutStatusLabel(1)).toBe("Draft");
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, jest } from "#test-compat";
+import {
+  createLimiter,
+  deadlineSignal,
+  getXiboLimiter,
+  parseRetryAfter,
+  resetXiboLimiters,
+  XiboBudgetError,
+} from "#xibo/limiter.ts";
+
+/** A request that takes ms to answer */
+const slowRequest = (ms: number) => (): Promise<string> =>
+  new Promise((resolve) => setTimeout(() => resolve("done"), ms));
+
+describe("limiter", () => {
+  describe("parseRetryAfter", () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("reads delay-seconds", () => {
+      expect(parseRetryAfter("120")).toBe(120_000);
+    });
+
+    it("reads an HTTP date relative to now", () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(Date.parse("2026-01-01T00:00:00Z"));
+      expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT")).toBe(30_000);
+      expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT")).toBe(0);
+    });
+
+    it("is 0 when missing or unreadable", () => {
+      expect(parseRetryAfter(null)).toBe(0);
+      expect(parseRetryAfter("soon")).toBe(0);
+    });
+  });
+
+  describe("deadlineSignal", () => {
+    it("is absent without a deadline", () => {
+      expect(deadlineSignal()).toBeUndefined();
+    });
+
+    it("aborts at the deadline", () => {
+      expect(deadlineSignal(Date.now() + 1_000)).toBeInstanceOf(AbortSignal);
+    });
+
+    it("throws once the deadline has passed", () => {
+      expect(() => deadlineSignal(Date.now())).toThrow(XiboBudgetError);
+    });
+  });
+
+  describe("createLimiter", () => {
+    it("caps the requests in flight", async () => {
+      const limiter = createLimiter({ maxConcurrent: 2, burst: 10, perSecond: 10 });
+      let peak = 0;
+      const request = async (): Promise<void> => {
+        peak = Math.max(peak, limiter.active());
+        await slowRequest(5)();
+      };
+      await Promise.all([1, 2, 3, 4, 5].map(() => limiter.run(request)));
+      expect(peak).toBe(2);
+      expect(limiter.active()).toBe(0);
+    });
+
+    it("spaces requests out once the burst is spent", async () => {
+      const limiter = createLimiter({ maxConcurrent: 4, burst: 2, perSecond: 50 });
+      const start = Date.now();
+      for (let i = 0; i < 3; i++) await limiter.run(slowRequest(0));
+      expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+    });
+
+    it("fails a request that would wait for a token past its deadline", async () => {
+      const limiter = createLimiter({ maxConcurrent: 4, burst: 1, perSecond: 1 });
+      await limiter.run(slowRequest(0));
+      let ran = false;
+      const error = await limiter.run(() => {
+        ran = true;
+        return Promise.resolve();
+      }, Date.now() + 500).catch((e) => e);
+      expect(error).toBeInstanceOf(XiboBudgetError);
+      expect((error as Error).message).toBe("Timed out waiting for Xibo CMS");
+      expect(ran).toBe(false);
+    });
+
+    it("fails a request still waiting for a slot at its deadline", async () => {
+      const limiter = createLimiter({ maxConcurrent: 1, burst: 10, perSecond: 10 });
+      const first = limiter.run(slowRequest(100));
+      await expect(limiter.run(slowRequest(0), Date.now() + 20)).rejects.toThrow(
+        "Timed out waiting for Xibo CMS",
+      );
+      expect(await first).toBe("done");
+    });
+
+    it("frees the slot when a request throws", async () => {
+      const limiter = createLimiter({ maxConcurrent: 1, burst: 10, perSecond: 10 });
+      await expect(limiter.run(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+      expect(await limiter.run(slowRequest(0))).toBe("done");
+    });
+
+    it("holds requests back for a pause", async () => {
+      const limiter = createLimiter();
+      limiter.pause(20);
+      const start = Date.now();
+      await limiter.run(slowRequest(0));
+      expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+    });
+
+    it("pauses only for a 429 or 503 asking for it", async () => {
+      const limiter = createLimiter();
+      const deadline = () => Date.now() + 1_000;
+      limiter.honourRetryAfter(new Response(null, { status: 500, headers: { "Retry-After": "5" } }));
+      limiter.honourRetryAfter(new Response(null, { status: 429 }));
+      expect(await limiter.run(slowRequest(0), deadline())).toBe("done");
+
+      limiter.honourRetryAfter(new Response(null, { status: 503, headers: { "Retry-After": "5" } }));
+      await expect(limiter.run(slowRequest(0), deadline())).rejects.toThrow(XiboBudgetError);
+    });
+  });
+
+  describe("getXiboLimiter", () => {
+    it("keeps one limiter per connection until reset", () => {
+      const limiter = getXiboLimiter("default");
+      expect(getXiboLimiter("default")).toBe(limiter);
+      expect(getXiboLimiter("connection-7")).not.toBe(limiter);
+      resetXiboLimiters();
+      expect(getXiboLimiter("default")).not.toBe(limiter);
+    });
+  });
+});
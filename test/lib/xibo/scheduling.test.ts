@@ -15,6 +15,7 @@ import {
 import {
   buildCampaignLayouts,
   createCampaign,
+  daypartEventFields,
   deleteCampaign,
   deleteScheduleEvent,
   getSchedulesForDisplay,
@@ -53,7 +54,12 @@ const makeDisplayMenuScreen = (
   display_time: 30,
   sort_order: 0,
   xibo_layout_id: null,
+  xibo_layout_campaign_id: null,
   xibo_campaign_id: null,
+  active_days: null,
+  active_from: null,
+  active_to: null,
+  draft: null,
   created_at: "2024-01-01T00:00:00Z",
   ...overrides,
 });
@@ -63,13 +69,13 @@ describe("display scheduling", () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -150,52 +156,64 @@ describe("display scheduling", () => {
   });
 
   describe("updateCampaign", () => {
-    test("updates campaign with new layouts", async () => {
-      let assignCount = 0;
-
+    /** Mock a campaign read as given, recording removals and assignments */
+    const mockCampaign = (campaigns: unknown[]) => {
+      const calls: string[] = [];
       globalThis.fetch = createMockFetch({
-        "/api/campaign": (_url, init) => {
-          if (_url.includes("/layout/assign") && init?.method === "POST") {
-            assignCount++;
-            return jsonResponse({});
+        "/api/campaign": (url, init) => {
+          if (init?.method === "DELETE") {
+            calls.push(`remove ${new URL(url).search}`);
+            return new Response(null, { status: 204 });
           }
-          if (init?.method === "PUT") {
-            return jsonResponse({ campaignId: 50, campaign: "Test", isLayoutSpecific: 0, totalDuration: 0 });
+          if (init?.method === "POST") {
+            calls.push(`assign ${init.body}`);
+            return jsonResponse({});
           }
-          // GET for campaign list
-          return jsonResponse([{ campaignId: 50, campaign: "Test", isLayoutSpecific: 0, totalDuration: 0 }]);
+          return jsonResponse(campaigns);
         },
       });
+      return calls;
+    };
 
-      await updateCampaign(config, 50, [
-        { layoutId: 30, displayOrder: 1 },
+    const campaign = { campaignId: 50, campaign: "Test", isLayoutSpecific: 0, totalDuration: 0 };
+
+    test("removes the current layouts, last first, before assigning new ones", async () => {
+      const calls = mockCampaign([{
+        ...campaign,
+        layouts: [{ layoutId: 11, displayOrder: 2 }, { layoutId: 10, displayOrder: 1 }],
+      }]);
+
+      await updateCampaign(config, 50, [{ layoutId: 30, displayOrder: 1 }]);
+
+      expect(calls).toEqual([
+        "remove ?layoutId=11&displayOrder=2",
+        "remove ?layoutId=10&displayOrder=1",
+        `assign ${JSON.stringify({ layoutId: [30], displayOrder: [1] })}`,
       ]);
+    });
+
+    test("leaves a campaign already playing the layouts in order", async () => {
+      const calls = mockCampaign([{ ...campaign, layouts: [{ layoutId: 30, displayOrder: 1 }] }]);
+
+      await updateCampaign(config, 50, [{ layoutId: 30, displayOrder: 1 }]);
 
-      expect(assignCount).toBe(1);
+      expect(calls).toEqual([]);
     });
 
-    test("continues when put fails during campaign update", async () => {
-      let assignCount = 0;
+    test("assigns layouts to a campaign read without any", async () => {
+      const calls = mockCampaign([campaign]);
 
-      globalThis.fetch = createMockFetch({
-        "/api/campaign": (_url, init) => {
-          if (_url.includes("/layout/assign") && init?.method === "POST") {
-            assignCount++;
-            return jsonResponse({});
-          }
-          if (init?.method === "PUT") {
-            return new Response("Internal Server Error", { status: 500 });
-          }
-          // GET for campaign list
-          return jsonResponse([{ campaignId: 50, campaign: "Test", isLayoutSpecific: 0, totalDuration: 0 }]);
-        },
-      });
+      await updateCampaign(config, 50, [{ layoutId: 30, displayOrder: 1 }]);
 
-      await updateCampaign(config, 50, [
-        { layoutId: 30, displayOrder: 1 },
-      ]);
+      expect(calls).toHaveLength(1);
+    });
 
-      expect(assignCount).toBe(1);
+    test("assigns layouts when the campaign is missing on the CMS", async () => {
+      const calls = mockCampaign([]);
+
+      await updateCampaign(config, 50, [{ layoutId: 30, displayOrder: 1 }]);
+
+      expect(calls).toHaveLength(1);
     });
   });
 
@@ -282,6 +300,61 @@ describe("display scheduling", () => {
       expect(capturedBody!.campaignId).toBe(50);
       expect(capturedBody!.displayGroupIds).toEqual([10]);
     });
+
+    test("creates a recurring timed event for a daypart", async () => {
+      let capturedBody: Record<string, unknown> | null = null;
+
+      globalThis.fetch = createMockFetch({
+        "/api/schedule": (_url, init) => {
+          capturedBody = JSON.parse(init!.body as string);
+          return jsonResponse({ eventId: 2, eventTypeId: 1, campaignId: 50, displayGroupIds: [10], fromDt: null, toDt: null, isPriority: 1 });
+        },
+      });
+
+      await scheduleCampaign(config, 50, 10, { active_days: "6,7", active_from: "09:00", active_to: "12:00" });
+      expect(capturedBody!.isPriority).toBe(1);
+      expect(capturedBody!.recurrenceType).toBe("Week");
+      expect(capturedBody!.recurrenceRepeatsOn).toBe("6,7");
+      expect(capturedBody!.fromDt).toMatch(/^\d{4}-\d{2}-\d{2} 09:00:00$/);
+      expect(capturedBody!.toDt).toMatch(/^\d{4}-\d{2}-\d{2} 12:00:00$/);
+    });
+  });
+
+  describe("daypartEventFields", () => {
+    const always = { active_days: null, active_from: null, active_to: null };
+
+    test("always-active dayparts have no dates", () => {
+      expect(daypartEventFields(always, "2024-03-01")).toEqual({ isPriority: 0 });
+    });
+
+    test("hour ranges recur daily from the start date", () => {
+      expect(daypartEventFields({ ...always, active_from: "07:00", active_to: "11:00" }, "2024-03-01"))
+        .toEqual({
+          isPriority: 1,
+          fromDt: "2024-03-01 07:00:00",
+          toDt: "2024-03-01 11:00:00",
+          recurrenceType: "Day",
+          recurrenceDetail: 1,
+        });
+    });
+
+    test("ranges ending before they start run past midnight", () => {
+      const fields = daypartEventFields({ ...always, active_from: "22:00", active_to: "02:00" }, "2024-02-29");
+      expect(fields.fromDt).toBe("2024-02-29 22:00:00");
+      expect(fields.toDt).toBe("2024-03-01 02:00:00");
+    });
+
+    test("days without hours run all day every week on those days", () => {
+      expect(daypartEventFields({ ...always, active_days: "6,7" }, "2024-12-31"))
+        .toEqual({
+          isPriority: 1,
+          fromDt: "2024-12-31 00:00:00",
+          toDt: "2025-01-01 00:00:00",
+          recurrenceType: "Week",
+          recurrenceDetail: 1,
+          recurrenceRepeatsOn: "6,7",
+        });
+    });
   });
 
   describe("rebuildScreenSchedule", () => {
@@ -333,6 +406,8 @@ describe("display scheduling", () => {
           }
           return jsonResponse([{ campaignId: 60, campaign: "Existing", isLayoutSpecific: 0, totalDuration: 0 }]);
         },
+        "/api/schedule": (_url, init) =>
+          jsonResponse(init?.method === "POST" ? { eventId: 1, campaignId: 60 } : []),
       });
 
       const menuScreens = [
@@ -363,6 +438,93 @@ describe("display scheduling", () => {
       expect(result.campaignId).toBe(60);
     });
 
+    test("creates one campaign and schedule event per daypart", async () => {
+      const createdNames: string[] = [];
+      const scheduled: Record<string, unknown>[] = [];
+      let nextCampaignId = 80;
+
+      globalThis.fetch = createMockFetch({
+        "/api/campaign": (url, init) => {
+          if (init?.method === "POST" && !url.includes("/layout/assign")) {
+            createdNames.push(JSON.parse(init.body as string).name);
+            return jsonResponse({ campaignId: nextCampaignId++, campaign: "c", isLayoutSpecific: 0, totalDuration: 0 });
+          }
+          return jsonResponse({});
+        },
+        "/api/schedule": (_url, init) => {
+          if (init?.method === "POST") {
+            scheduled.push(JSON.parse(init.body as string));
+            return jsonResponse({ eventId: scheduled.length, eventTypeId: 1, campaignId: 0, displayGroupIds: [5], fromDt: null, toDt: null, isPriority: 0 });
+          }
+          return jsonResponse([]);
+        },
+      });
+
+      const breakfast = { active_days: "1,2,3,4,5", active_from: "07:00", active_to: "11:00" };
+      const menuScreens = [
+        makeDisplayMenuScreen({ id: 1, xibo_layout_id: 10, ...breakfast }),
+        makeDisplayMenuScreen({ id: 2, xibo_layout_id: 20 }),
+        makeDisplayMenuScreen({ id: 3, xibo_layout_id: 30, ...breakfast }),
+        makeDisplayMenuScreen({ id: 4, xibo_layout_id: null, active_from: "17:00", active_to: "22:00" }),
+      ];
+
+      const result = await rebuildScreenSchedule(config, menuScreens, "Cafe", 5, null);
+      expect(createdNames).toEqual([
+        "Screen: Cafe (Mon, Tue, Wed, Thu, Fri 07:00–11:00)",
+        "Screen: Cafe",
+      ]);
+      expect(result.campaignId).toBe(80);
+      expect(result.campaignIds).toEqual({ 1: 80, 2: 81, 3: 80 });
+      expect(scheduled.length).toBe(2);
+      expect(scheduled[0]!.campaignId).toBe(80);
+      expect(scheduled[0]!.recurrenceRepeatsOn).toBe("1,2,3,4,5");
+      expect(scheduled[1]!.campaignId).toBe(81);
+      expect(scheduled[1]!.fromDt).toBeUndefined();
+    });
+
+    test("replaces existing events and deletes campaigns no longer used", async () => {
+      const deleted: string[] = [];
+      let scheduleCount = 0;
+
+      globalThis.fetch = createMockFetch({
+        "/api/campaign": (url, init) => {
+          if (init?.method === "DELETE") {
+            deleted.push(url.slice(url.indexOf("/api/")));
+            return new Response(null, { status: 204 });
+          }
+          if (init?.method === "GET") {
+            return jsonResponse([{ campaignId: 60, campaign: "Existing", isLayoutSpecific: 0, totalDuration: 0 }]);
+          }
+          return jsonResponse({});
+        },
+        "/api/schedule": (url, init) => {
+          if (init?.method === "DELETE") {
+            deleted.push(url.slice(url.indexOf("/api/")));
+            return new Response(null, { status: 204 });
+          }
+          if (init?.method === "POST") {
+            scheduleCount++;
+            return jsonResponse({ eventId: 9, eventTypeId: 1, campaignId: 60, displayGroupIds: [5], fromDt: null, toDt: null, isPriority: 0 });
+          }
+          return jsonResponse([
+            { eventId: 3, eventTypeId: 1, campaignId: 60, displayGroupIds: [5], fromDt: null, toDt: null, isPriority: 0 },
+            { eventId: 4, eventTypeId: 1, campaignId: 999, displayGroupIds: [5], fromDt: null, toDt: null, isPriority: 0 },
+          ]);
+        },
+      });
+
+      // Both screens were previously split across campaigns 60 and 61
+      const menuScreens = [
+        makeDisplayMenuScreen({ id: 1, xibo_layout_id: 10, xibo_campaign_id: 60 }),
+        makeDisplayMenuScreen({ id: 2, xibo_layout_id: 20, xibo_campaign_id: 61 }),
+      ];
+
+      const result = await rebuildScreenSchedule(config, menuScreens, "Cafe", 5, null);
+      expect(result.campaignIds).toEqual({ 1: 60, 2: 60 });
+      expect(deleted).toEqual(["/api/campaign/61", "/api/schedule/3"]);
+      expect(scheduleCount).toBe(1);
+    });
+
     test("returns existing campaign ID when no layouts and no existing campaign", async () => {
       const result = await rebuildScreenSchedule(config, [], "Test", 5, null);
       expect(result.campaignId).toBe(0);
@@ -0,0 +1,148 @@
+/**
+ * Tests for the Xibo response schemas
+ */
+
+import { describe, expect, test } from "#test-compat";
+import {
+  array,
+  nullable,
+  num,
+  object,
+  optional,
+  responseSchema,
+  SchemaError,
+  str,
+  withDefault,
+} from "#xibo/schemas.ts";
+
+/** Run a schema, returning the SchemaError message it throws */
+const errorOf = (run: () => unknown): string => {
+  try {
+    run();
+  } catch (e) {
+    expect(e).toBeInstanceOf(SchemaError);
+    return (e as SchemaError).message;
+  }
+  throw new Error("schema accepted the value");
+};
+
+describe("xibo schemas", () => {
+  describe("num", () => {
+    test("accepts numbers and numeric strings", () => {
+      expect(num(4, "n")).toBe(4);
+      expect(num("4.5", "n")).toBe(4.5);
+    });
+
+    test("rejects blank and non-numeric values", () => {
+      expect(errorOf(() => num("", "n"))).toBe("n: expected a number, got string");
+      expect(errorOf(() => num("four", "n"))).toBe("n: expected a number, got string");
+      expect(errorOf(() => num(null, "n"))).toBe("n: expected a number, got null");
+    });
+  });
+
+  describe("str", () => {
+    test("accepts strings and turns numbers into strings", () => {
+      expect(str("tea", "s")).toBe("tea");
+      expect(str(2.5, "s")).toBe("2.5");
+    });
+
+    test("rejects other values", () => {
+      expect(errorOf(() => str([], "s"))).toBe("s: expected a string, got array");
+    });
+  });
+
+  describe("missing values", () => {
+    test("nullable, optional and withDefault fill in null and undefined", () => {
+      expect(nullable(num)(undefined, "v")).toBeNull();
+      expect(optional(num)(null, "v")).toBeUndefined();
+      expect(withDefault(num, 7)(undefined, "v")).toBe(7);
+      expect(withDefault(num, 7)("8", "v")).toBe(8);
+    });
+  });
+
+  describe("object and array", () => {
+    const item = object<{ id: number; name: string }>({ id: num, name: str });
+
+    test("parses named fields and keeps the rest", () => {
+      expect(array(item)([{ id: "1", name: "Tea", extra: true }], "r"))
+        .toEqual([{ id: 1, name: "Tea", extra: true }]);
+    });
+
+    test("names the path of the first bad value", () => {
+      expect(errorOf(() => array(item)([{ id: 1, name: "Tea" }, { id: 2 }], "r")))
+        .toBe("r[1].name: expected a string, got undefined");
+      expect(errorOf(() => array(item)({}, "r"))).toBe("r: expected an array, got object");
+      expect(errorOf(() => item("x", "r"))).toBe("r: expected an object, got string");
+    });
+  });
+
+  describe("responseSchema", () => {
+    test("finds the schema by method and endpoint, ignoring the query", () => {
+      const schema = responseSchema("GET", "campaign?campaignId=4")!;
+      expect(schema([{ campaignId: "4", campaign: "Lobby" }], "response")).toEqual([
+        { campaignId: 4, campaign: "Lobby", isLayoutSpecific: 0, totalDuration: 0 },
+      ]);
+    });
+
+    test("matches numeric IDs and widget types in the path", () => {
+      expect(responseSchema("POST", "playlist/widget/text/12")).not.toBeNull();
+      expect(responseSchema("GET", "menuboard/3/products")).not.toBeNull();
+      expect(responseSchema("GET", "menuboard/x/products")).toBeNull();
+    });
+
+    test("doesn't check updates and deletes", () => {
+      expect(responseSchema("PUT", "layout/publish/5")).toBeNull();
+      expect(responseSchema("DELETE", "layout/5")).toBeNull();
+    });
+
+    test("checks folders down the tree", () => {
+      const folders = responseSchema("GET", "folders")!;
+      expect(folders([{ folderId: 1, text: "Root", children: [{ folderId: "2", text: "Cafe" }] }], "response"))
+        .toEqual([{
+          folderId: 1,
+          text: "Root",
+          parentId: null,
+          children: [{ folderId: 2, text: "Cafe", parentId: null, children: [] }],
+        }]);
+    });
+
+    test("checks regions embedded in a layout, filling in empty playlists", () => {
+      const layouts = responseSchema("GET", "layout")!;
+      const [layout] = layouts([{
+        layoutId: 5,
+        campaignId: 15,
+        layout: "Menu",
+        status: 3,
+        regions: [
+          { regionId: "6", regionPlaylist: { widgets: [{ widgetId: 7, type: "text", widgetOptions: [{ option: "name", value: null }] }] } },
+          { regionId: 8 },
+        ],
+      }], "response") as { regions: unknown[] }[];
+      expect(layout!.regions).toEqual([
+        {
+          regionId: 6, width: 0, height: 0, top: 0, left: 0, zIndex: 0,
+          regionPlaylist: {
+            widgets: [{
+              widgetId: 7,
+              type: "text",
+              displayOrder: 0,
+              duration: 0,
+              useDuration: 0,
+              widgetOptions: [{ option: "name", value: null }],
+              mediaIds: [],
+            }],
+          },
+        },
+        { regionId: 8, width: 0, height: 0, top: 0, left: 0, zIndex: 0, regionPlaylist: { widgets: [] } },
+      ]);
+    });
+
+    test("requires dataset rows to have an id and plain values", () => {
+      const rows = responseSchema("GET", "dataset/data/5")!;
+      expect(rows([{ id: "3", name: "Tea", mediaId: null }], "response"))
+        .toEqual([{ id: 3, name: "Tea", mediaId: null }]);
+      expect(errorOf(() => rows([{ id: 3, name: { text: "Tea" } }], "response")))
+        .toBe("response[0].name: expected a string, number or null, got object");
+    });
+  });
+});
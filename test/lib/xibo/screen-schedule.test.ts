@@ -0,0 +1,262 @@
+import { afterEach, beforeEach, describe, expect, test } from "#test-compat";
+import { createBusiness } from "#lib/db/businesses.ts";
+import { getDb } from "#lib/db/client.ts";
+import { createMenuScreen, getMenuScreensForScreen, updateMenuScreenLayout } from "#lib/db/menu-screens.ts";
+import { createScreen, type DisplayScreen, getScreenById, toDisplayScreen } from "#lib/db/screens.ts";
+import { clearToken, post, put } from "#xibo/client.ts";
+import { cacheInvalidateAll } from "#xibo/cache.ts";
+import { calculateHeaderPosition, publishNewLayout, textSpec } from "#xibo/layout-builder.ts";
+import { createCampaign, scheduleCampaign } from "#xibo/scheduling.ts";
+import {
+  checkScreenSchedule,
+  invalidateScheduleCache,
+  refreshScreenSchedule,
+  repairScreenSchedule,
+} from "#xibo/screen-schedule.ts";
+import type { ScheduleDrift, XiboLayout } from "#xibo/types.ts";
+import type { MenuScreenDaypart } from "#lib/types.ts";
+import {
+  createTestDbWithSetup,
+  createXiboSimulator,
+  installXiboSimulator,
+  resetDb,
+  SIMULATOR_API_URL,
+  type XiboSimulator,
+} from "#test-utils";
+
+const config = {
+  apiUrl: SIMULATOR_API_URL,
+  clientId: "demo-id",
+  clientSecret: "demo-secret",
+};
+
+const BRUNCH = { active_days: "6", active_from: "09:00", active_to: "13:00" };
+const WEEKEND = { active_days: "6,7", active_from: null, active_to: null };
+
+describe("screen schedules", () => {
+  let sim: XiboSimulator;
+  let restore: () => void;
+  let businessId: number;
+  let screen: DisplayScreen;
+  let built: XiboLayout[];
+  let layouts: [number, number];
+
+  /** The screen as stored now */
+  const reload = async (): Promise<DisplayScreen> => toDisplayScreen((await getScreenById(screen.id))!);
+
+  /** Campaign ID of each of the screen's menu screens */
+  const campaignIds = async (): Promise<(number | null)[]> =>
+    (await getMenuScreensForScreen(screen.id)).map((ms) => ms.xibo_campaign_id);
+
+  /** Give the screen a menu screen playing a layout */
+  const addMenuScreen = async (
+    name: string,
+    layout: XiboLayout,
+    sortOrder: number,
+    daypart?: MenuScreenDaypart,
+  ): Promise<void> => {
+    const ms = await createMenuScreen(name, screen.id, "grid-3x4", 10, sortOrder, daypart);
+    await updateMenuScreenLayout(ms.id, layout);
+  };
+
+  /** Check a screen as the schedule pages do, seeing changes made on the CMS */
+  const check = async (checked = screen): Promise<ScheduleDrift[]> => {
+    await invalidateScheduleCache(config);
+    return checkScreenSchedule(config, checked);
+  };
+
+  /** Repair a screen as the schedule pages do */
+  const repair = async (repaired = screen): Promise<void> => {
+    await invalidateScheduleCache(config);
+    await repairScreenSchedule(config, repaired);
+  };
+
+  beforeEach(async () => {
+    await createTestDbWithSetup();
+    await clearToken();
+    await cacheInvalidateAll();
+    sim = createXiboSimulator();
+    restore = installXiboSimulator(sim).restore;
+    businessId = (await createBusiness("Van")).id;
+    screen = await toDisplayScreen(await createScreen("Front", businessId, 3));
+    const layout = async (name: string): Promise<XiboLayout> => {
+      const created = await post<XiboLayout>(config, "layout", { name, resolutionId: 2 });
+      await publishNewLayout(config, created, [textSpec(calculateHeaderPosition(), name)], 10);
+      return created;
+    };
+    built = [await layout("One"), await layout("Two")];
+    layouts = [built[0]!.layoutId, built[1]!.layoutId];
+    await addMenuScreen("Mains", built[0]!, 0);
+    await addMenuScreen("Drinks", built[1]!, 1);
+    await addMenuScreen("Brunch", built[0]!, 2, BRUNCH);
+    await addMenuScreen("Weekend", built[1]!, 3, WEEKEND);
+    await refreshScreenSchedule(config, screen, null);
+    screen = await reload();
+  });
+
+  afterEach(async () => {
+    restore();
+    await clearToken();
+    resetDb();
+  });
+
+  /** The campaign playing the always-on menu screens */
+  const alwaysCampaign = () => sim.state.campaigns.find((c) => c.campaign === "Screen: Front")!;
+
+  test("publishes a campaign per daypart on a new display group", async () => {
+    const groupId = screen.xibo_display_group_id!;
+    expect(sim.state.displayGroups.map((g) => g.displayIds)).toEqual([[3]]);
+    expect(sim.state.campaigns.map((c) => c.layoutIds)).toEqual([layouts, [layouts[0]], [layouts[1]]]);
+    expect(sim.state.schedules.map((s) => s.displayGroupIds)).toEqual([[groupId], [groupId], [groupId]]);
+    const [always, brunch, weekend] = sim.state.campaigns.map((c) => c.campaignId);
+    expect(await campaignIds()).toEqual([always, always, brunch, weekend]);
+  });
+
+  test("finds no drift in a screen Xibo still matches", async () => {
+    expect(await check()).toEqual([]);
+  });
+
+  test("reports layouts reordered or unassigned on the CMS", async () => {
+    alwaysCampaign().layoutIds.reverse();
+    sim.state.campaigns[1]!.layoutIds = [];
+
+    expect(await check()).toEqual([
+      { subject: "Campaign (Always)", expected: `Layouts ${layouts.join(", ")}`, actual: `Layouts ${layouts[1]}, ${layouts[0]}` },
+      { subject: "Campaign (Sat 09:00–13:00)", expected: `Layouts ${layouts[0]}`, actual: "None" },
+      { subject: "Rotation (Sat 09:00–13:00)", expected: "10s", actual: "0s" },
+    ]);
+
+    await repair();
+    expect(alwaysCampaign().layoutIds).toEqual(layouts);
+    expect(await check()).toEqual([]);
+  });
+
+  /** Play a layout's widget for another time, as if edited on the CMS */
+  const retimeOnCms = (layoutId: number, duration: number): void => {
+    const region = sim.state.regions.find((r) => r.layoutId === layoutId)!;
+    sim.state.widgets.find((w) => w.regionId === region.regionId)!.duration = duration;
+    sim.state.layouts.find((l) => l.layoutId === layoutId)!.duration = duration;
+  };
+
+  /** The screen's layout playing in place of one it was built with */
+  const currentLayout = (layout: XiboLayout) => sim.state.layouts.find((l) => l.campaignId === layout.campaignId)!;
+
+  test("reports layouts retimed on the CMS and plays them for their display time again", async () => {
+    retimeOnCms(layouts[1], 25);
+
+    expect(await check()).toEqual([
+      { subject: "Rotation (Always)", expected: "20s", actual: "35s" },
+      { subject: "Rotation (Sat, Sun)", expected: "10s", actual: "25s" },
+    ]);
+
+    await repair();
+    expect(sim.state.widgets.map((w) => w.duration)).toEqual([10, 10]);
+    expect(alwaysCampaign().layoutIds).toEqual([layouts[0], currentLayout(built[1]!).layoutId]);
+    expect(await check()).toEqual([]);
+  });
+
+  test("retimes a layout recorded before its campaign, and records the campaign", async () => {
+    await getDb().execute({
+      sql: "UPDATE menu_screens SET xibo_layout_campaign_id = NULL WHERE xibo_layout_id = ?",
+      args: [layouts[1]],
+    });
+    retimeOnCms(layouts[1], 25);
+
+    await repair();
+    expect((await getMenuScreensForScreen(screen.id)).map((ms) => ms.xibo_layout_campaign_id)).toEqual(
+      built.map((l) => l.campaignId).concat(built.map((l) => l.campaignId)),
+    );
+    expect(currentLayout(built[1]!).duration).toBe(10);
+    expect(await check()).toEqual([]);
+  });
+
+  test("reports events deleted or added on the CMS and replaces them", async () => {
+    const groupId = screen.xibo_display_group_id!;
+    const brunch = sim.state.campaigns[1]!.campaignId;
+    sim.state.schedules.splice(sim.state.schedules.findIndex((s) => s.campaignId === brunch), 1);
+    const other = await createCampaign(config, "Specials", []);
+    await scheduleCampaign(config, other.campaignId, groupId);
+
+    expect(await check()).toEqual([
+      {
+        subject: "Schedule (Sat 09:00–13:00)",
+        expected: `Sat 09:00–13:00, priority on display group ${groupId}`,
+        actual: "None",
+      },
+      { subject: "Other events", expected: "None", actual: `Campaign ${other.campaignId}: Always on display group ${groupId}` },
+    ]);
+
+    await repair();
+    expect(sim.state.schedules.map((s) => s.campaignId)).not.toContain(other.campaignId);
+    expect(await check()).toEqual([]);
+  });
+
+  test("expects a layout edited since publishing under its new ID", async () => {
+    await put(config, `layout/checkout/${layouts[0]}`, {});
+    const edited = await put<XiboLayout>(config, `layout/publish/${layouts[0]}`, {});
+    expect(await check()).toEqual([]);
+
+    await repair();
+    expect(alwaysCampaign().layoutIds).toEqual([edited.layoutId, layouts[1]]);
+  });
+
+  test("reports events moved to another group", async () => {
+    const groupId = screen.xibo_display_group_id!;
+    const event = sim.state.schedules.find((s) => s.campaignId === alwaysCampaign().campaignId)!;
+    event.displayGroupIds = [groupId, 4];
+
+    expect(await check()).toEqual([{
+      subject: "Schedule (Always)",
+      expected: `Always on display group ${groupId}`,
+      actual: `Always on display groups ${groupId}, 4`,
+    }]);
+  });
+
+  test("recreates a campaign deleted on the CMS", async () => {
+    const deleted = alwaysCampaign().campaignId;
+    sim.state.campaigns.splice(sim.state.campaigns.indexOf(alwaysCampaign()), 1);
+
+    expect(await check()).toEqual([
+      { subject: "Campaign (Always)", expected: `Layouts ${layouts.join(", ")}`, actual: "Missing" },
+    ]);
+
+    await repair();
+    const [first, second] = await campaignIds();
+    expect(first).not.toBe(deleted);
+    expect(second).toBe(first);
+    expect(await check()).toEqual([]);
+  });
+
+  test("restores the display group's displays", async () => {
+    sim.state.displayGroups[0]!.displayIds = [3, 4];
+
+    expect(await check()).toEqual([
+      { subject: "Display group", expected: "Displays 3", actual: "Displays 3, 4" },
+    ]);
+
+    await repair();
+    expect(sim.state.displayGroups[0]!.displayIds).toEqual([3]);
+  });
+
+  test("recreates a display group deleted on the CMS and schedules on it", async () => {
+    sim.state.displayGroups.length = 0;
+
+    expect(await check()).toEqual([
+      { subject: "Display group", expected: "Displays 3", actual: "None" },
+    ]);
+
+    await repair();
+    screen = await reload();
+    expect(sim.state.displayGroups.map((g) => g.displayGroupId)).toEqual([screen.xibo_display_group_id!]);
+    expect(await check()).toEqual([]);
+  });
+
+  test("leaves a screen without displays unpublished", async () => {
+    const bare = await toDisplayScreen(await createScreen("Back", businessId, null));
+
+    expect(await refreshScreenSchedule(config, bare, 7)).toBe(7);
+    expect(await check(bare)).toEqual([]);
+    await repair(bare);
+    expect(sim.state.displayGroups).toHaveLength(1);
+  });
+});
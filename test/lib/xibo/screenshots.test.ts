@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from "#test-compat";
+import { clearToken } from "#xibo/client.ts";
+import { fetchScreenshot, requestScreenshot, screenshotCapturedAt } from "#xibo/screenshots.ts";
+import {
+  createTestDbWithSetup,
+  createXiboSimulator,
+  installXiboSimulator,
+  resetDb,
+  SIMULATOR_API_URL,
+  type XiboSimulator,
+} from "#test-utils";
+
+const config = {
+  apiUrl: SIMULATOR_API_URL,
+  clientId: "demo-id",
+  clientSecret: "demo-secret",
+};
+
+describe("display screenshots", () => {
+  let sim: XiboSimulator;
+  let restore: () => void;
+
+  beforeEach(async () => {
+    await createTestDbWithSetup();
+    await clearToken();
+    sim = createXiboSimulator();
+    restore = installXiboSimulator(sim).restore;
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    restore();
+    await clearToken();
+    resetDb();
+  });
+
+  test("fetches a requested screenshot with its capture time", async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(Date.parse("2026-03-01T09:30:00Z"));
+    await requestScreenshot(config, 3);
+
+    expect(await screenshotCapturedAt(config, 3)).toBe(Date.parse("2026-03-01T09:30:00Z"));
+    const response = await fetchScreenshot(config, 3);
+    expect(response.headers.get("content-type")).toBe("image/png");
+    expect((await response.arrayBuffer()).byteLength).toBeGreaterThan(0);
+  });
+
+  test("has no capture time before the display sends one", async () => {
+    expect(await screenshotCapturedAt(config, 3)).toBeNull();
+  });
+
+  test("has no capture time when the CMS doesn't date the screenshot", async () => {
+    sim.state.screenshots.set(3, { file: new Blob(["x"], { type: "image/png" }), capturedAt: Number.NaN });
+    expect(await screenshotCapturedAt(config, 3)).toBeNull();
+  });
+
+  test("fails to request a screenshot from a missing display", async () => {
+    await expect(requestScreenshot(config, 99)).rejects.toThrow("404");
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Tests for the in-memory Xibo CMS simulator
+ *
+ * Drives the simulator through the real client, layout builder and
+ * scheduling code, as the dev server does with XIBO_SIMULATOR set.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "#test-compat";
+import {
+  authenticate,
+  clearToken,
+  del,
+  get,
+  getAll,
+  getCount,
+  post,
+  postMultipart,
+  put,
+  testConnection,
+} from "#xibo/client.ts";
+import { cacheInvalidateAll } from "#xibo/cache.ts";
+import {
+  createMenuLayout,
+  fetchMenuScreenLayout,
+  withCurrentLayoutIds,
+} from "#xibo/layout-builder.ts";
+import { deleteMedia, fetchFolders, fetchMediaRaw, uploadMedia } from "#xibo/media-ops.ts";
+import {
+  createCampaign,
+  deleteCampaign,
+  getSchedulesForDisplay,
+  scheduleCampaign,
+  updateCampaign,
+} from "#xibo/scheduling.ts";
+import type {
+  XiboCampaign,
+  XiboCategory,
+  XiboDataset,
+  XiboDatasetRow,
+  XiboDisplay,
+  XiboFolder,
+  XiboLayout,
+  XiboMenuBoard,
+} from "#xibo/types.ts";
+import {
+  createTestDbWithSetup,
+  createXiboSimulator,
+  installXiboSimulator,
+  resetDb,
+  SIMULATOR_API_URL,
+  type XiboSimulator,
+} from "#test-utils";
+
+const config = {
+  apiUrl: SIMULATOR_API_URL,
+  clientId: "demo-id",
+  clientSecret: "demo-secret",
+};
+
+describe("xibo simulator", () => {
+  let sim: XiboSimulator;
+  let restore: () => void;
+
+  beforeEach(async () => {
+    await createTestDbWithSetup();
+    await clearToken();
+    await cacheInvalidateAll();
+    sim = createXiboSimulator();
+    restore = installXiboSimulator(sim).restore;
+  });
+
+  afterEach(async () => {
+    restore();
+    await clearToken();
+    resetDb();
+  });
+
+  describe("authentication", () => {
+    test("reports its version to a connection test", async () => {
+      const result = await testConnection(config);
+      expect(result.success).toBe(true);
+      expect(result.version).toBe("4.1.0-simulator");
+    });
+
+    test("rejects credentials other than the configured ones", async () => {
+      restore();
+      sim = createXiboSimulator({ clientId: "demo-id", clientSecret: "other" });
+      restore = installXiboSimulator(sim).restore;
+      await expect(authenticate(config)).rejects.toThrow("Authentication failed: 401");
+    });
+
+    test("answers 401 to unknown tokens, so the client re-authenticates", async () => {
+      await get(config, "about");
+      sim.state.tokens.clear();
+      expect(await get<XiboDisplay[]>(config, "display")).toHaveLength(2);
+      expect(sim.state.tokens.size).toBe(1);
+    });
+
+    test("fails like an unreachable CMS when offline", async () => {
+      sim.offline = true;
+      await expect(authenticate(config)).rejects.toThrow("Failed to connect to Xibo CMS");
+    });
+
+    test("answers 404 to endpoints it doesn't simulate", async () => {
+      await expect(get(config, "playersoftware")).rejects.toThrow("404");
+    });
+  });
+
+  describe("lists", () => {
+    test("pages, counts and filters menu boards", async () => {
+      for (const name of ["A", "B", "C"]) await post(config, "menuboard", { name, code: name });
+
+      const page = await get<XiboMenuBoard[]>(config, "menuboards", { start: "1", length: "1" });
+      expect(page.map((b) => b.name)).toEqual(["B"]);
+      expect(await getCount(config, "menuboards")).toBe(3);
+      const [board] = await get<XiboMenuBoard[]>(config, "menuboards", { menuId: "101" });
+      expect(board!.name).toBe("B");
+    });
+
+    test("returns folders as a tree under the root", async () => {
+      await post(config, "folders", { text: "Cafe-abc" });
+      const [root] = await fetchFolders(config) as XiboFolder[];
+      expect(root!.text).toBe("Root");
+      expect(root!.children.map((f) => f.text)).toEqual(["Cafe-abc"]);
+    });
+  });
+
+  describe("library", () => {
+    test("stores uploads for download until deleted", async () => {
+      const file = new File([new Uint8Array([1, 2, 3])], "logo.png", { type: "image/png" });
+      const media = await uploadMedia(config, file, "Logo", "1");
+      expect(media).toMatchObject({ name: "Logo", mediaType: "image", fileSize: 3 });
+
+      const response = await fetchMediaRaw(config, String(media.mediaId));
+      expect(response.headers.get("content-type")).toBe("image/png");
+      expect([...new Uint8Array(await response.arrayBuffer())]).toEqual([1, 2, 3]);
+
+      await deleteMedia(config, media.mediaId);
+      await expect(fetchMediaRaw(config, String(media.mediaId))).rejects.toThrow("404");
+    });
+
+    test("rejects an upload without a file", async () => {
+      const form = new FormData();
+      form.append("name", "Nothing");
+      await expect(postMultipart(config, "library", form)).rejects.toThrow("422");
+    });
+  });
+
+  describe("datasets", () => {
+    test("keeps rows keyed by column heading", async () => {
+      const dataset = await post<XiboDataset>(config, "dataset", { dataSet: "Cafe" });
+      await post(config, `dataset/${dataset.dataSetId}/column`, { heading: "name", dataTypeId: 1 });
+      await post(config, `dataset/${dataset.dataSetId}/column`, { heading: "price", dataTypeId: 1 });
+
+      const row = await post<XiboDatasetRow>(config, `dataset/data/${dataset.dataSetId}`, {
+        name: "Tea",
+        price: "2.00",
+        ignored: "x",
+      });
+      expect(row).toEqual({ id: row.id, name: "Tea", price: "2.00" });
+
+      await put(config, `dataset/data/${dataset.dataSetId}/${row.id}`, { price: "2.50" });
+      expect(await getAll<XiboDatasetRow>(config, `dataset/data/${dataset.dataSetId}`))
+        .toEqual([{ id: row.id, name: "Tea", price: "2.50" }]);
+
+      await del(config, `dataset/data/${dataset.dataSetId}/${row.id}`);
+      expect(await getCount(config, `dataset/data/${dataset.dataSetId}`)).toBe(0);
+      await expect(del(config, `dataset/data/${dataset.dataSetId}/${row.id}`)).rejects.toThrow("404");
+    });
+  });
+
+  describe("layouts and scheduling", () => {
+    test("builds and publishes a menu layout", async () => {
+      const layout = await createMenuLayout(config, "Drinks", [{ name: "Tea", price: "2.00" }], 1);
+
+      const [stored] = await get<XiboLayout[]>(config, "layout", { layoutId: String(layout.layoutId) });
+      expect(stored).toMatchObject({ layout: "Menu - Drinks", width: 1080, height: 1920, status: 3 });
+      const regionIds = sim.state.regions.filter((r) => r.layoutId === layout.layoutId).map((r) => r.regionId);
+      expect(regionIds.length).toBeGreaterThan(1);
+      expect(sim.state.widgets.every((w) => regionIds.includes(w.regionId))).toBe(true);
+
+      await del(config, `layout/${layout.layoutId}`);
+      expect(sim.state.regions).toEqual([]);
+      expect(sim.state.widgets).toEqual([]);
+    });
+
+    test("schedules a campaign's layouts on a display", async () => {
+      const first = await post<XiboLayout>(config, "layout", { name: "One", resolutionId: 2 });
+      const second = await post<XiboLayout>(config, "layout", { name: "Two", resolutionId: 2 });
+      const campaign = await createCampaign(config, "Lobby", [
+        { layoutId: second.layoutId, displayOrder: 1 },
+        { layoutId: first.layoutId, displayOrder: 1 },
+      ]);
+      expect(sim.state.campaigns[0]!.layoutIds).toEqual([first.layoutId, second.layoutId]);
+
+      await updateCampaign(config, campaign.campaignId, [{ layoutId: second.layoutId, displayOrder: 1 }]);
+      expect(sim.state.campaigns[0]!.layoutIds).toEqual([second.layoutId]);
+
+      await scheduleCampaign(config, campaign.campaignId, 3);
+      const [event] = await getSchedulesForDisplay(config, 3);
+      expect(event).toMatchObject({ campaignId: campaign.campaignId, displayGroupIds: [3], fromDt: null });
+      expect(await getSchedulesForDisplay(config, 4)).toEqual([]);
+
+      await deleteCampaign(config, campaign.campaignId);
+      // Xibo drops a deleted campaign's events with it
+      expect(sim.state.schedules).toEqual([]);
+      expect(await get<XiboCampaign[]>(config, "campaign")).toEqual([]);
+    });
+
+    test("publishing a draft replaces the layout under the draft's ID", async () => {
+      const layout = await createMenuLayout(config, "Drinks", [{ name: "Tea", price: "2.00" }], 1);
+      const campaign = await createCampaign(config, "Lobby", [{ layoutId: layout.layoutId, displayOrder: 1 }]);
+
+      const draft = await put<XiboLayout>(config, `layout/checkout/${layout.layoutId}`, {});
+      const published = await put<XiboLayout>(config, `layout/publish/${layout.layoutId}`, {});
+
+      expect(published).toMatchObject({ layoutId: draft.layoutId, campaignId: layout.campaignId, publishedStatusId: 1 });
+      expect(sim.state.layouts.map((l) => l.layoutId)).toEqual([draft.layoutId]);
+      expect(sim.state.regions.every((r) => r.layoutId === draft.layoutId)).toBe(true);
+      expect(sim.state.campaigns.find((c) => c.campaignId === campaign.campaignId)!.layoutIds)
+        .toEqual([draft.layoutId]);
+    });
+
+    test("discarding a draft keeps the layout", async () => {
+      const layout = await createMenuLayout(config, "Drinks", [{ name: "Tea", price: "2.00" }], 1);
+      const regionCount = sim.state.regions.length;
+
+      await put(config, `layout/checkout/${layout.layoutId}`, {});
+      await put(config, `layout/discard/${layout.layoutId}`, {});
+
+      expect(sim.state.layouts.map((l) => l.layoutId)).toEqual([layout.layoutId]);
+      expect(sim.state.regions.length).toBe(regionCount);
+    });
+
+    test("finds a menu screen's layout by its campaign, or by ID before one is recorded", async () => {
+      const layout = await createMenuLayout(config, "Drinks", [{ name: "Tea", price: "2.00" }], 1);
+      const legacy = { xibo_layout_id: layout.layoutId, xibo_layout_campaign_id: null };
+      const tracked = { xibo_layout_id: layout.layoutId, xibo_layout_campaign_id: layout.campaignId };
+      const none = { xibo_layout_id: null, xibo_layout_campaign_id: null };
+      expect(await fetchMenuScreenLayout(config, legacy)).toMatchObject({ layoutId: layout.layoutId });
+
+      await put(config, `layout/checkout/${layout.layoutId}`, {});
+      const published = await put<XiboLayout>(config, `layout/publish/${layout.layoutId}`, {});
+
+      expect(await fetchMenuScreenLayout(config, none)).toBeNull();
+      expect(await withCurrentLayoutIds(config, [legacy, tracked, none])).toEqual([
+        { ...legacy, xibo_layout_id: null },
+        { ...tracked, xibo_layout_id: published.layoutId },
+        none,
+      ]);
+    });
+
+    test("refuses to schedule a missing campaign", async () => {
+      await expect(scheduleCampaign(config, 999, 3)).rejects.toThrow("404");
+    });
+  });
+
+  describe("menu boards", () => {
+    test("deletes a board's categories and products with it", async () => {
+      const board = await post<XiboMenuBoard>(config, "menuboard", { name: "Main" });
+      const category = await post<XiboCategory>(config, `menuboard/${board.menuId}/category`, {
+        name: "Hot",
+        mediaId: "7",
+      });
+      await post(config, `menuboard/${category.menuCategoryId}/product`, { name: "Soup", price: "4" });
+      await put(config, `menuboard/${category.menuCategoryId}/category`, { name: "Warm" });
+
+      expect((await getAll<XiboCategory>(config, `menuboard/${board.menuId}/categories`))[0])
+        .toMatchObject({ name: "Warm", mediaId: null });
+      expect(await getCount(config, `menuboard/${category.menuCategoryId}/products`)).toBe(1);
+
+      await del(config, `menuboard/${board.menuId}`);
+      expect(sim.state.categories).toEqual([]);
+      expect(sim.state.products).toEqual([]);
+    });
+  });
+});
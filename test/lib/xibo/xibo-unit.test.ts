@@ -3,23 +3,37 @@
  * No real API calls are made — all HTTP interactions are intercepted.
  */
 
-import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "#test-compat";
 import { createTestDbWithSetup, resetDb } from "#test-utils";
 import {
   authenticate,
   clearToken,
   del,
   get,
+  getAll,
+  getBreakerStatuses,
+  getCount,
   getDashboardStatus,
   getRaw,
+  LIST_PAGE_SIZE,
   loadXiboConfig,
   post,
   postMultipart,
   put,
+  settleRevalidations,
   testConnection,
   XiboClientError,
+  xiboConnectionKey,
 } from "#xibo/client.ts";
-import { cacheGet, cacheInvalidateAll } from "#xibo/cache.ts";
+import {
+  FAILURE_THRESHOLD,
+  getXiboCircuitBreaker,
+  resetXiboCircuitBreaker,
+} from "#xibo/circuit-breaker.ts";
+import { createXiboConnection } from "#lib/db/xibo-connections.ts";
+import { invalidateXiboStateCache } from "#lib/db/xibo-state.ts";
+import { cacheGet, cacheGetEntry, cacheInvalidateAll } from "#xibo/cache.ts";
+import { REQUEST_BUDGET_MS } from "#xibo/limiter.ts";
 import { updateXiboCredentials } from "#lib/db/settings.ts";
 import type { XiboConfig } from "#xibo/types.ts";
 import {
@@ -54,6 +68,40 @@ const jsonResponse = (body: unknown, status = 200): Response =>
     headers: { "content-type": "application/json" },
   });
 
+/** Helper: create a JSON list Response carrying Xibo's total row count */
+const pagedResponse = (rows: unknown[], total: number): Response =>
+  new Response(JSON.stringify(rows), {
+    headers: { "content-type": "application/json", "X-Total-Count": String(total) },
+  });
+
+/**
+ * Helper: serve a list of `total` numbered rows a page at a time,
+ * honouring start/length, and record each requested start.
+ */
+/** Smallest valid layout and library rows, for tests not about payloads */
+const layoutRow = (layoutId: number) => ({ layoutId, campaignId: layoutId + 10, layout: `Layout ${layoutId}`, status: 1 });
+const mediaRow = (mediaId: number) => ({ mediaId, name: `Media ${mediaId}`, mediaType: "image" });
+
+const pagedRows = (
+  total: number,
+  withTotal: boolean,
+  row: (id: number) => object = (id) => ({ id }),
+) => {
+  const starts: number[] = [];
+  const handler = (url: string): Response => {
+    const query = new URL(url).searchParams;
+    const start = Number(query.get("start"));
+    const length = Number(query.get("length"));
+    starts.push(start);
+    const rows = Array.from(
+      { length: Math.max(0, Math.min(length, total - start)) },
+      (_, i) => row(start + i),
+    );
+    return withTotal ? pagedResponse(rows, total) : jsonResponse(rows);
+  };
+  return { starts, handler };
+};
+
 /** Helper: create a 204 No Content Response */
 const noContentResponse = (): Response => new Response(null, { status: 204 });
 
@@ -343,12 +391,12 @@ describe("xibo-unit", () => {
   describe("xibo client (mocked fetch)", () => {
     beforeEach(async () => {
       await createTestDbWithSetup();
-      clearToken();
+      await clearToken();
       await cacheInvalidateAll();
     });
 
-    afterEach(() => {
-      clearToken();
+    afterEach(async () => {
+      await clearToken();
       resetDb();
     });
 
@@ -427,7 +475,7 @@ describe("xibo-unit", () => {
           withAuth((url) => {
             if (url.includes("/api/layout")) {
               capturedUrl = url;
-              return jsonResponse([{ layoutId: 1 }]);
+              return jsonResponse([layoutRow(1)]);
             }
             return null;
           }),
@@ -442,6 +490,122 @@ describe("xibo-unit", () => {
       });
     });
 
+    describe("getAll", () => {
+      it("walks pages until the reported total", async () => {
+        const library = pagedRows(LIST_PAGE_SIZE * 2 + 5, true, mediaRow);
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/library") ? library.handler(url) : null),
+        );
+        try {
+          const rows = await getAll<{ mediaId: number }>(MOCK_CONFIG, "library");
+          expect(rows.length).toBe(LIST_PAGE_SIZE * 2 + 5);
+          expect(rows.at(-1)!.mediaId).toBe(LIST_PAGE_SIZE * 2 + 4);
+          expect(library.starts).toEqual([0, LIST_PAGE_SIZE, LIST_PAGE_SIZE * 2]);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("stops at a short page when no total is reported", async () => {
+        const display = pagedRows(LIST_PAGE_SIZE + 1, false, (displayId) => ({
+          displayId,
+          display: `Display ${displayId}`,
+        }));
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/display") ? display.handler(url) : null),
+        );
+        try {
+          const rows = await getAll(MOCK_CONFIG, "display");
+          expect(rows.length).toBe(LIST_PAGE_SIZE + 1);
+          expect(display.starts).toEqual([0, LIST_PAGE_SIZE]);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("stops at an empty page even if the total is higher", async () => {
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/layout") ? pagedResponse([], 3) : null),
+        );
+        try {
+          expect(await getAll(MOCK_CONFIG, "layout")).toEqual([]);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("takes an endpoint that ignores paging as the whole list", async () => {
+        const rows = Array.from({ length: LIST_PAGE_SIZE + 1 }, (_, folderId) => ({
+          folderId,
+          text: `Folder ${folderId}`,
+          parentId: null,
+          children: [],
+        }));
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/folders") ? jsonResponse(rows) : null),
+        );
+        try {
+          expect(await getAll(MOCK_CONFIG, "folders")).toEqual(rows);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("caches each page with the list params", async () => {
+        const data = pagedRows(3, true);
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/dataset/data/7") ? data.handler(url) : null),
+        );
+        try {
+          await getAll(MOCK_CONFIG, "dataset/data/7", { filter: "x" });
+          await getAll(MOCK_CONFIG, "dataset/data/7", { filter: "x" });
+          expect(data.starts).toEqual([0]);
+          expect(await cacheGet(`dataset_data_7:filter=x&start=0&length=${LIST_PAGE_SIZE}`))
+            .toBe(JSON.stringify({ rows: [{ id: 0 }, { id: 1 }, { id: 2 }], total: 3 }));
+        } finally {
+          mock.restore();
+        }
+      });
+    });
+
+    describe("getCount", () => {
+      it("reads the total from a single-row page", async () => {
+        const library = pagedRows(1234, true, mediaRow);
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/library") ? library.handler(url) : null),
+        );
+        try {
+          expect(await getCount(MOCK_CONFIG, "library")).toBe(1234);
+          expect(library.starts).toEqual([0]);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("walks the list when no total is reported", async () => {
+        const layout = pagedRows(LIST_PAGE_SIZE + 2, false, layoutRow);
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/layout") ? layout.handler(url) : null),
+        );
+        try {
+          expect(await getCount(MOCK_CONFIG, "layout")).toBe(LIST_PAGE_SIZE + 2);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("counts an empty list without a total as zero", async () => {
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/dataset") ? jsonResponse([]) : null),
+        );
+        try {
+          expect(await getCount(MOCK_CONFIG, "dataset")).toBe(0);
+        } finally {
+          mock.restore();
+        }
+      });
+    });
+
     describe("post", () => {
       it("sends JSON body and invalidates cache", async () => {
         // Prime the cache for datasets
@@ -566,13 +730,13 @@ describe("xibo-unit", () => {
               return jsonResponse({ version: "3.2.1" });
             }
             if (url.includes("/api/menuboard")) {
-              return jsonResponse([{ id: 1 }, { id: 2 }]);
+              return jsonResponse([{ menuId: 1, name: "Main" }, { menuId: 2, name: "Drinks" }]);
             }
             if (url.includes("/api/library")) {
-              return jsonResponse([{ id: 1 }]);
+              return pagedResponse([mediaRow(1)], 2500);
             }
             if (url.includes("/api/layout")) {
-              return jsonResponse([{ id: 1 }, { id: 2 }, { id: 3 }]);
+              return jsonResponse([layoutRow(1), layoutRow(2), layoutRow(3)]);
             }
             if (url.includes("/api/dataset")) {
               return jsonResponse([]);
@@ -585,9 +749,10 @@ describe("xibo-unit", () => {
           expect(status.connected).toBe(true);
           expect(status.version).toBe("3.2.1");
           expect(status.menuBoardCount).toBe(2);
-          expect(status.mediaCount).toBe(1);
+          expect(status.mediaCount).toBe(2500);
           expect(status.layoutCount).toBe(3);
           expect(status.datasetCount).toBe(0);
+          expect(status.stale).toBe(false);
         } finally {
           mock.restore();
         }
@@ -634,6 +799,93 @@ describe("xibo-unit", () => {
       });
     });
 
+    describe("named connections", () => {
+      /** MOCK_CONFIG as a named connection */
+      const NAMED_CONFIG: XiboConfig = { ...MOCK_CONFIG, connectionId: 7 };
+
+      afterEach(() => {
+        resetXiboCircuitBreaker();
+      });
+
+      it("loads a named connection's config, or null when it's missing", async () => {
+        const id = await createXiboConnection({
+          name: "North",
+          apiUrl: "https://north.xibo.test",
+          clientId: "north-id",
+          clientSecret: "north-secret",
+        });
+        const before = Date.now();
+        const { deadline, ...config } = (await loadXiboConfig(id))!;
+        expect(config).toEqual({
+          apiUrl: "https://north.xibo.test",
+          clientId: "north-id",
+          clientSecret: "north-secret",
+          connectionId: id,
+        });
+        expect(deadline).toBeGreaterThanOrEqual(before + REQUEST_BUDGET_MS);
+        expect(await loadXiboConfig(id + 1)).toBeNull();
+      });
+
+      it("keys tokens and breakers by connection", () => {
+        expect(xiboConnectionKey(MOCK_CONFIG)).toBe("default");
+        expect(xiboConnectionKey(NAMED_CONFIG)).toBe("connection-7");
+      });
+
+      it("keeps a token per connection and clears only the one given", async () => {
+        let authCallCount = 0;
+        const mock = mockFetch((url) => {
+          if (url.includes("/api/authorize/access_token")) {
+            authCallCount++;
+            return jsonResponse(MOCK_TOKEN_RESPONSE);
+          }
+          return url.includes("/api/about") ? jsonResponse({ version: "4.0.0" }) : null;
+        });
+        try {
+          await getRaw(MOCK_CONFIG, "about");
+          await getRaw(NAMED_CONFIG, "about");
+          expect(authCallCount).toBe(2);
+
+          await clearToken(NAMED_CONFIG);
+          await getRaw(MOCK_CONFIG, "about");
+          await getRaw(NAMED_CONFIG, "about");
+          expect(authCallCount).toBe(3);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("caches responses separately per connection", async () => {
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/about") ? jsonResponse({ version: "4.0.0" }) : null),
+        );
+        try {
+          await get(NAMED_CONFIG, "about");
+          expect(await cacheGet("about")).toBeNull();
+          expect(await cacheGet("@7/about")).not.toBeNull();
+
+          await post(NAMED_CONFIG, "about", {});
+          expect(await cacheGet("@7/about")).toBeNull();
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("trips a connection's breaker without blocking the others", async () => {
+        const breaker = getXiboCircuitBreaker("default");
+        for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure();
+
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/about") ? jsonResponse({ version: "4.0.0" }) : null),
+        );
+        try {
+          await expect(get(MOCK_CONFIG, "about")).rejects.toThrow("circuit breaker is open");
+          expect((await get<{ version: string }>(NAMED_CONFIG, "about")).version).toBe("4.0.0");
+        } finally {
+          mock.restore();
+        }
+      });
+    });
+
     describe("getRaw", () => {
       it("returns raw response", async () => {
         const mock = mockFetch(
@@ -705,9 +957,9 @@ describe("xibo-unit", () => {
           withAuth((url) => {
             if (url.includes("/api/layout")) {
               if (url.includes("start=0")) {
-                return jsonResponse([{ layoutId: 1 }]);
+                return jsonResponse([layoutRow(1)]);
               }
-              return jsonResponse([{ layoutId: 1 }, { layoutId: 2 }]);
+              return jsonResponse([layoutRow(1), layoutRow(2)]);
             }
             return null;
           }),
@@ -825,7 +1077,7 @@ describe("xibo-unit", () => {
           expect(authCallCount).toBe(1);
 
           // Clear token — next request should re-authenticate
-          clearToken();
+          await clearToken();
           await cacheInvalidateAll();
           await get(MOCK_CONFIG, "about");
           expect(authCallCount).toBe(2);
@@ -842,7 +1094,7 @@ describe("xibo-unit", () => {
         const mock = mockFetch(
           withAuth((url, init) => {
             if (url.includes("/api/dataset") && init?.method === "GET") {
-              return jsonResponse([{ dataSetId: 1 }]);
+              return jsonResponse([{ dataSetId: 1, dataSet: "Products" }]);
             }
             if (url.includes("/api/dataset/1") && init?.method === "PUT") {
               capturedMethod = init?.method ?? "";
@@ -976,13 +1228,13 @@ describe("xibo-unit", () => {
               return new Response("Module not installed", { status: 500 });
             }
             if (url.includes("/api/library")) {
-              return jsonResponse([{ id: 1 }, { id: 2 }]);
+              return jsonResponse([mediaRow(1), mediaRow(2)]);
             }
             if (url.includes("/api/layout")) {
-              return jsonResponse([{ id: 1 }]);
+              return jsonResponse([layoutRow(1)]);
             }
             if (url.includes("/api/dataset")) {
-              return jsonResponse([{ id: 1 }, { id: 2 }, { id: 3 }]);
+              return jsonResponse([1, 2, 3].map((dataSetId) => ({ dataSetId, dataSet: `Set ${dataSetId}` })));
             }
             return null;
           }),
@@ -1002,5 +1254,457 @@ describe("xibo-unit", () => {
         }
       });
     });
+
+    describe("state shared across isolates", () => {
+      afterEach(() => {
+        resetXiboCircuitBreaker();
+      });
+
+      /** Forget everything held in memory, as a fresh isolate would */
+      const freshIsolate = (): void => {
+        resetXiboCircuitBreaker();
+        invalidateXiboStateCache();
+      };
+
+      it("reuses a token stored by another isolate", async () => {
+        let authCallCount = 0;
+        const mock = mockFetch((url) => {
+          if (url.includes("/api/authorize/access_token")) {
+            authCallCount++;
+            return jsonResponse(MOCK_TOKEN_RESPONSE);
+          }
+          return url.includes("/api/about") ? jsonResponse({ version: "4.0.0" }) : null;
+        });
+        try {
+          await getRaw(MOCK_CONFIG, "about");
+          freshIsolate();
+          await getRaw(MOCK_CONFIG, "about");
+          expect(authCallCount).toBe(1);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("fails fast in a fresh isolate once another has opened the breaker", async () => {
+        let requests = 0;
+        const mock = mockFetch(
+          withAuth((url) => {
+            if (!url.includes("/api/layout")) return null;
+            requests++;
+            return new Response("Gone", { status: 404 });
+          }),
+        );
+        try {
+          for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+            await expect(get(MOCK_CONFIG, `layout/${i}`)).rejects.toThrow("404");
+          }
+          freshIsolate();
+          await expect(get(MOCK_CONFIG, "layout/99")).rejects.toThrow("circuit breaker is open");
+          expect(requests).toBe(FAILURE_THRESHOLD);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("reports each connection's breaker", async () => {
+        const breaker = getXiboCircuitBreaker("connection-3");
+        for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure();
+        expect(await getBreakerStatuses([3])).toEqual([
+          { connectionId: null, state: "closed", failures: 0 },
+          { connectionId: 3, state: "open", failures: FAILURE_THRESHOLD },
+        ]);
+      });
+    });
+
+    describe("resource-tagged cache", () => {
+      /** Serve empty lists, accepting any mutation */
+      const datasetHandler = withAuth((_url, init) =>
+        init?.method === "GET" ? jsonResponse([]) : jsonResponse({})
+      );
+
+      it("drops only the mutated dataset and the dataset list", async () => {
+        const mock = mockFetch(datasetHandler);
+        try {
+          await get(MOCK_CONFIG, "dataset");
+          await get(MOCK_CONFIG, "dataset/data/5");
+          await get(MOCK_CONFIG, "dataset/data/6");
+          await get(MOCK_CONFIG, "dataset/5/column");
+
+          await put(MOCK_CONFIG, "dataset/data/5/12", { name: "Tea" });
+
+          expect(await cacheGet("dataset")).toBeNull();
+          expect(await cacheGet("dataset_data_5")).toBeNull();
+          expect(await cacheGet("dataset_5_column")).toBeNull();
+          expect(await cacheGet("dataset_data_6")).not.toBeNull();
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("keeps other connections' copies of the same dataset", async () => {
+        const mock = mockFetch(datasetHandler);
+        const named = { ...MOCK_CONFIG, connectionId: 7 };
+        try {
+          await get(MOCK_CONFIG, "dataset/data/5");
+          await get(named, "dataset/data/5");
+          await del(named, "dataset/data/5/12");
+          expect(await cacheGet("@7/dataset_data_5")).toBeNull();
+          expect(await cacheGet("dataset_data_5")).not.toBeNull();
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("drops menu board lists on any menu board change", async () => {
+        const mock = mockFetch(datasetHandler);
+        try {
+          await getAll(MOCK_CONFIG, "menuboards");
+          await get(MOCK_CONFIG, "menuboard/3/categories");
+          await put(MOCK_CONFIG, "menuboard/9/product", { name: "Tea" });
+          expect(await cacheGet(`menuboards:start=0&length=${LIST_PAGE_SIZE}`)).toBeNull();
+          expect(await cacheGet("menuboard_3_categories")).toBeNull();
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("tags endpoints carrying a query string by their path", async () => {
+        const mock = mockFetch(datasetHandler);
+        try {
+          await get(MOCK_CONFIG, "campaign?campaignId=4");
+          await del(MOCK_CONFIG, "campaign/4");
+          expect(await cacheGet("campaign?campaignId=4")).toBeNull();
+        } finally {
+          mock.restore();
+        }
+      });
+    });
+
+    describe("response validation", () => {
+      it("coerces numeric strings in a response", async () => {
+        const mock = mockFetch(
+          withAuth((url) =>
+            url.includes("/api/layout")
+              ? jsonResponse([{ layoutId: "12", campaignId: "22", layout: "Menu", status: "3", width: "1080" }])
+              : null
+          ),
+        );
+        try {
+          const [layout] = await get<{ layoutId: number; status: number; width: number }[]>(
+            MOCK_CONFIG,
+            "layout",
+          );
+          expect(layout).toEqual({
+            layoutId: 12,
+            campaignId: 22,
+            layout: "Menu",
+            description: "",
+            status: 3,
+            width: 1080,
+            height: 0,
+            publishedStatusId: 0,
+            duration: 0,
+          });
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("rejects and logs a malformed response without tripping the breaker", async () => {
+        const errorSpy = spyOn(console, "error");
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/display") ? jsonResponse([{ id: 1, display: "Lobby" }]) : null),
+        );
+        try {
+          const error = await getAll(MOCK_CONFIG, "display").catch((e) => e);
+          expect(error).toBeInstanceOf(XiboClientError);
+          expect((error as XiboClientError).httpStatus).toBe(502);
+          expect((error as XiboClientError).message).toBe(
+            "Unexpected response from Xibo: GET display response[0].displayId: expected a number, got undefined",
+          );
+          expect(errorSpy).toHaveBeenCalledWith(
+            '[Error] E_XIBO_API_RESPONSE detail="GET display response[0].displayId: expected a number, got undefined"',
+          );
+          expect(getXiboCircuitBreaker("default").snapshot().failures).toBe(0);
+        } finally {
+          mock.restore();
+          errorSpy.mockRestore();
+        }
+      });
+
+      it("rejects a malformed token response", async () => {
+        const mock = mockFetch((url) =>
+          url.includes("/api/authorize/access_token") ? jsonResponse({ token: "abc" }) : null
+        );
+        try {
+          await expect(authenticate(MOCK_CONFIG)).rejects.toThrow(
+            "POST authorize/access_token response.access_token: expected a string, got undefined",
+          );
+        } finally {
+          mock.restore();
+        }
+      });
+    });
+
+    describe("request limits", () => {
+      afterEach(() => {
+        resetXiboCircuitBreaker();
+      });
+
+      /** MOCK_CONFIG with a deadline ms from now */
+      const budgeted = (ms: number): XiboConfig => ({ ...MOCK_CONFIG, deadline: Date.now() + ms });
+
+      it("fails and logs, without tripping the breaker, when Retry-After passes the deadline", async () => {
+        const errorSpy = spyOn(console, "error");
+        let requests = 0;
+        const mock = mockFetch(
+          withAuth((url) => {
+            if (!url.includes("/api/about")) return null;
+            requests++;
+            return new Response("Slow down", { status: 429, headers: { "Retry-After": "30" } });
+          }),
+        );
+        try {
+          await expect(get(budgeted(5_000), "about")).rejects.toThrow("Timed out waiting for Xibo CMS");
+          expect(requests).toBe(1);
+          expect(errorSpy).toHaveBeenCalledWith('[Error] E_XIBO_API_BUDGET detail="GET about"');
+          expect(getXiboCircuitBreaker("default").snapshot().failures).toBe(0);
+        } finally {
+          mock.restore();
+          errorSpy.mockRestore();
+        }
+      });
+
+      it("serves a stale copy once the budget has run out", async () => {
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/about") ? jsonResponse({ version: "4.0.0" }) : null),
+        );
+        try {
+          await get(MOCK_CONFIG, "about", undefined, { ttlMs: 0 });
+          expect((await get<{ version: string }>(budgeted(0), "about")).version).toBe("4.0.0");
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("aborts a request still in flight at the deadline", async () => {
+        const signals: (AbortSignal | null | undefined)[] = [];
+        const mock = mockFetch(
+          withAuth((url, init) => {
+            if (!url.includes("/api/about")) return null;
+            signals.push(init?.signal);
+            return jsonResponse({ version: "4.0.0" });
+          }),
+        );
+        try {
+          await put(MOCK_CONFIG, "about");
+          await put(budgeted(5_000), "about");
+          expect(signals[0]).toBeUndefined();
+          expect(signals[1]).toBeInstanceOf(AbortSignal);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("fails a request cut off at the deadline at once, without logging a connection error", async () => {
+        const errorSpy = spyOn(console, "error");
+        let requests = 0;
+        const mock = mockFetch(
+          withAuth((url) => {
+            if (!url.includes("/api/about")) return null;
+            requests++;
+            throw new DOMException("Signal timed out.", "TimeoutError");
+          }),
+        );
+        try {
+          await expect(put(budgeted(5_000), "about")).rejects.toThrow("Timed out waiting for Xibo CMS");
+          expect(requests).toBe(1);
+          expect(errorSpy).toHaveBeenCalledWith('[Error] E_XIBO_API_BUDGET detail="PUT about"');
+          expect(errorSpy.mock.calls.flat().join()).not.toContain("E_XIBO_API_CONNECTION");
+          expect(getXiboCircuitBreaker("default").snapshot().failures).toBe(0);
+        } finally {
+          mock.restore();
+          errorSpy.mockRestore();
+        }
+      });
+
+      it("gives authentication the request's deadline", async () => {
+        let authSignal: AbortSignal | null | undefined;
+        const mock = mockFetch((url, init) => {
+          if (url.includes("/api/authorize/access_token")) authSignal = init?.signal;
+          return withAuth((url) => url.includes("/api/about") ? jsonResponse({}) : null)(url, init);
+        });
+        try {
+          await put(budgeted(5_000), "about");
+          expect(authSignal).toBeInstanceOf(AbortSignal);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("doesn't authenticate once the deadline has passed", async () => {
+        let requests = 0;
+        const mock = mockFetch(() => {
+          requests++;
+          return jsonResponse(MOCK_TOKEN_RESPONSE);
+        });
+        try {
+          await expect(authenticate(budgeted(0))).rejects.toThrow("Timed out waiting for Xibo CMS");
+          expect(requests).toBe(0);
+        } finally {
+          mock.restore();
+        }
+      });
+    });
+
+    describe("stale copies", () => {
+      afterEach(() => {
+        resetXiboCircuitBreaker();
+      });
+
+      /** Cache an "about" response that expires at once */
+      const primeStaleAbout = async (): Promise<void> => {
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/about") ? jsonResponse({ version: "4.0.0" }) : null),
+        );
+        try {
+          await get(MOCK_CONFIG, "about", undefined, { ttlMs: 0 });
+        } finally {
+          mock.restore();
+        }
+      };
+
+      /** Trip the default connection's breaker */
+      const openBreaker = (): void => {
+        const breaker = getXiboCircuitBreaker("default");
+        for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure();
+      };
+
+      it("refetches an expired entry while the CMS is up", async () => {
+        await primeStaleAbout();
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/about") ? jsonResponse({ version: "4.1.0" }) : null),
+        );
+        try {
+          expect((await get<{ version: string }>(MOCK_CONFIG, "about")).version).toBe("4.1.0");
+          expect((await cacheGetEntry("about"))!.fresh).toBe(true);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("serves the stale copy when the CMS fails", async () => {
+        await primeStaleAbout();
+        let staleServed = false;
+        const mock = mockFetch(
+          withAuth((url) =>
+            url.includes("/api/about") ? new Response("Bad Gateway", { status: 502 }) : null
+          ),
+        );
+        try {
+          const about = await get<{ version: string }>(MOCK_CONFIG, "about", undefined, {
+            onStale: () => staleServed = true,
+          });
+          expect(about.version).toBe("4.0.0");
+          expect(staleServed).toBe(true);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("serves the stale copy without a request while the breaker is open", async () => {
+        await primeStaleAbout();
+        openBreaker();
+        let requests = 0;
+        const mock = mockFetch(() => {
+          requests++;
+          return null;
+        });
+        try {
+          expect((await get<{ version: string }>(MOCK_CONFIG, "about")).version).toBe("4.0.0");
+          expect(requests).toBe(0);
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("rethrows errors that aren't outages", async () => {
+        await primeStaleAbout();
+        const mock = mockFetch(
+          withAuth((url) => url.includes("/api/about") ? new Response("Gone", { status: 404 }) : null),
+        );
+        try {
+          await expect(get(MOCK_CONFIG, "about")).rejects.toThrow("404");
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("throws on a miss while the breaker is open", async () => {
+        openBreaker();
+        await expect(get(MOCK_CONFIG, "about")).rejects.toThrow("circuit breaker is open");
+      });
+
+      it("revalidates in the background, once per key", async () => {
+        await primeStaleAbout();
+        let requests = 0;
+        const mock = mockFetch(
+          withAuth((url) => {
+            if (!url.includes("/api/about")) return null;
+            requests++;
+            return jsonResponse({ version: "4.1.0" });
+          }),
+        );
+        try {
+          const [first, second] = await Promise.all([
+            get<{ version: string }>(MOCK_CONFIG, "about", undefined, { stale: "revalidate" }),
+            get<{ version: string }>(MOCK_CONFIG, "about", undefined, { stale: "revalidate" }),
+          ]);
+          expect(first.version).toBe("4.0.0");
+          expect(second.version).toBe("4.0.0");
+
+          await settleRevalidations();
+          expect(requests).toBe(1);
+          expect(await cacheGet("about")).toContain("4.1.0");
+        } finally {
+          mock.restore();
+        }
+      });
+
+      it("keeps the stale copy when a background refresh fails", async () => {
+        await primeStaleAbout();
+        openBreaker();
+        const about = await get<{ version: string }>(MOCK_CONFIG, "about", undefined, {
+          stale: "revalidate",
+        });
+        expect(about.version).toBe("4.0.0");
+        await settleRevalidations();
+        expect((await cacheGetEntry("about"))!.fresh).toBe(false);
+      });
+
+      it("flags dashboard figures served stale during an outage", async () => {
+        const mock = mockFetch(
+          withAuth((url) =>
+            url.includes("/api/about")
+              ? jsonResponse({ version: "4.0.0" })
+              : pagedResponse([layoutRow(1)], 3)
+          ),
+        );
+        try {
+          await get(MOCK_CONFIG, "about", undefined, { ttlMs: 0 });
+          await getCount(MOCK_CONFIG, "layout", {}, { ttlMs: 0 });
+        } finally {
+          mock.restore();
+        }
+        openBreaker();
+
+        const status = await getDashboardStatus(MOCK_CONFIG);
+        expect(status.connected).toBe(true);
+        expect(status.stale).toBe(true);
+        expect(status.version).toBe("4.0.0");
+        expect(status.layoutCount).toBe(3);
+        expect(status.datasetCount).toBeNull();
+      });
+    });
   });
 });
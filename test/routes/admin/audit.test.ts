@@ -97,6 +97,12 @@ describe("audit log routes", () => {
         resourceType: "business",
         detail: "Published test",
       });
+      await logAuditEvent({
+        actorUserId: 1,
+        action: "ROLLBACK",
+        resourceType: "screen",
+        detail: "Rolled back test",
+      });
       await logAuditEvent({
         actorUserId: 1,
         action: "IMPERSONATE",
@@ -116,6 +122,7 @@ describe("audit log routes", () => {
       const body = await res.text();
       expect(body).toContain("UPDATE");
       expect(body).toContain("PUBLISH");
+      expect(body).toContain("color: #e83e8c");
       expect(body).toContain("IMPERSONATE");
       expect(body).toContain("CUSTOM");
     });
@@ -14,6 +14,7 @@ import {
   updateBusinessXiboIds,
 } from "#lib/db/businesses.ts";
 import { createScreen, getScreensForBusiness } from "#lib/db/screens.ts";
+import { createXiboConnection } from "#lib/db/xibo-connections.ts";
 import { encrypt } from "#lib/crypto.ts";
 import { getDb } from "#lib/db/client.ts";
 import { updateXiboCredentials } from "#lib/db/settings.ts";
@@ -47,9 +48,9 @@ describe("admin businesses management", () => {
     csrfToken = login.csrfToken;
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -213,6 +214,22 @@ describe("admin businesses management", () => {
       expect(response.status).toBe(200);
       const html = await response.text();
       expect(html).toContain("Create Business");
+      expect(html).not.toContain('name="xibo_connection_id"');
+    });
+
+    it("offers the named Xibo connections", async () => {
+      const id = await createXiboConnection({
+        name: "North",
+        apiUrl: XIBO_URL,
+        clientId: "north-id",
+        clientSecret: "north-secret",
+      });
+      const response = await awaitTestRequest("/admin/business/create", {
+        cookie,
+      });
+      const html = await response.text();
+      expect(html).toContain('name="xibo_connection_id"');
+      expect(html).toContain(`<option value="${id}">North</option>`);
     });
   });
 
@@ -255,7 +272,7 @@ describe("admin businesses management", () => {
 
     it("logs activity on business creation", async () => {
       await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-      clearToken();
+      await clearToken();
       await cacheInvalidateAll();
 
       globalThis.fetch = createMockFetch({
@@ -281,6 +298,56 @@ describe("admin businesses management", () => {
       expect(createLog).not.toBeNull();
       expect(createLog!.detail).toContain("Audit Biz");
     });
+
+    it("provisions on and binds the chosen Xibo connection", async () => {
+      const connectionId = await createXiboConnection({
+        name: "North",
+        apiUrl: "https://north.xibo.test",
+        clientId: "north-id",
+        clientSecret: "north-secret",
+      });
+      const urls: string[] = [];
+      globalThis.fetch = createMockFetch({
+        "/api/folders": (url) => {
+          urls.push(url);
+          return jsonResponse({ folderId: 10, text: "north-folder", parentId: null, children: [] });
+        },
+        "/api/dataset": (url) =>
+          url.includes("/column")
+            ? jsonResponse({ dataSetColumnId: 1, heading: "col" })
+            : jsonResponse({ dataSetId: 20, dataSet: "ds", description: "", code: "", columnCount: 0 }),
+      });
+
+      const response = await handle(
+        mockFormRequest(
+          "/admin/business/create",
+          { name: "North Cafe", xibo_connection_id: String(connectionId), csrf_token: csrfToken },
+          cookie,
+        ),
+      );
+      expect(response.status).toBe(302);
+      expect(urls[0]).toContain("https://north.xibo.test");
+
+      const [business] = await getAllBusinesses();
+      expect(business!.xibo_connection_id).toBe(connectionId);
+      const detail = await awaitTestRequest(`/admin/business/${business!.id}`, { cookie });
+      expect(await detail.text()).toContain("Xibo CMS: North");
+      const list = await awaitTestRequest("/admin/businesses", { cookie });
+      expect(await list.text()).toContain("<td>North</td>");
+    });
+
+    it("rejects an unknown Xibo connection", async () => {
+      const response = await handle(
+        mockFormRequest(
+          "/admin/business/create",
+          { name: "Lost Cafe", xibo_connection_id: "99", csrf_token: csrfToken },
+          cookie,
+        ),
+      );
+      expect(response.status).toBe(400);
+      expect(await response.text()).toContain("Xibo connection not found");
+      expect((await getAllBusinesses()).length).toBe(0);
+    });
   });
 
   describe("GET /admin/business/:id", () => {
@@ -292,6 +359,7 @@ describe("admin businesses management", () => {
       expect(response.status).toBe(200);
       const html = await response.text();
       expect(html).toContain("Detail Biz");
+      expect(html).toContain("Xibo CMS: Default");
       expect(html).toContain("Screens");
       expect(html).toContain("Assigned Users");
     });
@@ -567,7 +635,7 @@ describe("admin businesses management", () => {
   describe("Xibo provisioning on business create", () => {
     it("provisions Xibo folder and dataset when config is available", async () => {
       await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-      clearToken();
+      await clearToken();
       await cacheInvalidateAll();
 
       let folderCreated = false;
@@ -611,7 +679,7 @@ describe("admin businesses management", () => {
 
     it("does not create business when Xibo API fails", async () => {
       await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-      clearToken();
+      await clearToken();
       await cacheInvalidateAll();
 
       globalThis.fetch = createMockFetch({
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import {
+  createActivateAndLogin,
+  createMockFetch,
+  createTestDbWithSetup,
+  handle,
+  jsonResponse,
+  loginAsAdmin,
+  mockFormRequest,
+  mockRequest,
+  resetDb,
+  restoreFetch,
+} from "#test-utils";
+import { getAuditEvents } from "#lib/db/audit-events.ts";
+import { createBusiness } from "#lib/db/businesses.ts";
+import {
+  createXiboConnection,
+  getXiboConnectionById,
+  toXiboConfig,
+} from "#lib/db/xibo-connections.ts";
+import { clearToken } from "#xibo/client.ts";
+
+const NORTH = {
+  name: "North",
+  apiUrl: "https://north.xibo.test",
+  clientId: "north-id",
+  clientSecret: "north-secret",
+};
+
+describe("admin xibo connections", () => {
+  let cookie: string;
+  let csrfToken: string;
+
+  beforeEach(async () => {
+    Deno.env.set("ALLOWED_DOMAIN", "localhost");
+    await createTestDbWithSetup();
+    const login = await loginAsAdmin();
+    cookie = login.cookie;
+    csrfToken = login.csrfToken;
+  });
+
+  afterEach(async () => {
+    restoreFetch();
+    await clearToken();
+    resetDb();
+  });
+
+  /** Post a connection form, with overrides */
+  const postForm = (path: string, overrides: Record<string, string> = {}) =>
+    handle(
+      mockFormRequest(
+        path,
+        {
+          csrf_token: csrfToken,
+          name: "South",
+          xibo_api_url: "https://south.xibo.test",
+          xibo_client_id: "south-id",
+          xibo_client_secret: "south-secret",
+          ...overrides,
+        },
+        cookie,
+      ),
+    );
+
+  describe("GET /admin/connections", () => {
+    it("lists connections without their secrets", async () => {
+      const id = await createXiboConnection(NORTH);
+      const res = await handle(mockRequest("/admin/connections", { headers: { cookie } }));
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain(`href="/admin/connection/${id}"`);
+      expect(body).toContain("https://north.xibo.test");
+      expect(body).not.toContain("north-secret");
+    });
+
+    it("says when there are no connections", async () => {
+      const res = await handle(mockRequest("/admin/connections", { headers: { cookie } }));
+      expect(await res.text()).toContain("No named connections yet.");
+    });
+
+    it("is forbidden to managers", async () => {
+      const manager = await createActivateAndLogin("manager", "manager", "pass123");
+      const res = await handle(
+        mockRequest("/admin/connections", { headers: { cookie: manager.cookie } }),
+      );
+      expect(res.status).toBe(403);
+    });
+
+    it("is linked from the settings page", async () => {
+      const res = await handle(mockRequest("/admin/settings", { headers: { cookie } }));
+      expect(await res.text()).toContain('href="/admin/connections"');
+    });
+  });
+
+  describe("create", () => {
+    it("renders the create form", async () => {
+      const res = await handle(mockRequest("/admin/connection/create", { headers: { cookie } }));
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain("Add Xibo Connection");
+    });
+
+    it("stores the connection and logs it", async () => {
+      const res = await postForm("/admin/connection/create");
+      expect(res.status).toBe(302);
+      expect(res.headers.get("location")).toContain("/admin/connections?success=");
+
+      const config = await toXiboConfig((await getXiboConnectionById(1))!);
+      expect(config.apiUrl).toBe("https://south.xibo.test");
+      const events = await getAuditEvents({ resourceType: "xibo_connection" });
+      expect(events[0]!.detail).toBe('Created Xibo connection "South"');
+    });
+
+    it("re-renders the form without the secret on a missing field", async () => {
+      const res = await postForm("/admin/connection/create", { xibo_client_id: "" });
+      expect(res.status).toBe(400);
+      const body = await res.text();
+      expect(body).toContain("Client ID is required");
+      expect(body).toContain('value="South"');
+      expect(body).not.toContain("south-secret");
+    });
+  });
+
+  describe("edit", () => {
+    it("renders the connection's values without the secret", async () => {
+      const id = await createXiboConnection(NORTH);
+      const res = await handle(mockRequest(`/admin/connection/${id}`, { headers: { cookie } }));
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain('value="north-id"');
+      expect(body).not.toContain("north-secret");
+    });
+
+    it("returns 404 for an unknown connection", async () => {
+      const res = await handle(mockRequest("/admin/connection/99", { headers: { cookie } }));
+      expect(res.status).toBe(404);
+    });
+
+    it("updates the connection and logs it", async () => {
+      const id = await createXiboConnection(NORTH);
+      const res = await postForm(`/admin/connection/${id}`);
+      expect(res.status).toBe(302);
+      expect(res.headers.get("location")).toContain(`/admin/connection/${id}?success=`);
+
+      const config = await toXiboConfig((await getXiboConnectionById(id))!);
+      expect(config.clientSecret).toBe("south-secret");
+      const events = await getAuditEvents({ resourceType: "xibo_connection" });
+      expect(events[0]!.detail).toBe(`Updated Xibo connection ${id}`);
+    });
+
+    it("keeps the stored connection on an invalid form", async () => {
+      const id = await createXiboConnection(NORTH);
+      const res = await postForm(`/admin/connection/${id}`, { name: "" });
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain("Connection Name is required");
+      const config = await toXiboConfig((await getXiboConnectionById(id))!);
+      expect(config.apiUrl).toBe(NORTH.apiUrl);
+    });
+  });
+
+  describe("POST /admin/connection/:id/test", () => {
+    it("shows the CMS version of a reachable connection", async () => {
+      const id = await createXiboConnection(NORTH);
+      let requestedUrl = "";
+      globalThis.fetch = createMockFetch({
+        "/api/about": (url) => {
+          requestedUrl = url;
+          return jsonResponse({ version: "4.1.0" });
+        },
+      });
+
+      const res = await postForm(`/admin/connection/${id}/test`);
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain("Connected");
+      expect(body).toContain("CMS v4.1.0");
+      expect(requestedUrl).toContain("https://north.xibo.test");
+    });
+  });
+
+  describe("POST /admin/connection/:id/delete", () => {
+    it("deletes an unused connection", async () => {
+      const id = await createXiboConnection(NORTH);
+      const res = await postForm(`/admin/connection/${id}/delete`);
+      expect(res.headers.get("location")).toContain("/admin/connections?success=");
+      expect(await getXiboConnectionById(id)).toBeNull();
+      const events = await getAuditEvents({ resourceType: "xibo_connection" });
+      expect(events[0]!.detail).toBe(`Deleted Xibo connection ${id}`);
+    });
+
+    it("refuses to delete a connection a business uses", async () => {
+      const id = await createXiboConnection(NORTH);
+      await createBusiness("North Cafe", id);
+      const res = await postForm(`/admin/connection/${id}/delete`);
+      expect(res.headers.get("location")).toContain(`/admin/connection/${id}?error=`);
+      expect(decodeURIComponent(res.headers.get("location")!)).toContain(
+        "Connection is used by 1 business(es)",
+      );
+      expect(await getXiboConnectionById(id)).not.toBeNull();
+    });
+  });
+});
@@ -20,14 +20,14 @@ describe("dashboard", () => {
   beforeEach(async () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
     const login = await loginAsAdmin();
     cookie = login.cookie;
   });
 
-  afterEach(() => {
-    clearToken();
+  afterEach(async () => {
+    await clearToken();
     resetDb();
   });
 
@@ -51,6 +51,13 @@ describe("dashboard", () => {
       expect(body).toContain("/admin/settings");
     });
 
+    it("shows the default connection's circuit breaker", async () => {
+      const res = await handle(mockRequest("/admin", { headers: { cookie } }));
+      const body = await res.text();
+      expect(body).toContain("Circuit Breakers");
+      expect(body).toContain('<td class="success">closed</td>');
+    });
+
     it("includes navigation bar", async () => {
       const res = await handle(mockRequest("/admin", { headers: { cookie } }));
       const body = await res.text();
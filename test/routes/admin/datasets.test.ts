@@ -67,8 +67,8 @@ const sampleColumns: XiboDatasetColumn[] = [
 ];
 
 const sampleRows = [
-  { Product: "Burger", Price: 9.99 },
-  { Product: "Fries", Price: 4.99 },
+  { id: 1, Product: "Burger", Price: 9.99 },
+  { id: 2, Product: "Fries", Price: 4.99 },
 ];
 
 describe("dataset routes", () => {
@@ -78,16 +78,16 @@ describe("dataset routes", () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
 
     const auth = await loginAsAdmin();
     cookie = auth.cookie;
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -183,6 +183,23 @@ describe("dataset routes", () => {
       expect(html).toContain("9.99");
     });
 
+    test("lists every row, past the first page", async () => {
+      const rows = Array.from({ length: 150 }, (_, i) => ({ id: i + 1, Product: `Item ${i + 1}`, Price: 1 }));
+      globalThis.fetch = createMockFetch({
+        "/api/dataset/data/1": (url) => {
+          const start = Number(new URL(url).searchParams.get("start"));
+          return jsonResponse(rows.slice(start, start + 100));
+        },
+        "/api/dataset/1/column": () => jsonResponse(sampleColumns),
+        "/api/dataset": () => jsonResponse([sampleDatasets[0]]),
+      });
+      const html = await (await handleRequest(
+        mockRequest("/admin/dataset/1", { headers: { cookie } }),
+      )).text();
+      expect(html).toContain("<h3>Rows (150)</h3>");
+      expect(html).toContain("Item 150");
+    });
+
     test("returns 404 for non-existent dataset", async () => {
       globalThis.fetch = createMockFetch({
         "/api/dataset": () => jsonResponse([]),
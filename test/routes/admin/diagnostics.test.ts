@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import {
+  createMockFetch,
+  createTestDbWithSetup,
+  handle,
+  jsonResponse,
+  loginAsAdmin,
+  mockFormRequest,
+  mockRequest,
+  resetDb,
+  restoreFetch,
+} from "#test-utils";
+import { updateXiboCredentials } from "#lib/db/settings.ts";
+import { createXiboConnection } from "#lib/db/xibo-connections.ts";
+import { clearToken } from "#xibo/client.ts";
+
+describe("admin xibo diagnostics", () => {
+  let cookie: string;
+  let csrfToken: string;
+
+  beforeEach(async () => {
+    Deno.env.set("ALLOWED_DOMAIN", "localhost");
+    await createTestDbWithSetup();
+    const login = await loginAsAdmin();
+    cookie = login.cookie;
+    csrfToken = login.csrfToken;
+  });
+
+  afterEach(async () => {
+    restoreFetch();
+    await clearToken();
+    resetDb();
+  });
+
+  const diagnose = (connection: string) =>
+    handle(mockFormRequest("/admin/diagnostics", { csrf_token: csrfToken, connection }, cookie));
+
+  describe("GET /admin/diagnostics", () => {
+    it("offers the default and every named connection", async () => {
+      const id = await createXiboConnection({
+        name: "North",
+        apiUrl: "https://north.xibo.test",
+        clientId: "north-id",
+        clientSecret: "north-secret",
+      });
+      const res = await handle(mockRequest("/admin/diagnostics", { headers: { cookie } }));
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain('<option value="">Default connection</option>');
+      expect(body).toContain(`<option value="${id}">North</option>`);
+    });
+  });
+
+  describe("POST /admin/diagnostics", () => {
+    it("reports each capability of a named connection", async () => {
+      const id = await createXiboConnection({
+        name: "North",
+        apiUrl: "https://north.xibo.test",
+        clientId: "north-id",
+        clientSecret: "north-secret",
+      });
+      globalThis.fetch = createMockFetch({
+        "/api/about": () => jsonResponse({ version: "4.1.2" }),
+        "/api/display": () => new Response("no", { status: 403 }),
+        "/api/": () => jsonResponse([]),
+      });
+
+      const res = await diagnose(String(id));
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain("<h2>North</h2>");
+      expect(body).toContain(`<option value="${id}" selected>North</option>`);
+      expect(body).toContain("CMS v4.1.2");
+      expect(body).not.toContain("has not been verified");
+      expect(body).toContain("<td>Library</td>");
+      expect(body).toContain("Forbidden: the API application lacks this scope");
+    });
+
+    it("warns about an unverified version of the default connection", async () => {
+      await updateXiboCredentials("https://xibo.example.com", "cid", "csec");
+      globalThis.fetch = createMockFetch({
+        "/api/about": () => jsonResponse({ version: "5.0.0" }),
+        "/api/": () => jsonResponse([]),
+      });
+
+      const body = await (await diagnose("")).text();
+      expect(body).toContain("<h2>Default connection</h2>");
+      expect(body).toContain("CMS v5.0.0 has not been verified; verified releases are 4.0, 4.1");
+    });
+
+    it("says when the connection isn't configured", async () => {
+      const res = await diagnose("");
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain("Connection is not configured");
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import {
+  createActivateAndLogin,
+  createTestDbWithSetup,
+  handle,
+  loginAsAdmin,
+  mockFormRequest,
+  mockRequest,
+  resetDb,
+} from "#test-utils";
+import { getAuditEvents } from "#lib/db/audit-events.ts";
+import { getLayoutTemplate } from "#lib/db/layout-templates.ts";
+
+/** A valid two-tile definition as submitted in the form */
+const DEFINITION = JSON.stringify({
+  header: { top: 0, left: 0, width: 1, height: 0.2, text: "Specials" },
+  slots: [{ type: "products", top: 0.2, left: 0, width: 1, height: 0.8, cols: 2, rows: 1 }],
+});
+
+describe("admin layout templates", () => {
+  let cookie: string;
+  let csrfToken: string;
+
+  beforeEach(async () => {
+    Deno.env.set("ALLOWED_DOMAIN", "localhost");
+    await createTestDbWithSetup();
+    const login = await loginAsAdmin();
+    cookie = login.cookie;
+    csrfToken = login.csrfToken;
+  });
+
+  afterEach(() => {
+    resetDb();
+  });
+
+  /** Post the create form with a valid template, with overrides */
+  const postCreate = (overrides: Record<string, string> = {}) =>
+    handle(
+      mockFormRequest(
+        "/admin/template/create",
+        {
+          csrf_token: csrfToken,
+          id: "specials",
+          name: "Specials",
+          description: "Two big tiles",
+          max_products: "2",
+          definition: DEFINITION,
+          ...overrides,
+        },
+        cookie,
+      ),
+    );
+
+  /** Post the edit form for grid-3x4, with overrides */
+  const postEdit = (overrides: Record<string, string> = {}) =>
+    handle(
+      mockFormRequest(
+        "/admin/template/grid-3x4",
+        {
+          csrf_token: csrfToken,
+          name: "Big Grid",
+          description: "",
+          max_products: "2",
+          definition: DEFINITION,
+          ...overrides,
+        },
+        cookie,
+      ),
+    );
+
+  describe("GET /admin/templates", () => {
+    it("lists the built-in templates with edit and clone links", async () => {
+      const res = await handle(mockRequest("/admin/templates", { headers: { cookie } }));
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain('href="/admin/template/grid-3x4"');
+      expect(body).toContain('href="/admin/template/live-ticker/clone"');
+      expect(body).toContain("<td>Static</td>");
+      expect(body).toContain("<td>Live</td>");
+      expect(body).toContain('href="/admin/templates"');
+    });
+
+    it("is forbidden to managers", async () => {
+      const manager = await createActivateAndLogin("manager", "manager", "pass123");
+      const res = await handle(
+        mockRequest("/admin/templates", { headers: { cookie: manager.cookie } }),
+      );
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("create and clone", () => {
+    it("renders a blank create form", async () => {
+      const res = await handle(mockRequest("/admin/template/create", { headers: { cookie } }));
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain("Add Template");
+      expect(body).toContain('name="definition" rows="20"');
+    });
+
+    it("prefills the create form with a copy when cloning", async () => {
+      const res = await handle(
+        mockRequest("/admin/template/list-6/clone", { headers: { cookie } }),
+      );
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain('value="list-6-copy"');
+      expect(body).toContain('value="Simple List (copy)"');
+      expect(body).toContain("&quot;rows&quot;: 6");
+    });
+
+    it("returns 404 when cloning an unknown template", async () => {
+      const res = await handle(
+        mockRequest("/admin/template/retired/clone", { headers: { cookie } }),
+      );
+      expect(res.status).toBe(404);
+    });
+
+    it("stores a valid template and logs it", async () => {
+      const res = await postCreate();
+      expect(res.status).toBe(302);
+      expect(res.headers.get("location")).toContain("/admin/templates?success=");
+
+      const stored = await getLayoutTemplate("specials");
+      expect(stored!.maxProducts).toBe(2);
+      expect(stored!.definition.header!.text).toBe("Specials");
+      const events = await getAuditEvents({ resourceType: "layout_template" });
+      expect(events[0]!.detail).toBe('Created template "specials"');
+    });
+
+    it("re-renders the form with the submitted values on a bad definition", async () => {
+      const res = await postCreate({ definition: '{"slots": []}' });
+      expect(res.status).toBe(400);
+      const body = await res.text();
+      expect(body).toContain("Definition slots must be a non-empty array");
+      expect(body).toContain('value="specials"');
+      expect(await getLayoutTemplate("specials")).toBeNull();
+    });
+
+    it("rejects more products than the definition has tiles", async () => {
+      const res = await postCreate({ max_products: "3" });
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain(
+        "Max Products can't be more than the 2 product tiles in the definition",
+      );
+    });
+
+    it("rejects an ID that is in use, malformed or reserved", async () => {
+      for (
+        const [id, error] of [
+          ["grid-3x4", "Template ID &quot;grid-3x4&quot; is already in use"],
+          ["My Template", "Template ID must be lowercase letters and numbers, separated by hyphens"],
+          ["create", "Template ID &quot;create&quot; is reserved"],
+        ]
+      ) {
+        const res = await postCreate({ id: id! });
+        expect(res.status).toBe(400);
+        expect(await res.text()).toContain(error!);
+      }
+      expect((await getLayoutTemplate("grid-3x4"))!.name).toBe("3x4 Grid");
+    });
+
+    it("rejects a missing field", async () => {
+      const res = await postCreate({ name: "" });
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain("Name is required");
+    });
+  });
+
+  describe("edit", () => {
+    it("renders the template's values", async () => {
+      const res = await handle(mockRequest("/admin/template/grid-3x4", { headers: { cookie } }));
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain("Edit Template grid-3x4");
+      expect(body).toContain('value="3x4 Grid"');
+      expect(body).toContain("&quot;transpose&quot;: true");
+      expect(body).toContain('href="/admin/template/grid-3x4/clone"');
+    });
+
+    it("returns 404 for an unknown template", async () => {
+      const res = await handle(mockRequest("/admin/template/retired", { headers: { cookie } }));
+      expect(res.status).toBe(404);
+    });
+
+    it("updates the template and logs it", async () => {
+      const res = await postEdit();
+      expect(res.status).toBe(302);
+      expect(res.headers.get("location")).toContain("/admin/template/grid-3x4?success=");
+
+      const stored = await getLayoutTemplate("grid-3x4");
+      expect(stored!.name).toBe("Big Grid");
+      expect(stored!.description).toBe("");
+      expect(stored!.definition.slots.length).toBe(1);
+      const events = await getAuditEvents({ resourceType: "layout_template" });
+      expect(events[0]!.detail).toBe('Updated template "grid-3x4"');
+
+      const page = await handle(
+        mockRequest(res.headers.get("location")!, { headers: { cookie } }),
+      );
+      expect(await page.text()).toContain("Template updated");
+    });
+
+    it("keeps the stored template on a bad definition", async () => {
+      const res = await postEdit({ definition: "not json" });
+      expect(res.status).toBe(400);
+      const body = await res.text();
+      expect(body).toContain("Definition is not valid JSON");
+      expect(body).toContain("not json");
+      expect((await getLayoutTemplate("grid-3x4"))!.name).toBe("3x4 Grid");
+    });
+  });
+});
@@ -39,21 +39,25 @@ const XIBO_URL = "https://xibo.test";
 const sampleLayouts: XiboLayout[] = [
   {
     layoutId: 1,
+    campaignId: 11,
     layout: "Menu - Burgers",
     description: "Auto-generated layout",
     status: 3,
     width: 1080,
     height: 1920,
     publishedStatusId: 1,
+    duration: 10,
   },
   {
     layoutId: 2,
+    campaignId: 12,
     layout: "Menu - Drinks",
     description: "",
     status: 1,
     width: 1080,
     height: 1920,
     publishedStatusId: 0,
+    duration: 0,
   },
 ];
 
@@ -97,7 +101,7 @@ describe("layout routes", () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
 
     const auth = await loginAsAdmin();
@@ -105,9 +109,9 @@ describe("layout routes", () => {
     csrfToken = auth.csrfToken;
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -270,12 +274,14 @@ describe("layout routes", () => {
       await cacheInvalidateAll();
       const createdLayout: XiboLayout = {
         layoutId: 5,
+        campaignId: 15,
         layout: "Menu - Burgers",
         description: "Auto-generated",
         status: 3,
         width: 1080,
         height: 1920,
         publishedStatusId: 1,
+        duration: 10,
       };
 
       const createdRegion: XiboRegion = {
@@ -322,12 +328,14 @@ describe("layout routes", () => {
       await cacheInvalidateAll();
       const createdLayout: XiboLayout = {
         layoutId: 6,
+        campaignId: 16,
         layout: "Menu - Burgers",
         description: "Auto-generated",
         status: 3,
         width: 1080,
         height: 1920,
         publishedStatusId: 1,
+        duration: 10,
       };
 
       const newResolution: XiboResolution = {
@@ -174,16 +174,16 @@ describe("POST /admin/media/upload-url SSRF protection", () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     await updateXiboCredentials("https://xibo.test", "test-id", "test-secret");
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
     const auth = await loginAsAdmin();
     cookie = auth.cookie;
     csrfToken = auth.csrfToken;
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
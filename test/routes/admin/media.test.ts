@@ -93,7 +93,7 @@ describe("media routes", () => {
     await createTestDbWithSetup();
     // Set up Xibo credentials in the database
     await updateXiboCredentials(XIBO_URL, XIBO_CLIENT_ID, XIBO_CLIENT_SECRET);
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
 
     const auth = await loginAsAdmin();
@@ -101,9 +101,9 @@ describe("media routes", () => {
     csrfToken = auth.csrfToken;
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -57,15 +57,15 @@ describe("admin/menuboards routes", () => {
   beforeEach(async () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
     const login = await loginAsAdmin();
     cookie = login.cookie;
     csrfToken = login.csrfToken;
   });
 
-  afterEach(() => {
-    clearToken();
+  afterEach(async () => {
+    await clearToken();
     resetDb();
   });
 
@@ -991,15 +991,15 @@ describe("admin/menuboards uncovered branches", () => {
   beforeEach(async () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
     const login = await loginAsAdmin();
     cookie = login.cookie;
     csrfToken = login.csrfToken;
   });
 
-  afterEach(() => {
-    clearToken();
+  afterEach(async () => {
+    await clearToken();
     resetDb();
   });
 
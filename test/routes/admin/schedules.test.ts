@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import { getAuditEvents } from "#lib/db/audit-events.ts";
+import { createBusiness } from "#lib/db/businesses.ts";
+import { createMenuScreen, updateMenuScreenLayout } from "#lib/db/menu-screens.ts";
+import { createScreen, getScreenById, toDisplayScreen } from "#lib/db/screens.ts";
+import { updateXiboCredentials } from "#lib/db/settings.ts";
+import { clearToken, post } from "#xibo/client.ts";
+import { cacheInvalidateAll } from "#xibo/cache.ts";
+import { calculateHeaderPosition, publishNewLayout, textSpec } from "#xibo/layout-builder.ts";
+import { refreshScreenSchedule } from "#xibo/screen-schedule.ts";
+import type { XiboLayout } from "#xibo/types.ts";
+import {
+  createTestDbWithSetup,
+  createXiboSimulator,
+  handle,
+  installXiboSimulator,
+  loginAsAdmin,
+  mockFormRequest,
+  mockRequest,
+  resetDb,
+  SIMULATOR_API_URL,
+  type XiboSimulator,
+} from "#test-utils";
+
+const config = { apiUrl: SIMULATOR_API_URL, clientId: "demo-id", clientSecret: "demo-secret" };
+
+describe("admin schedule checks", () => {
+  let cookie: string;
+  let csrfToken: string;
+  let businessId: number;
+  let sim: XiboSimulator;
+  let restore: () => void;
+
+  beforeEach(async () => {
+    Deno.env.set("ALLOWED_DOMAIN", "localhost");
+    await createTestDbWithSetup();
+    const login = await loginAsAdmin();
+    cookie = login.cookie;
+    csrfToken = login.csrfToken;
+    businessId = (await createBusiness("Van")).id;
+    await clearToken();
+    await cacheInvalidateAll();
+    sim = createXiboSimulator();
+    restore = installXiboSimulator(sim).restore;
+  });
+
+  afterEach(async () => {
+    restore();
+    await clearToken();
+    resetDb();
+  });
+
+  /** Create a screen on a display with one menu screen, and publish it */
+  const publishedScreen = async (name: string, displayId: number, forBusiness = businessId): Promise<number> => {
+    const screen = await createScreen(name, forBusiness, displayId);
+    const layout = await post<XiboLayout>(config, "layout", { name, resolutionId: 2 });
+    await publishNewLayout(config, layout, [textSpec(calculateHeaderPosition(), name)], 10);
+    const ms = await createMenuScreen("Mains", screen.id, "grid-3x4", 10, 0);
+    await updateMenuScreenLayout(ms.id, layout);
+    await refreshScreenSchedule(config, await toDisplayScreen(screen), null);
+    return screen.id;
+  };
+
+  const page = (path: string): Promise<Response> => handle(mockRequest(path, { headers: { cookie } }));
+
+  const businessUrl = () => `/admin/schedules/business/${businessId}`;
+
+  const repairAll = () => handle(mockFormRequest(`${businessUrl()}/repair`, { csrf_token: csrfToken }, cookie));
+
+  const location = (response: Response) => decodeURIComponent(response.headers.get("location")!);
+
+  describe("GET /admin/schedules", () => {
+    it("lists no businesses until Xibo is configured", async () => {
+      await publishedScreen("Front", 3);
+      expect(await (await page("/admin/schedules")).text()).toContain("No businesses on a configured Xibo connection.");
+    });
+
+    it("links to each business's check and each screen's, without asking the CMS", async () => {
+      await updateXiboCredentials(SIMULATOR_API_URL, "demo-id", "demo-secret");
+      const front = await publishedScreen("Front", 3);
+      const empty = (await createBusiness("Kiosk")).id;
+      sim.offline = true;
+
+      const html = await (await page("/admin/schedules")).text();
+      expect(html).toContain(`href="${businessUrl()}"`);
+      expect(html).toContain(`href="${businessUrl()}/screen/${front}"`);
+      expect(html).toContain(`href="/admin/schedules/business/${empty}"`);
+      expect(html).toContain("No screens");
+    });
+  });
+
+  describe("GET /admin/schedules/business/:businessId", () => {
+    it("shows each screen in sync or with its drift", async () => {
+      await updateXiboCredentials(SIMULATOR_API_URL, "demo-id", "demo-secret");
+      await publishedScreen("Front", 3);
+      const back = await publishedScreen("Back", 4);
+      sim.state.campaigns[1]!.layoutIds = [];
+
+      const html = await (await page(businessUrl())).text();
+      expect(html).toContain("Schedules - Van");
+      expect(html).toContain("In sync");
+      expect(html).toContain("<td>Campaign (Always)</td>");
+      expect(html).toContain(`action="/admin/business/${businessId}/screen/${back}/schedule/repair"`);
+      expect(html).toContain(`action="${businessUrl()}/repair"`);
+    });
+
+    it("checks only the business's screens", async () => {
+      await updateXiboCredentials(SIMULATOR_API_URL, "demo-id", "demo-secret");
+      await publishedScreen("Front", 3);
+      await publishedScreen("Elsewhere", 4, (await createBusiness("Cafe")).id);
+
+      const html = await (await page(businessUrl())).text();
+      expect(html).toContain("Front");
+      expect(html).not.toContain("Elsewhere");
+    });
+
+    it("shows a screen that couldn't be checked", async () => {
+      await updateXiboCredentials(SIMULATOR_API_URL, "demo-id", "demo-secret");
+      await publishedScreen("Front", 3);
+      sim.offline = true;
+
+      const html = await (await page(businessUrl())).text();
+      expect(html).toContain("Could not check:");
+      expect(html).not.toContain("Repair All");
+    });
+
+    it("sends an unconfigured connection to settings", async () => {
+      expect(location(await page(businessUrl()))).toContain("/admin/settings");
+    });
+
+    it("returns 404 for a missing business", async () => {
+      expect((await page("/admin/schedules/business/999")).status).toBe(404);
+    });
+  });
+
+  describe("GET /admin/schedules/business/:businessId/screen/:id", () => {
+    beforeEach(() => updateXiboCredentials(SIMULATOR_API_URL, "demo-id", "demo-secret"));
+
+    it("checks one screen", async () => {
+      await publishedScreen("Front", 3);
+      const back = await publishedScreen("Back", 4);
+      sim.state.campaigns[1]!.layoutIds = [];
+
+      const html = await (await page(`${businessUrl()}/screen/${back}`)).text();
+      expect(html).toContain("Schedule - Back");
+      expect(html).toContain("<td>Campaign (Always)</td>");
+      expect(html).not.toContain("Front");
+      expect(html).not.toContain("Repair All");
+    });
+
+    it("returns 404 for another business's screen", async () => {
+      const other = await publishedScreen("Elsewhere", 4, (await createBusiness("Cafe")).id);
+      expect((await page(`${businessUrl()}/screen/${other}`)).status).toBe(404);
+    });
+  });
+
+  describe("POST /admin/schedules/business/:businessId/repair", () => {
+    beforeEach(() => updateXiboCredentials(SIMULATOR_API_URL, "demo-id", "demo-secret"));
+
+    it("repairs only the screens that drifted", async () => {
+      const front = await publishedScreen("Front", 3);
+      const back = await publishedScreen("Back", 4);
+      const layoutIds = sim.state.campaigns[1]!.layoutIds;
+      sim.state.campaigns[1]!.layoutIds = [];
+
+      expect(location(await repairAll())).toBe(`${businessUrl()}?success=Repaired 1 screen`);
+      expect(sim.state.campaigns[1]!.layoutIds).toEqual(layoutIds);
+      expect((await getAuditEvents({ action: "UPDATE" })).map((e) => e.detail)).toEqual([
+        `Repaired schedule of screen ${back}`,
+      ]);
+      expect((await getScreenById(front))!.xibo_display_group_id).not.toBeNull();
+    });
+
+    it("reports screens that couldn't be repaired", async () => {
+      await publishedScreen("Front", 3);
+      sim.offline = true;
+
+      expect(location(await repairAll())).toContain(`${businessUrl()}?error=Could not repair Front: `);
+    });
+  });
+});
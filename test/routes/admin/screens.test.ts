@@ -6,23 +6,32 @@ import {
   deleteScreen,
   getAssignedDisplayIds,
   getScreenById,
+  getScreenDisplayIds,
   getScreensForBusiness,
   toDisplayScreen,
+  updateScreenSize,
 } from "#lib/db/screens.ts";
+import { createMenuScreen, updateMenuScreenCampaignId } from "#lib/db/menu-screens.ts";
+import { createXiboConnection } from "#lib/db/xibo-connections.ts";
 import { updateXiboCredentials } from "#lib/db/settings.ts";
 import { clearToken } from "#xibo/client.ts";
 import { cacheInvalidateAll } from "#xibo/cache.ts";
+import { createCampaign, scheduleCampaign } from "#xibo/scheduling.ts";
 import {
   awaitTestRequest,
   createMockFetch,
   createTestDbWithSetup,
+  createXiboSimulator,
   handle,
+  installXiboSimulator,
   jsonResponse,
   loginAsAdmin,
   mockFormRequest,
   mockRequest,
   resetDb,
   restoreFetch,
+  SIMULATOR_API_URL,
+  type XiboSimulator,
 } from "#test-utils";
 
 const XIBO_URL = "https://xibo.test";
@@ -43,9 +52,9 @@ describe("admin screens management", () => {
     businessId = biz.id;
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -61,6 +70,22 @@ describe("admin screens management", () => {
       expect(display.created_at).toContain("T");
     });
 
+    it("createScreen defaults to portrait and stores a given size", async () => {
+      const portrait = await createScreen("Portrait", businessId, null);
+      expect([portrait.width, portrait.height]).toEqual([1080, 1920]);
+
+      const landscape = await createScreen("Landscape", businessId, null, { width: 1920, height: 1080 });
+      const loaded = await getScreenById(landscape.id);
+      expect([loaded!.width, loaded!.height]).toEqual([1920, 1080]);
+    });
+
+    it("updateScreenSize changes the stored size", async () => {
+      const screen = await createScreen("Van", businessId, null);
+      await updateScreenSize(screen.id, { width: 1280, height: 720 });
+      const loaded = await getScreenById(screen.id);
+      expect([loaded!.width, loaded!.height]).toEqual([1280, 720]);
+    });
+
     it("createScreen works with null display id", async () => {
       const screen = await createScreen("No Display", businessId, null);
       expect(screen.xibo_display_id).toBeNull();
@@ -114,6 +139,21 @@ describe("admin screens management", () => {
       expect(ids).toContain(10);
       expect(ids).toContain(20);
     });
+
+    it("getAssignedDisplayIds only counts screens on the same connection", async () => {
+      const connectionId = await createXiboConnection({
+        name: "North",
+        apiUrl: "https://north.xibo.test",
+        clientId: "north-id",
+        clientSecret: "north-secret",
+      });
+      const north = await createBusiness("North Cafe", connectionId);
+      await createScreen("Default", businessId, 10);
+      await createScreen("North", north.id, 30);
+
+      expect(await getAssignedDisplayIds()).toEqual([10]);
+      expect(await getAssignedDisplayIds(connectionId)).toEqual([30]);
+    });
   });
 
   describe("GET /admin/business/:id/screen/create", () => {
@@ -337,12 +377,12 @@ describe("admin screens management", () => {
   describe("screen create with Xibo displays", () => {
     it("shows available Xibo displays when config exists", async () => {
       await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-      clearToken();
+      await clearToken();
       await cacheInvalidateAll();
 
       const sampleDisplays = [
-        { displayId: 100, display: "Lobby Display", description: "", licensed: 1, defaultLayoutId: 1 },
-        { displayId: 200, display: "Kitchen Display", description: "", licensed: 1, defaultLayoutId: 1 },
+        { displayId: 100, display: "Lobby Display", description: "", licensed: 1, defaultLayoutId: 1, resolution: null },
+        { displayId: 200, display: "Kitchen Display", description: "", licensed: 1, defaultLayoutId: 1, resolution: null },
       ];
 
       globalThis.fetch = createMockFetch({
@@ -363,15 +403,15 @@ describe("admin screens management", () => {
 
     it("filters out already-assigned displays", async () => {
       await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-      clearToken();
+      await clearToken();
       await cacheInvalidateAll();
 
       // Assign display 100 to an existing screen
       await createScreen("Existing", businessId, 100);
 
       const sampleDisplays = [
-        { displayId: 100, display: "Assigned Display", description: "", licensed: 1, defaultLayoutId: 1 },
-        { displayId: 200, display: "Free Display", description: "", licensed: 1, defaultLayoutId: 1 },
+        { displayId: 100, display: "Assigned Display", description: "", licensed: 1, defaultLayoutId: 1, resolution: null },
+        { displayId: 200, display: "Free Display", description: "", licensed: 1, defaultLayoutId: 1, resolution: null },
       ];
 
       globalThis.fetch = createMockFetch({
@@ -390,7 +430,7 @@ describe("admin screens management", () => {
 
     it("shows error when Xibo API fails", async () => {
       await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-      clearToken();
+      await clearToken();
       await cacheInvalidateAll();
 
       globalThis.fetch = createMockFetch({
@@ -408,4 +448,391 @@ describe("admin screens management", () => {
       expect(html).toContain("Add Screen");
     });
   });
+
+  describe("screen resolution from the display", () => {
+    const displays = [
+      { displayId: 100, display: "Van TV", description: "", licensed: 1, defaultLayoutId: 1, resolution: "1920x1080" },
+      { displayId: 200, display: "New Player", description: "", licensed: 1, defaultLayoutId: 1, resolution: null },
+    ];
+
+    beforeEach(async () => {
+      await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
+      await clearToken();
+      await cacheInvalidateAll();
+      globalThis.fetch = createMockFetch({ "/api/display": () => jsonResponse(displays) });
+    });
+
+    const createWithDisplay = async (displayId: string) => {
+      await handle(
+        mockFormRequest(
+          `/admin/business/${businessId}/screen/create`,
+          { name: "Van", xibo_display_id: displayId, csrf_token: csrfToken },
+          cookie,
+        ),
+      );
+      return (await getScreensForBusiness(businessId))[0]!;
+    };
+
+    const postResolution = (screenId: number) =>
+      handle(
+        mockFormRequest(
+          `/admin/business/${businessId}/screen/${screenId}/resolution`,
+          { csrf_token: csrfToken },
+          cookie,
+        ),
+      );
+
+    const message = (response: Response): string =>
+      decodeURIComponent(response.headers.get("location") ?? "");
+
+    it("lists display resolutions in the create form", async () => {
+      const response = await awaitTestRequest(
+        `/admin/business/${businessId}/screen/create`,
+        { cookie },
+      );
+      const html = await response.text();
+      expect(html).toContain("Van TV (1920x1080)");
+      expect(html).toContain(">New Player<");
+    });
+
+    it("sizes a new screen from its display's resolution", async () => {
+      const screen = await createWithDisplay("100");
+      expect([screen.width, screen.height]).toEqual([1920, 1080]);
+    });
+
+    it("falls back to portrait when the display has no resolution", async () => {
+      const screen = await createWithDisplay("200");
+      expect([screen.width, screen.height]).toEqual([1080, 1920]);
+    });
+
+    it("falls back to portrait when the display lookup fails", async () => {
+      globalThis.fetch = createMockFetch({
+        "/api/display": () => new Response("Error", { status: 500 }),
+      });
+      const screen = await createWithDisplay("100");
+      expect([screen.width, screen.height]).toEqual([1080, 1920]);
+    });
+
+    it("shows the resolution and orientation on the detail page", async () => {
+      const screen = await createScreen("Van", businessId, 100, { width: 1920, height: 1080 });
+      const response = await awaitTestRequest(
+        `/admin/business/${businessId}/screen/${screen.id}`,
+        { cookie },
+      );
+      const html = await response.text();
+      expect(html).toContain("1920x1080 (landscape)");
+      expect(html).toContain("Update Resolution from Display");
+    });
+
+    it("shows what the display last reported on the detail page", async () => {
+      globalThis.fetch = createMockFetch({
+        "/api/display": () =>
+          jsonResponse([{
+            ...displays[0],
+            loggedIn: 1,
+            lastAccessed: 1_767_225_600,
+            currentLayoutId: 99,
+            clientVersion: "4 R406",
+          }]),
+      });
+      const screen = await createScreen("Van", businessId, 100);
+      const response = await awaitTestRequest(
+        `/admin/business/${businessId}/screen/${screen.id}`,
+        { cookie },
+      );
+      const html = await response.text();
+      expect(html).toContain("Unexpected layout");
+      expect(html).toContain("2026-01-01 00:00 UTC");
+      expect(html).toContain("<dd>99</dd>");
+      expect(html).toContain("4 R406");
+    });
+
+    it("shows a display that has never checked in", async () => {
+      const screen = await createScreen("Van", businessId, 200);
+      const response = await awaitTestRequest(
+        `/admin/business/${businessId}/screen/${screen.id}`,
+        { cookie },
+      );
+      const html = await response.text();
+      expect(html).toContain("Offline");
+      expect(html).toContain("Never");
+      expect(html).toContain("Not reported");
+    });
+
+    it("updates an existing screen from its display", async () => {
+      const screen = await createScreen("Van", businessId, 100);
+      const response = await postResolution(screen.id);
+
+      expect(message(response)).toContain("Resolution set to 1920x1080 (landscape)");
+      const loaded = await getScreenById(screen.id);
+      expect([loaded!.width, loaded!.height]).toEqual([1920, 1080]);
+      const events = await getAuditEvents();
+      expect(events.some((e) => e.detail.includes("resolution to 1920x1080"))).toBe(true);
+    });
+
+    it("reports a display that has not reported a resolution", async () => {
+      const screen = await createScreen("Van", businessId, 200);
+      const response = await postResolution(screen.id);
+      expect(message(response)).toContain("error=The display has not reported a resolution yet");
+    });
+
+    it("reports a screen without a display", async () => {
+      const screen = await createScreen("Van", businessId, null);
+      const response = await postResolution(screen.id);
+      expect(message(response)).toContain("error=Screen has no Xibo display");
+    });
+
+    it("reports Xibo API errors", async () => {
+      globalThis.fetch = createMockFetch({
+        "/api/display": () => new Response("Error", { status: 500 }),
+      });
+      const screen = await createScreen("Van", businessId, 100);
+      const response = await postResolution(screen.id);
+      expect(message(response)).toContain("error=");
+      expect((await getScreenById(screen.id))!.width).toBe(1080);
+    });
+
+    it("returns 404 for another business's screen", async () => {
+      const otherBiz = await createBusiness("Other Biz");
+      const screen = await createScreen("Van", otherBiz.id, 100);
+      expect((await postResolution(screen.id)).status).toBe(404);
+    });
+  });
+  describe("display screenshots", () => {
+    const CAPTURED = "Sun, 01 Mar 2026 09:30:00 GMT";
+    let requested: string[];
+
+    const screenshot = () =>
+      new Response(new Uint8Array([1, 2, 3]), {
+        headers: { "content-type": "image/png", "last-modified": CAPTURED },
+      });
+
+    beforeEach(async () => {
+      await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
+      await clearToken();
+      await cacheInvalidateAll();
+      requested = [];
+      globalThis.fetch = createMockFetch({
+        "/api/display/requestscreenshot/": (url) => {
+          requested.push(url);
+          return jsonResponse({});
+        },
+        "/api/display/screenshot/100": screenshot,
+        "/api/display/screenshot/": () => new Response("Not found", { status: 404 }),
+        "/api/display": () => jsonResponse([]),
+      });
+    });
+
+    const screenUrl = (screenId: number) => `/admin/business/${businessId}/screen/${screenId}`;
+
+    const postScreenshot = (screenId: number) =>
+      handle(mockFormRequest(`${screenUrl(screenId)}/screenshot`, { csrf_token: csrfToken }, cookie));
+
+    it("shows the latest screenshot and when it was captured", async () => {
+      const screen = await createScreen("Van", businessId, 100);
+      const html = await (await awaitTestRequest(screenUrl(screen.id), { cookie })).text();
+      expect(html).toContain(`src="${screenUrl(screen.id)}/screenshot"`);
+      expect(html).toContain("Captured 2026-03-01 09:30 UTC");
+      expect(html).toContain("Request Screenshot");
+    });
+
+    it("says when the display has no screenshot yet", async () => {
+      const screen = await createScreen("Van", businessId, 200);
+      const html = await (await awaitTestRequest(screenUrl(screen.id), { cookie })).text();
+      expect(html).toContain("No screenshot yet.");
+    });
+
+    it("asks the display for a screenshot", async () => {
+      const screen = await createScreen("Van", businessId, 100);
+      const response = await postScreenshot(screen.id);
+      expect(decodeURIComponent(response.headers.get("location")!)).toContain("Screenshot requested.");
+      expect(requested).toEqual([`${XIBO_URL}/api/display/requestscreenshot/100`]);
+    });
+
+    it("reports a failed screenshot request", async () => {
+      globalThis.fetch = createMockFetch({
+        "/api/display/requestscreenshot/": () => new Response("Error", { status: 500 }),
+      });
+      const screen = await createScreen("Van", businessId, 100);
+      const response = await postScreenshot(screen.id);
+      expect(response.headers.get("location")).toContain("error=");
+    });
+
+    it("needs a display to request a screenshot from", async () => {
+      const screen = await createScreen("Van", businessId, null);
+      const response = await postScreenshot(screen.id);
+      expect(decodeURIComponent(response.headers.get("location")!)).toContain("error=Screen has no Xibo display");
+      expect(requested).toEqual([]);
+    });
+
+    it("proxies the screenshot uncached, with its capture time", async () => {
+      const screen = await createScreen("Van", businessId, 100);
+      const response = await awaitTestRequest(`${screenUrl(screen.id)}/screenshot`, { cookie });
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("image/png");
+      expect(response.headers.get("cache-control")).toBe("private, no-store");
+      expect(response.headers.get("last-modified")).toBe(CAPTURED);
+      expect([...new Uint8Array(await response.arrayBuffer())]).toEqual([1, 2, 3]);
+    });
+
+    it("fails to proxy a missing screenshot", async () => {
+      const screen = await createScreen("Van", businessId, 200);
+      const response = await awaitTestRequest(`${screenUrl(screen.id)}/screenshot`, { cookie });
+      expect(response.status).toBe(500);
+      expect(await response.text()).toContain("Failed to load screenshot");
+    });
+
+    it("requires a login to see the screenshot", async () => {
+      const screen = await createScreen("Van", businessId, 100);
+      const response = await handle(mockRequest(`${screenUrl(screen.id)}/screenshot`));
+      expect(response.status).toBe(302);
+      expect(response.headers.get("location")).toBe("/admin");
+    });
+
+    it("does not show another business's screenshot", async () => {
+      const otherBiz = await createBusiness("Other Biz");
+      const screen = await createScreen("Van", otherBiz.id, 100);
+      const response = await awaitTestRequest(`${screenUrl(screen.id)}/screenshot`, { cookie });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("screen displays", () => {
+    const simConfig = { apiUrl: SIMULATOR_API_URL, clientId: "demo-id", clientSecret: "demo-secret" };
+    let sim: XiboSimulator;
+
+    beforeEach(async () => {
+      await updateXiboCredentials(SIMULATOR_API_URL, "demo-id", "demo-secret");
+      await clearToken();
+      await cacheInvalidateAll();
+      sim = createXiboSimulator();
+      installXiboSimulator(sim);
+    });
+
+    const screenUrl = (screenId: number) => `/admin/business/${businessId}/screen/${screenId}`;
+
+    const addDisplay = (screenId: number, displayId: string) =>
+      handle(mockFormRequest(`${screenUrl(screenId)}/display/add`, { xibo_display_id: displayId, csrf_token: csrfToken }, cookie));
+
+    const removeDisplay = (screenId: number, displayId: number) =>
+      handle(mockFormRequest(`${screenUrl(screenId)}/display/${displayId}/remove`, { csrf_token: csrfToken }, cookie));
+
+    const location = (response: Response) => decodeURIComponent(response.headers.get("location")!);
+
+    it("lists the screen's displays with the primary marked, and offers the others", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      const html = await (await awaitTestRequest(screenUrl(screen.id), { cookie })).text();
+      expect(html).toContain("Lobby Display (primary)");
+      expect(html).toContain(`action="${screenUrl(screen.id)}/display/3/remove"`);
+      expect(html).toContain(`action="${screenUrl(screen.id)}/display/add"`);
+      expect(html).toContain("Counter Display (1080x1920)");
+    });
+
+    it("lists displays by ID while the CMS can't be reached", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      sim.offline = true;
+      const html = await (await awaitTestRequest(screenUrl(screen.id), { cookie })).text();
+      expect(html).toContain("Unknown display (primary)");
+      expect(html).not.toContain("Add Display");
+    });
+
+    it("shows a screen on another display through its display group", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      const response = await addDisplay(screen.id, "4");
+      expect(location(response)).toContain("success=Display added");
+
+      const updated = (await getScreenById(screen.id))!;
+      expect(updated.xibo_display_id).toBe(3);
+      expect(await getScreenDisplayIds(screen.id)).toEqual([3, 4]);
+      expect(sim.state.displayGroups).toEqual([
+        {
+          displayGroupId: updated.xibo_display_group_id!,
+          displayGroup: `Screen ${screen.id}: Van`,
+          isDynamic: 0,
+          displayIds: [3, 4],
+        },
+      ]);
+      const events = await getAuditEvents();
+      expect(events[0]!.detail).toBe(`Added display 4 to screen ${screen.id}`);
+    });
+
+    it("moves the screen's campaigns from its display onto the new group", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      const menu = await createMenuScreen("Drinks", screen.id, "grid-3x4", 30, 0);
+      const campaign = await createCampaign(simConfig, "Screen: Van", []);
+      await updateMenuScreenCampaignId(menu.id, campaign.campaignId);
+      await scheduleCampaign(simConfig, campaign.campaignId, 3);
+
+      await addDisplay(screen.id, "4");
+      const groupId = (await getScreenById(screen.id))!.xibo_display_group_id;
+      expect(sim.state.schedules.map((e) => e.displayGroupIds)).toEqual([[groupId]]);
+    });
+
+    it("promotes the next display when the primary is removed", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      await addDisplay(screen.id, "4");
+      const response = await removeDisplay(screen.id, 3);
+      expect(location(response)).toContain("success=Display removed");
+
+      expect((await getScreenById(screen.id))!.xibo_display_id).toBe(4);
+      expect(sim.state.displayGroups.map((g) => g.displayIds)).toEqual([[4]]);
+    });
+
+    it("deletes the display group with the screen's last display", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      await addDisplay(screen.id, "4");
+      await removeDisplay(screen.id, 4);
+      await removeDisplay(screen.id, 3);
+
+      const updated = (await getScreenById(screen.id))!;
+      expect(updated.xibo_display_id).toBeNull();
+      expect(updated.xibo_display_group_id).toBeNull();
+      expect(sim.state.displayGroups).toEqual([]);
+    });
+
+    it("refuses a display already on a screen", async () => {
+      await createScreen("Counter", businessId, 4);
+      const screen = await createScreen("Van", businessId, 3);
+      expect(location(await addDisplay(screen.id, "4"))).toContain("error=Choose a display not already assigned");
+      expect(location(await addDisplay(screen.id, "none"))).toContain("error=Choose a display not already assigned");
+      expect(await getScreenDisplayIds(screen.id)).toEqual([3]);
+    });
+
+    it("refuses to remove a display the screen isn't on", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      expect(location(await removeDisplay(screen.id, 4))).toContain("error=Display is not on this screen");
+    });
+
+    it("keeps the screen's displays when the CMS fails", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      sim.offline = true;
+      expect(location(await addDisplay(screen.id, "4"))).toContain("error=");
+      expect(await getScreenDisplayIds(screen.id)).toEqual([3]);
+    });
+
+    const repairSchedule = (screenId: number) =>
+      handle(mockFormRequest(`${screenUrl(screenId)}/schedule/repair`, { csrf_token: csrfToken }, cookie));
+
+    it("repairs a screen's display group from the schedule check page", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      await addDisplay(screen.id, "4");
+      sim.state.displayGroups[0]!.displayIds = [];
+
+      const response = await repairSchedule(screen.id);
+      expect(location(response)).toBe(
+        `/admin/schedules/business/${businessId}/screen/${screen.id}?success=Schedule repaired`,
+      );
+      expect(sim.state.displayGroups.map((g) => g.displayIds)).toEqual([[3, 4]]);
+      const events = await getAuditEvents();
+      expect(events[0]!.detail).toBe(`Repaired schedule of screen ${screen.id}`);
+    });
+
+    it("reports a repair the CMS fails", async () => {
+      const screen = await createScreen("Van", businessId, 3);
+      sim.offline = true;
+      expect(location(await repairSchedule(screen.id))).toContain(
+        `/admin/schedules/business/${businessId}/screen/${screen.id}?error=`,
+      );
+    });
+  });
 });
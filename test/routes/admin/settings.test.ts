@@ -15,6 +15,7 @@ import {
 import { clearToken } from "#xibo/client.ts";
 import { cacheInvalidateAll } from "#xibo/cache.ts";
 import { updateXiboCredentials, getXiboApiUrl, getXiboClientId } from "#lib/db/settings.ts";
+import { loadXiboState, saveXiboToken } from "#lib/db/xibo-state.ts";
 
 describe("settings", () => {
   let cookie: string;
@@ -23,15 +24,15 @@ describe("settings", () => {
   beforeEach(async () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
     const login = await loginAsAdmin();
     cookie = login.cookie;
     csrfToken = login.csrfToken;
   });
 
-  afterEach(() => {
-    clearToken();
+  afterEach(async () => {
+    await clearToken();
     resetDb();
   });
 
@@ -171,6 +172,23 @@ describe("settings", () => {
       expect(url).toBe("https://roundtrip.test");
       expect(clientId).toBe("rt-id");
     });
+
+    it("drops the stored token so it isn't sent to the new CMS", async () => {
+      await saveXiboToken("default", "old-token", Date.now() + 60_000);
+      await handle(
+        mockFormRequest(
+          "/admin/settings/xibo",
+          {
+            csrf_token: csrfToken,
+            xibo_api_url: "https://moved.xibo.test",
+            xibo_client_id: "id",
+            xibo_client_secret: "secret",
+          },
+          cookie,
+        ),
+      );
+      expect((await loadXiboState("default")).token).toBeNull();
+    });
   });
 
   describe("POST /admin/settings/test — connection test", () => {
@@ -94,7 +94,7 @@ describe("shared media routes", () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, XIBO_CLIENT_ID, XIBO_CLIENT_SECRET);
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
 
     const auth = await loginAsAdmin();
@@ -102,9 +102,9 @@ describe("shared media routes", () => {
     csrfToken = auth.csrfToken;
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -1,6 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
 import { createTestDb, resetDb } from "#test-utils";
 import { setDb } from "#lib/db/client.ts";
+import { createXiboConnection } from "#lib/db/xibo-connections.ts";
+import {
+  FAILURE_THRESHOLD,
+  getXiboCircuitBreaker,
+  resetXiboCircuitBreaker,
+} from "#xibo/circuit-breaker.ts";
 import { handleHealthCheck } from "#routes/health.ts";
 
 describe("health check", () => {
@@ -9,6 +15,7 @@ describe("health check", () => {
   });
 
   afterEach(() => {
+    resetXiboCircuitBreaker();
     resetDb();
   });
 
@@ -42,6 +49,20 @@ describe("health check", () => {
       expect(body.dbLatencyMs).toBeGreaterThanOrEqual(0);
     });
 
+    it("includes each Xibo connection's circuit breaker state", async () => {
+      const id = await createXiboConnection({
+        name: "North",
+        apiUrl: "https://north.xibo.test",
+        clientId: "id",
+        clientSecret: "secret",
+      });
+      const breaker = getXiboCircuitBreaker(`connection-${id}`);
+      for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure();
+
+      const body = await (await handleHealthCheck()).json();
+      expect(body.xiboBreakers).toEqual({ default: "closed", [`connection-${id}`]: "open" });
+    });
+
     it("returns 503 with degraded status when DB connection fails", async () => {
       setDb(null);
       const res = await handleHealthCheck();
@@ -50,6 +71,7 @@ describe("health check", () => {
       expect(body.status).toBe("degraded");
       expect(body.db).toBe("error");
       expect(typeof body.dbLatencyMs).toBe("number");
+      expect(body.xiboBreakers).toEqual({});
     });
   });
 });
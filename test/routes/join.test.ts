@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it } from "#test-compat";
+import { getAuditEvents } from "#lib/db/audit-events.ts";
+import {
+  createInvitedUser,
+  getUserById,
+  hashInviteCode,
+  hasPassword,
+  isInviteValid,
+} from "#lib/db/users.ts";
+import {
+  createTestDbWithSetup,
+  getCsrfTokenFromCookie,
+  handle,
+  mockFormRequest,
+  mockRequest,
+  resetDb,
+} from "#test-utils";
+
+const INVITE_CODE = "valid-invite-code";
+const ONE_DAY_MS = 86_400_000;
+
+/** Create an invited user whose invite expires at the given offset */
+const inviteUser = async (expiryOffsetMs = ONE_DAY_MS): Promise<number> => {
+  const user = await createInvitedUser(
+    "newstaff",
+    "user",
+    await hashInviteCode(INVITE_CODE),
+    new Date(Date.now() + expiryOffsetMs).toISOString(),
+  );
+  return user.id;
+};
+
+/** GET the join page and return its CSRF token */
+const getJoinCsrf = async (): Promise<string> => {
+  const res = await handle(mockRequest(`/join/${INVITE_CODE}`));
+  const match = (res.headers.get("set-cookie") || "").match(/join_csrf=([^;]+)/);
+  if (!match?.[1]) throw new Error("No join_csrf token in response");
+  return match[1];
+};
+
+/** POST the join form with a matching CSRF cookie */
+const postJoin = (data: Record<string, string>, csrf: string) =>
+  handle(
+    mockFormRequest(
+      `/join/${INVITE_CODE}`,
+      { ...data, csrf_token: csrf },
+      `join_csrf=${csrf}`,
+    ),
+  );
+
+describe("join flow", () => {
+  beforeEach(async () => {
+    Deno.env.set("ALLOWED_DOMAIN", "localhost");
+    await createTestDbWithSetup();
+  });
+
+  afterEach(() => {
+    resetDb();
+  });
+
+  describe("GET /join/:code", () => {
+    it("shows set password form for a valid invite", async () => {
+      await inviteUser();
+      const res = await handle(mockRequest(`/join/${INVITE_CODE}`));
+      expect(res.status).toBe(200);
+      const body = await res.text();
+      expect(body).toContain("Welcome, newstaff");
+      expect(body).toContain('name="password_confirm"');
+      expect(res.headers.get("set-cookie")).toContain("join_csrf=");
+    });
+
+    it("returns 404 for an unknown code", async () => {
+      await inviteUser();
+      const res = await handle(mockRequest("/join/not-a-real-code"));
+      expect(res.status).toBe(404);
+      expect(await res.text()).toContain("Invalid Invite");
+    });
+
+    it("returns 404 for an expired invite", async () => {
+      await inviteUser(-ONE_DAY_MS);
+      const res = await handle(mockRequest(`/join/${INVITE_CODE}`));
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /join/:code", () => {
+    it("rejects a mismatched CSRF token", async () => {
+      await inviteUser();
+      const res = await handle(
+        mockFormRequest(
+          `/join/${INVITE_CODE}`,
+          { csrf_token: "form", password: "longpassword", password_confirm: "longpassword" },
+          "join_csrf=cookie",
+        ),
+      );
+      expect(res.status).toBe(403);
+      expect(res.headers.get("set-cookie")).toContain("join_csrf=");
+    });
+
+    it("rejects a form missing the password confirmation", async () => {
+      const userId = await inviteUser();
+      const csrf = await getJoinCsrf();
+      const res = await postJoin({ password: "longpassword" }, csrf);
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain("Confirm Password is required");
+      expect(await hasPassword((await getUserById(userId))!)).toBe(false);
+    });
+
+    it("rejects a short password", async () => {
+      await inviteUser();
+      const csrf = await getJoinCsrf();
+      const res = await postJoin({ password: "short", password_confirm: "short" }, csrf);
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain("8 characters");
+    });
+
+    it("rejects mismatched passwords", async () => {
+      await inviteUser();
+      const csrf = await getJoinCsrf();
+      const res = await postJoin(
+        { password: "longpassword1", password_confirm: "longpassword2" },
+        csrf,
+      );
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain("do not match");
+    });
+
+    it("sets password, clears invite, and signs the user in", async () => {
+      const userId = await inviteUser();
+      const csrf = await getJoinCsrf();
+      const res = await postJoin(
+        { password: "longpassword", password_confirm: "longpassword" },
+        csrf,
+      );
+      expect(res.status).toBe(302);
+      expect(res.headers.get("location")).toBe("/admin");
+
+      const cookie = res.headers.get("set-cookie") || "";
+      expect(await getCsrfTokenFromCookie(cookie)).not.toBeNull();
+
+      const user = await getUserById(userId);
+      expect(await hasPassword(user!)).toBe(true);
+      expect(await isInviteValid(user!)).toBe(false);
+    });
+
+    it("logs a user audit event", async () => {
+      const userId = await inviteUser();
+      const csrf = await getJoinCsrf();
+      await postJoin({ password: "longpassword", password_confirm: "longpassword" }, csrf);
+
+      const events = await getAuditEvents({ resourceType: "user" });
+      expect(events.length).toBe(1);
+      expect(events[0]!.actor_user_id).toBe(userId);
+      expect(events[0]!.detail).toContain("accepted invite");
+    });
+
+    it("cannot reuse an invite once accepted", async () => {
+      await inviteUser();
+      const csrf = await getJoinCsrf();
+      await postJoin({ password: "longpassword", password_confirm: "longpassword" }, csrf);
+
+      const res = await postJoin(
+        { password: "otherpassword", password_confirm: "otherpassword" },
+        csrf,
+      );
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -16,6 +16,11 @@ import {
   createBusiness,
   updateBusinessXiboIds,
 } from "#lib/db/businesses.ts";
+import {
+  completePublishAttempt,
+  createPublishAttempt,
+} from "#lib/db/publish-attempts.ts";
+import { createScreen } from "#lib/db/screens.ts";
 import { updateXiboCredentials } from "#lib/db/settings.ts";
 import { clearToken } from "#xibo/client.ts";
 import { cacheInvalidateAll } from "#xibo/cache.ts";
@@ -43,7 +48,7 @@ describe("user dashboard routes", () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, XIBO_CLIENT_ID, XIBO_CLIENT_SECRET);
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
 
     // Create a business with Xibo dataset
@@ -58,9 +63,9 @@ describe("user dashboard routes", () => {
     await assignUserToBusiness(businessId, userId);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -153,6 +158,58 @@ describe("user dashboard routes", () => {
       expect(html).toContain("Manage Media");
     });
 
+    test("flags a screen whose display is offline", async () => {
+      await createScreen("Front Window", businessId, 7);
+      globalThis.fetch = createMockFetch({
+        "/api/display": () =>
+          jsonResponse([{ displayId: 7, display: "Van TV", loggedIn: 0, lastAccessed: null }]),
+        "/api/dataset/data/500": () => jsonResponse([]),
+      });
+
+      const response = await handle(
+        mockRequest(`/dashboard/business/${businessId}`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      const html = await response.text();
+      expect(html).toContain("Front Window");
+      expect(html).toContain("Offline");
+    });
+
+    test("shows no status for a screen without a display", async () => {
+      await createScreen("Back Counter", businessId, null);
+      globalThis.fetch = createMockFetch({
+        "/api/dataset/data/500": () => jsonResponse([]),
+      });
+
+      const response = await handle(
+        mockRequest(`/dashboard/business/${businessId}`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      const html = await response.text();
+      expect(html).toContain("Back Counter");
+      expect(html).toContain("No display");
+    });
+
+    test("shows status unavailable when the display lookup fails", async () => {
+      await createScreen("Front Window", businessId, 7);
+      globalThis.fetch = createMockFetch({
+        "/api/display": () => jsonResponse({ error: "Server error" }, 500),
+        "/api/dataset/data/500": () => jsonResponse([]),
+      });
+
+      const response = await handle(
+        mockRequest(`/dashboard/business/${businessId}`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      expect(response.status).toBe(200);
+      const html = await response.text();
+      expect(html).toContain("Front Window");
+      expect(html).toContain("Status unavailable");
+    });
+
     test("returns 403 when user is not assigned to business", async () => {
       // Create user assigned to a DIFFERENT business (so they pass the outer business context check)
       const otherBiz = await createBusiness("Other Business");
@@ -237,4 +294,52 @@ describe("user dashboard routes", () => {
       expect(html).toContain("Product added");
     });
   });
+
+  describe("GET /dashboard/business/:id/publishes", () => {
+    test("lists publish attempts across the business's screens", async () => {
+      const van = await createScreen("Van Screen", businessId, 1);
+      const shop = await createScreen("Shop Screen", businessId, 2);
+      const ok = await createPublishAttempt(userId, businessId, van.id);
+      await completePublishAttempt(ok, "success", 1200);
+      const failed = await createPublishAttempt(userId, businessId, shop.id);
+      await completePublishAttempt(failed, "failed", 80, "Xibo API error 500");
+
+      const response = await handle(
+        mockRequest(`/dashboard/business/${businessId}/publishes`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      expect(response.status).toBe(200);
+      const html = await response.text();
+      expect(html).toContain("Publish History - Test Business");
+      expect(html).toContain("Van Screen");
+      expect(html).toContain("Shop Screen");
+      expect(html).toContain("1.2 s");
+      expect(html).toContain("Xibo API error 500");
+    });
+
+    test("does not show other businesses' attempts", async () => {
+      const otherBiz = await createBusiness("Other Business");
+      const attempt = await createPublishAttempt(userId, otherBiz.id, 99);
+      await completePublishAttempt(attempt, "failed", 10, "Other failure");
+
+      const response = await handle(
+        mockRequest(`/dashboard/business/${businessId}/publishes`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      const html = await response.text();
+      expect(html).not.toContain("Other failure");
+      expect(html).toContain("No publishes recorded yet.");
+    });
+
+    test("returns 404 for non-existent business", async () => {
+      const response = await handle(
+        mockRequest("/dashboard/business/9999/publishes", {
+          headers: { cookie: userCookie },
+        }),
+      );
+      expect(response.status).toBe(404);
+    });
+  });
 });
@@ -23,6 +23,7 @@ import {
   setSetting,
   updateXiboCredentials,
 } from "#lib/db/settings.ts";
+import { createXiboConnection } from "#lib/db/xibo-connections.ts";
 import { clearToken } from "#xibo/client.ts";
 import { cacheInvalidateAll } from "#xibo/cache.ts";
 import type { XiboMedia } from "#xibo/types.ts";
@@ -111,7 +112,7 @@ describe("user media routes", () => {
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, XIBO_CLIENT_ID, XIBO_CLIENT_SECRET);
     await setSharedFolderId(SHARED_FOLDER_ID);
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
 
     // Create a business with Xibo folder
@@ -132,9 +133,9 @@ describe("user media routes", () => {
     await assignUserToBusiness(businessId, userId);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -226,6 +227,37 @@ describe("user media routes", () => {
       expect(html).toContain("my-photo.jpg");
     });
 
+    test("lists a named connection's business media without shared photos", async () => {
+      const connectionId = await createXiboConnection({
+        name: "North",
+        apiUrl: "https://north.xibo.test",
+        clientId: "north-id",
+        clientSecret: "north-secret",
+      });
+      const north = await createBusiness("North Cafe", connectionId);
+      await updateBusinessXiboIds(north.id, BUSINESS_FOLDER_ID, "north-abc", 600);
+      await assignUserToBusiness(north.id, userId);
+      const urls: string[] = [];
+      globalThis.fetch = createMockFetch({
+        "/api/library": (url) => {
+          urls.push(url);
+          return allMediaHandler();
+        },
+      });
+
+      const response = await handle(
+        mockRequest(`/dashboard/media?businessId=${north.id}`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      expect(response.status).toBe(200);
+      const html = await response.text();
+      expect(urls[0]).toContain("https://north.xibo.test");
+      expect(html).toContain("my-photo.jpg");
+      expect(html).not.toContain("shared-logo.png");
+      expect(html).toContain(`/dashboard/media/upload?businessId=${north.id}`);
+    });
+
     test("shows success message from query param", async () => {
       globalThis.fetch = createMockFetch({
         "/api/library": () => jsonResponse([]),
@@ -476,6 +508,30 @@ describe("user media routes", () => {
       expect(html).toContain("Business folder not provisioned");
     });
 
+    test("redirects to settings when Xibo isn't configured", async () => {
+      await updateXiboCredentials("", "", "");
+      globalThis.fetch = createMockFetch({});
+
+      const formData = new FormData();
+      formData.append("csrf_token", userCsrfToken);
+      formData.append(
+        "file",
+        new File(["img"], "test.jpg", { type: "image/jpeg" }),
+      );
+
+      const response = await handle(
+        mockMultipartRequest(
+          "/dashboard/media/upload",
+          formData,
+          userCookie,
+        ),
+      );
+      expect(response.status).toBe(302);
+      expect(response.headers.get("location")).toBe(
+        "/admin/settings?error=Xibo+API+not+configured",
+      );
+    });
+
     test("returns 400 for invalid form data", async () => {
       globalThis.fetch = createMockFetch({});
 
@@ -17,14 +17,30 @@ import {
   createBusiness,
   updateBusinessXiboIds,
 } from "#lib/db/businesses.ts";
-import { createScreen } from "#lib/db/screens.ts";
+import { createScreen, getScreenById } from "#lib/db/screens.ts";
 import {
   createMenuScreen,
   getMenuScreenById,
+  getMenuScreenItems,
+  getMenuScreenDraft,
   getMenuScreensForScreen,
+  saveMenuScreenDraft,
   setMenuScreenItems,
-  updateMenuScreenLayoutId,
+  updateMenuScreenCampaignId,
+  updateMenuScreenLayout,
 } from "#lib/db/menu-screens.ts";
+import {
+  completePublishAttempt,
+  createPublishAttempt,
+  getPublishAttemptsForScreen,
+} from "#lib/db/publish-attempts.ts";
+import {
+  createPublishSnapshot,
+  getPublishSnapshot,
+  getSnapshotIds,
+  type SnapshotMenuScreen,
+} from "#lib/db/publish-snapshots.ts";
+import { getAuditEvents } from "#lib/db/audit-events.ts";
 import { updateXiboCredentials } from "#lib/db/settings.ts";
 import { clearToken } from "#xibo/client.ts";
 import { cacheInvalidateAll } from "#xibo/cache.ts";
@@ -50,20 +66,42 @@ const sampleProducts = [
   { id: 3, name: "Strawberry", price: "3.75", media_id: null, available: 0, sort_order: 2 },
 ];
 
+/** The layout every build creates, found again by its campaign */
+const builtLayout = {
+  layoutId: 100,
+  campaignId: 110,
+  layout: "Test",
+  description: "",
+  status: 1,
+  width: 1080,
+  height: 1920,
+  publishedStatusId: 1,
+};
+
+/** The screen's display group, created the first time its schedule is rebuilt */
+const displayGroupMocks = {
+  "/api/displaygroup": (url: string, init?: RequestInit) =>
+    init?.method === "POST" && !url.includes("/display/")
+      ? jsonResponse({ displayGroupId: 70, displayGroup: "Screen 1: Main Display", isDynamic: 0 })
+      : jsonResponse([]),
+  "/api/display": () => jsonResponse([]),
+};
+
 /** Standard mock fetch for menu screen operations */
 const createMenuScreenMockFetch = () =>
   createMockFetch({
+    ...displayGroupMocks,
     [`/api/dataset/data/${DATASET_ID}`]: () => jsonResponse(sampleProducts),
-    "/api/resolution": () =>
-      jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]),
+    "/api/resolution": (_url, init) =>
+      init?.method === "POST"
+        ? jsonResponse({ resolutionId: 2, resolution: "1920x1080", width: 1920, height: 1080 })
+        : jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]),
     "/api/layout": (_url, init) => {
-      if (init?.method === "POST") {
-        return jsonResponse({ layoutId: 100, layout: "Test", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 });
-      }
+      if (init?.method === "POST") return jsonResponse(builtLayout);
       if (init?.method === "DELETE") {
         return new Response(null, { status: 204 });
       }
-      return jsonResponse([]);
+      return jsonResponse([builtLayout]);
     },
     "/api/region/": () =>
       jsonResponse({ regionId: 1, width: 100, height: 100, top: 0, left: 0, zIndex: 0 }),
@@ -77,9 +115,6 @@ const createMenuScreenMockFetch = () =>
       if (_url.includes("/layout/assign")) {
         return jsonResponse({});
       }
-      if (init?.method === "PUT") {
-        return jsonResponse({ campaignId: 50, campaign: "Screen", isLayoutSpecific: 0, totalDuration: 0 });
-      }
       if (init?.method === "DELETE") {
         return new Response(null, { status: 204 });
       }
@@ -93,6 +128,35 @@ const createMenuScreenMockFetch = () =>
     },
   });
 
+/** Install a fetch that records "METHOD /path" for each Xibo API call */
+const recordCalls = (fetch: typeof globalThis.fetch): string[] => {
+  const calls: string[] = [];
+  globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    calls.push(`${init?.method ?? "GET"} ${new URL(url).pathname}`);
+    return fetch(input, init);
+  }) as typeof globalThis.fetch;
+  return calls;
+};
+
+/** A snapshotted always-active menu screen */
+const snapshotMenuScreen = (
+  overrides: Partial<SnapshotMenuScreen> = {},
+): SnapshotMenuScreen => ({
+  name: "Old Menu",
+  template_id: "grid-3x4",
+  display_time: 30,
+  sort_order: 0,
+  active_days: null,
+  active_from: null,
+  active_to: null,
+  xibo_layout_id: 100,
+  xibo_layout_campaign_id: 110,
+  xibo_campaign_id: 50,
+  product_row_ids: [1, 2],
+  ...overrides,
+});
+
 describe("user menu screen routes", () => {
   let userCookie: string;
   let userCsrfToken: string;
@@ -104,7 +168,7 @@ describe("user menu screen routes", () => {
     Deno.env.set("ALLOWED_DOMAIN", "localhost");
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
 
     const biz = await createBusiness("Test Business");
@@ -121,9 +185,9 @@ describe("user menu screen routes", () => {
     await assignUserToBusiness(businessId, userId);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -152,7 +216,7 @@ describe("user menu screen routes", () => {
 
     test("shows menu screens when they exist", async () => {
       const ms = await createMenuScreen("Morning Menu", screenId, "grid-3x4", 30, 1);
-      await updateMenuScreenLayoutId(ms.id, 100);
+      await updateMenuScreenLayout(ms.id, { layoutId: 100, campaignId: 110 });
 
       globalThis.fetch = createMenuScreenMockFetch();
 
@@ -294,6 +358,122 @@ describe("user menu screen routes", () => {
       expect(menuScreens.length).toBe(1);
     });
 
+    test("schedules on a display group created for a screen without one", async () => {
+      const fallback = createMenuScreenMockFetch();
+      const scheduled: unknown[] = [];
+      globalThis.fetch = createMockFetch({
+        "/api/schedule": (url, init) => {
+          if (init?.method === "POST") scheduled.push(JSON.parse(String(init.body)).displayGroupIds);
+          return fallback(url, init);
+        },
+        "/api": (url, init) => fallback(url, init),
+      });
+
+      await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/create`,
+          { csrf_token: userCsrfToken, name: "Morning Menu", display_time: "30", sort_order: "1", template_id: "grid-3x4" },
+          userCookie,
+        ),
+      );
+      expect((await getScreenById(screenId))!.xibo_display_group_id).toBe(70);
+      expect(scheduled).toEqual([[70]]);
+    });
+
+    test("creates menu screen with active days and hours", async () => {
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      const response = await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/create`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Weekend Brunch",
+            display_time: "30",
+            sort_order: "1",
+            template_id: "grid-3x4",
+            active_days: "6",
+            active_from: "09:00",
+            active_to: "13:00",
+          },
+          userCookie,
+        ),
+      );
+      expect(response.headers.get("location")).toContain("success=");
+
+      const [menuScreen] = await getMenuScreensForScreen(screenId);
+      expect(menuScreen!.active_days).toBe("6");
+      expect(menuScreen!.active_from).toBe("09:00");
+      expect(menuScreen!.active_to).toBe("13:00");
+      expect(menuScreen!.xibo_campaign_id).toBe(50);
+    });
+
+    test("redirects with error for active days other than weekdays", async () => {
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      const response = await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/create`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Someday",
+            display_time: "30",
+            sort_order: "1",
+            template_id: "grid-3x4",
+            active_days: "9",
+          },
+          userCookie,
+        ),
+      );
+      expect(response.status).toBe(302);
+      expect(response.headers.get("location")).toContain(
+        "error=Active%20days%20must%20be%20weekdays",
+      );
+      expect(await getMenuScreensForScreen(screenId)).toEqual([]);
+    });
+
+    test("redirects with error when only one active time is set", async () => {
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      const response = await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/create`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Half Range",
+            display_time: "30",
+            sort_order: "1",
+            template_id: "grid-3x4",
+            active_from: "09:00",
+          },
+          userCookie,
+        ),
+      );
+      expect(response.headers.get("location")).toContain("error=");
+      expect(await getMenuScreensForScreen(screenId)).toEqual([]);
+    });
+
+    test("returns 400 for a malformed active time", async () => {
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      const response = await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/create`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Bad Time",
+            display_time: "30",
+            sort_order: "1",
+            template_id: "grid-3x4",
+            active_from: "9am",
+            active_to: "13:00",
+          },
+          userCookie,
+        ),
+      );
+      expect(response.status).toBe(400);
+    });
+
     test("returns 400 when name is missing", async () => {
       globalThis.fetch = createMenuScreenMockFetch();
 
@@ -452,6 +632,35 @@ describe("user menu screen routes", () => {
       expect(response.headers.get("location")).toContain("success=");
     });
 
+    test("builds layouts at a landscape screen's resolution", async () => {
+      const vanScreen = await createScreen("Van", businessId, null, { width: 1920, height: 1080 });
+      const resolutionPosts: unknown[] = [];
+      const mockFetch = createMenuScreenMockFetch();
+      globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+        if (String(input).includes("/api/resolution") && init?.method === "POST") {
+          resolutionPosts.push(JSON.parse(String(init.body)));
+        }
+        return mockFetch(input, init);
+      }) as typeof globalThis.fetch;
+
+      const response = await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${vanScreen.id}/menu/create`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Van Menu",
+            display_time: "30",
+            sort_order: "1",
+            template_id: "grid-3x4",
+            product_ids: "1",
+          },
+          userCookie,
+        ),
+      );
+      expect(response.headers.get("location")).toContain("success=");
+      expect(resolutionPosts).toEqual([{ resolution: "1920x1080", width: 1920, height: 1080 }]);
+    });
+
     test("redirects with error when layout building fails (menuScreenAction catch)", async () => {
       // Mock fetch that fails on layout creation
       globalThis.fetch = createMockFetch({
@@ -476,6 +685,279 @@ describe("user menu screen routes", () => {
       );
       expect(response.status).toBe(302);
       expect(response.headers.get("location")).toContain("error=");
+
+      const [attempt] = await getPublishAttemptsForScreen(screenId);
+      expect(attempt!.status).toBe("failed");
+      expect(attempt!.user_id).toBe(userId);
+      expect(attempt!.error_detail).not.toBeNull();
+    });
+
+    test("records a successful publish attempt", async () => {
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/create`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Tracked Menu",
+            display_time: "30",
+            sort_order: "1",
+            template_id: "grid-3x4",
+          },
+          userCookie,
+        ),
+      );
+
+      const attempts = await getPublishAttemptsForScreen(screenId);
+      expect(attempts.length).toBe(1);
+      expect(attempts[0]!.status).toBe("success");
+      expect(attempts[0]!.business_id).toBe(businessId);
+      expect(attempts[0]!.duration_ms).not.toBeNull();
+    });
+
+    test("snapshots the published menu screens", async () => {
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/create`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Snapshot Menu",
+            display_time: "30",
+            sort_order: "1",
+            template_id: "grid-3x4",
+            product_ids: "2",
+          },
+          userCookie,
+        ),
+      );
+
+      const [attempt] = await getPublishAttemptsForScreen(screenId);
+      const snapshot = await getPublishSnapshot(attempt!.id);
+      expect(snapshot!.screen_id).toBe(screenId);
+      expect(snapshot!.menuScreens).toEqual([
+        snapshotMenuScreen({ name: "Snapshot Menu", sort_order: 1, product_row_ids: [2] }),
+      ]);
+    });
+
+    test("prunes old snapshots and deletes layouts only they used", async () => {
+      for (let i = 0; i < 10; i++) {
+        const attemptId = await createPublishAttempt(userId, businessId, screenId);
+        await createPublishSnapshot(attemptId, screenId, [
+          i === 0 ? snapshotMenuScreen({ xibo_layout_id: 555, xibo_layout_campaign_id: 565 }) : snapshotMenuScreen(),
+        ]);
+      }
+      const fallback = createMenuScreenMockFetch();
+      const calls = recordCalls(
+        createMockFetch({
+          "layout?campaignId=565": () => jsonResponse([{ ...builtLayout, layoutId: 555, campaignId: 565 }]),
+          "/api": (url, init) => fallback(url, init),
+        }),
+      );
+
+      await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/create`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Eleventh",
+            display_time: "30",
+            sort_order: "1",
+            template_id: "grid-3x4",
+          },
+          userCookie,
+        ),
+      );
+
+      expect((await getSnapshotIds(screenId)).attemptIds.size).toBe(10);
+      expect(calls).toContain("DELETE /api/layout/555");
+      expect(calls).not.toContain("DELETE /api/layout/100");
+    });
+  });
+
+  describe("GET /dashboard/business/:bizId/screen/:screenId/publishes", () => {
+    test("shows the screen's publish history", async () => {
+      const attempt = await createPublishAttempt(userId, businessId, screenId);
+      await completePublishAttempt(attempt, "failed", 450, "Layout publish rejected");
+      await createPublishAttempt(userId, businessId, screenId);
+
+      const response = await handle(
+        mockRequest(`/dashboard/business/${businessId}/screen/${screenId}/publishes`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      expect(response.status).toBe(200);
+      const html = await response.text();
+      expect(html).toContain("Publish History - Main Screen");
+      expect(html).toContain("Layout publish rejected");
+      expect(html).toContain("450 ms");
+      expect(html).toContain("In progress");
+    });
+
+    test("offers rollback for snapshotted publishes", async () => {
+      const attempt = await createPublishAttempt(userId, businessId, screenId);
+      await completePublishAttempt(attempt, "success", 300);
+      await createPublishSnapshot(attempt, screenId, [snapshotMenuScreen()]);
+
+      const response = await handle(
+        mockRequest(`/dashboard/business/${businessId}/screen/${screenId}/publishes`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      const html = await response.text();
+      expect(html).toContain(
+        `/dashboard/business/${businessId}/screen/${screenId}/publishes/${attempt}/rollback`,
+      );
+    });
+
+    test("returns 404 when screen not found", async () => {
+      const response = await handle(
+        mockRequest(`/dashboard/business/${businessId}/screen/999/publishes`, {
+          headers: { cookie: userCookie },
+        }),
+      );
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /dashboard/business/:bizId/screen/:screenId/publishes/:id/rollback", () => {
+    /** Snapshot the given menu screens as a completed publish */
+    const snapshotPublish = async (
+      menuScreens: SnapshotMenuScreen[],
+      forScreenId = screenId,
+    ): Promise<number> => {
+      const attemptId = await createPublishAttempt(userId, businessId, forScreenId);
+      await completePublishAttempt(attemptId, "success", 300);
+      await createPublishSnapshot(attemptId, forScreenId, menuScreens);
+      return attemptId;
+    };
+
+    const rollback = (attemptId: number, form: Record<string, string> = {}) =>
+      handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/publishes/${attemptId}/rollback`,
+          { csrf_token: userCsrfToken, ...form },
+          userCookie,
+        ),
+      );
+
+    test("restores the snapshot's menu screens and kept layouts", async () => {
+      const attemptId = await snapshotPublish([snapshotMenuScreen()]);
+      const current = await createMenuScreen("Broken Menu", screenId, "list-6", 10, 0, {
+        active_days: "6,7",
+        active_from: null,
+        active_to: null,
+      });
+      await updateMenuScreenLayout(current.id, { layoutId: 300, campaignId: 310 });
+      await updateMenuScreenCampaignId(current.id, 77);
+      // The kept layout was edited since, so it has a new ID in the same campaign
+      const kept = {
+        ...builtLayout,
+        layoutId: 105,
+        layout: "Kept for rollback #100",
+        description: "Auto-generated from template grid-3x4",
+        status: 3,
+      };
+      const fallback = createMenuScreenMockFetch();
+      const calls = recordCalls(
+        createMockFetch({
+          "layout?campaignId=110": () => jsonResponse([kept]),
+          "layout?campaignId=310": () => jsonResponse([{ ...builtLayout, layoutId: 300, campaignId: 310 }]),
+          "/api/layout/checkout/105": () => jsonResponse({ ...kept, layoutId: 106 }),
+          "parentId=105": () => jsonResponse([{ ...kept, layoutId: 106, regions: [] }]),
+          "/api": (url, init) => fallback(url, init),
+        }),
+      );
+
+      const response = await rollback(attemptId, { reason: "Prices wrong" });
+      expect(response.status).toBe(302);
+      expect(response.headers.get("location")).toContain("success=");
+
+      const [restored, ...rest] = await getMenuScreensForScreen(screenId);
+      expect(rest).toEqual([]);
+      expect(restored!.template_id).toBe("grid-3x4");
+      expect(restored!.display_time).toBe(30);
+      expect(restored!.xibo_layout_id).toBe(105);
+      expect(restored!.xibo_layout_campaign_id).toBe(110);
+      expect((await getMenuScreenItems(restored!.id)).map((i) => i.product_row_id)).toEqual([1, 2]);
+
+      expect(calls).toContain("PUT /api/layout/105");
+      expect(calls).toContain("PUT /api/layout/checkout/105");
+      expect(calls).toContain("PUT /api/layout/publish/105");
+      expect(calls).toContain("DELETE /api/layout/300");
+      expect(calls).toContain("DELETE /api/campaign/77");
+      expect(calls).not.toContain("POST /api/layout");
+
+      const [event] = await getAuditEvents({ action: "ROLLBACK" });
+      expect(event!.resource_type).toBe("screen");
+      expect(event!.detail).toBe(
+        `Rolled back screen "Main Screen" to publish #${attemptId}: Prices wrong`,
+      );
+    });
+
+    test("reuses the current campaign for a matching daypart", async () => {
+      const attemptId = await snapshotPublish([snapshotMenuScreen({ xibo_campaign_id: 40 })]);
+      const current = await createMenuScreen("Current", screenId, "list-6", 10, 0);
+      await updateMenuScreenCampaignId(current.id, 50);
+      const calls = recordCalls(createMenuScreenMockFetch());
+
+      await rollback(attemptId);
+
+      const [restored] = await getMenuScreensForScreen(screenId);
+      expect(restored!.xibo_campaign_id).toBe(50);
+      expect(calls).not.toContain("DELETE /api/campaign/50");
+      expect(calls).toContain("POST /api/campaign/50/layout/assign");
+    });
+
+    test("rebuilds a layout Xibo no longer has", async () => {
+      const attemptId = await snapshotPublish([snapshotMenuScreen({ xibo_layout_id: 404 })]);
+      const fallback = createMenuScreenMockFetch();
+      const calls = recordCalls(
+        createMockFetch({
+          "/api/layout/404": () => new Response("Not Found", { status: 404 }),
+          "/api": (url, init) => fallback(url, init),
+        }),
+      );
+
+      const response = await rollback(attemptId);
+      expect(response.headers.get("location")).toContain("success=");
+      expect(calls).toContain("POST /api/layout");
+
+      const [restored] = await getMenuScreensForScreen(screenId);
+      expect(restored!.xibo_layout_id).toBe(100);
+    });
+
+    test("records the rollback as a new snapshotted publish", async () => {
+      const attemptId = await snapshotPublish([snapshotMenuScreen()]);
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      await rollback(attemptId);
+
+      const [latest] = await getPublishAttemptsForScreen(screenId);
+      expect(latest!.id).not.toBe(attemptId);
+      expect(latest!.status).toBe("success");
+      expect((await getPublishSnapshot(latest!.id))!.menuScreens[0]!.name).toBe("Old Menu");
+
+      const [event] = await getAuditEvents({ action: "ROLLBACK" });
+      expect(event!.detail).toBe(`Rolled back screen "Main Screen" to publish #${attemptId}`);
+    });
+
+    test("redirects with error for another screen's snapshot", async () => {
+      const otherScreen = await createScreen("Other Screen", businessId, 2);
+      const attemptId = await snapshotPublish([snapshotMenuScreen()], otherScreen.id);
+
+      const response = await rollback(attemptId);
+      expect(response.status).toBe(302);
+      const location = response.headers.get("location")!;
+      expect(location).toContain(`/screen/${screenId}/publishes`);
+      expect(location).toContain("error=");
+    });
+
+    test("redirects with error when the snapshot does not exist", async () => {
+      const response = await rollback(999);
+      expect(response.headers.get("location")).toContain("error=");
     });
   });
 
@@ -498,6 +980,37 @@ describe("user menu screen routes", () => {
       expect(html).toContain("grid-3x4");
     });
 
+    test("rebuilds when a snapshotted layout is gone before it can be renamed", async () => {
+      const ms = await createMenuScreen("Kept", screenId, "grid-3x4", 20, 0);
+      await updateMenuScreenLayout(ms.id, { layoutId: 77, campaignId: 87 });
+      const attemptId = await createPublishAttempt(userId, businessId, screenId);
+      await createPublishSnapshot(attemptId, screenId, [
+        snapshotMenuScreen({ xibo_layout_id: 77, xibo_layout_campaign_id: 87 }),
+      ]);
+      const fallback = createMenuScreenMockFetch();
+      globalThis.fetch = createMockFetch({
+        "layout?campaignId=87": () => jsonResponse([{ ...builtLayout, layoutId: 77, campaignId: 87 }]),
+        "/api/layout/77": () => new Response("Not Found", { status: 404 }),
+        "/api": (url, init) => fallback(url, init),
+      });
+
+      const response = await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/${ms.id}`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Kept",
+            display_time: "20",
+            sort_order: "0",
+            template_id: "list-6",
+          },
+          userCookie,
+        ),
+      );
+      expect(response.headers.get("location")).toContain("success=");
+      expect((await getMenuScreenById(ms.id))!.xibo_layout_id).toBe(100);
+    });
+
     test("redirects with error when menu screen not found", async () => {
       globalThis.fetch = createMenuScreenMockFetch();
 
@@ -531,7 +1044,7 @@ describe("user menu screen routes", () => {
   describe("POST /dashboard/business/:bizId/screen/:screenId/menu/:id", () => {
     test("updates menu screen and redirects", async () => {
       const ms = await createMenuScreen("Update Me", screenId, "grid-3x4", 20, 0);
-      await updateMenuScreenLayoutId(ms.id, 100);
+      await updateMenuScreenLayout(ms.id, { layoutId: 100, campaignId: 110 });
 
       globalThis.fetch = createMenuScreenMockFetch();
 
@@ -557,6 +1070,40 @@ describe("user menu screen routes", () => {
       expect(updated!.display_time).toBe(45);
     });
 
+    test("keeps a snapshotted layout for rollback instead of deleting it", async () => {
+      const ms = await createMenuScreen("Kept", screenId, "grid-3x4", 20, 0);
+      await updateMenuScreenLayout(ms.id, { layoutId: 77, campaignId: 87 });
+      const attemptId = await createPublishAttempt(userId, businessId, screenId);
+      await createPublishSnapshot(attemptId, screenId, [
+        snapshotMenuScreen({ xibo_layout_id: 77, xibo_layout_campaign_id: 87 }),
+      ]);
+      const fallback = createMenuScreenMockFetch();
+      const calls = recordCalls(
+        createMockFetch({
+          "layout?campaignId=87": () => jsonResponse([{ ...builtLayout, layoutId: 77, campaignId: 87 }]),
+          "/api": (url, init) => fallback(url, init),
+        }),
+      );
+
+      const response = await handle(
+        mockFormRequest(
+          `/dashboard/business/${businessId}/screen/${screenId}/menu/${ms.id}`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Kept",
+            display_time: "20",
+            sort_order: "0",
+            template_id: "list-6",
+          },
+          userCookie,
+        ),
+      );
+      expect(response.headers.get("location")).toContain("success=");
+      expect(calls).toContain("PUT /api/layout/77");
+      expect(calls).not.toContain("DELETE /api/layout/77");
+      expect((await getMenuScreenById(ms.id))!.xibo_layout_id).toBe(100);
+    });
+
     test("redirects with error when menu screen not found", async () => {
       globalThis.fetch = createMenuScreenMockFetch();
 
@@ -577,7 +1124,7 @@ describe("user menu screen routes", () => {
       expect(response.headers.get("location")).toContain("error=");
     });
 
-    test("updates menu screen with null layoutId (deleteOldLayout early return)", async () => {
+    test("updates menu screen with null layoutId (releaseLayout early return)", async () => {
       // Create menu screen without setting a layout ID
       const ms = await createMenuScreen("No Layout", screenId, "grid-3x4", 20, 0);
 
@@ -625,7 +1172,7 @@ describe("user menu screen routes", () => {
   describe("POST /dashboard/business/:bizId/screen/:screenId/menu/:id/delete", () => {
     test("deletes menu screen and redirects", async () => {
       const ms = await createMenuScreen("Delete Me", screenId, "grid-3x4", 20, 0);
-      await updateMenuScreenLayoutId(ms.id, 100);
+      await updateMenuScreenLayout(ms.id, { layoutId: 100, campaignId: 110 });
 
       globalThis.fetch = createMenuScreenMockFetch();
 
@@ -687,9 +1234,10 @@ describe("user menu screen routes", () => {
 
     test("handles layout already deleted in Xibo gracefully", async () => {
       const ms = await createMenuScreen("Deleted Layout", screenId, "grid-3x4", 20, 0);
-      await updateMenuScreenLayoutId(ms.id, 999);
+      await updateMenuScreenLayout(ms.id, { layoutId: 999, campaignId: 1009 });
 
       globalThis.fetch = createMockFetch({
+        "layout?campaignId=1009": () => jsonResponse([{ ...builtLayout, layoutId: 999, campaignId: 1009 }]),
         "/api/layout/999": () => new Response("Not Found", { status: 404 }),
         "/api/campaign": (_url, init) => {
           if (init?.method === "DELETE") return new Response(null, { status: 204 });
@@ -700,6 +1248,7 @@ describe("user menu screen routes", () => {
           return jsonResponse([]);
         },
         "/api/schedule": () => jsonResponse([]),
+        ...displayGroupMocks,
       });
 
       const response = await handle(
@@ -713,4 +1262,176 @@ describe("user menu screen routes", () => {
       expect(response.headers.get("location")).toContain("success=");
     });
   });
+
+  describe("drafts", () => {
+    const menuUrl = (id: number) =>
+      `/dashboard/business/${businessId}/screen/${screenId}/menu/${id}`;
+
+    const draftContent = {
+      name: "Draft Menu",
+      template_id: "list-6",
+      display_time: 45,
+      sort_order: 2,
+      active_days: null,
+      active_from: null,
+      active_to: null,
+      product_row_ids: [2],
+    };
+
+    /** A published menu screen with products 1 and 2 on layout 100 */
+    const createLiveMenuScreen = async () => {
+      const ms = await createMenuScreen("Live Menu", screenId, "grid-3x4", 20, 0);
+      await setMenuScreenItems(ms.id, [1, 2]);
+      await updateMenuScreenLayout(ms.id, { layoutId: 100, campaignId: 110 });
+      return ms;
+    };
+
+    test("saving a draft leaves the live menu screen and Xibo untouched", async () => {
+      const ms = await createLiveMenuScreen();
+      const calls = recordCalls(createMenuScreenMockFetch());
+
+      const response = await handle(
+        mockFormRequest(
+          `${menuUrl(ms.id)}/draft`,
+          {
+            csrf_token: userCsrfToken,
+            name: "Draft Menu",
+            display_time: "45",
+            sort_order: "2",
+            template_id: "list-6",
+            product_ids: "2",
+          },
+          userCookie,
+        ),
+      );
+      expect(response.status).toBe(302);
+      expect(response.headers.get("location")).toContain(`${menuUrl(ms.id)}/preview?success=`);
+      expect(calls).toEqual([]);
+
+      const stored = await getMenuScreenById(ms.id);
+      expect(stored!.template_id).toBe("grid-3x4");
+      expect(await getMenuScreenDraft(stored!)).toEqual(draftContent);
+      expect(await getPublishAttemptsForScreen(screenId)).toEqual([]);
+    });
+
+    test("saving an invalid draft is rejected", async () => {
+      const ms = await createLiveMenuScreen();
+
+      const response = await handle(
+        mockFormRequest(
+          `${menuUrl(ms.id)}/draft`,
+          { csrf_token: userCsrfToken, name: "Bad", display_time: "45", sort_order: "0", template_id: "nope" },
+          userCookie,
+        ),
+      );
+      expect(response.headers.get("location")).toContain("error=");
+      expect((await getMenuScreenById(ms.id))!.draft).toBeNull();
+    });
+
+    test("preview renders the draft with its products", async () => {
+      const ms = await createLiveMenuScreen();
+      await saveMenuScreenDraft(ms.id, draftContent);
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      const response = await handle(
+        mockRequest(`${menuUrl(ms.id)}/preview`, { headers: { cookie: userCookie } }),
+      );
+      expect(response.status).toBe(200);
+      const html = await response.text();
+      expect(html).toContain("Preview Draft Menu");
+      expect(html).toContain("Unpublished draft");
+      expect(html).toContain("Chocolate - 4.00");
+      expect(html).not.toContain("Vanilla - 3.50");
+    });
+
+    test("preview falls back to the live version", async () => {
+      const ms = await createLiveMenuScreen();
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      const response = await handle(
+        mockRequest(`${menuUrl(ms.id)}/preview`, { headers: { cookie: userCookie } }),
+      );
+      const html = await response.text();
+      expect(html).toContain("Preview Live Menu");
+      expect(html).toContain("Live version");
+      expect(html).toContain("Vanilla - 3.50");
+    });
+
+    test("preview redirects with error when menu screen not found", async () => {
+      const response = await handle(
+        mockRequest(`${menuUrl(999)}/preview`, { headers: { cookie: userCookie } }),
+      );
+      expect(response.headers.get("location")).toContain("error=");
+    });
+
+    test("edit form is pre-filled from the draft", async () => {
+      const ms = await createLiveMenuScreen();
+      await saveMenuScreenDraft(ms.id, draftContent);
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      const response = await handle(
+        mockRequest(menuUrl(ms.id), { headers: { cookie: userCookie } }),
+      );
+      const html = await response.text();
+      expect(html).toContain('value="Draft Menu"');
+      expect(html).toContain("You are editing an unpublished draft");
+    });
+
+    test("publishing applies the draft, rebuilds, and clears it", async () => {
+      const ms = await createLiveMenuScreen();
+      await saveMenuScreenDraft(ms.id, draftContent);
+      const calls = recordCalls(createMenuScreenMockFetch());
+
+      const response = await handle(
+        mockFormRequest(`${menuUrl(ms.id)}/publish`, { csrf_token: userCsrfToken }, userCookie),
+      );
+      expect(response.headers.get("location")).toContain("success=");
+      expect(calls).toContain("POST /api/layout");
+
+      const published = await getMenuScreenById(ms.id);
+      expect(published!.template_id).toBe("list-6");
+      expect(published!.display_time).toBe(45);
+      expect(published!.draft).toBeNull();
+      expect((await getMenuScreenItems(ms.id)).map((i) => i.product_row_id)).toEqual([2]);
+      expect((await getPublishAttemptsForScreen(screenId))[0]!.status).toBe("success");
+    });
+
+    test("publishing without a draft redirects with error", async () => {
+      const ms = await createLiveMenuScreen();
+
+      const response = await handle(
+        mockFormRequest(`${menuUrl(ms.id)}/publish`, { csrf_token: userCsrfToken }, userCookie),
+      );
+      expect(response.headers.get("location")).toContain("error=");
+    });
+
+    test("discarding removes the draft", async () => {
+      const ms = await createLiveMenuScreen();
+      await saveMenuScreenDraft(ms.id, draftContent);
+
+      const response = await handle(
+        mockFormRequest(`${menuUrl(ms.id)}/draft/discard`, { csrf_token: userCsrfToken }, userCookie),
+      );
+      expect(response.headers.get("location")).toContain("success=");
+      const stored = await getMenuScreenById(ms.id);
+      expect(stored!.draft).toBeNull();
+      expect(stored!.template_id).toBe("grid-3x4");
+    });
+
+    test("updating directly publishes and supersedes the draft", async () => {
+      const ms = await createLiveMenuScreen();
+      await saveMenuScreenDraft(ms.id, draftContent);
+      globalThis.fetch = createMenuScreenMockFetch();
+
+      await handle(
+        mockFormRequest(
+          menuUrl(ms.id),
+          { csrf_token: userCsrfToken, name: "Direct", display_time: "30", sort_order: "0", template_id: "grid-3x4" },
+          userCookie,
+        ),
+      );
+      const stored = await getMenuScreenById(ms.id);
+      expect(stored!.draft).toBeNull();
+    });
+  });
 });
@@ -21,6 +21,13 @@ import {
   setSharedFolderId,
   updateXiboCredentials,
 } from "#lib/db/settings.ts";
+import {
+  createMenuScreen,
+  getMenuScreenById,
+  setMenuScreenItems,
+} from "#lib/db/menu-screens.ts";
+import { getPublishAttempts } from "#lib/db/publish-attempts.ts";
+import { createScreen } from "#lib/db/screens.ts";
 import { clearToken } from "#xibo/client.ts";
 import { cacheInvalidateAll } from "#xibo/cache.ts";
 import type { XiboMedia } from "#xibo/types.ts";
@@ -35,7 +42,8 @@ import {
   resetDb,
   restoreFetch,
 } from "#test-utils";
-import { parseProduct, COL } from "#routes/user/data-helpers.ts";
+import { parseProduct } from "#routes/user/data-helpers.ts";
+import { COL } from "#xibo/dataset.ts";
 import type { XiboDatasetRow } from "#xibo/types.ts";
 
 const XIBO_URL = "https://xibo.test";
@@ -92,7 +100,7 @@ describe("user product routes", () => {
     await createTestDbWithSetup();
     await updateXiboCredentials(XIBO_URL, "test-id", "test-secret");
     await setSharedFolderId(SHARED_FOLDER_ID);
-    clearToken();
+    await clearToken();
     await cacheInvalidateAll();
 
     const biz = await createBusiness("Test Business");
@@ -106,9 +114,9 @@ describe("user product routes", () => {
     await assignUserToBusiness(businessId, userId);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     restoreFetch();
-    clearToken();
+    await clearToken();
     resetDb();
   });
 
@@ -723,6 +731,105 @@ describe("user product routes", () => {
     });
   });
 
+  describe("screen refresh after product changes", () => {
+    /** Create a menu screen on a new screen (no display, so no scheduling) */
+    const addMenuScreen = async (screenName: string, templateId: string, productIds: number[]) => {
+      const screen = await createScreen(screenName, businessId, null);
+      const ms = await createMenuScreen("Specials", screen.id, templateId, 15, 0);
+      await setMenuScreenItems(ms.id, productIds);
+      return ms;
+    };
+
+    /** Mock the product API plus layout building, recording text widget names */
+    const mockRebuild = (layoutStatus = 200) => {
+      const widgets: string[] = [];
+      globalThis.fetch = createMockFetch({
+        [`/api/dataset/data/${DATASET_ID}/`]: (_url, init) =>
+          init?.method === "DELETE" ? new Response(null, { status: 204 }) : jsonResponse({ id: 1 }),
+        [`/api/dataset/data/${DATASET_ID}`]: () => jsonResponse(sampleProducts),
+        "/api/resolution": () =>
+          jsonResponse([{ resolutionId: 1, resolution: "1080x1920", width: 1080, height: 1920 }]),
+        "/api/layout/publish/": () => jsonResponse({}),
+        "/api/layout": () =>
+          layoutStatus === 200
+            ? jsonResponse({ layoutId: 700, campaignId: 710, layout: "Specials", description: "", status: 1, width: 1080, height: 1920, publishedStatusId: 1 })
+            : new Response("Error", { status: layoutStatus }),
+        "/api/region/": () =>
+          jsonResponse({ regionId: 1, width: 100, height: 100, top: 0, left: 0, zIndex: 0 }),
+        "/api/playlist/widget/text/": (_url, init) => {
+          widgets.push(JSON.parse(String(init?.body)).name);
+          return jsonResponse({ widgetId: 1, type: "text", displayOrder: 1 });
+        },
+      });
+      return widgets;
+    };
+
+    const post = (path: string, data: Record<string, string> = {}) =>
+      handle(mockFormRequest(
+        `/dashboard/business/${businessId}/product/${path}`,
+        { csrf_token: userCsrfToken, ...data },
+        userCookie,
+      ));
+
+    const location = (response: Response): string =>
+      decodeURIComponent(response.headers.get("location") ?? "");
+
+    test("edit republishes screens showing the product and reports them", async () => {
+      const ms = await addMenuScreen("Front Counter", "grid-3x4", [1]);
+      await addMenuScreen("Window", "grid-3x4", [2]);
+      mockRebuild();
+
+      const response = await post("1", { name: "Vanilla Bean", price: "3.75" });
+
+      expect(location(response)).toContain("Product updated. Refreshed screens: Front Counter");
+      expect((await getMenuScreenById(ms.id))!.xibo_layout_id).toBe(700);
+      const attempts = await getPublishAttempts(businessId);
+      expect(attempts.map((a) => [a.screen_id, a.status])).toEqual([[ms.screen_id, "success"]]);
+    });
+
+    test("toggle rebuilds without the disabled product", async () => {
+      await addMenuScreen("Front Counter", "list-6", [1, 2]);
+      const widgets = mockRebuild();
+
+      const response = await post("2/toggle");
+
+      expect(location(response)).toContain("Product enabled. Refreshed screens: Front Counter");
+      expect(widgets).toEqual(["Menu", "Vanilla - 3.50"]);
+    });
+
+    test("delete republishes affected screens", async () => {
+      await addMenuScreen("Front Counter", "grid-3x4", [1]);
+      await addMenuScreen("Back Bar", "grid-3x4", [1]);
+      mockRebuild();
+
+      const response = await post("1/delete");
+
+      expect(location(response)).toContain("Product deleted. Refreshed screens: Front Counter, Back Bar");
+    });
+
+    test("leaves dataset templates alone", async () => {
+      await addMenuScreen("Front Counter", "live-list", [1]);
+      mockRebuild();
+
+      const response = await post("1", { name: "Vanilla", price: "3.50" });
+
+      expect(location(response)).toMatch(/Product updated$/);
+      expect(await getPublishAttempts(businessId)).toEqual([]);
+    });
+
+    test("reports screens that failed to refresh", async () => {
+      await addMenuScreen("Front Counter", "grid-3x4", [1]);
+      mockRebuild(500);
+
+      const response = await post("1", { name: "Vanilla", price: "3.50" });
+
+      expect(location(response)).toContain(
+        "Product updated. Failed to refresh: Front Counter (see publish history)",
+      );
+      expect((await getPublishAttempts(businessId))[0]!.status).toBe("failed");
+    });
+  });
+
   describe("parseProduct", () => {
     test("parses media_id as null when mediaId is null", () => {
       const row: XiboDatasetRow = {
@@ -23,21 +23,25 @@ const session: AdminSession = {
 const sampleLayouts: XiboLayout[] = [
   {
     layoutId: 1,
+    campaignId: 11,
     layout: "Menu - Burgers",
     description: "Auto-generated",
     status: 3,
     width: 1080,
     height: 1920,
     publishedStatusId: 1,
+    duration: 10,
   },
   {
     layoutId: 2,
+    campaignId: 12,
     layout: "Menu - Drinks",
     description: "",
     status: 1,
     width: 1080,
     height: 1920,
     publishedStatusId: 0,
+    duration: 0,
   },
 ];
 
@@ -83,13 +83,14 @@ describe("AdminNav", () => {
     expect(html).toContain("/admin/users");
   });
 
-  it("shows Dashboard, Menu Boards, Media, Layouts, Datasets, Users, Logout for manager", () => {
+  it("shows Dashboard, Menu Boards, Media, Layouts, Datasets, Schedules, Users, Logout for manager", () => {
     const html = String(AdminNav({ session: managerSession }));
     expect(html).toContain("/admin/");
     expect(html).toContain("/admin/menuboards");
     expect(html).toContain("/admin/media");
     expect(html).toContain("/admin/layouts");
     expect(html).toContain("/admin/datasets");
+    expect(html).toContain("/admin/schedules");
     expect(html).toContain("/admin/users");
     expect(html).toContain("/admin/logout");
   });
@@ -102,6 +103,7 @@ describe("AdminNav", () => {
     expect(html).not.toContain("/admin/media");
     expect(html).not.toContain("/admin/layouts");
     expect(html).not.toContain("/admin/datasets");
+    expect(html).not.toContain("/admin/schedules");
     expect(html).not.toContain("/admin/users");
     expect(html).not.toContain("/admin/settings");
     expect(html).not.toContain("/admin/sessions");
@@ -166,6 +168,7 @@ describe("adminDashboardPage", () => {
     mediaCount: null,
     layoutCount: null,
     datasetCount: null,
+    stale: false,
   };
 
   const connected: DashboardStatus = {
@@ -175,6 +178,7 @@ describe("adminDashboardPage", () => {
     mediaCount: 12,
     layoutCount: 3,
     datasetCount: 2,
+    stale: false,
   };
 
   it("shows 'Not connected' with link to settings when disconnected", () => {
@@ -187,6 +191,27 @@ describe("adminDashboardPage", () => {
     const html = adminDashboardPage(ownerSession, connected);
     expect(html).toContain("Connected");
     expect(html).toContain("3.1.0");
+    expect(html).not.toContain("showing cached figures");
+  });
+
+  it("lists each connection's circuit breaker", () => {
+    const html = adminDashboardPage(ownerSession, connected, [
+      { connectionId: null, state: "closed", failures: 0 },
+      { connectionId: 2, state: "open", failures: 5 },
+    ], { 2: "North" });
+    expect(html).toContain("Circuit Breakers");
+    expect(html).toContain("<td>Default</td>");
+    expect(html).toContain("<td>North</td>");
+    expect(html).toContain('<td class="error">open</td>');
+  });
+
+  it("omits the breaker table without breakers", () => {
+    expect(adminDashboardPage(ownerSession, connected)).not.toContain("Circuit Breakers");
+  });
+
+  it("notes cached figures while the CMS is unreachable", () => {
+    const html = adminDashboardPage(ownerSession, { ...connected, stale: true });
+    expect(html).toContain("The CMS is unreachable — showing cached figures until it recovers.");
   });
 
   it("shows resource counts table when connected", () => {
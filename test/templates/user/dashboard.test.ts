@@ -28,6 +28,7 @@ const business1: DisplayBusiness = {
   xibo_folder_id: 100,
   folder_name: "icecream-abc",
   xibo_dataset_id: 500,
+  xibo_connection_id: null,
   created_at: "2024-01-15T10:00:00Z",
 };
 
@@ -37,6 +38,7 @@ const business2: DisplayBusiness = {
   xibo_folder_id: 200,
   folder_name: "pizza-xyz",
   xibo_dataset_id: 501,
+  xibo_connection_id: null,
   created_at: "2024-02-20T12:00:00Z",
 };
 
@@ -78,6 +80,7 @@ describe("userBusinessDetailPage", () => {
     business: business1,
     screenCount: 3,
     productCount: 12,
+    screens: [],
   };
 
   test("renders business overview with counts", () => {
@@ -87,6 +90,29 @@ describe("userBusinessDetailPage", () => {
     expect(html).toContain("12");
   });
 
+  test("shows each screen's display status", () => {
+    const screen = {
+      id: 4,
+      name: "Front",
+      business_id: 1,
+      xibo_display_id: 7,
+      xibo_display_group_id: null,
+      width: 1080,
+      height: 1920,
+      created_at: "2026-01-01T00:00:00Z",
+    };
+    const html = userBusinessDetailPage(session, {
+      ...summary,
+      screens: [
+        { screen, status: { state: "offline", display: null } },
+        { screen: { ...screen, id: 5, name: "Spare", xibo_display_id: null }, status: null },
+      ],
+    });
+    expect(html).toContain('href="/dashboard/business/1/screen/4/menus"');
+    expect(html).toContain("Offline");
+    expect(html).toContain("No display");
+  });
+
   test("renders quick links", () => {
     const html = userBusinessDetailPage(session, summary);
     expect(html).toContain("Manage Products");
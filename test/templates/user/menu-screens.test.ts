@@ -1,7 +1,7 @@
 /**
  * Tests for user menu screen page templates
  *
- * Verifies the HTML output of menu screen list, create, and edit pages.
+ * Verifies the HTML output of menu screen list, create, edit, and preview pages.
  */
 
 import {
@@ -13,12 +13,14 @@ import {
   userMenuScreenCreatePage,
   userMenuScreenEditPage,
   userMenuScreenListPage,
+  userMenuScreenPreviewPage,
 } from "#templates/user/menu-screens.tsx";
-import type { AdminSession } from "#lib/types.ts";
+import type { AdminSession, MenuScreenContent } from "#lib/types.ts";
 import type { DisplayBusiness } from "#lib/db/businesses.ts";
 import type { DisplayScreen } from "#lib/db/screens.ts";
 import type { DisplayMenuScreen } from "#lib/db/menu-screens.ts";
-import { TEMPLATES } from "#lib/templates/index.ts";
+import { BUILTIN_TEMPLATES } from "#lib/templates/builtin.ts";
+import type { LayoutTemplate } from "#lib/templates/index.ts";
 
 const session: AdminSession = {
   csrfToken: "test-csrf-token",
@@ -31,6 +33,7 @@ const business: DisplayBusiness = {
   xibo_folder_id: 100,
   folder_name: "test-cafe-abc",
   xibo_dataset_id: 500,
+  xibo_connection_id: null,
   created_at: "2024-01-01",
 };
 
@@ -39,6 +42,9 @@ const screen: DisplayScreen = {
   name: "Main Display",
   business_id: 1,
   xibo_display_id: 5,
+  xibo_display_group_id: null,
+  width: 1080,
+  height: 1920,
   created_at: "2024-01-01",
 };
 
@@ -51,7 +57,12 @@ const sampleMenuScreens: DisplayMenuScreen[] = [
     display_time: 30,
     sort_order: 1,
     xibo_layout_id: 100,
+    xibo_layout_campaign_id: 110,
     xibo_campaign_id: 50,
+    active_days: "1,2,3,4,5",
+    active_from: "07:00",
+    active_to: "11:00",
+    draft: null,
     created_at: "2024-01-01",
   },
   {
@@ -62,7 +73,12 @@ const sampleMenuScreens: DisplayMenuScreen[] = [
     display_time: 20,
     sort_order: 2,
     xibo_layout_id: 101,
+    xibo_layout_campaign_id: 111,
     xibo_campaign_id: 50,
+    active_days: null,
+    active_from: null,
+    active_to: null,
+    draft: null,
     created_at: "2024-01-01",
   },
 ];
@@ -86,6 +102,28 @@ describe("user menu screen templates", () => {
       expect(html).toContain("20s");
     });
 
+    test("shows each menu screen's active days and hours", () => {
+      const html = userMenuScreenListPage(session, business, screen, sampleMenuScreens);
+      expect(html).toContain("Mon, Tue, Wed, Thu, Fri 07:00–11:00");
+      expect(html).toContain("Always");
+    });
+
+    test("sums each daypart's rotation from its published menu screens", () => {
+      const unpublished = { ...sampleMenuScreens[1]!, id: 3, name: "Dinner", xibo_layout_id: null };
+      const html = userMenuScreenListPage(session, business, screen, [
+        ...sampleMenuScreens,
+        { ...sampleMenuScreens[1]!, id: 4, name: "Desserts", display_time: 15 },
+        unpublished,
+      ]);
+      expect(html).toContain("<td>Morning Menu (30s)</td><td>30s</td>");
+      expect(html).toContain("<td>Lunch Special (20s), Desserts (15s)</td><td>35s</td>");
+    });
+
+    test("leaves out the rotation until a menu screen is published", () => {
+      const unpublished = sampleMenuScreens.map((ms) => ({ ...ms, xibo_layout_id: null }));
+      expect(userMenuScreenListPage(session, business, screen, unpublished)).not.toContain("Rotation");
+    });
+
     test("renders empty state when no menu screens", () => {
       const html = userMenuScreenListPage(session, business, screen, []);
       expect(html).toContain("No menu screens yet");
@@ -113,6 +151,21 @@ describe("user menu screen templates", () => {
       const html = userMenuScreenListPage(session, business, screen, []);
       expect(html).toContain(`/dashboard/business/1/screen/10/menu/create`);
     });
+
+    test("links to the screen's publish history", () => {
+      const html = userMenuScreenListPage(session, business, screen, []);
+      expect(html).toContain(`/dashboard/business/1/screen/10/publishes`);
+    });
+
+    test("marks menu screens with a draft, linking to the preview", () => {
+      const html = userMenuScreenListPage(session, business, screen, [
+        { ...sampleMenuScreens[0]!, draft: "encrypted-draft" },
+        sampleMenuScreens[1]!,
+      ]);
+      expect(html).toContain("<mark>Draft</mark>");
+      expect(html).toContain("/dashboard/business/1/screen/10/menu/1/preview");
+      expect(html).not.toContain("/menu/2/preview");
+    });
   });
 
   describe("userMenuScreenCreatePage", () => {
@@ -121,7 +174,7 @@ describe("user menu screen templates", () => {
         session,
         business,
         screen,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         sampleProducts,
       );
       expect(html).toContain("Add Menu Screen");
@@ -131,12 +184,20 @@ describe("user menu screen templates", () => {
       expect(html).toContain("Simple List");
     });
 
+    test("renders daypart fields", () => {
+      const html = userMenuScreenCreatePage(session, business, screen, BUILTIN_TEMPLATES, []);
+      expect(html).toContain('name="active_days"');
+      expect(html).toContain('name="active_from"');
+      expect(html).toContain('name="active_to"');
+      expect(html).toContain('type="time"');
+    });
+
     test("renders product picker with available products", () => {
       const html = userMenuScreenCreatePage(
         session,
         business,
         screen,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         sampleProducts,
       );
       expect(html).toContain("Vanilla");
@@ -149,7 +210,7 @@ describe("user menu screen templates", () => {
         session,
         business,
         screen,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         [],
         "Validation error",
       );
@@ -161,7 +222,7 @@ describe("user menu screen templates", () => {
         session,
         business,
         screen,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         [],
       );
       expect(html).toContain("No products available");
@@ -172,7 +233,7 @@ describe("user menu screen templates", () => {
         session,
         business,
         screen,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         sampleProducts,
       );
       expect(html).toContain("test-csrf-token");
@@ -186,7 +247,7 @@ describe("user menu screen templates", () => {
         business,
         screen,
         sampleMenuScreens[0]!,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         sampleProducts,
         [1, 2],
       );
@@ -200,7 +261,7 @@ describe("user menu screen templates", () => {
         business,
         screen,
         sampleMenuScreens[0]!,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         sampleProducts,
         [],
       );
@@ -214,7 +275,7 @@ describe("user menu screen templates", () => {
         business,
         screen,
         sampleMenuScreens[0]!,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         sampleProducts,
         [1],
       );
@@ -228,7 +289,7 @@ describe("user menu screen templates", () => {
         business,
         screen,
         sampleMenuScreens[0]!,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         sampleProducts,
         [],
       );
@@ -242,11 +303,158 @@ describe("user menu screen templates", () => {
         business,
         screen,
         sampleMenuScreens[0]!,
-        TEMPLATES,
+        BUILTIN_TEMPLATES,
         sampleProducts,
         [],
       );
       expect(html).toContain("/dashboard/business/1/screen/10/menus");
     });
+
+    test("pre-fills active days and hours", () => {
+      const html = userMenuScreenEditPage(
+        session,
+        business,
+        screen,
+        sampleMenuScreens[0]!,
+        BUILTIN_TEMPLATES,
+        [],
+        [],
+      );
+      expect(html).toContain('name="active_days" value="1" checked');
+      expect(html).toContain('name="active_days" value="5" checked');
+      expect(html).not.toContain('name="active_days" value="6" checked');
+      expect(html).toContain('value="07:00"');
+      expect(html).toContain('value="11:00"');
+    });
+
+    test("offers saving as a draft", () => {
+      const html = userMenuScreenEditPage(
+        session, business, screen, sampleMenuScreens[0]!, BUILTIN_TEMPLATES, [], [],
+      );
+      expect(html).toContain('formaction="/dashboard/business/1/screen/10/menu/1/draft"');
+      expect(html).toContain("Save as Draft");
+      expect(html).not.toContain("You are editing an unpublished draft");
+    });
+
+    test("notes when editing a draft", () => {
+      const html = userMenuScreenEditPage(
+        session, business, screen, { ...sampleMenuScreens[0]!, draft: "encrypted-draft" },
+        BUILTIN_TEMPLATES, [], [],
+      );
+      expect(html).toContain("You are editing an unpublished draft");
+      expect(html).toContain("/dashboard/business/1/screen/10/menu/1/preview");
+    });
+  });
+
+  describe("userMenuScreenPreviewPage", () => {
+    const content: MenuScreenContent = {
+      name: "Evening Menu",
+      template_id: "list-6",
+      display_time: 45,
+      sort_order: 0,
+      active_days: "5,6",
+      active_from: "17:00",
+      active_to: "22:00",
+      product_row_ids: [1, 2],
+    };
+    const products = [
+      { name: "Vanilla", price: "3.50" },
+      { name: "Chocolate", price: "4.00" },
+    ];
+    const builtin = (id: string): LayoutTemplate =>
+      BUILTIN_TEMPLATES.find((t) => t.id === id)!;
+    const list6 = builtin("list-6");
+
+    test("renders the template with products in its slots", () => {
+      const html = userMenuScreenPreviewPage(session, business, screen, 1, content, list6, products, true);
+      expect(html).toContain("Preview Evening Menu");
+      expect(html).toContain("Simple List");
+      expect(html).toContain("45s");
+      expect(html).toContain("Fri, Sat 17:00–22:00");
+      expect(html).toContain(">Menu</div>");
+      expect(html).toContain("Vanilla - 3.50");
+      expect(html).toContain("Chocolate - 4.00");
+      // list-6 header is 200px tall; the first row starts below it at 1/4 scale
+      expect(html).toContain("position:absolute;top:50px;");
+    });
+
+    test("shows the product image beside its caption when set", () => {
+      const html = userMenuScreenPreviewPage(
+        session, business, screen, 1, content, list6,
+        [{ name: "Vanilla", price: "3.50", mediaId: 42 }, ...products.slice(1)],
+        true,
+      );
+      expect(html).toContain('src="/dashboard/media/42/preview?businessId=1"');
+      expect(html).toContain('alt="Vanilla"');
+      expect(html).toContain("Vanilla - 3.50");
+      expect(html).not.toContain("/dashboard/media/undefined");
+    });
+
+    test("lists every product in the single region of a dataset template", () => {
+      const html = userMenuScreenPreviewPage(
+        session, business, screen, 1, { ...content, template_id: "live-list" }, builtin("live-list"), products, true,
+      );
+      expect(html).toContain("Live List");
+      expect(html).toContain("<div>Vanilla - 3.50</div><div>Chocolate - 4.00</div>");
+    });
+
+    test("renders a custom template's header text and styles", () => {
+      const custom: LayoutTemplate = {
+        id: "specials",
+        name: "Specials",
+        description: "",
+        maxProducts: 2,
+        definition: {
+          header: {
+            top: 0, left: 0, width: 1, height: 0.1, text: "Today's Specials",
+            style: { font: "Georgia", fontSize: 64, background: "#222222" },
+          },
+          slots: [
+            { type: "products", top: 0.1, left: 0, width: 1, height: 0.9, cols: 2, rows: 1, style: { color: "#ffcc00" } },
+          ],
+        },
+      };
+      const html = userMenuScreenPreviewPage(
+        session, business, screen, 1, { ...content, template_id: "specials" }, custom, products, true,
+      );
+      expect(html).toContain(">Today's Specials</div>");
+      expect(html).toContain("font-family:Georgia;font-size:16px;background:#222222");
+      expect(html).toContain("color:#ffcc00\">Chocolate - 4.00");
+      // Two columns, each half the 270px preview width
+      expect(html).toContain("left:135px;width:135px;");
+    });
+
+    test("renders the preview at the screen's resolution", () => {
+      const van = { ...screen, width: 1920, height: 1080 };
+      const html = userMenuScreenPreviewPage(session, business, van, 1, content, list6, products, true);
+      expect(html).toContain("1920x1080 (landscape)");
+      // 1920x1080 at 1/4 scale
+      expect(html).toContain("position:relative;width:480px;height:270px;");
+    });
+
+    test("offers publish and discard for a draft", () => {
+      const html = userMenuScreenPreviewPage(
+        session, business, screen, 1, content, list6, products, true, "Draft saved",
+      );
+      expect(html).toContain("Unpublished draft");
+      expect(html).toContain("Draft saved");
+      expect(html).toContain('action="/dashboard/business/1/screen/10/menu/1/publish"');
+      expect(html).toContain('action="/dashboard/business/1/screen/10/menu/1/draft/discard"');
+      expect(html).toContain("Edit Draft");
+    });
+
+    test("shows the live version without draft actions", () => {
+      const html = userMenuScreenPreviewPage(session, business, screen, 1, content, list6, [], false);
+      expect(html).toContain("Live version");
+      expect(html).not.toContain("/publish");
+      expect(html).not.toContain("Discard Draft");
+    });
+
+    test("handles an unknown template", () => {
+      const html = userMenuScreenPreviewPage(
+        session, business, screen, 1, { ...content, template_id: "retired" }, undefined, [], false,
+      );
+      expect(html).toContain("Unknown template: retired");
+    });
   });
 });
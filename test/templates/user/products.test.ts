@@ -23,6 +23,7 @@ const business: DisplayBusiness = {
   xibo_folder_id: 100,
   folder_name: "icecream-abc",
   xibo_dataset_id: 500,
+  xibo_connection_id: null,
   created_at: "2024-01-15T10:00:00Z",
 };
 
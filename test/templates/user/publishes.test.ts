@@ -0,0 +1,131 @@
+/**
+ * Tests for publish history templates
+ */
+
+import { describe, expect, test } from "#test-compat";
+import type { AdminSession } from "#lib/types.ts";
+import type { DisplayBusiness } from "#lib/db/businesses.ts";
+import type { DisplayScreen } from "#lib/db/screens.ts";
+import type { PublishAttempt } from "#lib/db/publish-attempts.ts";
+import {
+  userBusinessPublishHistoryPage,
+  userScreenPublishHistoryPage,
+} from "#templates/user/publishes.tsx";
+
+const session: AdminSession = {
+  csrfToken: "test-csrf",
+  adminLevel: "user",
+};
+
+const business: DisplayBusiness = {
+  id: 1,
+  name: "Ice Cream Van",
+  xibo_folder_id: 100,
+  folder_name: "icecream-abc",
+  xibo_dataset_id: 500,
+  xibo_connection_id: null,
+  created_at: "2024-01-15T10:00:00Z",
+};
+
+const screen: DisplayScreen = {
+  id: 10,
+  name: "Van Screen",
+  business_id: 1,
+  xibo_display_id: 5,
+  xibo_display_group_id: null,
+  width: 1080,
+  height: 1920,
+  created_at: "2024-01-01",
+};
+
+const attempt = (overrides: Partial<PublishAttempt>): PublishAttempt => ({
+  id: 1,
+  created: "2024-06-01T09:30:15.123Z",
+  user_id: 2,
+  business_id: 1,
+  screen_id: 10,
+  status: "success",
+  completed_at: "2024-06-01T09:30:16.000Z",
+  duration_ms: 850,
+  error_detail: null,
+  ...overrides,
+});
+
+describe("publish history templates", () => {
+  describe("userScreenPublishHistoryPage", () => {
+    test("renders attempts with status, duration and start time", () => {
+      const html = userScreenPublishHistoryPage(session, business, screen, [
+        attempt({ id: 2, status: "failed", duration_ms: 2500, error_detail: "Xibo API error 500" }),
+        attempt({}),
+      ], new Set());
+      expect(html).toContain("Publish History - Van Screen");
+      expect(html).toContain("2024-06-01 09:30:15 UTC");
+      expect(html).toContain("Published");
+      expect(html).toContain("850 ms");
+      expect(html).toContain('<strong class="error">Failed</strong>');
+      expect(html).toContain("2.5 s");
+      expect(html).toContain("Xibo API error 500");
+      expect(html).not.toContain("<th>Screen</th>");
+    });
+
+    test("shows in-progress attempts without a duration", () => {
+      const html = userScreenPublishHistoryPage(session, business, screen, [
+        attempt({ status: "started", completed_at: null, duration_ms: null }),
+      ], new Set());
+      expect(html).toContain("In progress");
+      expect(html).toContain("—");
+    });
+
+    test("shows an unrecognised status as stored", () => {
+      const html = userScreenPublishHistoryPage(session, business, screen, [
+        attempt({ status: "cancelled" }),
+      ], new Set());
+      expect(html).toContain("<td>cancelled</td>");
+    });
+
+    test("renders empty state", () => {
+      const html = userScreenPublishHistoryPage(session, business, screen, [], new Set());
+      expect(html).toContain("No publishes recorded yet.");
+      expect(html).toContain("/dashboard/business/1/screen/10/menus");
+    });
+
+    test("offers rollback only for attempts with a snapshot", () => {
+      const html = userScreenPublishHistoryPage(
+        session,
+        business,
+        screen,
+        [attempt({ id: 3 }), attempt({ id: 2, status: "failed" })],
+        new Set([3]),
+      );
+      expect(html).toContain("<th>Rollback</th>");
+      expect(html).toContain('action="/dashboard/business/1/screen/10/publishes/3/rollback"');
+      expect(html).not.toContain("/publishes/2/rollback");
+      expect(html).toContain('name="reason"');
+      expect(html).toContain('value="test-csrf"');
+      expect(html).toContain("Roll back to this version");
+    });
+
+    test("renders success and error messages", () => {
+      const html = userScreenPublishHistoryPage(
+        session, business, screen, [], new Set(), "Screen rolled back", "Snapshot not found",
+      );
+      expect(html).toContain('<div class="success">Screen rolled back</div>');
+      expect(html).toContain('<div class="error">Snapshot not found</div>');
+    });
+  });
+
+  describe("userBusinessPublishHistoryPage", () => {
+    test("adds a screen column with names", () => {
+      const html = userBusinessPublishHistoryPage(
+        session,
+        business,
+        [attempt({}), attempt({ id: 2, screen_id: 11 })],
+        { 10: "Van Screen" },
+      );
+      expect(html).toContain("Publish History - Ice Cream Van");
+      expect(html).toContain("<th>Screen</th>");
+      expect(html).toContain("Van Screen");
+      expect(html).toContain("Screen #11");
+    });
+  });
+});